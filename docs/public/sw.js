@@ -0,0 +1,222 @@
+// DeliveryNav service worker: keeps the app usable without signal.
+//  - Map tiles are served cache-first; the client asks for the tiles around a
+//    route to be downloaded ahead of time (PRECACHE_TILES message). Tiles seen
+//    while browsing the map are kept too, up to MAX_RUNTIME_TILES.
+//  - The app shell and GET API responses are network-first with the last good
+//    response as the offline fallback.
+//  - Status updates queued offline (IndexedDB outbox, see lib/outbox.ts) are
+//    replayed on background sync, even when the app is closed.
+
+// Tiles are fetched with CORS so failed downloads can be told apart; v1 held
+// opaque responses, which count heavily against the storage quota
+const TILE_CACHE = "deliverynav-tiles-v2";
+const RUNTIME_TILE_CACHE = "deliverynav-tiles-runtime-v1";
+const APP_CACHE = "deliverynav-app-v1";
+const API_CACHE = "deliverynav-api-v1";
+
+// Tiles downloaded in parallel while precaching; kept low to respect the
+// OpenStreetMap tile usage policy
+const PRECACHE_CONCURRENCY = 2;
+
+// Tiles kept from browsing the map; the oldest go first. Downloaded areas are
+// kept separately and never evicted this way.
+const MAX_RUNTIME_TILES = 3000;
+// Tiles cached between checks of the runtime cache's size
+const RUNTIME_TRIM_INTERVAL = 50;
+
+const TILE_HOST = /(^|\.)tile\.openstreetmap\.org$/;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [TILE_CACHE, RUNTIME_TILE_CACHE, APP_CACHE, API_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The same tile is served from the a/b/c subdomains; cache it once
+function tileKey(url) {
+  const parsed = new URL(url);
+  return `https://tile.openstreetmap.org${parsed.pathname}`;
+}
+
+function fetchTile(url) {
+  return fetch(url, { mode: "cors", credentials: "omit" });
+}
+
+let runtimeTilesSinceTrim = 0;
+
+// Cache keys come back oldest first
+async function trimRuntimeTiles(cache) {
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_RUNTIME_TILES;
+  if (excess > 0) {
+    await Promise.all(keys.slice(0, excess).map((key) => cache.delete(key)));
+  }
+}
+
+async function tileFirst(request) {
+  const key = tileKey(request.url);
+  const downloaded = await caches.match(key, { cacheName: TILE_CACHE });
+  if (downloaded) return downloaded;
+
+  const cache = await caches.open(RUNTIME_TILE_CACHE);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+
+  const response = await fetchTile(request.url);
+  if (response.ok) {
+    await cache.put(key, response.clone());
+    if (++runtimeTilesSinceTrim >= RUNTIME_TRIM_INTERVAL) {
+      runtimeTilesSinceTrim = 0;
+      await trimRuntimeTiles(cache);
+    }
+  }
+  return response;
+}
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    // Client-side routes all render from the cached index page
+    if (request.mode === "navigate") {
+      const shell = await cache.match("/");
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (TILE_HOST.test(url.hostname)) {
+    event.respondWith(tileFirst(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/api/")) {
+    // Downloads are never needed offline
+    if (url.pathname.includes("/export/")) return;
+    event.respondWith(networkFirst(request, API_CACHE));
+    return;
+  }
+
+  event.respondWith(networkFirst(request, APP_CACHE));
+});
+
+async function precacheTiles(urls, port) {
+  const cache = await caches.open(TILE_CACHE);
+  let done = 0;
+  let failed = 0;
+  let next = 0;
+
+  async function worker() {
+    while (next < urls.length) {
+      const url = urls[next++];
+      const key = tileKey(url);
+      try {
+        if (!(await cache.match(key))) {
+          const response = await fetchTile(url);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await cache.put(key, response);
+        }
+      } catch (error) {
+        failed++;
+      }
+      done++;
+      port.postMessage({ type: "PRECACHE_PROGRESS", done, total: urls.length });
+    }
+  }
+
+  await Promise.all(Array.from({ length: PRECACHE_CONCURRENCY }, worker));
+  port.postMessage({ type: "PRECACHE_DONE", done, failed, total: urls.length });
+}
+
+self.addEventListener("message", (event) => {
+  const message = event.data || {};
+  const port = event.ports[0];
+
+  if (message.type === "PRECACHE_TILES" && port) {
+    event.waitUntil(precacheTiles(message.urls || [], port));
+  }
+
+  // Cached API responses belong to the logged-in user
+  if (message.type === "CLEAR_API_CACHE") {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+// Must match lib/offline.ts
+const DB_NAME = "deliverynav-offline";
+const DB_VERSION = 2;
+const OUTBOX_STORE = "outbox";
+
+function requestResult(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase() {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  // Created by the app; nothing to replay if it never ran with this version
+  request.onupgradeneeded = () => request.transaction.abort();
+  return requestResult(request);
+}
+
+// Same rules as replayOutbox in lib/outbox.ts: oldest first, stop on network or
+// server errors, drop entries the server refused
+async function replayOutbox() {
+  const db = await openDatabase();
+  let replayed = 0;
+  try {
+    const entries = await requestResult(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll());
+    for (const entry of entries) {
+      const response = await fetch(entry.url, {
+        method: entry.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry.body),
+        credentials: "include",
+      });
+      if (response.status >= 500 || response.status === 401) {
+        throw new Error(`Outbox replay stopped: HTTP ${response.status}`);
+      }
+      await requestResult(db.transaction(OUTBOX_STORE, "readwrite").objectStore(OUTBOX_STORE).delete(entry.id));
+      replayed++;
+    }
+  } finally {
+    db.close();
+    if (replayed > 0) {
+      const clients = await self.clients.matchAll({ type: "window" });
+      clients.forEach((client) => client.postMessage({ type: "OUTBOX_REPLAYED" }));
+    }
+  }
+}
+
+// A rejected promise makes the browser retry the sync later
+self.addEventListener("sync", (event) => {
+  if (event.tag === "outbox") {
+    event.waitUntil(replayOutbox());
+  }
+});
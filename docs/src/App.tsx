@@ -6,13 +6,23 @@ import NotFound from "@/pages/not-found";
 import PlanRoute from "@/pages/plan-route";
 import NavigationPage from "@/pages/navigation";
 import SummaryPage from "@/pages/summary";
+import HistoryPage from "@/pages/history";
+import DispatchPage from "@/pages/dispatch";
+import AuthPage from "@/pages/auth";
+import TrackPage from "@/pages/track";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={PlanRoute} />
-      <Route path="/navigation" component={NavigationPage} />
-      <Route path="/summary" component={SummaryPage} />
+      <ProtectedRoute path="/" component={PlanRoute} />
+      <ProtectedRoute path="/navigation" component={NavigationPage} />
+      <ProtectedRoute path="/summary" component={SummaryPage} />
+      <ProtectedRoute path="/history" component={HistoryPage} />
+      <ProtectedRoute path="/dispatch" component={DispatchPage} />
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/track/:token" component={TrackPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -21,8 +31,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -5,22 +5,28 @@ import { z } from 'zod';
 import { createInsertSchema } from 'drizzle-zod';
 import { addresses } from '@shared/schema';
 import { InsertAddress, Priority, TimeWindow } from '@shared/schema';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormDescription } from '@/components/ui/form';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormDescription, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { Plus, Clock } from 'lucide-react';
+import { Plus, Clock, Phone, Mail } from 'lucide-react';
 
 const formSchema = createInsertSchema(addresses).pick({
   fullAddress: true,
   timeWindow: true,
   exactDeliveryTime: true,
+  serviceTime: true,
   priority: true,
   specialInstructions: true,
+  customerPhone: true,
+  customerEmail: true,
 }).extend({
   fullAddress: z.string().min(1, "Address is required"),
+  customerPhone: z.string().max(40).nullable().optional(),
+  customerEmail: z.union([z.string().email("Enter a valid email"), z.literal('')]).nullable().optional(),
   exactDeliveryTime: z.string().optional(),
+  serviceTime: z.coerce.number().int().min(0).max(240).nullable().optional(),
 });
 
 type AddressFormValues = z.infer<typeof formSchema>;
@@ -40,6 +46,8 @@ export function AddressForm({ onSubmit, isSubmitting = false, defaultValues }: A
       exactDeliveryTime: '',
       priority: Priority.NORMAL,
       specialInstructions: '',
+      customerPhone: '',
+      customerEmail: '',
       ...defaultValues,
     },
   });
@@ -49,7 +57,10 @@ export function AddressForm({ onSubmit, isSubmitting = false, defaultValues }: A
     const formattedData: InsertAddress = {
       ...data,
       exactDeliveryTime: data.exactDeliveryTime || null,
+      serviceTime: data.serviceTime || null,
       specialInstructions: data.specialInstructions || null,
+      customerPhone: data.customerPhone?.trim() || null,
+      customerEmail: data.customerEmail?.trim() || null,
       timeWindow: data.timeWindow || TimeWindow.ANY,
       priority: data.priority || Priority.NORMAL,
     };
@@ -64,6 +75,8 @@ export function AddressForm({ onSubmit, isSubmitting = false, defaultValues }: A
         exactDeliveryTime: '',
         priority: Priority.NORMAL,
         specialInstructions: '',
+        customerPhone: '',
+        customerEmail: '',
       });
     }
   };
@@ -167,6 +180,83 @@ export function AddressForm({ onSubmit, isSubmitting = false, defaultValues }: A
           )}
         />
         
+        <FormField
+          control={form.control}
+          name="serviceTime"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm font-medium text-primary-700">Service Time (minutes)</FormLabel>
+              <FormControl>
+                <Input 
+                  type="number"
+                  min={0}
+                  placeholder="5" 
+                  className="border" 
+                  {...field}
+                  value={field.value ?? ''}
+                />
+              </FormControl>
+              <FormDescription className="text-xs text-gray-500">
+                Time needed at the stop to hand over the delivery
+              </FormDescription>
+            </FormItem>
+          )}
+        />
+        
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="customerPhone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-medium text-primary-700">
+                  <div className="flex items-center gap-2">
+                    <Phone className="h-4 w-4" />
+                    <span>Customer Phone</span>
+                  </div>
+                </FormLabel>
+                <FormControl>
+                  <Input 
+                    type="tel"
+                    placeholder="+1 555 123 4567" 
+                    className="border" 
+                    {...field}
+                    value={field.value || ''}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="customerEmail"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-medium text-primary-700">
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4" />
+                    <span>Customer Email</span>
+                  </div>
+                </FormLabel>
+                <FormControl>
+                  <Input 
+                    type="email"
+                    placeholder="name@example.com" 
+                    className="border" 
+                    {...field}
+                    value={field.value || ''}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <p className="text-xs text-gray-500 -mt-2">
+          The customer gets delivery updates and a tracking link by text and email
+        </p>
+        
         <FormField
           control={form.control}
           name="specialInstructions"
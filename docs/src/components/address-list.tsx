@@ -1,10 +1,12 @@
 import React from 'react';
 import { Address, DeliveryStatus, Priority } from '@shared/schema';
 import { cn } from '@/lib/utils';
-import { Clock, AlarmClock, Pencil, Trash } from 'lucide-react';
+import { Clock, AlarmClock, Pencil, Trash, Shuffle, Loader, Phone, Mail } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
+import { RouteOptimizationResult } from '@/lib/types';
+import { ROUTE_PREFERENCE_LABELS, RoutePreference } from '@shared/routing';
 
 interface AddressListProps {
   addresses: Address[];
@@ -15,8 +17,12 @@ interface AddressListProps {
     totalDistance: string;
     totalTime: string;
     totalFuel: string;
+    preferences?: RoutePreference[];
   };
   onStartRoute: () => void;
+  onOptimizeRoute?: () => void;
+  isOptimizingRoute?: boolean;
+  optimizationResult?: RouteOptimizationResult;
 }
 
 export function AddressList({ 
@@ -25,7 +31,10 @@ export function AddressList({
   onEditAddress, 
   onDeleteAddress,
   routeStats,
-  onStartRoute
+  onStartRoute,
+  onOptimizeRoute,
+  isOptimizingRoute = false,
+  optimizationResult
 }: AddressListProps) {
   if (isLoading) {
     return (
@@ -97,6 +106,17 @@ export function AddressList({
                       <p className="text-sm text-primary-500 mt-1">{address.specialInstructions}</p>
                     )}
                   </div>
+                  
+                  {(address.customerPhone || address.customerEmail) && (
+                    <div className="flex items-center gap-3 mt-1 text-xs text-primary-500">
+                      {address.customerPhone && (
+                        <span className="flex items-center"><Phone className="mr-1 h-3 w-3" /> {address.customerPhone}</span>
+                      )}
+                      {address.customerEmail && (
+                        <span className="flex items-center"><Mail className="mr-1 h-3 w-3" /> {address.customerEmail}</span>
+                      )}
+                    </div>
+                  )}
                 </div>
                 
                 <div className="flex items-center space-x-2">
@@ -158,17 +178,43 @@ export function AddressList({
                     <span>{routeStats.totalFuel}</span>
                   </div>
                 </div>
+                {!!routeStats.preferences?.length && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {routeStats.preferences.map(preference => (
+                      <Badge key={preference} variant="outline" className="bg-primary-100 text-primary-800 border-primary-200 text-xs">
+                        {ROUTE_PREFERENCE_LABELS[preference]}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {optimizationResult && (
+                  <p className="text-xs text-success-700 mt-1">
+                    Optimized order saves {optimizationResult.distanceSaved.toFixed(1)} mi
+                    ({optimizationResult.distanceBefore.toFixed(1)} mi → {optimizationResult.distanceAfter.toFixed(1)} mi)
+                  </p>
+                )}
               </div>
             ) : (
               <div></div>
             )}
             
-            <Button onClick={onStartRoute} variant="default" className="bg-success-500 hover:bg-success-600">
-              <svg className="h-4 w-4 mr-2" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                <polygon points="5 3 19 12 5 21 5 3"></polygon>
-              </svg>
-              Start Route
-            </Button>
+            <div className="flex items-center space-x-2">
+              {onOptimizeRoute && (
+                <Button onClick={onOptimizeRoute} variant="outline" disabled={isOptimizingRoute || addresses.length < 2}>
+                  {isOptimizingRoute 
+                    ? <Loader className="h-4 w-4 mr-2 animate-spin" /> 
+                    : <Shuffle className="h-4 w-4 mr-2" />}
+                  Optimize Order
+                </Button>
+              )}
+            
+              <Button onClick={onStartRoute} variant="default" className="bg-success-500 hover:bg-success-600">
+                <svg className="h-4 w-4 mr-2" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <polygon points="5 3 19 12 5 21 5 3"></polygon>
+                </svg>
+                Start Route
+              </Button>
+            </div>
           </div>
         </CardFooter>
       )}
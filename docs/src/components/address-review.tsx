@@ -0,0 +1,137 @@
+import React from 'react';
+import { Address, GeocodeStatus } from '@shared/schema';
+import { Coordinates } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Check, Loader, MapPin, Move, RefreshCw } from 'lucide-react';
+
+interface AddressReviewProps {
+  addresses: Address[];
+  onRelocate: (id: number, location?: Coordinates) => void;
+  isRelocating?: boolean;
+  draggingAddressId?: number;
+  onToggleDrag: (id: number | undefined) => void;
+}
+
+// Addresses the geocoder couldn't place with confidence
+export function needsLocationReview(address: Address): boolean {
+  return address.geocodeStatus !== GeocodeStatus.EXACT;
+}
+
+function statusLabel(address: Address): string {
+  if (address.geocodeStatus === GeocodeStatus.APPROXIMATE) return 'Approximate';
+  if (address.geocodeStatus === GeocodeStatus.FAILED) return 'Not found';
+  if (address.geocodeStatus === GeocodeStatus.PENDING) return 'Locating...';
+  return 'Not geocoded';
+}
+
+function isCurrentPosition(address: Address, candidate: Coordinates): boolean {
+  return parseFloat(address.latitude ?? '') === candidate.lat && parseFloat(address.longitude ?? '') === candidate.lng;
+}
+
+export function AddressReview({
+  addresses,
+  onRelocate,
+  isRelocating = false,
+  draggingAddressId,
+  onToggleDrag,
+}: AddressReviewProps) {
+  const flagged = addresses.filter(needsLocationReview);
+  if (flagged.length === 0) return null;
+
+  return (
+    <Card className="border-warning-200">
+      <CardHeader className="p-4 border-b border-primary-200">
+        <h2 className="text-lg font-semibold flex items-center">
+          <MapPin className="h-5 w-5 mr-2 text-warning-600" />
+          Review Locations
+        </h2>
+        <p className="text-sm text-primary-500">
+          {flagged.length} {flagged.length === 1 ? 'address needs' : 'addresses need'} checking before you drive.
+          Pick the right match or drag the amber pin on the map.
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-0">
+        <div className="divide-y divide-primary-200">
+          {flagged.map((address) => {
+            const candidates = address.geocodeCandidates ?? [];
+            const isDragging = draggingAddressId === address.id;
+            const hasPosition = !!address.latitude && !!address.longitude;
+
+            return (
+              <div key={address.id} className={cn("p-4 space-y-2", isDragging && "bg-warning-50")}>
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="font-medium">{address.fullAddress}</h3>
+                  <Badge
+                    variant="outline"
+                    className={address.geocodeStatus === GeocodeStatus.APPROXIMATE
+                      ? "bg-warning-100 text-warning-800 border-warning-200 shrink-0"
+                      : address.geocodeStatus === GeocodeStatus.PENDING
+                        ? "bg-primary-100 text-primary-700 border-primary-200 shrink-0"
+                        : "bg-destructive-100 text-destructive-800 border-destructive-200 shrink-0"}
+                  >
+                    {statusLabel(address)}
+                  </Badge>
+                </div>
+
+                {candidates.length > 0 && (
+                  <div className="space-y-1">
+                    {candidates.map((candidate, index) => {
+                      const isCurrent = isCurrentPosition(address, candidate);
+                      return (
+                        <button
+                          key={index}
+                          type="button"
+                          className={cn(
+                            "w-full text-left text-sm rounded border px-2 py-1 flex items-center",
+                            isCurrent ? "border-primary-400 bg-primary-50" : "border-primary-200 hover:bg-primary-50"
+                          )}
+                          onClick={() => onRelocate(address.id, { lat: candidate.lat, lng: candidate.lng })}
+                          disabled={isRelocating}
+                        >
+                          {isCurrent
+                            ? <Check className="h-3 w-3 mr-2 shrink-0 text-primary-700" />
+                            : <MapPin className="h-3 w-3 mr-2 shrink-0 text-primary-400" />}
+                          <span className="truncate">{candidate.label}</span>
+                          {candidate.matchLevel && candidate.matchLevel !== 'address' && (
+                            <span className="ml-auto pl-2 text-xs text-primary-500 shrink-0">{candidate.matchLevel} only</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant={isDragging ? "default" : "outline"}
+                    onClick={() => onToggleDrag(isDragging ? undefined : address.id)}
+                  >
+                    <Move className="h-4 w-4 mr-1" />
+                    {isDragging ? 'Done' : hasPosition ? 'Drag pin' : 'Place pin'}
+                  </Button>
+
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRelocate(address.id)}
+                    disabled={isRelocating}
+                  >
+                    {isRelocating
+                      ? <Loader className="h-4 w-4 mr-1 animate-spin" />
+                      : <RefreshCw className="h-4 w-4 mr-1" />}
+                    Look up again
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -132,6 +132,8 @@ export function CSVImport({ onImport, isImporting }: CSVImportProps) {
       exactDeliveryTime: row.exactDeliveryTime || null,
       priority: row.priority || 'Normal',
       specialInstructions: row.specialInstructions || '',
+      customerPhone: row.phone || null,
+      customerEmail: row.email || null,
     }));
   };
   
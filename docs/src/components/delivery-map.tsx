@@ -1,8 +1,11 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { AddressWithCoordinates, Coordinates, MapBounds, RouteStep } from '@/lib/types';
+import { AddressWithCoordinates, Coordinates, MapBounds, RoutePlaceVisit, RouteStep } from '@/lib/types';
 import { calculateBounds } from '@/lib/map-service';
-import { Address } from '@shared/schema';
+import { TILE_URL } from '@/lib/offline';
+import { Address, GeocodeStatus, ReportKind, ReportVote } from '@shared/schema';
+import { DriverPosition, DriverState } from '@shared/tracking';
+import { CommunityReportView } from '@shared/community';
 import { Loader, Navigation2 } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
@@ -13,6 +16,7 @@ interface DeliveryMapProps {
     coordinates: [number, number][];
     currentLocation?: Coordinates;
     steps?: RouteStep[];
+    places?: RoutePlaceVisit[]; // depots the route starts, reloads or ends at
   };
   isLoading?: boolean;
   activeAddressId?: number;
@@ -21,6 +25,75 @@ interface DeliveryMapProps {
   title?: string;
   fullScreen?: boolean;
   showRouteOverview?: boolean; // New prop to toggle between detailed navigation view and full route overview
+  draggableAddressId?: number; // marker the user can drag to correct its location
+  onAddressMoved?: (id: number, location: Coordinates) => void;
+  drivers?: DriverState[]; // live driver positions with their breadcrumb trails
+  livePosition?: DriverPosition; // the driver's GPS position, followed during turn-by-turn navigation
+  reports?: CommunityReportView[]; // hazards reported by drivers
+  onReportVote?: (id: number, vote: ReportVote) => void; // confirm or dismiss another driver's report
+}
+
+// Marker color and symbol for each kind of community report
+const REPORT_MARKERS: Record<string, { color: string; symbol: string }> = {
+  [ReportKind.CLOSURE]: { color: '#dc2626', symbol: '⛔' },
+  [ReportKind.CONSTRUCTION]: { color: '#ea580c', symbol: '🚧' },
+  [ReportKind.ACCIDENT]: { color: '#ca8a04', symbol: '⚠' },
+  [ReportKind.ACCESS]: { color: '#7c3aed', symbol: '🏢' },
+};
+
+// Label shown with a depot on the route
+const PLACE_ROLE_LABELS: Record<RoutePlaceVisit['role'], string> = {
+  start: 'Start',
+  reload: 'Reload',
+  end: 'End',
+};
+
+// Popup for a community report. Built from DOM nodes so notes written by other
+// drivers are shown as text, never as markup.
+function reportPopup(report: CommunityReportView, onVote?: (id: number, vote: ReportVote) => void): HTMLElement {
+  const container = document.createElement('div');
+  
+  const title = document.createElement('strong');
+  title.textContent = report.kind;
+  container.appendChild(title);
+  
+  if (report.note) {
+    const note = document.createElement('div');
+    note.textContent = report.note;
+    container.appendChild(note);
+  }
+  
+  const details = document.createElement('div');
+  details.style.color = '#64748b';
+  details.style.fontSize = '12px';
+  details.textContent = `Reported ${new Date(report.createdAt ?? report.expiresAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}` +
+    ` · ${report.confirmations} confirmed` +
+    (report.mine ? ' · Your report' : '');
+  container.appendChild(details);
+  
+  // Drivers vote on other drivers' reports only
+  if (onVote && !report.mine) {
+    const actions = document.createElement('div');
+    actions.style.display = 'flex';
+    actions.style.gap = '6px';
+    actions.style.marginTop = '6px';
+    
+    const voteButton = (label: string, vote: ReportVote) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = label;
+      button.style.padding = '2px 8px';
+      button.style.border = '1px solid #cbd5e1';
+      button.style.borderRadius = '4px';
+      button.onclick = () => onVote(report.id, vote);
+      actions.appendChild(button);
+    };
+    voteButton('Still there', ReportVote.CONFIRM);
+    voteButton('Gone', ReportVote.DISMISS);
+    container.appendChild(actions);
+  }
+  
+  return container;
 }
 
 export function DeliveryMap({ 
@@ -32,7 +105,13 @@ export function DeliveryMap({
   activeStepIndex = 0,
   title = "Route Preview",
   fullScreen = false,
-  showRouteOverview = false
+  showRouteOverview = false,
+  draggableAddressId,
+  onAddressMoved,
+  drivers,
+  livePosition,
+  reports,
+  onReportVote
 }: DeliveryMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<L.Map | null>(null);
@@ -40,7 +119,18 @@ export function DeliveryMap({
   const currentLocationMarkerRef = useRef<L.Marker | null>(null);
   const routeLayerRef = useRef<L.Polyline | null>(null);
   const roadOutlineRef = useRef<L.Polyline | null>(null);
+  const driversLayerRef = useRef<L.LayerGroup | null>(null);
+  const hasFittedDriversRef = useRef(false);
+  const livePositionMarkerRef = useRef<L.Marker | null>(null);
+  const reportsLayerRef = useRef<L.LayerGroup | null>(null);
+  const placesLayerRef = useRef<L.LayerGroup | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
+  
+  // Latest drag handler, kept out of the marker effect's dependencies
+  const onAddressMovedRef = useRef(onAddressMoved);
+  onAddressMovedRef.current = onAddressMoved;
+  const onReportVoteRef = useRef(onReportVote);
+  onReportVoteRef.current = onReportVote;
 
   // Initialize map on component mount
   useEffect(() => {
@@ -50,7 +140,7 @@ export function DeliveryMap({
     map.current = L.map(mapContainer.current).setView([50.0646, 19.9450], 8);
     
     // Add OpenStreetMap tiles
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+    L.tileLayer(TILE_URL, {
       maxZoom: 19,
       attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
     }).addTo(map.current);
@@ -225,15 +315,16 @@ export function DeliveryMap({
     
     if (addresses.length === 0 && !currentRoute?.currentLocation) return;
     
-    // Create custom marker icon
-    const createMarkerIcon = (index: number, isActive: boolean) => {
+    // Create custom marker icon. Approximate locations and the pin being
+    // corrected are amber.
+    const createMarkerIcon = (index: number, isActive: boolean, needsReview: boolean) => {
       return L.divIcon({
         className: 'custom-marker',
         html: `<div style="
           width: 25px;
           height: 25px;
           border-radius: 50%;
-          background-color: ${isActive ? '#ef4444' : '#0f172a'};
+          background-color: ${isActive ? '#ef4444' : needsReview ? '#f59e0b' : '#0f172a'};
           border: 2px solid white;
           color: white;
           text-align: center;
@@ -280,11 +371,22 @@ export function DeliveryMap({
       console.log(`Adding marker for address #${index + 1}:`, address.fullAddress, 'at position:', address.position);
       
       const isActive = address.id === activeAddressId;
+      const isDraggable = address.id === draggableAddressId;
+      const needsReview = isDraggable || address.geocodeStatus === GeocodeStatus.APPROXIMATE;
       try {
         const marker = L.marker([address.position[0], address.position[1]], {
-          icon: createMarkerIcon(index, isActive)
+          icon: createMarkerIcon(index, isActive, needsReview),
+          draggable: isDraggable,
+          zIndexOffset: isDraggable ? 500 : 0
         }).addTo(map.current!);
         
+        if (isDraggable) {
+          marker.on('dragend', () => {
+            const { lat, lng } = marker.getLatLng();
+            onAddressMovedRef.current?.(address.id, { lat, lng });
+          });
+        }
+        
         // Add popup with address info
         marker.bindPopup(
           `<strong>${address.fullAddress}</strong>` +
@@ -299,8 +401,11 @@ export function DeliveryMap({
       }
     });
     
-    // Calculate and set bounds considering current location
-    const coords = addresses.map(a => ({ lat: a.position[0], lng: a.position[1] }));
+    // Calculate and set bounds considering current location and depots
+    const coords = [
+      ...addresses.map(a => ({ lat: a.position[0], lng: a.position[1] })),
+      ...(currentRoute?.places ?? []).map(place => place.position),
+    ];
     const bounds = calculateBounds(coords, currentRoute?.currentLocation);
     
     // If in route overview mode, zoom out to show all stops and route
@@ -391,7 +496,208 @@ export function DeliveryMap({
         }
       }
     }
-  }, [addresses, mapLoaded, currentRoute, activeAddressId, showActiveStepDirections, activeStepIndex, showRouteOverview]);
+  }, [addresses, mapLoaded, currentRoute, activeAddressId, showActiveStepDirections, activeStepIndex, showRouteOverview, draggableAddressId]);
+  
+  // Draw live drivers: trail, then a marker at the latest position. Offline drivers are grey.
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    
+    driversLayerRef.current?.remove();
+    driversLayerRef.current = null;
+    if (!drivers || drivers.length === 0) return;
+    
+    const layer = L.layerGroup().addTo(map.current);
+    driversLayerRef.current = layer;
+    
+    drivers.forEach(driver => {
+      const color = driver.online ? '#7c3aed' : '#94a3b8';
+      
+      if (driver.trail.length > 1) {
+        L.polyline(driver.trail, { color, weight: 3, opacity: 0.6, dashArray: '4 6' }).addTo(layer);
+      }
+      
+      const label = driver.vehicleName || driver.driverName || (driver.routeId ? `Route #${driver.routeId}` : 'Driver');
+      const icon = L.divIcon({
+        className: 'driver-marker',
+        html: `<div style="
+          width: 28px;
+          height: 28px;
+          border-radius: 50%;
+          background-color: ${color};
+          border: 3px solid white;
+          box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        "><div style="
+          width: 0;
+          height: 0;
+          border-left: 5px solid transparent;
+          border-right: 5px solid transparent;
+          border-bottom: 10px solid white;
+          transform: rotate(${driver.position.heading ?? 0}deg);
+        "></div></div>`,
+        iconSize: [28, 28],
+        iconAnchor: [14, 14]
+      });
+      
+      L.marker([driver.position.lat, driver.position.lng], { icon, zIndexOffset: 1500 })
+        .bindPopup(
+          `<strong>${label}</strong>` +
+          (driver.driverName && driver.driverName !== label ? `<br>${driver.driverName}` : '') +
+          `<br>${driver.completed}/${driver.total} stops done` +
+          (driver.currentStop ? `<br>Next: ${driver.currentStop.fullAddress}` : '') +
+          (driver.online ? '' : '<br><em>Offline</em>')
+        )
+        .addTo(layer);
+    });
+    
+    // Frame the drivers once when there are no stops to frame instead
+    if (!hasFittedDriversRef.current && addresses.length === 0) {
+      const bounds = calculateBounds(drivers.map(driver => ({ lat: driver.position.lat, lng: driver.position.lng })));
+      map.current.fitBounds([
+        [bounds.south, bounds.west],
+        [bounds.north, bounds.east]
+      ], { padding: [60, 60], maxZoom: 15 });
+      hasFittedDriversRef.current = true;
+    }
+  }, [drivers, mapLoaded, addresses.length]);
+  
+  // Draw the depots on the route, one marker per place with all its roles
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    
+    placesLayerRef.current?.remove();
+    placesLayerRef.current = null;
+    const places = currentRoute?.places;
+    if (!places || places.length === 0) return;
+    
+    const layer = L.layerGroup().addTo(map.current);
+    placesLayerRef.current = layer;
+    
+    const byPosition = new Map<string, { place: RoutePlaceVisit; roles: Set<string> }>();
+    places.forEach(place => {
+      const key = `${place.position.lat},${place.position.lng}`;
+      const entry = byPosition.get(key) ?? { place, roles: new Set<string>() };
+      entry.roles.add(PLACE_ROLE_LABELS[place.role]);
+      byPosition.set(key, entry);
+    });
+    
+    byPosition.forEach(({ place, roles }) => {
+      const icon = L.divIcon({
+        className: 'depot-marker',
+        html: `<div style="
+          width: 26px;
+          height: 26px;
+          border-radius: 4px;
+          background-color: #0d9488;
+          border: 2px solid white;
+          box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+          color: white;
+          text-align: center;
+          line-height: 22px;
+          font-weight: bold;
+          font-size: 12px;
+        ">D</div>`,
+        iconSize: [26, 26],
+        iconAnchor: [13, 13]
+      });
+      
+      // Depot names are typed by users, so they go in as text
+      const popup = document.createElement('div');
+      const name = document.createElement('strong');
+      name.textContent = place.name;
+      popup.appendChild(name);
+      const details = document.createElement('div');
+      details.textContent = Array.from(roles).join(' · ');
+      popup.appendChild(details);
+      
+      L.marker([place.position.lat, place.position.lng], { icon, zIndexOffset: 800 })
+        .bindPopup(popup)
+        .addTo(layer);
+    });
+  }, [currentRoute?.places, mapLoaded]);
+  
+  // Draw community reports as warning markers
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    
+    reportsLayerRef.current?.remove();
+    reportsLayerRef.current = null;
+    if (!reports || reports.length === 0) return;
+    
+    const layer = L.layerGroup().addTo(map.current);
+    reportsLayerRef.current = layer;
+    
+    reports.forEach(report => {
+      const marker = REPORT_MARKERS[report.kind] ?? REPORT_MARKERS[ReportKind.CLOSURE];
+      const icon = L.divIcon({
+        className: 'report-marker',
+        html: `<div style="
+          width: 26px;
+          height: 26px;
+          border-radius: 6px;
+          background-color: white;
+          border: 2px solid ${marker.color};
+          box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          font-size: 14px;
+        ">${marker.symbol}</div>`,
+        iconSize: [26, 26],
+        iconAnchor: [13, 13]
+      });
+      
+      // The popup is built when opened, with the vote handler of that moment
+      L.marker([report.latitude, report.longitude], { icon, zIndexOffset: 1000 })
+        .bindPopup(() => reportPopup(report, onReportVoteRef.current && ((id, vote) => {
+          onReportVoteRef.current?.(id, vote);
+          map.current?.closePopup();
+        })))
+        .addTo(layer);
+    });
+  }, [reports, mapLoaded]);
+  
+  // Move the driver's marker with the GPS and keep it in view while navigating
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    
+    livePositionMarkerRef.current?.remove();
+    livePositionMarkerRef.current = null;
+    if (!livePosition) return;
+    
+    const icon = L.divIcon({
+      className: 'live-position-marker',
+      html: `<div style="
+        width: 24px;
+        height: 24px;
+        border-radius: 50%;
+        background-color: #2563eb;
+        border: 3px solid white;
+        box-shadow: 0 0 8px rgba(37, 99, 235, 0.6);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      "><div style="
+        width: 0;
+        height: 0;
+        border-left: 4px solid transparent;
+        border-right: 4px solid transparent;
+        border-bottom: 8px solid white;
+        transform: rotate(${livePosition.heading ?? 0}deg);
+      "></div></div>`,
+      iconSize: [24, 24],
+      iconAnchor: [12, 12]
+    });
+    
+    livePositionMarkerRef.current = L.marker([livePosition.lat, livePosition.lng], { icon, zIndexOffset: 2000 })
+      .addTo(map.current);
+    
+    if (showActiveStepDirections && !showRouteOverview) {
+      map.current.panTo([livePosition.lat, livePosition.lng]);
+    }
+  }, [livePosition, mapLoaded, currentRoute, showActiveStepDirections, showRouteOverview]);
   
   // Additional effect to handle map size changes when fullScreen or overview mode changes
   useEffect(() => {
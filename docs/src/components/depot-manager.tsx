@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Depot, DepotKind, InsertDepot } from '@shared/schema';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Building2, Home, Loader, MapPin, Plus, Trash, Warehouse, type LucideIcon } from 'lucide-react';
+
+const depotSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  kind: z.nativeEnum(DepotKind),
+  fullAddress: z.string().min(1, "Address is required"),
+});
+
+type DepotFormValues = z.infer<typeof depotSchema>;
+
+interface DepotManagerProps {
+  depots: Depot[];
+  onAddDepot: (depot: InsertDepot) => void;
+  onDeleteDepot: (id: number) => void;
+  isAddingDepot?: boolean;
+}
+
+const DEPOT_KIND_ICONS: Record<DepotKind, LucideIcon> = {
+  [DepotKind.WAREHOUSE]: Warehouse,
+  [DepotKind.HOME]: Home,
+  [DepotKind.HUB]: Building2,
+  [DepotKind.OTHER]: MapPin,
+};
+
+// Saved places routes can start at, end at or come back to for reloading
+export function DepotManager({
+  depots,
+  onAddDepot,
+  onDeleteDepot,
+  isAddingDepot = false,
+}: DepotManagerProps) {
+  const [showDepotForm, setShowDepotForm] = useState(false);
+
+  const form = useForm<DepotFormValues>({
+    resolver: zodResolver(depotSchema),
+    defaultValues: {
+      name: '',
+      kind: DepotKind.WAREHOUSE,
+      fullAddress: '',
+    },
+  });
+
+  const handleSubmit = (data: DepotFormValues) => {
+    onAddDepot(data);
+    form.reset();
+    setShowDepotForm(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="p-4 flex flex-row items-center justify-between space-y-0">
+        <h2 className="text-lg font-semibold">Depots</h2>
+        <Button variant="outline" size="sm" onClick={() => setShowDepotForm(!showDepotForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Depot
+        </Button>
+      </CardHeader>
+
+      <CardContent className="p-4 pt-0 space-y-4">
+        {showDepotForm && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-3 rounded-md border border-primary-200 p-3">
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Main warehouse" className="border" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.values(DepotKind).map((kind) => (
+                            <SelectItem key={kind} value={kind}>{kind}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="fullAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-primary-700">Address</FormLabel>
+                    <FormControl>
+                      <Input placeholder="123 Industrial Way, City" className="border" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button type="submit" size="sm" className="w-full" disabled={isAddingDepot}>
+                {isAddingDepot && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+                Save Depot
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        {depots.length === 0 ? (
+          <p className="text-sm text-primary-500">
+            Save your warehouse, home or hub to start, end or reload routes there.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {depots.map((depot) => {
+              const Icon = DEPOT_KIND_ICONS[depot.kind as DepotKind] ?? MapPin;
+              return (
+                <div key={depot.id} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Icon className="h-4 w-4 text-primary-500" />
+                    <div>
+                      <p className="font-medium">{depot.name}</p>
+                      <p className="text-xs text-primary-500">{depot.fullAddress}</p>
+                      {!depot.latitude && (
+                        <p className="text-xs text-destructive-600 flex items-center">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Address not found on the map
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive-500 hover:text-destructive-700"
+                    onClick={() => onDeleteDepot(depot.id)}
+                  >
+                    <Trash className="h-4 w-4" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
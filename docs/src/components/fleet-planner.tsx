@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { Link } from 'wouter';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FleetBalance, InsertVehicle, Vehicle } from '@shared/schema';
+import { FleetPlanResult } from '@/lib/types';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { AlertTriangle, Loader, Navigation2, Plus, Trash, Truck } from 'lucide-react';
+
+const timeOfDay = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, "Use HH:MM").or(z.literal(''));
+
+const vehicleSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  driverName: z.string().optional(),
+  capacity: z.coerce.number().int().min(1).nullable().optional(),
+  shiftStart: timeOfDay.optional(),
+  shiftEnd: timeOfDay.optional(),
+  depot: z.string().regex(/^\s*-?\d+(\.\d+)?\s*,\s*-?\d+(\.\d+)?\s*$/, "Use \"lat, lng\"").or(z.literal('')).optional(),
+});
+
+type VehicleFormValues = z.infer<typeof vehicleSchema>;
+
+interface FleetPlannerProps {
+  vehicles: Vehicle[];
+  onAddVehicle: (vehicle: InsertVehicle) => void;
+  onDeleteVehicle: (id: number) => void;
+  isAddingVehicle?: boolean;
+  onPlan: (balance: FleetBalance) => void;
+  isPlanning?: boolean;
+  plan?: FleetPlanResult;
+  canPlan?: boolean;
+}
+
+export function FleetPlanner({
+  vehicles,
+  onAddVehicle,
+  onDeleteVehicle,
+  isAddingVehicle = false,
+  onPlan,
+  isPlanning = false,
+  plan,
+  canPlan = true,
+}: FleetPlannerProps) {
+  const [balance, setBalance] = useState<FleetBalance>(FleetBalance.STOPS);
+  const [showVehicleForm, setShowVehicleForm] = useState(false);
+
+  const form = useForm<VehicleFormValues>({
+    resolver: zodResolver(vehicleSchema),
+    defaultValues: {
+      name: '',
+      driverName: '',
+      shiftStart: '',
+      shiftEnd: '',
+      depot: '',
+    },
+  });
+
+  const handleSubmit = (data: VehicleFormValues) => {
+    onAddVehicle({
+      name: data.name,
+      driverName: data.driverName || null,
+      capacity: data.capacity || null,
+      shiftStart: data.shiftStart || null,
+      shiftEnd: data.shiftEnd || null,
+      depot: data.depot || null,
+    });
+    form.reset();
+    setShowVehicleForm(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="p-4 flex flex-row items-center justify-between space-y-0">
+        <h2 className="text-lg font-semibold">Fleet</h2>
+        <Button variant="outline" size="sm" onClick={() => setShowVehicleForm(!showVehicleForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Vehicle
+        </Button>
+      </CardHeader>
+
+      <CardContent className="p-4 pt-0 space-y-4">
+        {showVehicleForm && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-3 rounded-md border border-primary-200 p-3">
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Vehicle</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Van 1" className="border" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="driverName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Driver</FormLabel>
+                      <FormControl>
+                        <Input className="border" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="capacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Max stops</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} placeholder="No limit" className="border" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="depot"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Depot</FormLabel>
+                      <FormControl>
+                        <Input placeholder="lat, lng" className="border" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="shiftStart"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Shift start</FormLabel>
+                      <FormControl>
+                        <Input type="time" className="border" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="shiftEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-primary-700">Shift end</FormLabel>
+                      <FormControl>
+                        <Input type="time" className="border" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <Button type="submit" size="sm" className="w-full" disabled={isAddingVehicle}>
+                {isAddingVehicle && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+                Add Vehicle
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        {vehicles.length === 0 ? (
+          <p className="text-sm text-primary-500">
+            Add your vans to split the stops into one route per driver.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {vehicles.map((vehicle) => (
+              <div key={vehicle.id} className="flex items-center justify-between text-sm">
+                <div className="flex items-center space-x-2">
+                  <Truck className="h-4 w-4 text-primary-500" />
+                  <div>
+                    <p className="font-medium">
+                      {vehicle.name}
+                      {vehicle.driverName && <span className="text-primary-500 font-normal"> · {vehicle.driverName}</span>}
+                    </p>
+                    <p className="text-xs text-primary-500">
+                      {vehicle.capacity ? `Up to ${vehicle.capacity} stops` : 'No stop limit'}
+                      {vehicle.shiftStart && vehicle.shiftEnd && ` · ${vehicle.shiftStart}–${vehicle.shiftEnd}`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive-500 hover:text-destructive-700"
+                  onClick={() => onDeleteVehicle(vehicle.id)}
+                >
+                  <Trash className="h-4 w-4" />
+                  <span className="sr-only">Remove</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="flex items-center space-x-2">
+          <Select value={balance} onValueChange={(value) => setBalance(value as FleetBalance)}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Balance by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FleetBalance.STOPS}>Balance {FleetBalance.STOPS.toLowerCase()}</SelectItem>
+              <SelectItem value={FleetBalance.DRIVE_TIME}>Balance {FleetBalance.DRIVE_TIME.toLowerCase()}</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button onClick={() => onPlan(balance)} disabled={isPlanning || !canPlan || vehicles.length === 0}>
+            {isPlanning && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+            Split Into Routes
+          </Button>
+        </div>
+
+        {plan && plan.routes.length > 0 && (
+          <div className="space-y-2">
+            {plan.routes.map(({ route, vehicle, addresses, minutes, overShift }) => (
+              <div key={route.id} className="flex items-center justify-between rounded-md border border-primary-200 p-2 text-sm">
+                <div>
+                  <p className="font-medium">{vehicle.name}</p>
+                  <p className="text-xs text-primary-500">
+                    {addresses.length} stops · {route.totalDistance} · {route.totalTime}
+                  </p>
+                  {overShift && (
+                    <p className="text-xs text-destructive-600 flex items-center">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      {minutes} min exceeds the shift
+                    </p>
+                  )}
+                </div>
+                <Link href={`/navigation?route=${route.id}`}>
+                  <Button variant="outline" size="sm">
+                    <Navigation2 className="h-4 w-4 mr-1" />
+                    Drive
+                  </Button>
+                </Link>
+              </div>
+            ))}
+
+            {plan.unassigned.length > 0 && (
+              <p className="text-xs text-destructive-600">
+                {plan.unassigned.length} stops were not assigned (over capacity or not located).
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
 import React from 'react';
 import { Link, useLocation } from 'wouter';
-import { Settings, User, Navigation } from 'lucide-react';
+import { Settings, User, Navigation, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
 
 export function Header() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <header className="sticky top-0 z-50 border-b bg-white">
@@ -31,11 +33,23 @@ export function Header() {
           </Link>
           
           <Link href="/profile">
-            <Button variant="ghost" size="icon">
+            <Button variant="ghost" size="icon" title={user?.username}>
               <User className="h-5 w-5" />
               <span className="sr-only">Profile</span>
             </Button>
           </Link>
+          
+          {user && (
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="h-5 w-5" />
+              <span className="sr-only">Log out</span>
+            </Button>
+          )}
         </div>
       </div>
     </header>
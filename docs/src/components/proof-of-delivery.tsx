@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DeliveryProof } from '@/lib/types';
+import { Camera, Check, Eraser, X } from 'lucide-react';
+
+interface ProofOfDeliveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  address?: string;
+  onConfirm: (proof: DeliveryProof) => void;
+}
+
+// Longest side of an uploaded photo; phone cameras produce far more than a proof needs
+const MAX_PHOTO_SIZE = 1280;
+
+// Shrink a camera photo and re-encode it as JPEG
+function downscalePhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.75));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the photo'));
+    };
+    image.src = url;
+  });
+}
+
+// Finger or mouse signature drawn on a canvas
+function SignaturePad({ onChange }: { onChange: (signature: string | undefined) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  // Match the canvas resolution to its on-screen size so strokes follow the finger
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = canvas.offsetWidth;
+    canvas.height = canvas.offsetHeight;
+  }, []);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+
+    const { x, y } = pointAt(event);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#0f172a';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    const { x, y } = pointAt(event);
+    context?.lineTo(x, y);
+    context?.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(undefined);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-32 border border-primary-200 rounded-md bg-white touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+        <Eraser className="h-4 w-4 mr-1" /> Clear
+      </Button>
+    </div>
+  );
+}
+
+export function ProofOfDeliveryDialog({ open, onOpenChange, address, onConfirm }: ProofOfDeliveryDialogProps) {
+  const [recipientName, setRecipientName] = useState('');
+  const [photo, setPhoto] = useState<string | undefined>();
+  const [signature, setSignature] = useState<string | undefined>();
+  const [photoError, setPhotoError] = useState<string | undefined>();
+
+  // Start empty for every stop
+  useEffect(() => {
+    if (open) {
+      setRecipientName('');
+      setPhoto(undefined);
+      setSignature(undefined);
+      setPhotoError(undefined);
+    }
+  }, [open]);
+
+  const handlePhotoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again after removing it
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setPhoto(await downscalePhoto(file));
+      setPhotoError(undefined);
+    } catch (error) {
+      setPhotoError((error as Error).message);
+    }
+  };
+
+  const handleConfirm = () => {
+    onConfirm({
+      recipientName: recipientName.trim() || undefined,
+      photo,
+      signature,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Proof of Delivery</DialogTitle>
+          <DialogDescription>
+            {address ? `Record who received the parcel at ${address}.` : 'Record who received the parcel.'} All fields are optional.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="recipient-name">Recipient name</Label>
+            <Input
+              id="recipient-name"
+              placeholder="Who took the parcel"
+              value={recipientName}
+              onChange={(e) => setRecipientName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="proof-photo">Photo</Label>
+            {photo ? (
+              <div className="relative">
+                <img src={photo} alt="Delivery photo" className="w-full max-h-48 object-contain rounded-md border border-primary-200" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="absolute top-2 right-2"
+                  onClick={() => setPhoto(undefined)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <label
+                htmlFor="proof-photo"
+                className="flex items-center justify-center h-20 border border-dashed border-primary-300 rounded-md text-sm text-primary-500 cursor-pointer hover:bg-primary-50"
+              >
+                <Camera className="h-5 w-5 mr-2" /> Take a photo
+              </label>
+            )}
+            <input
+              id="proof-photo"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              onChange={handlePhotoChange}
+            />
+            {photoError && <p className="text-xs text-destructive-600">{photoError}</p>}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Signature</Label>
+            {open && <SignaturePad onChange={setSignature} />}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button className="bg-success-500 hover:bg-success-600" onClick={handleConfirm}>
+            <Check className="mr-2 h-4 w-4" /> Confirm Delivery
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Coordinates } from '@/lib/types';
+import { getCurrentLocation } from '@/lib/map-service';
+import { ReportKind } from '@shared/schema';
+import { Ban, Building2, Car, Construction, Loader, type LucideIcon } from 'lucide-react';
+
+interface ReportHazardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The driver's tracked position; asked from the device when missing
+  location?: Coordinates;
+  onReport: (report: { kind: ReportKind; location: Coordinates; note?: string }) => void;
+}
+
+export const REPORT_KIND_ICONS: Record<ReportKind, LucideIcon> = {
+  [ReportKind.CLOSURE]: Ban,
+  [ReportKind.CONSTRUCTION]: Construction,
+  [ReportKind.ACCIDENT]: Car,
+  [ReportKind.ACCESS]: Building2,
+};
+
+// Tell other drivers about a hazard where the driver is right now
+export function ReportHazardDialog({ open, onOpenChange, location, onReport }: ReportHazardDialogProps) {
+  const [kind, setKind] = useState<ReportKind | undefined>();
+  const [note, setNote] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | undefined>();
+
+  // Start empty for every report
+  useEffect(() => {
+    if (open) {
+      setKind(undefined);
+      setNote('');
+      setLocationError(undefined);
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!kind) return;
+
+    let reportLocation = location;
+    if (!reportLocation) {
+      setLocating(true);
+      try {
+        reportLocation = await getCurrentLocation();
+      } catch (error) {
+        setLocationError('Your location is needed to place the report. Check location permissions and try again.');
+        return;
+      } finally {
+        setLocating(false);
+      }
+    }
+
+    onReport({ kind, location: reportLocation, note: note.trim() || undefined });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report a Hazard</DialogTitle>
+          <DialogDescription>
+            The report is placed at your current location and shown to other drivers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {Object.values(ReportKind).map(option => {
+              const Icon = REPORT_KIND_ICONS[option];
+              return (
+                <Button
+                  key={option}
+                  type="button"
+                  variant={kind === option ? 'default' : 'outline'}
+                  className="h-16 flex-col"
+                  onClick={() => setKind(option)}
+                >
+                  <Icon className="h-5 w-5 mb-1" />
+                  {option}
+                </Button>
+              );
+            })}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="report-note">Note (optional)</Label>
+            <Textarea
+              id="report-note"
+              placeholder="e.g. Left lane blocked, gate code needed"
+              maxLength={200}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          {locationError && <p className="text-xs text-destructive-600">{locationError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!kind || locating} onClick={handleSubmit}>
+            {locating && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Send Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
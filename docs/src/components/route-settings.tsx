@@ -7,7 +7,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { RouteSettings, TrafficDataProvider } from '@shared/schema';
+import { Input } from '@/components/ui/input';
+import { Depot, PriorityWeighting, RouteSettings, RoutingProviderType, TrafficDataProvider } from '@shared/schema';
 import { Separator } from '@/components/ui/separator';
 import { CheckedState } from '@radix-ui/react-checkbox';
 
@@ -18,24 +19,50 @@ const formSchema = z.object({
   avoidHighways: z.boolean().default(false),
   avoidTolls: z.boolean().default(false),
   minimizeLeftTurns: z.boolean().default(false),
-  startingPoint: z.string().default('Current Location'),
+  startDepotId: z.number().nullable().default(null),
+  endDepotId: z.number().nullable().default(null),
   returnToStart: z.boolean().default(false),
+  reloadDepotId: z.number().nullable().default(null),
+  reloadAfterStops: z.coerce.number().int().min(1).nullable().default(null),
+  priorityWeighting: z.string().default(PriorityWeighting.BALANCED),
   offlineMode: z.boolean().default(false),
   trafficDataProvider: z.string().default(TrafficDataProvider.OPENDATA),
+  routingProvider: z.string().default(RoutingProviderType.SERVER_DEFAULT),
+  routingUrl: z.string().default(''),
 });
 
+// Providers that can point at a custom server URL
+const URL_PROVIDERS: string[] = [
+  RoutingProviderType.SELF_HOSTED,
+  RoutingProviderType.OSRM,
+  RoutingProviderType.OPENROUTESERVICE,
+  RoutingProviderType.VALHALLA,
+];
+
 type RouteSettingsFormValues = z.infer<typeof formSchema>;
 
+// Select values for the route's start and end that aren't depots
+const CURRENT_LOCATION = 'current';
+const LAST_STOP = 'last';
+const BACK_TO_START = 'start';
+const NO_RELOAD = 'none';
+
 interface RouteSettingsFormProps {
   onSubmit: (data: Partial<RouteSettings>) => void;
   isSubmitting?: boolean;
   defaultValues?: RouteSettings;
+  depots?: Depot[]; // saved places to start, end and reload at
+  onDownloadOfflineMaps?: () => void;
+  offlineDownloadProgress?: { done: number; total: number }; // set while tiles download
 }
 
 export function RouteSettingsForm({ 
   onSubmit, 
   isSubmitting = false, 
-  defaultValues 
+  defaultValues,
+  depots = [],
+  onDownloadOfflineMaps,
+  offlineDownloadProgress
 }: RouteSettingsFormProps) {
   const form = useForm<RouteSettingsFormValues>({
     resolver: zodResolver(formSchema),
@@ -45,10 +72,16 @@ export function RouteSettingsForm({
       avoidHighways: defaultValues?.avoidHighways ?? false,
       avoidTolls: defaultValues?.avoidTolls ?? false,
       minimizeLeftTurns: defaultValues?.minimizeLeftTurns ?? false,
-      startingPoint: defaultValues?.startingPoint ?? 'Current Location',
+      startDepotId: defaultValues?.startDepotId ?? null,
+      endDepotId: defaultValues?.endDepotId ?? null,
       returnToStart: defaultValues?.returnToStart ?? false,
+      reloadDepotId: defaultValues?.reloadDepotId ?? null,
+      reloadAfterStops: defaultValues?.reloadAfterStops ?? null,
+      priorityWeighting: defaultValues?.priorityWeighting ?? PriorityWeighting.BALANCED,
       offlineMode: defaultValues?.offlineMode ?? false,
       trafficDataProvider: defaultValues?.trafficDataProvider ?? TrafficDataProvider.OPENDATA,
+      routingProvider: defaultValues?.routingProvider ?? RoutingProviderType.SERVER_DEFAULT,
+      routingUrl: defaultValues?.routingUrl ?? '',
     },
   });
 
@@ -59,8 +92,19 @@ export function RouteSettingsForm({
 
   // Auto-submit when form values change
   const handleChange = form.handleSubmit((data) => {
-    onSubmit(data);
+    onSubmit({ ...data, routingUrl: data.routingUrl.trim() || null });
   });
+  
+  const routingProvider = form.watch('routingProvider');
+  const returnToStart = form.watch('returnToStart');
+  const reloadDepotId = form.watch('reloadDepotId');
+  
+  // Depots the geocoder couldn't place can't be routed to
+  const depotItems = depots.map((depot) => (
+    <SelectItem key={depot.id} value={String(depot.id)} disabled={!depot.latitude}>
+      {depot.name}{!depot.latitude && ' (not on map)'}
+    </SelectItem>
+  ));
 
   return (
     <Card>
@@ -168,13 +212,16 @@ export function RouteSettingsForm({
             
             <FormField
               control={form.control}
-              name="startingPoint"
+              name="startDepotId"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel className="text-sm font-medium text-primary-700">Starting Point</FormLabel>
                   <Select
-                    value={field.value || "Current Location"}
-                    onValueChange={field.onChange}
+                    value={field.value != null ? String(field.value) : CURRENT_LOCATION}
+                    onValueChange={(value) => {
+                      field.onChange(value === CURRENT_LOCATION ? null : Number(value));
+                      handleChange();
+                    }}
                     disabled={isSubmitting}
                   >
                     <FormControl>
@@ -183,8 +230,8 @@ export function RouteSettingsForm({
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="Current Location">Current Location</SelectItem>
-                      <SelectItem value="Enter Custom Location">Enter Custom Location</SelectItem>
+                      <SelectItem value={CURRENT_LOCATION}>Current Location</SelectItem>
+                      {depotItems}
                     </SelectContent>
                   </Select>
                 </FormItem>
@@ -193,29 +240,122 @@ export function RouteSettingsForm({
             
             <FormField
               control={form.control}
-              name="returnToStart"
+              name="endDepotId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-sm font-medium text-primary-700">Return to Start</FormLabel>
+                  <FormLabel className="text-sm font-medium text-primary-700">End Point</FormLabel>
                   <Select
-                    value={field.value ? 'Yes' : 'No'}
-                    onValueChange={(value) => field.onChange(value === 'Yes')}
+                    value={field.value != null ? String(field.value) : returnToStart ? BACK_TO_START : LAST_STOP}
+                    onValueChange={(value) => {
+                      const isDepot = value !== LAST_STOP && value !== BACK_TO_START;
+                      field.onChange(isDepot ? Number(value) : null);
+                      form.setValue('returnToStart', value === BACK_TO_START);
+                      handleChange();
+                    }}
                     disabled={isSubmitting}
                   >
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Return to start point?" />
+                        <SelectValue placeholder="Where the route ends" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="No">No</SelectItem>
-                      <SelectItem value="Yes">Yes</SelectItem>
+                      <SelectItem value={LAST_STOP}>Last stop</SelectItem>
+                      <SelectItem value={BACK_TO_START}>Back to starting point</SelectItem>
+                      {depotItems}
                     </SelectContent>
                   </Select>
                 </FormItem>
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="reloadDepotId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-primary-700">Reload At</FormLabel>
+                  <Select
+                    value={field.value != null ? String(field.value) : NO_RELOAD}
+                    onValueChange={(value) => {
+                      field.onChange(value === NO_RELOAD ? null : Number(value));
+                      if (value !== NO_RELOAD && !form.getValues('reloadAfterStops')) {
+                        form.setValue('reloadAfterStops', 10);
+                      }
+                      handleChange();
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Go back to reload?" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_RELOAD}>No reloading</SelectItem>
+                      {depotItems}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            
+            {reloadDepotId != null && (
+              <FormField
+                control={form.control}
+                name="reloadAfterStops"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-primary-700">Reload Every</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        {...field}
+                        value={field.value ?? ''}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      Stops delivered before driving back to the depot
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            )}
+            
+            <FormField
+              control={form.control}
+              name="priorityWeighting"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-primary-700">Priority Weighting</FormLabel>
+                  <Select
+                    value={field.value || PriorityWeighting.BALANCED}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      handleChange();
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="How much priority matters" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={PriorityWeighting.OFF}>Off - shortest route only</SelectItem>
+                      <SelectItem value={PriorityWeighting.BALANCED}>Balanced</SelectItem>
+                      <SelectItem value={PriorityWeighting.STRONG}>Strong - high priority first</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="text-xs">
+                    How strongly high-priority stops are served earlier at the cost of extra distance
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+            
             <Separator className="my-4" />
             
             <div className="pt-2">
@@ -275,6 +415,62 @@ export function RouteSettingsForm({
                 </FormItem>
               )}
             />
+            
+            <FormField
+              control={form.control}
+              name="routingProvider"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-primary-700">Routing Provider</FormLabel>
+                  <Select
+                    value={field.value || RoutingProviderType.SERVER_DEFAULT}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      handleChange();
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select routing provider" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.values(RoutingProviderType).map((provider) => (
+                        <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="text-xs">
+                    Where turn-by-turn directions come from. Mock draws straight lines without network access.
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+            
+            {URL_PROVIDERS.includes(routingProvider) && (
+              <FormField
+                control={form.control}
+                name="routingUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-primary-700">Routing Server URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder={routingProvider === RoutingProviderType.SELF_HOSTED ? 'http://localhost:5000' : 'Public server'}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      {routingProvider === RoutingProviderType.SELF_HOSTED
+                        ? 'Base URL of your osrm-backend container'
+                        : 'Leave empty to use the public server'}
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            )}
           </form>
         </Form>
       </CardContent>
@@ -288,19 +484,19 @@ export function RouteSettingsForm({
                 `last updated on ${new Date(defaultValues.offlineMapsLastUpdated).toLocaleDateString()}` : 
                 'not downloaded yet'}.
             </p>
+            <p className="text-xs text-yellow-700 mt-1">
+              Downloads map tiles around your current stops. Routes opened in Navigation are kept on this device.
+            </p>
             <Button
               size="sm"
               variant="outline"
               className="mt-2 text-xs"
-              onClick={() => {
-                onSubmit({
-                  ...form.getValues(),
-                  offlineMapsLastUpdated: new Date()
-                });
-              }}
-              disabled={isSubmitting}
+              onClick={onDownloadOfflineMaps}
+              disabled={isSubmitting || !onDownloadOfflineMaps || !!offlineDownloadProgress}
             >
-              {defaultValues?.offlineMapsLastUpdated ? 'Update Offline Maps' : 'Download Maps for Offline Use'}
+              {offlineDownloadProgress
+                ? `Downloading ${offlineDownloadProgress.done}/${offlineDownloadProgress.total} tiles...`
+                : defaultValues?.offlineMapsLastUpdated ? 'Update Offline Maps' : 'Download Maps for Offline Use'}
             </Button>
           </div>
         </CardFooter>
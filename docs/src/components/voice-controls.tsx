@@ -0,0 +1,77 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VOICE_LANGUAGES, VoiceLanguage, VoiceSettings } from '@/lib/voice-guidance';
+import { Volume2, VolumeX } from 'lucide-react';
+
+interface VoiceControlsProps {
+  settings: VoiceSettings;
+  onChange: (changes: Partial<VoiceSettings>) => void;
+  supported: boolean;
+}
+
+// Mute, volume and language of the spoken directions
+export function VoiceControls({ settings, onChange, supported }: VoiceControlsProps) {
+  const silent = settings.muted || !supported;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="rounded-full bg-white shadow"
+          aria-label={silent ? 'Voice guidance off' : 'Voice guidance on'}
+        >
+          {silent ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-4">
+        {!supported ? (
+          <p className="text-sm text-primary-500">This browser can't speak directions.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="voice-guidance">Voice guidance</Label>
+              <Switch
+                id="voice-guidance"
+                checked={!settings.muted}
+                onCheckedChange={(checked) => onChange({ muted: !checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Volume</Label>
+              <Slider
+                value={[Math.round(settings.volume * 100)]}
+                min={0}
+                max={100}
+                step={10}
+                disabled={settings.muted}
+                onValueChange={([volume]) => onChange({ volume: volume / 100 })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={settings.language} onValueChange={(language) => onChange({ language: language as VoiceLanguage })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VOICE_LANGUAGES.map(language => (
+                    <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
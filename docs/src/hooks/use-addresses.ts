@@ -2,14 +2,31 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useState } from 'react';
 import { toast } from '@/hooks/use-toast';
-import { Address, DeliveryStatus, InsertAddress } from '@shared/schema';
+import { Address, DeliveryStatus, GeocodeStatus, InsertAddress } from '@shared/schema';
+import { Coordinates, DeliveryProof } from '@/lib/types';
+import { enqueueRequest, isNetworkError } from '@/lib/outbox';
+import { countsAsAttempt, reattemptChanges } from '@shared/reattempt';
+
+// Swap one address in the cached list, keeping the list in route order
+function replaceCachedAddress(updated: Address) {
+  queryClient.setQueryData<Address[]>(['/api/addresses'], (addresses) =>
+    addresses
+      ?.map(address => address.id === updated.id ? updated : address)
+      .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0) || a.id - b.id)
+  );
+}
+
+// How often the list is refreshed while the server geocodes imported addresses
+const GEOCODE_POLL_INTERVAL_MS = 3000;
 
 export function useAddresses() {
   const [selectedAddressId, setSelectedAddressId] = useState<number | null>(null);
 
-  // Fetch all addresses
-  const addressesQuery = useQuery({
+  // Fetch all addresses, checking back while imported ones are still being located
+  const addressesQuery = useQuery<Address[]>({
     queryKey: ['/api/addresses'],
+    refetchInterval: (query) =>
+      query.state.data?.some(address => address.geocodeStatus === GeocodeStatus.PENDING) ? GEOCODE_POLL_INTERVAL_MS : false,
   });
 
   // Get a single address
@@ -20,15 +37,24 @@ export function useAddresses() {
 
   // Add a new address
   const createAddressMutation = useMutation({
-    mutationFn: async (newAddress: InsertAddress) => {
+    mutationFn: async (newAddress: InsertAddress): Promise<Address> => {
       const res = await apiRequest('POST', '/api/addresses', newAddress);
       return res.json();
     },
-    onSuccess: () => {
-      toast({
-        title: "Address added",
-        description: "The delivery address has been added to your route.",
-      });
+    onSuccess: (address) => {
+      // The server geocodes the address; without coordinates it can't be routed
+      if (!address.latitude || !address.longitude) {
+        toast({
+          title: "Geocoding failed",
+          description: `Could not find coordinates for: ${address.fullAddress}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Address added",
+          description: "The delivery address has been added to your route.",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
     },
     onError: (error) => {
@@ -93,7 +119,7 @@ export function useAddresses() {
     onSuccess: (data) => {
       toast({
         title: "Addresses imported",
-        description: `Successfully imported ${data.count} addresses.`,
+        description: `Imported ${data.count} addresses. They appear on the map as they are located.`,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
     },
@@ -106,16 +132,75 @@ export function useAddresses() {
     },
   });
 
-  // Update address status
+  // Update address status. Without signal the update is queued with the time of
+  // the tap and sent once the connection is back (see lib/outbox.ts).
   const updateAddressStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: DeliveryStatus }) => {
-      const res = await apiRequest('PATCH', `/api/addresses/${id}/status`, { status });
-      return res.json();
+    mutationFn: async ({ id, status, failureReason, notes, proof }: {
+      id: number;
+      status: DeliveryStatus;
+      failureReason?: string;
+      notes?: string;
+      proof?: DeliveryProof;
+    }): Promise<{ queued: boolean }> => {
+      const url = `/api/addresses/${id}/status`;
+      const body = { status, failureReason, notes, proof, clientTimestamp: new Date().toISOString() };
+      
+      try {
+        const res = await apiRequest('PATCH', url, body);
+        // A retried stop moves to the end of the route; reorder before the refetch lands
+        replaceCachedAddress(await res.json());
+        return { queued: false };
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        
+        await enqueueRequest({ method: 'PATCH', url, body });
+        
+        // Show the new status right away, applying the same re-attempt rules as the
+        // server; the server copy follows on replay
+        const addresses = queryClient.getQueryData<Address[]>(['/api/addresses']) ?? [];
+        const address = addresses.find(address => address.id === id);
+        if (address) {
+          const actionTime = new Date(body.clientTimestamp);
+          const updated: Address = {
+            ...address,
+            status,
+            statusUpdatedAt: actionTime,
+            failureReason: status === DeliveryStatus.DELIVERED ? null : failureReason ?? null,
+            notes: notes ?? address.notes,
+            deliveredAt: status === DeliveryStatus.DELIVERED ? actionTime : address.deliveredAt,
+            recipientName: proof?.recipientName ?? null,
+            retryAfter: null,
+          };
+          
+          if (countsAsAttempt(status)) {
+            Object.assign(updated, reattemptChanges(address, failureReason, actionTime, addresses));
+          }
+          replaceCachedAddress(updated);
+        }
+        return { queued: true };
+      }
     },
-    onSuccess: () => {
+    onSuccess: ({ queued }) => {
+      if (queued) {
+        toast({
+          title: "Saved offline",
+          description: "No connection. The status will be sent when you're back online.",
+        });
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
     },
     onError: (error) => {
+      // Another device recorded a later update for this stop
+      if (error.message.startsWith('409')) {
+        toast({
+          title: "Status not changed",
+          description: "A newer status update was already recorded for this stop.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
+        return;
+      }
       toast({
         title: "Failed to update status",
         description: error.message,
@@ -124,6 +209,30 @@ export function useAddresses() {
     },
   });
 
+  // Look an address up again, or set its position by hand (picked candidate or dragged pin)
+  const relocateAddressMutation = useMutation({
+    mutationFn: async ({ id, location }: { id: number; location?: Coordinates }): Promise<Address> => {
+      const res = await apiRequest('POST', `/api/addresses/${id}/geocode`, location ?? {});
+      return res.json();
+    },
+    onSuccess: (address) => {
+      toast({
+        title: "Location updated",
+        description: address.geocodeStatus === GeocodeStatus.FAILED
+          ? `Still no match for: ${address.fullAddress}`
+          : `${address.fullAddress} is now marked as ${address.geocodeStatus?.toLowerCase()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   return {
     addresses: addressesQuery.data as Address[] || [],
     isLoadingAddresses: addressesQuery.isLoading,
@@ -146,5 +255,8 @@ export function useAddresses() {
     
     updateAddressStatus: updateAddressStatusMutation.mutate,
     isUpdatingAddressStatus: updateAddressStatusMutation.isPending,
+    
+    relocateAddress: relocateAddressMutation.mutate,
+    isRelocatingAddress: relocateAddressMutation.isPending,
   };
 }
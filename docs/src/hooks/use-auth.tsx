@@ -0,0 +1,107 @@
+import React, { createContext, ReactNode, useContext } from 'react';
+import { useMutation, UseMutationResult, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { clearOfflineApiCache, clearOfflineRoutes } from '@/lib/offline';
+import { toast } from '@/hooks/use-toast';
+import { InsertUser, User } from '@shared/schema';
+
+// The server never sends the password hash back
+type PublicUser = Omit<User, 'password'>;
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  // Get the logged-in user; a 401 simply means nobody is logged in
+  const userQuery = useQuery<PublicUser | null, Error>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  // Log in
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest('POST', '/api/login', credentials);
+      return res.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(['/api/user'], user);
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Create an account
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest('POST', '/api/register', credentials);
+      return res.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(['/api/user'], user);
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Log out and drop everything cached for the previous user
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+      clearOfflineApiCache();
+      clearOfflineRoutes().catch(error => console.error("Failed to clear offline routes:", error));
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: userQuery.data ?? null,
+        isLoading: userQuery.isLoading,
+        error: userQuery.error,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
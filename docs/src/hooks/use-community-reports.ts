@@ -0,0 +1,78 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { ReportKind, ReportVote } from '@shared/schema';
+import { CommunityReportView } from '@shared/community';
+import { Coordinates } from '@/lib/types';
+
+// Other drivers' reports show up within a minute
+const REFRESH_INTERVAL_MS = 60000;
+
+export function useCommunityReports(enabled = true) {
+  // Hazards reported by drivers that haven't expired yet
+  const reportsQuery = useQuery<CommunityReportView[]>({
+    queryKey: ['/api/reports'],
+    refetchInterval: REFRESH_INTERVAL_MS,
+    enabled,
+  });
+
+  // Report a hazard at the driver's location
+  const createReportMutation = useMutation({
+    mutationFn: async (report: { kind: ReportKind; location: Coordinates; note?: string }) => {
+      const res = await apiRequest('POST', '/api/reports', {
+        kind: report.kind,
+        lat: report.location.lat,
+        lng: report.location.lng,
+        note: report.note,
+      });
+      return res.json();
+    },
+    onSuccess: (_data, report) => {
+      toast({
+        title: "Report sent",
+        description: `${report.kind} reported. Thanks for keeping other drivers informed.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to send report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Confirm a report is still accurate, or say it's gone
+  const voteMutation = useMutation({
+    mutationFn: async ({ id, vote }: { id: number; vote: ReportVote }) => {
+      const res = await apiRequest('POST', `/api/reports/${id}/${vote === ReportVote.CONFIRM ? 'confirm' : 'dismiss'}`);
+      return res.json();
+    },
+    onSuccess: (_data, { vote }) => {
+      toast({
+        title: vote === ReportVote.CONFIRM ? "Report confirmed" : "Report dismissed",
+        description: "Thanks for the update.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    reports: reportsQuery.data || [],
+    isLoadingReports: reportsQuery.isLoading,
+
+    createReport: createReportMutation.mutate,
+    isCreatingReport: createReportMutation.isPending,
+
+    voteOnReport: voteMutation.mutate,
+    isVoting: voteMutation.isPending,
+  };
+}
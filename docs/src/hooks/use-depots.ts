@@ -0,0 +1,73 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { Depot, InsertDepot } from '@shared/schema';
+
+// Same empty list on every render while loading, so effects depending on the depots don't rerun
+const NO_DEPOTS: Depot[] = [];
+
+export function useDepots() {
+  // Get all saved depots
+  const depotsQuery = useQuery({
+    queryKey: ['/api/depots'],
+  });
+
+  // Save a depot; the server looks up its coordinates
+  const createDepotMutation = useMutation({
+    mutationFn: async (depot: InsertDepot): Promise<Depot> => {
+      const res = await apiRequest('POST', '/api/depots', depot);
+      return res.json();
+    },
+    onSuccess: (depot) => {
+      toast({
+        title: "Depot saved",
+        description: depot.latitude
+          ? `${depot.name} can now be used as a start, end or reload point.`
+          : `${depot.name} was saved, but its address could not be found on the map.`,
+        variant: depot.latitude ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/depots'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save depot",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Remove a depot; route settings using it fall back to the defaults
+  const deleteDepotMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/depots/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Depot removed",
+        description: "The depot has been removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/depots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/route-settings'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to remove depot",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    depots: depotsQuery.data as Depot[] || NO_DEPOTS,
+    isLoadingDepots: depotsQuery.isLoading,
+
+    createDepot: createDepotMutation.mutate,
+    isCreatingDepot: createDepotMutation.isPending,
+
+    deleteDepot: deleteDepotMutation.mutate,
+    isDeletingDepot: deleteDepotMutation.isPending,
+  };
+}
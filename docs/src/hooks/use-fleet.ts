@@ -0,0 +1,100 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { FleetBalance, InsertVehicle, Vehicle } from '@shared/schema';
+import { Coordinates, FleetPlanResult } from '@/lib/types';
+
+export function useFleet() {
+  // Get all vehicles
+  const vehiclesQuery = useQuery({
+    queryKey: ['/api/vehicles'],
+  });
+
+  // Add a vehicle
+  const createVehicleMutation = useMutation({
+    mutationFn: async (vehicle: InsertVehicle) => {
+      const res = await apiRequest('POST', '/api/vehicles', vehicle);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Vehicle added",
+        description: "The vehicle has been added to your fleet.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/vehicles'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add vehicle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Remove a vehicle
+  const deleteVehicleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/vehicles/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Vehicle removed",
+        description: "The vehicle has been removed from your fleet.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/vehicles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/routes'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to remove vehicle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Split the pending stops into one route per vehicle
+  const planFleetMutation = useMutation({
+    mutationFn: async (params: {
+      balance: FleetBalance;
+      startLocation?: Coordinates;
+    }): Promise<FleetPlanResult> => {
+      const res = await apiRequest('POST', '/api/fleet/plan', params);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Fleet routes planned",
+        description: data.unassigned.length > 0
+          ? `${data.message}. ${data.unassigned.length} stops could not be assigned.`
+          : `${data.message}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/routes'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to plan fleet routes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    vehicles: vehiclesQuery.data as Vehicle[] || [],
+    isLoadingVehicles: vehiclesQuery.isLoading,
+    
+    createVehicle: createVehicleMutation.mutate,
+    isCreatingVehicle: createVehicleMutation.isPending,
+    
+    deleteVehicle: deleteVehicleMutation.mutate,
+    isDeletingVehicle: deleteVehicleMutation.isPending,
+    
+    planFleet: planFleetMutation.mutate,
+    isPlanningFleet: planFleetMutation.isPending,
+    fleetPlan: planFleetMutation.data,
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { StopSchedule } from '@shared/scheduler';
+import { apiRequest } from '@/lib/queryClient';
+
+interface CustomerNotificationsOptions {
+  enabled: boolean;
+  routeId: number | null;
+  currentStopId: number | null;
+  // Planned timeline of the route, for the ETAs customers are told
+  schedule?: StopSchedule[];
+}
+
+// Planned arrival (minutes since today's midnight) as a date
+function arrivalDate(minutes: number): Date {
+  const midnight = new Date();
+  midnight.setHours(0, 0, 0, 0);
+  return new Date(midnight.getTime() + minutes * 60000);
+}
+
+// Report the driver's progress so the server can text and email customers:
+// "out for delivery" once the route starts and "you're next" as each stop comes up
+export function useCustomerNotifications({ enabled, routeId, currentStopId, schedule }: CustomerNotificationsOptions) {
+  const reportedRef = useRef<{ routeId: number | null; currentStopId: number | null; schedule?: StopSchedule[] } | null>(null);
+  
+  useEffect(() => {
+    if (!enabled || currentStopId === null) return;
+    
+    // Only a new current stop or a recalculated timeline is worth a report
+    const previous = reportedRef.current;
+    if (previous && previous.routeId === routeId && previous.currentStopId === currentStopId && previous.schedule === schedule) return;
+    reportedRef.current = { routeId, currentStopId, schedule };
+    
+    apiRequest('POST', '/api/notifications/progress', {
+      routeId,
+      currentStopId,
+      etas: (schedule ?? []).map(stop => ({ id: stop.id, eta: arrivalDate(stop.arrival).toISOString() })),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }).catch(error => {
+      // Tried again with the next change
+      reportedRef.current = null;
+      console.error("Failed to report route progress:", error);
+    });
+  }, [enabled, routeId, currentStopId, schedule]);
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { OUTBOX_CHANGE_EVENT, countOutboxEntries } from '@/lib/outbox';
+
+// Number of status updates still waiting to be sent to the server
+export function usePendingUpdates(): number {
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    const update = () => {
+      countOutboxEntries()
+        .then(setPending)
+        .catch(() => setPending(0));
+    };
+    update();
+    window.addEventListener(OUTBOX_CHANGE_EVENT, update);
+    return () => window.removeEventListener(OUTBOX_CHANGE_EVENT, update);
+  }, []);
+
+  return pending;
+}
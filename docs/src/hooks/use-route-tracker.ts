@@ -0,0 +1,47 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { TrackerState, prepareTrackedRoute, trackPosition } from '@shared/route-tracker';
+import { DriverPosition } from '@shared/tracking';
+import { RouteStep } from '@/lib/types';
+
+// Follow the driver along the route as positions come in. `onOffRoute` runs
+// once each time the driver leaves the route.
+export function useRouteTracker(
+  route: { coordinates: [number, number][]; steps?: RouteStep[] } | undefined,
+  position: DriverPosition | undefined,
+  onOffRoute: (position: DriverPosition) => void
+) {
+  const [state, setState] = useState<TrackerState | undefined>();
+  const stateRef = useRef<TrackerState | undefined>();
+  
+  // Latest handler, kept out of the tracking effect's dependencies
+  const onOffRouteRef = useRef(onOffRoute);
+  onOffRouteRef.current = onOffRoute;
+  
+  const trackedRoute = useMemo(
+    () => route && route.coordinates.length > 1
+      ? prepareTrackedRoute(route.coordinates, (route.steps ?? []).map(step => step.location))
+      : undefined,
+    [route]
+  );
+  
+  // A new or recalculated route starts over
+  useEffect(() => {
+    stateRef.current = undefined;
+    setState(undefined);
+  }, [trackedRoute]);
+  
+  useEffect(() => {
+    if (!trackedRoute || !position) return;
+    
+    const previous = stateRef.current;
+    const next = trackPosition(trackedRoute, previous, position);
+    stateRef.current = next;
+    setState(next);
+    
+    if (next.offRoute && !previous?.offRoute) {
+      onOffRouteRef.current(position);
+    }
+  }, [trackedRoute, position]);
+  
+  return state;
+}
@@ -1,8 +1,9 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { toast } from '@/hooks/use-toast';
-import { InsertRoute, InsertRouteSettings, Route, RouteSettings } from '@shared/schema';
+import { InsertRoute, InsertRouteSettings, Route, RouteSettings, RouteStop } from '@shared/schema';
 import { useState } from 'react';
+import { Coordinates, RouteOptimizationResult } from '@/lib/types';
 
 export function useRouteSettings() {
   // Get route settings
@@ -40,6 +41,19 @@ export function useRouteSettings() {
   };
 }
 
+export function useRouteStops(routeId: number | undefined) {
+  // Get the stops frozen when the route was completed
+  const routeStopsQuery = useQuery({
+    queryKey: [`/api/routes/${routeId}/stops`],
+    enabled: routeId !== undefined,
+  });
+
+  return {
+    routeStops: routeStopsQuery.data as RouteStop[] || [],
+    isLoadingRouteStops: routeStopsQuery.isLoading,
+  };
+}
+
 export function useRoutes() {
   const [selectedRouteId, setSelectedRouteId] = useState<number | null>(null);
 
@@ -100,14 +114,18 @@ export function useRoutes() {
 
   // Optimize a route
   const optimizeRouteMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('POST', '/api/routes/optimize', {});
+    mutationFn: async (params: {
+      startLocation?: Coordinates;
+      // Reorder this route's stops instead of the stops not on a route yet
+      routeId?: number;
+    } = {}): Promise<RouteOptimizationResult> => {
+      const res = await apiRequest('POST', '/api/routes/optimize', params);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "Route optimized",
-        description: "Your delivery route has been optimized.",
+        description: `Your delivery route has been optimized. Saved ${data.distanceSaved.toFixed(1)} mi (${data.distanceBefore.toFixed(1)} mi → ${data.distanceAfter.toFixed(1)} mi).`,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
       queryClient.invalidateQueries({ queryKey: ['/api/routes'] });
@@ -133,6 +151,7 @@ export function useRoutes() {
         description: "Your delivery route has been marked as completed.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/routes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/addresses'] });
     },
     onError: (error) => {
       toast({
@@ -158,6 +177,7 @@ export function useRoutes() {
     
     optimizeRoute: optimizeRouteMutation.mutate,
     isOptimizingRoute: optimizeRouteMutation.isPending,
+    optimizationResult: optimizeRouteMutation.data,
     
     completeRoute: completeRouteMutation.mutate,
     isCompletingRoute: completeRouteMutation.isPending,
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { DriverPosition, DriverState, TrackedStop } from '@shared/tracking';
+import { connectTracking, replayDevicePositions, simulateDevicePosition, watchDevicePosition } from '@/lib/tracking';
+
+// Positions are sent at most this often; progress changes go out right away
+const SEND_INTERVAL_MS = 5000;
+
+interface DevicePositionOptions {
+  enabled: boolean;
+  // Drive this polyline ([lng, lat]) instead of reading the GPS, for testing
+  simulatedPath?: [number, number][];
+  // Replay these recorded positions (e.g. from a GPX file) instead of reading the GPS
+  replay?: DriverPosition[];
+}
+
+// The device's position: from the GPS, or a simulated or replayed drive
+export function useDevicePosition({ enabled, simulatedPath, replay }: DevicePositionOptions) {
+  const [position, setPosition] = useState<DriverPosition | undefined>();
+  
+  useEffect(() => {
+    if (!enabled) return;
+    
+    if (replay) return replayDevicePositions(replay, setPosition);
+    if (simulatedPath) return simulateDevicePosition(simulatedPath, setPosition);
+    return watchDevicePosition(setPosition, error => console.error(error.message));
+  }, [enabled, simulatedPath, replay]);
+  
+  return position;
+}
+
+interface DriverTrackingOptions {
+  enabled: boolean;
+  position: DriverPosition | undefined;
+  routeId: number | null;
+  currentStop: TrackedStop | null;
+  completed: number;
+  total: number;
+  simulated: boolean;
+}
+
+// Stream the driver's position and progress to the dispatcher view
+export function useDriverTracking({ enabled, position, routeId, currentStop, completed, total, simulated }: DriverTrackingOptions) {
+  const [connected, setConnected] = useState(false);
+  
+  // Latest position and progress, read when a position is sent
+  const latestRef = useRef({ position, routeId, currentStop, completed, total, simulated });
+  latestRef.current = { position, routeId, currentStop, completed, total, simulated };
+  
+  const connectionRef = useRef<ReturnType<typeof connectTracking> | null>(null);
+  const lastSentAtRef = useRef(0);
+  
+  const sendPosition = () => {
+    const { position: latest, ...progress } = latestRef.current;
+    if (!latest || !connectionRef.current) return;
+    
+    connectionRef.current.send({ type: 'position', position: latest, ...progress });
+    lastSentAtRef.current = Date.now();
+  };
+  
+  useEffect(() => {
+    if (!enabled) return;
+    
+    connectionRef.current = connectTracking({
+      onOpen: sendPosition,
+      onStatusChange: setConnected,
+    });
+    
+    return () => {
+      connectionRef.current?.close();
+      connectionRef.current = null;
+    };
+  }, [enabled]);
+  
+  useEffect(() => {
+    if (Date.now() - lastSentAtRef.current >= SEND_INTERVAL_MS) sendPosition();
+  }, [position]);
+  
+  // Let the dispatcher see a delivery as soon as it's recorded
+  useEffect(() => {
+    sendPosition();
+  }, [routeId, currentStop?.id, completed, total]);
+  
+  return { connected };
+}
+
+// Every driver of the account, kept up to date for the dispatcher view
+export function useTrackedDrivers() {
+  const [drivers, setDrivers] = useState<DriverState[]>([]);
+  const [connected, setConnected] = useState(false);
+  
+  useEffect(() => {
+    const connection = connectTracking({
+      onOpen: (connection) => connection.send({ type: 'subscribe' }),
+      onStatusChange: setConnected,
+      onMessage: (message) => {
+        if (message.type === 'snapshot') {
+          setDrivers(message.drivers);
+        } else if (message.type === 'driver') {
+          setDrivers(current => [
+            ...current.filter(driver => driver.driverId !== message.driver.driverId),
+            message.driver,
+          ].sort((a, b) => a.driverId.localeCompare(b.driverId)));
+        }
+      },
+    });
+    
+    return () => connection.close();
+  }, []);
+  
+  return { drivers, connected };
+}
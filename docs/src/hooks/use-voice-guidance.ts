@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import { Address } from '@shared/schema';
+import { RouteStep } from '@/lib/types';
+import {
+  ANNOUNCE_DISTANCES_METERS,
+  DEFAULT_VOICE_SETTINGS,
+  VoiceSettings,
+  isSpeechSupported,
+  reroutingAnnouncement,
+  speak,
+  stepAnnouncement,
+} from '@/lib/voice-guidance';
+
+// Voice settings are a preference of the device, not the account
+const STORAGE_KEY = 'voiceGuidance';
+
+function loadVoiceSettings(): VoiceSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VOICE_SETTINGS;
+  } catch (error) {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+}
+
+// Announcement stage reached at a distance: -1 before the first threshold
+function stageAt(distanceMeters: number): number {
+  let stage = -1;
+  ANNOUNCE_DISTANCES_METERS.forEach((threshold, index) => {
+    if (distanceMeters <= threshold) stage = index;
+  });
+  return stage;
+}
+
+interface VoiceGuidanceOptions {
+  steps?: RouteStep[];
+  stepIndex: number;
+  // Distance to the step's maneuver when the GPS is followed
+  distanceToStep?: number;
+  addresses: Address[];
+}
+
+// Speak the upcoming maneuver when it becomes next and again as each
+// distance threshold is crossed
+export function useVoiceGuidance({ steps, stepIndex, distanceToStep, addresses }: VoiceGuidanceOptions) {
+  const [settings, setSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const supported = isSpeechSupported();
+  
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const announcedRef = useRef<{ steps?: RouteStep[]; stepIndex: number; stage: number } | null>(null);
+  
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    if (settings.muted && supported) window.speechSynthesis.cancel();
+  }, [settings]);
+  
+  useEffect(() => {
+    const step = steps?.[stepIndex];
+    if (!step) return;
+    
+    // Without a GPS distance each step is announced once, as it comes up
+    const known = distanceToStep !== undefined && Number.isFinite(distanceToStep);
+    const stage = known ? stageAt(distanceToStep!) : ANNOUNCE_DISTANCES_METERS.length - 1;
+    
+    // Same step again: only speak once a closer threshold is reached
+    const previous = announcedRef.current;
+    if (previous && previous.steps === steps && previous.stepIndex === stepIndex && stage <= previous.stage) return;
+    announcedRef.current = { steps, stepIndex, stage };
+    
+    const destination = step.addressId !== undefined
+      ? addresses.find(address => address.id === step.addressId)
+      : undefined;
+    speak(
+      stepAnnouncement(step, known ? distanceToStep : undefined, settingsRef.current.language, destination),
+      settingsRef.current
+    );
+  }, [steps, stepIndex, distanceToStep, addresses]);
+  
+  const updateSettings = (changes: Partial<VoiceSettings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+  };
+  
+  const announceRerouting = () => {
+    speak(reroutingAnnouncement(settingsRef.current.language), settingsRef.current);
+  };
+  
+  return { settings, updateSettings, supported, announceRerouting };
+}
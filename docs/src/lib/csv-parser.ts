@@ -18,9 +18,16 @@ const csvRowSchema = z.object({
     Priority.HIGH, 
     Priority.LOW
   ]).optional().default(Priority.NORMAL),
-  specialInstructions: z.string().optional()
+  specialInstructions: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.union([z.string().email(), z.literal("")]).optional()
 });
 
+// Exports put a ' before text a spreadsheet would run as a formula; take it off again
+function unescapeFormula(value: unknown): unknown {
+  return typeof value === 'string' ? value.replace(/^'(?=[=+\-@\t\r])/, '') : value;
+}
+
 export function parseCSV(file: File): Promise<CSVRow[]> {
   return new Promise((resolve, reject) => {
     parse(file, {
@@ -32,7 +39,9 @@ export function parseCSV(file: File): Promise<CSVRow[]> {
           
           // Loop through each row and validate
           for (const row of results.data) {
-            const typedRow = row as Record<string, string>;
+            const typedRow = Object.fromEntries(
+              Object.entries(row as Record<string, unknown>).map(([key, value]) => [key, unescapeFormula(value)])
+            ) as Record<string, string>;
             
             try {
               // Validate row against schema
@@ -41,7 +50,9 @@ export function parseCSV(file: File): Promise<CSVRow[]> {
                 timeWindow: typedRow.timeWindow || TimeWindow.ANY,
                 exactDeliveryTime: typedRow.exactDeliveryTime || "",
                 priority: typedRow.priority || Priority.NORMAL,
-                specialInstructions: typedRow.specialInstructions || ""
+                specialInstructions: typedRow.specialInstructions || "",
+                phone: typedRow.phone?.trim() || "",
+                email: typedRow.email?.trim() || ""
               });
               
               parsedRows.push(validRow);
@@ -86,7 +97,7 @@ export function parsePastedText(text: string): CSVRow[] {
 
 // Helper function to generate a sample CSV template
 export function generateCSVTemplate(): string {
-  return 'address,timeWindow,exactDeliveryTime,priority,specialInstructions\n' +
-    '"123 Main St, Anytown, US",Any time,,Normal,"Leave at door"\n' +
-    '"456 Oak Ave, Somewhere, US","Morning (8AM-12PM)",14:30,High,"Call customer"';
+  return 'address,timeWindow,exactDeliveryTime,priority,specialInstructions,phone,email\n' +
+    '"123 Main St, Anytown, US",Any time,,Normal,"Leave at door",,\n' +
+    '"456 Oak Ave, Somewhere, US","Morning (8AM-12PM)",14:30,High,"Call customer",+15551234567,jane@example.com';
 }
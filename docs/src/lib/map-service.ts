@@ -1,72 +1,164 @@
-import { AddressWithCoordinates, Coordinates, MapBounds, OptimizedRoute, RouteStep, TurnByTurnDirection } from "./types";
-import { DeliveryStatus, RouteSettings } from "@shared/schema";
+import { AddressWithCoordinates, Coordinates, MapBounds, OptimizedRoute, ProviderConfig, RoutePlace, RoutePlaceVisit, RoutePlan, RouteStep, RouteTraffic, TurnByTurnDirection } from "./types";
+import { Address, DeliveryStatus, Depot, RouteSettings, RoutingProviderType, TrafficDataProvider } from "@shared/schema";
+import { RoutePreference, RoutingProvider, chooseRoute, createRoutingProvider, routeOptionsFor, usesCommunityReports } from "@shared/routing";
+import { CommunityReportView, communityDelay } from "@shared/community";
+import { trafficCondition } from "@shared/traffic";
+import { optimizeStopOrder } from "@shared/optimizer";
+import { LegCache, routeLegs, routingMatrix } from "@shared/route-batch";
+import { getPriorityWeight, isPriorityRelevant } from "@shared/priority";
+import {
+  StopSchedule,
+  hasDeliveryWindow,
+  minutesOfDay,
+  scheduleCost,
+  scheduleStops,
+  sortByDeadline
+} from "@shared/scheduler";
 
-// Nominatim (OpenStreetMap) geocoding API base URL
-const NOMINATIM_BASE_URL = "https://nominatim.openstreetmap.org";
+// Assumed average driving speed when no routing data is available
+const AVERAGE_SPEED_MPH = 30;
 
-// OSRM API base URL (free routing service)
-const OSRM_BASE_URL = "https://router.project-osrm.org";
+// Time spent at the depot when going back to reload
+const RELOAD_MINUTES = 15;
 
-// OpenRouteService API base URL (not used, keeping for reference)
-const OPENROUTE_BASE_URL = "https://api.openrouteservice.org";
+// Where a leg of the route leads: a delivery stop or a depot
+interface RouteDestination {
+  position: Coordinates;
+  address?: AddressWithCoordinates;
+  place?: RoutePlaceVisit;
+}
+
+// OpenRouteService requests sent here are forwarded by the server
+const OPENROUTESERVICE_PROXY_URL = "/api/routing/openrouteservice";
+
+// Provider configuration from the server, loaded once per session
+let providerConfigPromise: Promise<ProviderConfig | null> | null = null;
+
+function loadProviderConfig(): Promise<ProviderConfig | null> {
+  if (!providerConfigPromise) {
+    providerConfigPromise = fetch("/api/config", { credentials: "include" })
+      .then(response => response.ok ? response.json() as Promise<ProviderConfig> : null)
+      .catch(error => {
+        console.error("Failed to load provider configuration:", error);
+        return null;
+      });
+  }
+  return providerConfigPromise;
+}
+
+// Routing provider from the route settings, falling back to the server's default
+export async function getRoutingProvider(settings?: RouteSettings): Promise<RoutingProvider> {
+  const config = await loadProviderConfig();
+  const useServerDefault = !settings?.routingProvider || settings.routingProvider === RoutingProviderType.SERVER_DEFAULT;
+  
+  const type = useServerDefault ? config?.routingProvider : settings!.routingProvider;
+  const url = useServerDefault ? config?.routingUrl : settings!.routingUrl;
+  
+  // The server's OpenRouteService (or the hosted one) is reached through the
+  // server, which adds its API key; a server of the user's own gets no key
+  if (type === RoutingProviderType.OPENROUTESERVICE && (useServerDefault || !url)) {
+    return createRoutingProvider(type, { url: OPENROUTESERVICE_PROXY_URL });
+  }
+  
+  return createRoutingProvider(type, { url });
+}
+
+// Legs routed this session, reused when the route is recalculated
+const legCache = new LegCache();
 
-// Cache for geocoded addresses to minimize API calls
-const geocodeCache = new Map<string, Coordinates>();
+// Traffic is sampled at this many points along each leg
+const TRAFFIC_SAMPLES_PER_LEG = 3;
+
+// Points spread along a leg's polyline ([lng, lat] pairs) to sample traffic at
+function trafficSamplePoints(geometry: [number, number][]): Coordinates[] {
+  if (geometry.length === 0) return [];
+  
+  const points: Coordinates[] = [];
+  for (let i = 1; i <= TRAFFIC_SAMPLES_PER_LEG; i++) {
+    const [lng, lat] = geometry[Math.floor((geometry.length - 1) * i / (TRAFFIC_SAMPLES_PER_LEG + 1))];
+    points.push({ lat, lng });
+  }
+  return points;
+}
 
-// Geocoding function to get coordinates for an address using Nominatim API
-export async function geocodeAddress(address: string): Promise<Coordinates | null> {
+// Drive times in traffic for free-flow leg durations (seconds), from historical
+// averages and the configured traffic feed. Null when the server can't be reached.
+async function estimateTraffic(
+  legDurations: number[],
+  legPoints: Coordinates[][],
+  departAt: Date
+): Promise<{ legDurations: number[]; traffic: RouteTraffic } | null> {
   try {
-    console.log(`Attempting to geocode address: ${address}`);
-    
-    // Check cache first
-    if (geocodeCache.has(address)) {
-      console.log(`Using cached coordinates for: ${address}`);
-      return geocodeCache.get(address)!;
-    }
-    
-    const params = new URLSearchParams({
-      q: address,
-      format: "json",
-      limit: "1",
+    const response = await fetch("/api/traffic/estimate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        legs: legDurations.map((duration, i) => ({ duration, points: legPoints[i] ?? [] })),
+        departAt: departAt.toISOString(),
+      }),
     });
+    if (!response.ok) return null;
     
-    console.log(`Making geocoding request for: ${address}`);
-    const response = await fetch(`${NOMINATIM_BASE_URL}/search?${params.toString()}`, {
-      headers: {
-        // Nominatim requires a User-Agent header
-        "User-Agent": "DeliveryNav/1.0"
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Geocoding failed: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    console.log(`Geocoding response for "${address}":`, data);
-    
-    if (!data || data.length === 0) {
-      console.warn(`No geocoding results found for: ${address}`);
-      return null;
-    }
-    
-    // Nominatim returns lat/lon as strings
-    const lat = parseFloat(data[0].lat);
-    const lng = parseFloat(data[0].lon);
-    
-    const coordinates = { lat, lng };
-    console.log(`Successfully geocoded ${address} to:`, coordinates);
-    
-    // Cache the result
-    geocodeCache.set(address, coordinates);
-    
-    return coordinates;
+    const estimate = await response.json();
+    return {
+      legDurations: estimate.legs.map((leg: { duration: number }) => leg.duration),
+      traffic: { delayRatio: estimate.delayRatio, condition: estimate.condition, provider: estimate.provider },
+    };
   } catch (error) {
-    console.error(`Error geocoding address: ${address}`, error);
+    console.error("Failed to estimate traffic:", error);
     return null;
   }
 }
 
+// Active community reports. Empty when the server can't be reached.
+async function loadCommunityReports(): Promise<CommunityReportView[]> {
+  try {
+    const response = await fetch("/api/reports", { credentials: "include" });
+    return response.ok ? await response.json() : [];
+  } catch (error) {
+    console.error("Failed to load community reports:", error);
+    return [];
+  }
+}
+
+// Addresses the server has geocoded, with their position for the map and router.
+// Addresses without coordinates are left out.
+export function withCoordinates(addresses: Address[]): AddressWithCoordinates[] {
+  const located: AddressWithCoordinates[] = [];
+  
+  for (const address of addresses) {
+    const lat = parseFloat(address.latitude ?? "");
+    const lng = parseFloat(address.longitude ?? "");
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      located.push({ ...address, position: [lat, lng] });
+    }
+  }
+  
+  return located;
+}
+
+// Where the route leaves from, ends and reloads according to the route settings.
+// Depots without coordinates are ignored. Without a start depot the route starts
+// at the driver's location when `useCurrentLocation` is set, else at the first stop.
+export function routePlanFor(settings: RouteSettings, depots: Depot[], useCurrentLocation: boolean = true): RoutePlan {
+  const depotPlace = (id: number | null): RoutePlace | undefined => {
+    const depot = depots.find(depot => depot.id === id);
+    const lat = parseFloat(depot?.latitude ?? "");
+    const lng = parseFloat(depot?.longitude ?? "");
+    return depot && Number.isFinite(lat) && Number.isFinite(lng) ? { name: depot.name, position: { lat, lng } } : undefined;
+  };
+  
+  const reloadPlace = depotPlace(settings.reloadDepotId);
+  const afterStops = settings.reloadAfterStops ?? 0;
+  
+  return {
+    start: depotPlace(settings.startDepotId) ?? (useCurrentLocation ? 'current' : undefined),
+    end: depotPlace(settings.endDepotId) ?? (settings.returnToStart ? 'start' : undefined),
+    reload: reloadPlace && afterStops > 0 ? { place: reloadPlace, afterStops } : undefined,
+  };
+}
+
 // Function to get the user's current location
 export function getCurrentLocation(): Promise<Coordinates> {
   return new Promise((resolve, reject) => {
@@ -94,31 +186,27 @@ export function getCurrentLocation(): Promise<Coordinates> {
   });
 }
 
-// Function to calculate route between multiple points using either OpenRouteService or simulated routing
+// Function to calculate route between multiple points using the configured routing provider, or simulated routing.
+// `plan` sets where the route starts, ends and reloads (see routePlanFor); without a start the route begins at the
+// first stop. `origin` is a position already known (e.g. the tracked GPS fix when rerouting) used instead of asking the device.
 export async function calculateRoute(
   addresses: AddressWithCoordinates[],
   settings: RouteSettings,
-  startFromCurrentLocation: boolean = false
+  plan: RoutePlan = {},
+  origin?: Coordinates
 ): Promise<OptimizedRoute | null> {
   try {
     if (addresses.length < 1) {
       throw new Error("At least one address is required for route calculation");
     }
     
-    // Order waypoints based on time constraints and settings
-    // First, separate addresses with exact delivery times from those without
-    const addressesWithDeliveryTime = addresses.filter(addr => addr.exactDeliveryTime);
-    const addressesWithoutDeliveryTime = addresses.filter(addr => !addr.exactDeliveryTime);
-    
-    // Sort addresses with delivery times by their delivery time
-    const sortedDeliveryTimeAddresses = [...addressesWithDeliveryTime].sort((a, b) => {
-      if (!a.exactDeliveryTime || !b.exactDeliveryTime) return 0;
-      return a.exactDeliveryTime.localeCompare(b.exactDeliveryTime);
-    });
+    const startFromCurrentLocation = plan.start === 'current';
     
     // Get current location if needed
     let currentLocation: Coordinates | null = null;
-    if (startFromCurrentLocation) {
+    if (startFromCurrentLocation && origin) {
+      currentLocation = origin;
+    } else if (startFromCurrentLocation) {
       try {
         currentLocation = await getCurrentLocation();
       } catch (error) {
@@ -133,224 +221,222 @@ export async function calculateRoute(
       }
     }
     
-    // Initialize the optimized waypoints with the sorted time-specific addresses
-    let optimizedWaypoints: AddressWithCoordinates[] = [...sortedDeliveryTimeAddresses];
+    // Where the route leaves from: a depot, the current location or (when null) the first stop
+    const startPlace: RoutePlace | null = plan.start === 'current'
+      ? (currentLocation ? { name: 'Starting point', position: currentLocation } : null)
+      : plan.start ?? null;
+    
+    const startMinutes = minutesOfDay(new Date());
+    let optimizedWaypoints: AddressWithCoordinates[];
     
-    // If there are no time-specific addresses, use a simple approach
-    if (sortedDeliveryTimeAddresses.length === 0) {
-      // If we have current location and it's different from the first address,
-      // we need to handle the routing specially
-      if (startFromCurrentLocation && currentLocation) {
-        // Find the closest address to current location to start with
-        let closestAddrIndex = 0;
-        let shortestDistance = Number.MAX_VALUE;
+    const priorityWeight = getPriorityWeight(settings.priorityWeighting);
+    
+    if (addresses.some(address => hasDeliveryWindow(address) || address.retryAfter) || isPriorityRelevant(addresses, priorityWeight)) {
+      // Order stops so time windows are met, retries wait until they are due and
+      // high-priority stops are served early
+      optimizedWaypoints = await orderBySchedule(
+        addresses,
+        settings,
+        startMinutes,
+        startPlace?.position ?? null,
+        priorityWeight
+      );
+    } else if (startPlace) {
+      // Find the closest address to the start to begin with
+      let closestAddrIndex = 0;
+      let shortestDistance = Number.MAX_VALUE;
+      
+      for (let i = 0; i < addresses.length; i++) {
+        const addr = addresses[i];
+        const distance = calculateHaversineDistance(
+          startPlace.position.lat, startPlace.position.lng,
+          addr.position[0], addr.position[1]
+        );
         
-        for (let i = 0; i < addresses.length; i++) {
-          const addr = addresses[i];
-          const distance = calculateHaversineDistance(
-            currentLocation.lat, currentLocation.lng,
-            addr.position[0], addr.position[1]
-          );
-          
-          if (distance < shortestDistance) {
-            shortestDistance = distance;
-            closestAddrIndex = i;
-          }
+        if (distance < shortestDistance) {
+          shortestDistance = distance;
+          closestAddrIndex = i;
         }
-        
-        // Reorder addresses to start with the closest one
-        const reorderedAddresses = [
-          addresses[closestAddrIndex],
-          ...addresses.slice(0, closestAddrIndex),
-          ...addresses.slice(closestAddrIndex + 1)
-        ];
-        
-        optimizedWaypoints = reorderedAddresses;
-      } else {
-        optimizedWaypoints = [...addresses];
       }
+      
+      // Reorder addresses to start with the closest one
+      optimizedWaypoints = [
+        addresses[closestAddrIndex],
+        ...addresses.slice(0, closestAddrIndex),
+        ...addresses.slice(closestAddrIndex + 1)
+      ];
     } else {
-      // Add addresses without specific times in between time-specific ones
-      // based on their proximity to minimize detours
-      for (const addr of addressesWithoutDeliveryTime) {
-        if (optimizedWaypoints.length === 0) {
-          optimizedWaypoints.push(addr);
-          continue;
-        }
-        
-        let bestPosition = 0;
-        let shortestDetour = Number.MAX_VALUE;
-        
-        // Find the best position to insert this address
-        for (let i = 0; i <= optimizedWaypoints.length; i++) {
-          const prevAddr = i === 0 ? optimizedWaypoints[optimizedWaypoints.length - 1] : optimizedWaypoints[i - 1];
-          const nextAddr = i === optimizedWaypoints.length ? optimizedWaypoints[0] : optimizedWaypoints[i];
-          
-          // Calculate detour distance
-          const directDistance = calculateHaversineDistance(
-            prevAddr.position[0], prevAddr.position[1],
-            nextAddr.position[0], nextAddr.position[1]
-          );
-          
-          const detourDistance = calculateHaversineDistance(
-            prevAddr.position[0], prevAddr.position[1],
-            addr.position[0], addr.position[1]
-          ) + calculateHaversineDistance(
-            addr.position[0], addr.position[1],
-            nextAddr.position[0], nextAddr.position[1]
-          );
-          
-          const detour = detourDistance - directDistance;
-          
-          if (detour < shortestDetour) {
-            shortestDetour = detour;
-            bestPosition = i;
-          }
-        }
-        
-        // Insert at the best position
-        optimizedWaypoints.splice(bestPosition, 0, addr);
+      optimizedWaypoints = [...addresses];
+    }
+    
+    // Where each leg leads, in driving order: the stops with a reload at the
+    // depot after every few of them, then the end of the route
+    const destinations: RouteDestination[] = [];
+    optimizedWaypoints.forEach((addr, index) => {
+      destinations.push({ position: { lat: addr.position[0], lng: addr.position[1] }, address: addr });
+      
+      const reload = plan.reload;
+      if (reload && (index + 1) % reload.afterStops === 0 && index < optimizedWaypoints.length - 1) {
+        destinations.push({ position: reload.place.position, place: { ...reload.place, role: 'reload' } });
       }
+    });
+    
+    // Coming back to the start means the first stop when the route starts there
+    const endPlace: RoutePlace | null = plan.end === 'start'
+      ? startPlace ?? { name: optimizedWaypoints[0].fullAddress, position: destinations[0].position }
+      : plan.end ?? null;
+    if (endPlace) {
+      destinations.push({ position: endPlace.position, place: { ...endPlace, role: 'end' } });
     }
     
-    // Try to get real routing from OSRM (free OpenStreetMap routing service)
+    // Depots shown on the map; the current location has its own marker
+    const places: RoutePlaceVisit[] = [
+      ...(startPlace && !startFromCurrentLocation ? [{ ...startPlace, role: 'start' as const }] : []),
+      ...destinations.flatMap(destination => destination.place ? [destination.place] : []),
+    ];
+    
+    // Points the route goes through, the start first when there is one
+    const waypoints: Coordinates[] = [
+      ...(startPlace ? [startPlace.position] : []),
+      ...destinations.map(destination => destination.position),
+    ];
+    // Index shift between waypoints and destinations
+    const waypointOffset = startPlace ? 1 : 0;
+    
+    // Try to get real routing from the configured provider (OSRM unless set otherwise)
     let realRouteCoordinates: [number, number][] = [];
     let realRouteSteps: RouteStep[] = [];
     let realRouteTotalDistance = 0;
     let realRouteTotalDuration = 0;
+    // Drive time in seconds for each leg between consecutive waypoints
+    let legDurations: number[] = [];
+    // Preferences applied on every leg, for the badges shown with the route
+    let appliedPreferences: RoutePreference[] = [];
+    let traffic: RouteTraffic | undefined;
     
     try {
-      // Prepare waypoints for OSRM (they use [longitude, latitude] format)
-      const waypoints = optimizedWaypoints.map(addr => [addr.position[1], addr.position[0]]);
-      
-      // Add current location as the first waypoint if available
-      if (startFromCurrentLocation && currentLocation) {
-        waypoints.unshift([currentLocation.lng, currentLocation.lat]);
-      }
-      
       if (waypoints.length >= 2) {
-        // For each segment, get directions from OSRM
+        const provider = await getRoutingProvider(settings);
+        const routeOptions = routeOptionsFor(settings);
+        const legPreferences: RoutePreference[][] = [];
+        // Points along each leg where traffic is sampled
+        const legPoints: Coordinates[][] = [];
+        // Hazards reported by drivers, and the time each leg loses to them (seconds)
+        const reports = usesCommunityReports(settings) ? await loadCommunityReports() : [];
+        const legReportDelays: number[] = [];
+        
+        // For each segment, get directions from the routing provider
         realRouteSteps = [];
         let cumulativeDistance = 0;
-        let totalCoordinates: [number, number][] = [];
+        const totalCoordinates: [number, number][] = [];
+        
+        // All legs at once: batched, a few requests at a time, cached legs reused
+        const legRoutes = await routeLegs(provider, waypoints, {
+          options: routeOptions,
+          cache: legCache,
+          cacheScope: `${provider.name}|${settings.routingUrl ?? ''}`,
+        });
         
         for (let i = 0; i < waypoints.length - 1; i++) {
           const start = waypoints[i];
           const end = waypoints[i + 1];
-          
-          // Construct OSRM API URL for route between two points
-          // Format: /route/v1/{profile}/{coordinates}
-          // profile is "driving" for car routes
-          // coordinates are in longitude,latitude format separated by ;
-          const url = `${OSRM_BASE_URL}/route/v1/driving/${start[0]},${start[1]};${end[0]},${end[1]}?overview=full&steps=true&geometries=geojson`;
-          
-          console.log(`Requesting turn-by-turn directions for segment ${i+1}/${waypoints.length-1}:`, url);
+          const isLastSegment = i === waypoints.length - 2;
+          const destination = destinations[i + 1 - waypointOffset];
+          const destinationAddr = destination?.address ?? null;
           
           try {
-            const response = await fetch(url);
-            if (!response.ok) throw new Error(`OSRM API returned ${response.status}`);
+            const alternatives = legRoutes[i];
+            if (!alternatives) {
+              throw new Error(`${provider.name} found no route for segment ${i + 1}`);
+            }
+            const route = chooseRoute(alternatives, {
+              shortest: routeOptions.shortest,
+              minimizeLeftTurns: settings.minimizeLeftTurns ?? false,
+            }, reports.length > 0 ? candidate => communityDelay(candidate.geometry, reports) : undefined);
+            legReportDelays[i] = reports.length > 0 ? communityDelay(route.geometry, reports) : 0;
+            legPreferences[i] = settings.minimizeLeftTurns && alternatives.length > 1
+              ? [...route.applied, 'minimizeLeftTurns']
+              : route.applied;
+            const distanceInMiles = route.distance / 1609.34; // Convert meters to miles
+            const durationInSeconds = route.duration;
+            
+            // Add distance and duration to totals
+            cumulativeDistance += distanceInMiles;
+            realRouteTotalDuration += durationInSeconds;
+            legDurations[i] = durationInSeconds;
             
-            const data = await response.json();
-            console.log(`OSRM response for segment ${i+1}:`, data.code === 'Ok' ? 'SUCCESS' : 'FAILED', data);
+            // Route geometry comes as [longitude, latitude] pairs
+            totalCoordinates.push(...route.geometry);
+            legPoints[i] = trafficSamplePoints(route.geometry);
             
-            if (data && data.routes && data.routes.length > 0) {
-              const route = data.routes[0];
-              const distanceInMiles = route.distance / 1609.34; // Convert meters to miles
-              const durationInSeconds = route.duration;
+            // Create a step for each maneuver
+            const steps = route.legs[0]?.steps ?? [];
+            steps.forEach((step, stepIndex) => {
+              const isLastStep = stepIndex === steps.length - 1;
               
-              // Add distance and duration to totals
-              cumulativeDistance += distanceInMiles;
-              realRouteTotalDuration += durationInSeconds;
+              // Convert distance to miles and duration to minutes
+              const stepDistanceMiles = step.distance / 1609.34;
+              const stepDurationMinutes = step.duration / 60;
               
-              // Get route geometry (array of coordinates)
-              if (route.geometry && route.geometry.coordinates) {
-                // OSRM returns coordinates as [longitude, latitude]
-                const segmentCoordinates = route.geometry.coordinates.map((coord: number[]) => {
-                  return [coord[0], coord[1]] as [number, number];
-                });
-                
-                totalCoordinates = [...totalCoordinates, ...segmentCoordinates];
-              }
+              let instruction = step.instruction || 'Continue on route';
+              let turnType = step.maneuverType;
               
-              // Process steps if available
-              if (route.legs && route.legs.length > 0 && route.legs[0].steps) {
-                const steps = route.legs[0].steps;
-                
-                // Create a step for each maneuver
-                steps.forEach((step: any, stepIndex: number) => {
-                  const isLastStep = stepIndex === steps.length - 1;
-                  const isLastSegment = i === waypoints.length - 2;
-                  
-                  // Convert distance to miles and duration to minutes
-                  const stepDistanceMiles = step.distance / 1609.34;
-                  const stepDurationMinutes = step.duration / 60;
+              // Legs to a depot end there: say whether the driver reloads or the route is over
+              if (isLastStep && destination?.place) {
+                instruction = destination.place.role === 'reload'
+                  ? `Reload at ${destination.place.name}`
+                  : `Arrive at ${destination.place.name}`;
+                turnType = 'arrive';
+              } else if (isLastStep && isLastSegment) {
+                // For the final step of the final segment, make it clear this is the destination
+                if (destinationAddr) {
+                  instruction = `Arrive at ${destinationAddr.fullAddress}`;
+                  turnType = 'arrive';
                   
-                  // Get instruction based on maneuver type or use OSRM's instruction
-                  let instruction = step.maneuver?.instruction || 'Continue on route';
-                  let turnType = step.maneuver?.type || 'straight';
-                  
-                  // For the final step of the final segment, make it clear this is the destination
-                  if (isLastStep && isLastSegment) {
-                    const destinationAddr = i+1 < optimizedWaypoints.length ? optimizedWaypoints[i+1] : null;
-                    if (destinationAddr) {
-                      instruction = `Arrive at ${destinationAddr.fullAddress}`;
-                      turnType = 'arrive';
-                      
-                      // Add special note for time-specific deliveries to arrive 3 minutes early
-                      if (destinationAddr.exactDeliveryTime) {
-                        instruction += ` (Arrive by ${destinationAddr.exactDeliveryTime}, aim to be 3 minutes early)`;
-                      }
-                    } else {
-                      instruction = 'Arrive at destination';
-                    }
+                  // Add special note for time-specific deliveries to arrive 3 minutes early
+                  if (destinationAddr.exactDeliveryTime) {
+                    instruction += ` (Arrive by ${destinationAddr.exactDeliveryTime}, aim to be 3 minutes early)`;
                   }
-                  
-                  // Extract street name if available
-                  const streetName = step.name || '';
-                  
-                  realRouteSteps.push({
-                    instruction,
-                    distance: `${stepDistanceMiles.toFixed(1)} mi`,
-                    duration: `${Math.round(stepDurationMinutes)} min`,
-                    turnType,
-                    streetName,
-                    isDestination: isLastStep && isLastSegment
-                  });
-                });
+                } else {
+                  instruction = 'Arrive at destination';
+                }
               }
-            }
-          } catch (routeError) {
-            console.error("Error fetching segment route:", routeError);
-            // Generate fallback directions for this segment
-            const fromAddr = i < optimizedWaypoints.length ? optimizedWaypoints[i] : null;
-            const toAddr = i+1 < optimizedWaypoints.length ? optimizedWaypoints[i+1] : null;
-            
-            if (fromAddr && toAddr) {
-              // Calculate direct distance and bearing between points
-              const distance = calculateHaversineDistance(
-                fromAddr.position[0], fromAddr.position[1],
-                toAddr.position[0], toAddr.position[1]
-              );
-              
-              const bearing = calculateBearing(
-                fromAddr.position[0], fromAddr.position[1],
-                toAddr.position[0], toAddr.position[1]
-              );
               
-              cumulativeDistance += distance;
-              
-              // Generate simple directions
               realRouteSteps.push({
-                instruction: `Head to ${toAddr.fullAddress}`,
-                distance: `${distance.toFixed(1)} mi`,
-                duration: `${Math.round((distance / 30) * 60)} min`, // minutes at 30mph
-                isDestination: i === waypoints.length - 2
+                instruction,
+                distance: `${stepDistanceMiles.toFixed(1)} mi`,
+                duration: `${Math.round(stepDurationMinutes)} min`,
+                turnType,
+                modifier: step.modifier,
+                streetName: step.streetName,
+                isDestination: isLastStep && isLastSegment,
+                location: step.location,
+                addressId: isLastStep ? destinationAddr?.id : undefined
               });
-              
-              // Add direct line coordinates
-              totalCoordinates.push([fromAddr.position[1], fromAddr.position[0]]);
-              totalCoordinates.push([toAddr.position[1], toAddr.position[0]]);
-            }
+            });
+          } catch (routeError) {
+            console.error("Error fetching segment route:", routeError);
+            
+            // Generate fallback directions for this segment from the straight-line distance
+            const distance = calculateHaversineDistance(start.lat, start.lng, end.lat, end.lng);
+            
+            cumulativeDistance += distance;
+            legDurations[i] = (distance / AVERAGE_SPEED_MPH) * 3600;
+            legPreferences[i] = [];
+            legPoints[i] = [{ lat: (start.lat + end.lat) / 2, lng: (start.lng + end.lng) / 2 }];
+            
+            realRouteSteps.push({
+              instruction: `Head to ${destinationAddr?.fullAddress ?? destination?.place?.name ?? 'destination'}`,
+              distance: `${distance.toFixed(1)} mi`,
+              duration: `${Math.round((distance / AVERAGE_SPEED_MPH) * 60)} min`, // minutes at 30mph
+              isDestination: isLastSegment,
+              location: start,
+              addressId: destinationAddr?.id
+            });
+            
+            // Add direct line coordinates
+            totalCoordinates.push([start.lng, start.lat]);
+            totalCoordinates.push([end.lng, end.lat]);
           }
         }
         
@@ -360,6 +446,36 @@ export async function calculateRoute(
         }
         
         realRouteTotalDistance = cumulativeDistance;
+        
+        // Free-flow drive times become drive times in traffic at the time each leg is driven
+        const freeFlowDuration = legDurations.reduce((sum, duration) => sum + duration, 0);
+        const estimate = await estimateTraffic(legDurations, legPoints, new Date());
+        if (estimate) {
+          legDurations = estimate.legDurations;
+          realRouteTotalDuration = legDurations.reduce((sum, duration) => sum + duration, 0);
+          traffic = estimate.traffic;
+        }
+        
+        // Reported hazards the route couldn't avoid add their delay on top
+        const reportDelay = legReportDelays.reduce((sum, delay) => sum + (delay ?? 0), 0);
+        if (reportDelay > 0) {
+          legDurations = legDurations.map((duration, i) => duration + (legReportDelays[i] ?? 0));
+          realRouteTotalDuration = legDurations.reduce((sum, duration) => sum + duration, 0);
+          const delayRatio = freeFlowDuration > 0 ? realRouteTotalDuration / freeFlowDuration : 1;
+          traffic = {
+            delayRatio,
+            condition: trafficCondition(delayRatio),
+            provider: traffic?.provider ?? TrafficDataProvider.COMMUNITY,
+          };
+        }
+        
+        // Left turns count as minimized when alternatives were compared on any leg
+        const legs = Array.from(legPreferences, preferences => preferences ?? []);
+        appliedPreferences = (['avoidHighways', 'avoidTolls', 'shortest'] as RoutePreference[])
+          .filter(preference => legs.every(preferences => preferences.includes(preference)));
+        if (legs.some(preferences => preferences.includes('minimizeLeftTurns'))) {
+          appliedPreferences.push('minimizeLeftTurns');
+        }
       } else {
         // If we only have one waypoint, create a simple arrival step
         const destination = optimizedWaypoints[0];
@@ -367,7 +483,9 @@ export async function calculateRoute(
           instruction: `Arrive at ${destination.fullAddress}`,
           distance: '0.0 mi',
           duration: '0 min',
-          isDestination: true
+          isDestination: true,
+          location: { lat: destination.position[0], lng: destination.position[1] },
+          addressId: destination.id
         }];
       }
     } catch (error) {
@@ -380,59 +498,59 @@ export async function calculateRoute(
     
     // If real routing failed, fall back to direct lines
     if (!useRealRouting) {
-      const routeCoordinates: [number, number][] = optimizedWaypoints.map(a => [a.position[1], a.position[0]]);
+      realRouteCoordinates = waypoints.map(point => [point.lng, point.lat]);
       
-      // If we have current location, add it as the first point
-      if (startFromCurrentLocation && currentLocation) {
-        routeCoordinates.unshift([currentLocation.lng, currentLocation.lat]);
-      }
-      
-      realRouteCoordinates = routeCoordinates;
-      
-      // Calculate total distance manually
+      // Calculate total distance manually and generate basic instruction steps
       let totalDistance = 0;
-      for (let i = 0; i < optimizedWaypoints.length - 1; i++) {
-        totalDistance += calculateHaversineDistance(
-          optimizedWaypoints[i].position[0], optimizedWaypoints[i].position[1],
-          optimizedWaypoints[i + 1].position[0], optimizedWaypoints[i + 1].position[1]
-        );
-      }
-      
-      realRouteTotalDistance = totalDistance;
-      realRouteTotalDuration = (totalDistance / 30) * 3600; // seconds at 30mph
-      
-      // Generate basic instruction steps
       realRouteSteps = [];
-      for (let i = 0; i < optimizedWaypoints.length - 1; i++) {
-        const fromAddress = optimizedWaypoints[i];
-        const toAddress = optimizedWaypoints[i + 1];
-        const distance = calculateHaversineDistance(
-          fromAddress.position[0], fromAddress.position[1],
-          toAddress.position[0], toAddress.position[1]
-        );
+      for (let i = 0; i < waypoints.length - 1; i++) {
+        const from = waypoints[i];
+        const to = waypoints[i + 1];
+        const destination = destinations[i + 1 - waypointOffset];
+        const distance = calculateHaversineDistance(from.lat, from.lng, to.lat, to.lng);
+        totalDistance += distance;
         
         // Estimate time based on distance
-        const duration = (distance / 30) * 60; // minutes, assuming 30 mph
+        const duration = (distance / AVERAGE_SPEED_MPH) * 60; // minutes, assuming 30 mph
         
-        let instruction = `Drive to ${toAddress.fullAddress}`;
+        let instruction = destination.place?.role === 'reload'
+          ? `Drive to ${destination.place.name} to reload`
+          : `Drive to ${destination.address?.fullAddress ?? destination.place?.name}`;
         
         // Add special instruction for time-specific deliveries to arrive 3 minutes early
-        if (toAddress.exactDeliveryTime) {
-          instruction += ` (Arrive by ${toAddress.exactDeliveryTime}, aim to be 3 minutes early)`;
+        if (destination.address?.exactDeliveryTime) {
+          instruction += ` (Arrive by ${destination.address.exactDeliveryTime}, aim to be 3 minutes early)`;
         }
         
         realRouteSteps.push({
           instruction,
           distance: `${distance.toFixed(1)} mi`,
           duration: `${Math.round(duration)} min`,
-          isDestination: i === optimizedWaypoints.length - 2
+          isDestination: i === waypoints.length - 2,
+          location: from,
+          addressId: destination.address?.id
         });
       }
+      
+      realRouteTotalDistance = totalDistance;
+      realRouteTotalDuration = (totalDistance / AVERAGE_SPEED_MPH) * 3600; // seconds at 30mph
+      legDurations = [];
+      appliedPreferences = [];
+      traffic = undefined;
     }
     
     // Calculate estimated fuel consumption (assuming 25 mpg)
     const fuelConsumption = (realRouteTotalDistance / 25).toFixed(1);
     
+    // Build the arrival/departure timeline from the leg drive times
+    const schedule = buildSchedule(
+      waypoints,
+      destinations,
+      waypointOffset,
+      legDurations,
+      startMinutes
+    );
+    
     return {
       waypoints: optimizedWaypoints,
       totalDistance: `${realRouteTotalDistance.toFixed(1)} mi`,
@@ -440,7 +558,11 @@ export async function calculateRoute(
       totalFuel: `${fuelConsumption} gal`,
       steps: realRouteSteps,
       coordinates: realRouteCoordinates,
-      currentLocation: currentLocation || undefined
+      currentLocation: currentLocation || undefined,
+      schedule,
+      preferences: appliedPreferences,
+      traffic,
+      places
     };
   } catch (error) {
     console.error("Error calculating route:", error);
@@ -448,6 +570,93 @@ export async function calculateRoute(
   }
 }
 
+// Drive times in minutes between all points, from the routing provider's table
+// where it answers and from the straight-line distance where it doesn't
+async function travelTimeMatrix(points: Coordinates[], settings: RouteSettings): Promise<number[][]> {
+  let durations: (number | null)[][] = [];
+  try {
+    const provider = await getRoutingProvider(settings);
+    durations = (await routingMatrix(provider, points)).durations;
+  } catch (error) {
+    console.error("Failed to get travel times from the routing provider:", error);
+  }
+  
+  return points.map((from, i) => points.map((to, j) => {
+    const seconds = durations[i]?.[j];
+    if (seconds !== null && seconds !== undefined) return seconds / 60;
+    return (calculateHaversineDistance(from.lat, from.lng, to.lat, to.lng) / AVERAGE_SPEED_MPH) * 60;
+  }));
+}
+
+// Order stops with the shared optimizer, minimizing drive time plus time-window
+// lateness and, depending on the priority weighting, late service of important stops
+async function orderBySchedule(
+  addresses: AddressWithCoordinates[],
+  settings: RouteSettings,
+  startMinutes: number,
+  start: Coordinates | null,
+  priorityWeight: number
+): Promise<AddressWithCoordinates[]> {
+  // Earliest deadline first gives the optimizer a sensible order to improve on
+  const sorted = sortByDeadline(addresses);
+  const addressesById = new Map(sorted.map(addr => [addr.id, addr]));
+  const stops = sorted.map(addr => ({ id: addr.id, lat: addr.position[0], lng: addr.position[1] }));
+  
+  // Road drive times between the start and every stop, so the objective sees real legs
+  const travelMinutes = await travelTimeMatrix(start ? [start, ...stops] : stops, settings);
+  
+  const { order } = optimizeStopOrder(stops, {
+    start: start ?? undefined,
+    matrix: travelMinutes,
+    objective: (orderedStops, legMinutes) => {
+      const ordered = orderedStops.map(stop => addressesById.get(stop.id)!);
+      const schedule = scheduleStops(ordered, legMinutes, startMinutes);
+      return scheduleCost(ordered, schedule, startMinutes, priorityWeight);
+    }
+  });
+  
+  return order.map(id => addressesById.get(id)!);
+}
+
+// Compute arrival, wait and lateness for each delivery stop. Legs without a known
+// drive time are estimated from the straight-line distance; time spent reloading
+// counts towards the drive to the next stop.
+function buildSchedule(
+  waypoints: Coordinates[],
+  destinations: RouteDestination[],
+  waypointOffset: number,
+  legDurations: number[],
+  startMinutes: number
+): StopSchedule[] {
+  const stops: AddressWithCoordinates[] = [];
+  const travelMinutes: number[] = [];
+  let minutes = 0;
+  
+  destinations.forEach((destination, index) => {
+    // Leg arriving here; none when the route begins at this stop
+    const leg = index - 1 + waypointOffset;
+    if (leg >= 0) {
+      if (legDurations[leg] !== undefined) {
+        minutes += legDurations[leg] / 60;
+      } else {
+        const from = waypoints[leg];
+        const to = waypoints[leg + 1];
+        minutes += (calculateHaversineDistance(from.lat, from.lng, to.lat, to.lng) / AVERAGE_SPEED_MPH) * 60;
+      }
+    }
+    
+    if (destination.address) {
+      stops.push(destination.address);
+      travelMinutes.push(minutes);
+      minutes = 0;
+    } else if (destination.place?.role === 'reload') {
+      minutes += RELOAD_MINUTES;
+    }
+  });
+  
+  return scheduleStops(stops, travelMinutes, startMinutes);
+}
+
 // Function to generate realistic turn-by-turn directions
 function generateTurnByTurnDirections(
   fromAddress: string,
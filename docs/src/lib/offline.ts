@@ -0,0 +1,186 @@
+import { Address } from "@shared/schema";
+import { MapBounds, OptimizedRoute } from "./types";
+
+// OpenStreetMap tiles, shared by the map and the offline download
+export const TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+// Zoom levels downloaded for offline use: street level around the stops without
+// pulling in the tens of thousands of tiles the highest levels would need
+export const OFFLINE_ZOOM_LEVELS = [12, 13, 14, 15, 16];
+
+// Upper bound on one download; large areas drop their most detailed zoom levels first
+const MAX_OFFLINE_TILES = 2500;
+
+// Give up on a download when the service worker reports no progress for this long
+const PRECACHE_IDLE_TIMEOUT_MS = 60000;
+
+const DB_NAME = "deliverynav-offline";
+const DB_VERSION = 2;
+const ROUTE_STORE = "routes";
+export const OUTBOX_STORE = "outbox"; // see lib/outbox.ts; also read by the service worker
+
+// Route as last calculated online, so navigation keeps working without signal
+export interface OfflineRouteSnapshot {
+  key: string; // route id, or "current" for the user's open route
+  addresses: Address[];
+  route: OptimizedRoute;
+  savedAt: string; // ISO timestamp
+}
+
+export function registerServiceWorker(): void {
+  if (!("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(error => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
+
+// Forget cached API responses, e.g. after logging out
+export function clearOfflineApiCache(): void {
+  navigator.serviceWorker?.controller?.postMessage({ type: "CLEAR_API_CACHE" });
+}
+
+// Slippy-map tile numbers containing a point
+function tileIndex(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = Math.pow(2, zoom);
+  const latRad = lat * Math.PI / 180;
+  const x = Math.floor((lng + 180) / 360 * scale);
+  const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * scale);
+  const clamp = (value: number) => Math.min(scale - 1, Math.max(0, value));
+  return { x: clamp(x), y: clamp(y) };
+}
+
+// Tile URLs covering the bounds at each zoom level, lowest zoom first. Empty
+// when even the lowest level is over the download limit.
+export function tileUrlsForBounds(bounds: MapBounds, zoomLevels: number[] = OFFLINE_ZOOM_LEVELS): string[] {
+  const urls: string[] = [];
+  const subdomains = ["a", "b", "c"];
+
+  for (const zoom of [...zoomLevels].sort((a, b) => a - b)) {
+    const topLeft = tileIndex(bounds.north, bounds.west, zoom);
+    const bottomRight = tileIndex(bounds.south, bounds.east, zoom);
+
+    const levelUrls: string[] = [];
+    for (let x = topLeft.x; x <= bottomRight.x; x++) {
+      for (let y = topLeft.y; y <= bottomRight.y; y++) {
+        // Same subdomain choice as Leaflet, so the browser cache lines up too
+        const subdomain = subdomains[Math.abs(x + y) % subdomains.length];
+        levelUrls.push(
+          TILE_URL.replace("{s}", subdomain)
+            .replace("{z}", String(zoom))
+            .replace("{x}", String(x))
+            .replace("{y}", String(y))
+        );
+      }
+    }
+
+    if (urls.length + levelUrls.length > MAX_OFFLINE_TILES) break;
+    urls.push(...levelUrls);
+  }
+
+  return urls;
+}
+
+export interface TileDownloadResult {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+// Ask the service worker to download the tiles around a route
+export async function precacheTiles(
+  bounds: MapBounds,
+  onProgress?: (done: number, total: number) => void
+): Promise<TileDownloadResult> {
+  if (!("serviceWorker" in navigator)) {
+    throw new Error("Offline maps are not supported by this browser");
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const worker = registration.active;
+  if (!worker) {
+    throw new Error("Offline support is still starting, try again in a moment");
+  }
+
+  const urls = tileUrlsForBounds(bounds);
+  if (urls.length === 0) {
+    throw new Error("The delivery area is too large to save for offline use");
+  }
+
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    // The worker can be stopped mid-download; don't wait on it forever
+    const waitForWorker = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        channel.port1.close();
+        reject(new Error("The map download stopped responding, try again"));
+      }, PRECACHE_IDLE_TIMEOUT_MS);
+    };
+
+    channel.port1.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === "PRECACHE_PROGRESS") {
+        waitForWorker();
+        onProgress?.(message.done, message.total);
+      } else if (message.type === "PRECACHE_DONE") {
+        clearTimeout(timeout);
+        channel.port1.close();
+        resolve({ done: message.done, failed: message.failed, total: message.total });
+      }
+    };
+    waitForWorker();
+    worker.postMessage({ type: "PRECACHE_TILES", urls }, [channel.port2]);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(ROUTE_STORE, { keyPath: "key" });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request against an object store of the offline database
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveOfflineRoute(snapshot: OfflineRouteSnapshot): Promise<void> {
+  await withStore(ROUTE_STORE, "readwrite", store => store.put(snapshot));
+}
+
+export async function loadOfflineRoute(key: string): Promise<OfflineRouteSnapshot | undefined> {
+  return withStore<OfflineRouteSnapshot | undefined>(ROUTE_STORE, "readonly", store => store.get(key));
+}
+
+export async function clearOfflineRoutes(): Promise<void> {
+  await withStore(ROUTE_STORE, "readwrite", store => store.clear());
+}
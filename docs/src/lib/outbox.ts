@@ -0,0 +1,128 @@
+import { OUTBOX_STORE, withStore } from "./offline";
+
+// Status updates made without signal wait here, oldest first, until they can be
+// sent. Each one carries the time the driver acted so the server can order them
+// against updates from other devices.
+export interface OutboxEntry {
+  id?: number;
+  method: "PATCH";
+  url: string;
+  body: Record<string, unknown>;
+  createdAt: string; // ISO timestamp
+}
+
+// Fired on window whenever the queue changes or has been replayed
+export const OUTBOX_CHANGE_EVENT = "outbox-change";
+
+const SYNC_TAG = "outbox";
+
+function notifyChange(): void {
+  window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT));
+}
+
+// A failed fetch (as opposed to an error response) means there's no connection
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || !navigator.onLine;
+}
+
+async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  return withStore<OutboxEntry[]>(OUTBOX_STORE, "readonly", store => store.getAll());
+}
+
+export async function countOutboxEntries(): Promise<number> {
+  return withStore<number>(OUTBOX_STORE, "readonly", store => store.count());
+}
+
+export async function enqueueRequest(entry: Omit<OutboxEntry, "id" | "createdAt">): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", store => store.add({ ...entry, createdAt: new Date().toISOString() }));
+  notifyChange();
+  await requestBackgroundSync();
+}
+
+// Let the service worker replay the queue when the connection returns, even if the app is closed
+async function requestBackgroundSync(): Promise<void> {
+  if (!("serviceWorker" in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+    await sync?.register(SYNC_TAG);
+  } catch (error) {
+    // Not supported or not allowed; the app replays on the "online" event instead
+  }
+}
+
+export interface ReplayResult {
+  sent: number;
+  rejected: number; // dropped because the server refused them, e.g. a newer update won
+  remaining: number;
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// Send queued requests in order. Stops at the first network or server error so
+// later updates never overtake earlier ones; client errors (including conflicts)
+// are final and the entry is dropped.
+export function replayOutbox(): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = replayEntries().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+async function replayEntries(): Promise<ReplayResult> {
+  const entries = await getOutboxEntries();
+  let sent = 0;
+  let rejected = 0;
+
+  for (const entry of entries) {
+    let response: Response;
+    try {
+      response = await fetch(entry.url, {
+        method: entry.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry.body),
+        credentials: "include",
+      });
+    } catch (error) {
+      break;
+    }
+
+    // Retry later: server trouble or an expired session
+    if (response.status >= 500 || response.status === 401) break;
+
+    if (response.ok) {
+      sent++;
+    } else {
+      rejected++;
+    }
+    await withStore(OUTBOX_STORE, "readwrite", store => store.delete(entry.id!));
+  }
+
+  if (sent + rejected > 0) notifyChange();
+  return { sent, rejected, remaining: entries.length - sent - rejected };
+}
+
+// Replay whatever is queued now, whenever the browser comes back online and when
+// the service worker has replayed the queue in the background
+export function startOutboxSync(onReplayed: () => void): void {
+  const replay = () => {
+    replayOutbox()
+      .then(result => {
+        if (result.sent + result.rejected > 0) onReplayed();
+      })
+      .catch(error => console.error("Outbox replay failed:", error));
+  };
+
+  window.addEventListener("online", replay);
+  navigator.serviceWorker?.addEventListener("message", event => {
+    if (event.data?.type === "OUTBOX_REPLAYED") {
+      notifyChange();
+      onReplayed();
+    }
+  });
+
+  if (navigator.onLine) replay();
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Redirect, Route } from 'wouter';
+import { Loader } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { LOGIN_PATH } from '@/lib/queryClient';
+
+// Route that only renders for logged-in users and sends everyone else to the login screen
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: () => React.JSX.Element;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader className="h-8 w-8 animate-spin text-primary-500" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to={LOGIN_PATH} />
+      )}
+    </Route>
+  );
+}
@@ -23,7 +23,27 @@ export async function apiRequest(
   return res;
 }
 
-type UnauthorizedBehavior = "returnNull" | "throw";
+// Fetch a file from the API and hand it to the browser as a download
+export async function downloadFile(url: string, fallbackFilename: string): Promise<void> {
+  const res = await apiRequest("GET", url);
+  const blob = await res.blob();
+
+  const disposition = res.headers.get("Content-Disposition");
+  const filename = disposition?.match(/filename="?([^";]+)"?/)?.[1] ?? fallbackFilename;
+
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(link.href);
+}
+
+// Path of the login screen unauthenticated users are sent to
+export const LOGIN_PATH = "/auth";
+
+type UnauthorizedBehavior = "returnNull" | "throw" | "redirect";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
@@ -37,6 +57,11 @@ export const getQueryFn: <T>(options: {
       return null;
     }
 
+    // Expired or missing session: send the user to the login screen
+    if (unauthorizedBehavior === "redirect" && res.status === 401 && window.location.pathname !== LOGIN_PATH) {
+      window.location.assign(LOGIN_PATH);
+    }
+
     await throwIfResNotOk(res);
     return await res.json();
   };
@@ -44,7 +69,7 @@ export const getQueryFn: <T>(options: {
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      queryFn: getQueryFn({ on401: "throw" }),
+      queryFn: getQueryFn({ on401: "redirect" }),
       refetchInterval: false,
       refetchOnWindowFocus: false,
       staleTime: Infinity,
@@ -0,0 +1,180 @@
+import { DriverPosition, TRACKING_PATH, TrackingClientMessage, TrackingServerMessage, simulatePosition } from "@shared/tracking";
+import { Coordinates } from "./types";
+
+// Reconnect delays after the socket drops, growing up to the last one
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+export interface TrackingConnection {
+  send(message: TrackingClientMessage): void;
+  close(): void;
+}
+
+function trackingSocketUrl(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${TRACKING_PATH}`;
+}
+
+// Open the tracking socket and keep it open, reconnecting after drops.
+// `onOpen` runs after every (re)connect, e.g. to subscribe again.
+export function connectTracking(handlers: {
+  onMessage?: (message: TrackingServerMessage) => void;
+  onOpen?: (connection: TrackingConnection) => void;
+  onStatusChange?: (connected: boolean) => void;
+}): TrackingConnection {
+  let socket: WebSocket | null = null;
+  let attempt = 0;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connection: TrackingConnection = {
+    send(message) {
+      // Positions sent while disconnected are dropped; the next one replaces them anyway
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    close() {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+
+  const open = () => {
+    socket = new WebSocket(trackingSocketUrl());
+
+    socket.onopen = () => {
+      attempt = 0;
+      handlers.onStatusChange?.(true);
+      handlers.onOpen?.(connection);
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        handlers.onMessage?.(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Invalid tracking message:", error);
+      }
+    };
+
+    socket.onclose = () => {
+      handlers.onStatusChange?.(false);
+      if (closed) return;
+      const delay = RECONNECT_DELAYS_MS[Math.min(attempt++, RECONNECT_DELAYS_MS.length - 1)];
+      reconnectTimer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+  return connection;
+}
+
+// Follow the device's GPS; returns a function that stops watching
+export function watchDevicePosition(
+  onPosition: (position: DriverPosition) => void,
+  onError?: (error: Error) => void
+): () => void {
+  if (!navigator.geolocation) {
+    onError?.(new Error("Geolocation is not supported by your browser"));
+    return () => {};
+  }
+
+  const watchId = navigator.geolocation.watchPosition(
+    (position) => {
+      onPosition({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        heading: position.coords.heading,
+        speed: position.coords.speed,
+        timestamp: position.timestamp,
+      });
+    },
+    (error) => onError?.(new Error(`Error getting current location: ${error.message}`)),
+    { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+  );
+
+  return () => navigator.geolocation.clearWatch(watchId);
+}
+
+// Simulated GPS feed that drives along a route polyline ([lng, lat] pairs as
+// stored on routes) once per second; returns a function that stops it
+export function simulateDevicePosition(
+  coordinates: [number, number][],
+  onPosition: (position: DriverPosition) => void,
+  speedMps = 12
+): () => void {
+  const path: Coordinates[] = coordinates.map(([lng, lat]) => ({ lat, lng }));
+  if (path.length === 0) return () => {};
+
+  const startedAt = Date.now();
+  const tick = () => {
+    const { position, finished } = simulatePosition(path, (Date.now() - startedAt) / 1000, speedMps, startedAt);
+    onPosition(position);
+    if (finished) clearInterval(timer);
+  };
+
+  const timer = setInterval(tick, 1000);
+  tick();
+  return () => clearInterval(timer);
+}
+
+// Track points of a GPX file (route points if it has no track), e.g. a
+// recorded drive to replay through navigation
+export function parseGpx(xml: string): DriverPosition[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Not a valid GPX file");
+  }
+
+  let points = Array.from(doc.getElementsByTagName("trkpt"));
+  if (points.length === 0) points = Array.from(doc.getElementsByTagName("rtept"));
+
+  const positions: DriverPosition[] = [];
+  points.forEach((point, index) => {
+    const lat = parseFloat(point.getAttribute("lat") ?? "");
+    const lng = parseFloat(point.getAttribute("lon") ?? "");
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return;
+
+    // Points without a time are spaced a second apart
+    const time = Date.parse(point.getElementsByTagName("time")[0]?.textContent ?? "");
+    const previous = positions[positions.length - 1];
+    const timestamp = Number.isFinite(time) ? time : (previous ? previous.timestamp + 1000 : index * 1000);
+
+    positions.push({ lat, lng, accuracy: 5, heading: null, speed: null, timestamp });
+  });
+
+  if (positions.length === 0) {
+    throw new Error("The GPX file has no track points");
+  }
+  return positions;
+}
+
+// Replay recorded positions with their original spacing (`speedup` times
+// faster), timestamped from now; returns a function that stops the replay
+export function replayDevicePositions(
+  positions: DriverPosition[],
+  onPosition: (position: DriverPosition) => void,
+  speedup = 1
+): () => void {
+  if (positions.length === 0) return () => {};
+
+  const firstTimestamp = positions[0].timestamp;
+  const startedAt = Date.now();
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const next = () => {
+    const position = positions[index];
+    onPosition({ ...position, timestamp: startedAt + (position.timestamp - firstTimestamp) / speedup });
+
+    index++;
+    if (index < positions.length) {
+      const delay = (positions[index].timestamp - position.timestamp) / speedup;
+      timer = setTimeout(next, Math.max(0, delay));
+    }
+  };
+
+  next();
+  return () => clearTimeout(timer);
+}
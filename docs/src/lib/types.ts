@@ -4,8 +4,12 @@ import {
   Priority, 
   Route, 
   RouteSettings, 
-  TimeWindow 
+  TimeWindow,
+  Vehicle
 } from "@shared/schema";
+import { StopSchedule } from "@shared/scheduler";
+import { RoutePreference } from "@shared/routing";
+import { TrafficCondition } from "@shared/traffic";
 
 export interface AddressWithCoordinates extends Address {
   position: [number, number]; // [latitude, longitude]
@@ -22,9 +26,12 @@ export interface RouteStep {
   instruction: string;
   distance: string;
   duration: string;
-  turnType?: string;
+  turnType?: string; // maneuver type in OSRM vocabulary ("turn", "arrive", ...)
+  modifier?: string; // maneuver direction ("left", "slight right", ...)
   streetName?: string;
   isDestination?: boolean;
+  location?: Coordinates; // where the maneuver happens
+  addressId?: number; // stop this step drives to or arrives at
 }
 
 export interface OptimizedRoute {
@@ -35,6 +42,33 @@ export interface OptimizedRoute {
   steps: RouteStep[];
   coordinates?: [number, number][];
   currentLocation?: Coordinates;
+  schedule?: StopSchedule[]; // planned timeline, one entry per waypoint
+  preferences?: RoutePreference[]; // route settings the routing engine honored
+  traffic?: RouteTraffic; // how traffic changed the drive times, when it could be estimated
+  places?: RoutePlaceVisit[]; // depots the route starts at, reloads at or ends at, in driving order
+}
+
+// A point on the route that isn't a delivery, such as a saved depot
+export interface RoutePlace {
+  name: string;
+  position: Coordinates;
+}
+
+export interface RoutePlaceVisit extends RoutePlace {
+  role: 'start' | 'reload' | 'end';
+}
+
+// Where a route starts and ends, and where the driver goes back to reload
+export interface RoutePlan {
+  start?: RoutePlace | 'current'; // 'current' is the device's location
+  end?: RoutePlace | 'start'; // 'start' comes back to wherever the route started
+  reload?: { place: RoutePlace; afterStops: number }; // visited after every `afterStops` deliveries
+}
+
+export interface RouteTraffic {
+  delayRatio: number; // drive time in traffic over free-flow drive time
+  condition: TrafficCondition;
+  provider: string | null; // live feed used, null for historical averages only
 }
 
 export interface MapBounds {
@@ -55,4 +89,46 @@ export interface CSVRow {
   exactDeliveryTime?: string;
   priority?: string;
   specialInstructions?: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface RouteOptimizationResult {
+  success: boolean;
+  message: string;
+  addresses: Address[];
+  distanceBefore: number; // miles
+  distanceAfter: number; // miles
+  distanceSaved: number; // miles
+  skipped: number; // addresses without coordinates
+}
+
+export interface PlannedFleetRoute {
+  route: Route;
+  vehicle: Vehicle;
+  addresses: Address[]; // in visiting order
+  minutes: number; // estimated driving plus service time
+  overShift: boolean; // estimate exceeds the vehicle's shift
+}
+
+export interface FleetPlanResult {
+  success: boolean;
+  message: string;
+  routes: PlannedFleetRoute[];
+  unassigned: Address[]; // over capacity or without coordinates
+}
+
+// Routing and geocoding providers configured on the server (GET /api/config)
+export interface ProviderConfig {
+  routingProvider: string;
+  routingUrl: string | null;
+  geocodingProvider: string;
+  geocodingUrl: string | null;
+}
+
+// Proof of delivery sent with a Delivered status; images are data URLs
+export interface DeliveryProof {
+  recipientName?: string;
+  photo?: string; // JPEG
+  signature?: string; // PNG
 }
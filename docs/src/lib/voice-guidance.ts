@@ -0,0 +1,223 @@
+import { RouteStep } from "./types";
+
+// Spoken turn-by-turn guidance. Phrases are built from the maneuver type and
+// modifier (OSRM vocabulary) in the driver's language rather than read from
+// the provider's English instruction text.
+
+export type VoiceLanguage = "en" | "pl";
+
+export interface VoiceSettings {
+  muted: boolean;
+  volume: number; // 0..1
+  language: VoiceLanguage;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { muted: false, volume: 1, language: "en" };
+
+// Announcement stages for an upcoming maneuver: well ahead, close, and at the
+// maneuver itself. A step is also announced once as soon as it becomes next.
+export const ANNOUNCE_DISTANCES_METERS = [800, 150, 30];
+
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.34;
+
+interface Phrasebook {
+  label: string;
+  speechLang: string;
+  // Distance ahead, e.g. "In 500 feet", and what joins it to the maneuver
+  inDistance(meters: number): string;
+  separator: string;
+  now: string;
+  // Direction of a turn by OSRM modifier
+  turns: Record<string, string>;
+  uturn: string;
+  depart: string;
+  headTo(address: string): string;
+  roundabout: string;
+  merge: string;
+  onRamp: string;
+  offRamp: string;
+  fork(side: string | undefined): string;
+  onto(streetName: string): string;
+  arriveAt(address: string): string;
+  arrived(address: string): string;
+  note(instructions: string): string;
+  rerouting: string;
+}
+
+// Polish plural form of a count: 1 kilometr, 2 kilometry, 5 kilometrów
+function polishPlural(count: number, one: string, few: string, many: string): string {
+  if (count === 1) return one;
+  const lastDigit = count % 10;
+  const lastTwoDigits = count % 100;
+  return lastDigit >= 2 && lastDigit <= 4 && (lastTwoDigits < 12 || lastTwoDigits > 14) ? few : many;
+}
+
+const PHRASEBOOKS: Record<VoiceLanguage, Phrasebook> = {
+  en: {
+    label: "English",
+    speechLang: "en-US",
+    inDistance(meters) {
+      const miles = meters / METERS_PER_MILE;
+      if (miles >= 0.2) {
+        const rounded = Math.round(miles * 10) / 10;
+        return `In ${rounded} ${rounded === 1 ? "mile" : "miles"}`;
+      }
+      const feet = Math.max(50, Math.round(meters / METERS_PER_FOOT / 50) * 50);
+      return `In ${feet} feet`;
+    },
+    separator: ", ",
+    now: "Now",
+    turns: {
+      "left": "turn left",
+      "right": "turn right",
+      "slight left": "bear left",
+      "slight right": "bear right",
+      "sharp left": "turn sharp left",
+      "sharp right": "turn sharp right",
+      "straight": "continue straight",
+    },
+    uturn: "make a U-turn",
+    depart: "head out",
+    headTo: (address) => `drive to ${address}`,
+    roundabout: "enter the roundabout",
+    merge: "merge",
+    onRamp: "take the ramp",
+    offRamp: "take the exit",
+    fork: (side) => side ? `keep ${side} at the fork` : "continue at the fork",
+    onto: (streetName) => ` onto ${streetName}`,
+    arriveAt: (address) => address ? `you will arrive at ${address}` : "you will arrive",
+    arrived: (address) => address ? `You have arrived at ${address}.` : "You have arrived.",
+    note: (instructions) => `Note: ${instructions}`,
+    rerouting: "Recalculating the route.",
+  },
+  pl: {
+    label: "Polski",
+    speechLang: "pl-PL",
+    inDistance(meters) {
+      if (meters >= 1000) {
+        const kilometers = Math.round(meters / 100) / 10;
+        return Number.isInteger(kilometers)
+          ? `Za ${kilometers} ${polishPlural(kilometers, "kilometr", "kilometry", "kilometrów")}`
+          : `Za ${String(kilometers).replace(".", ",")} kilometra`;
+      }
+      const rounded = Math.max(50, Math.round(meters / 50) * 50);
+      return `Za ${rounded} metrów`;
+    },
+    separator: " ",
+    now: "Teraz",
+    turns: {
+      "left": "skręć w lewo",
+      "right": "skręć w prawo",
+      "slight left": "odbij lekko w lewo",
+      "slight right": "odbij lekko w prawo",
+      "sharp left": "skręć ostro w lewo",
+      "sharp right": "skręć ostro w prawo",
+      "straight": "jedź prosto",
+    },
+    uturn: "zawróć",
+    depart: "ruszaj",
+    headTo: (address) => `jedź do ${address}`,
+    roundabout: "wjedź na rondo",
+    merge: "włącz się do ruchu",
+    onRamp: "wjedź na łącznicę",
+    offRamp: "zjedź z drogi",
+    fork: (side) => side === "left"
+      ? "na rozwidleniu trzymaj się lewej strony"
+      : side === "right"
+        ? "na rozwidleniu trzymaj się prawej strony"
+        : "na rozwidleniu jedź prosto",
+    onto: (streetName) => ` w ${streetName}`,
+    arriveAt: (address) => address ? `dojedziesz do celu: ${address}` : "dojedziesz do celu",
+    arrived: (address) => address ? `Jesteś na miejscu: ${address}.` : "Jesteś na miejscu.",
+    note: (instructions) => `Uwaga: ${instructions}`,
+    rerouting: "Wyznaczam nową trasę.",
+  },
+};
+
+export const VOICE_LANGUAGES = (Object.keys(PHRASEBOOKS) as VoiceLanguage[])
+  .map(language => ({ value: language, label: PHRASEBOOKS[language].label }));
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// The maneuver itself, e.g. "turn left onto Main St"
+function describeManeuver(step: RouteStep, phrases: Phrasebook, destination?: string): string {
+  const onto = step.streetName ? phrases.onto(step.streetName) : "";
+  const side = step.modifier?.includes("left") ? "left" : step.modifier?.includes("right") ? "right" : undefined;
+
+  switch (step.turnType) {
+    case "depart":
+      return phrases.depart + onto;
+    case "roundabout":
+    case "rotary":
+    case "roundabout turn":
+      return phrases.roundabout;
+    case "merge":
+      return phrases.merge + onto;
+    case "on ramp":
+      return phrases.onRamp + onto;
+    case "off ramp":
+      return phrases.offRamp + onto;
+    case "fork":
+      return phrases.fork(side) + onto;
+    case undefined:
+      // Steps of a straight-line fallback route only know where they lead
+      if (destination) return phrases.headTo(destination);
+  }
+
+  if (step.modifier === "uturn") return phrases.uturn + onto;
+  return (phrases.turns[step.modifier ?? "straight"] ?? phrases.turns.straight) + onto;
+}
+
+// What to say for a step `distanceMeters` ahead; at the last stage (or with
+// no distance known) the maneuver is announced without one
+export function stepAnnouncement(
+  step: RouteStep,
+  distanceMeters: number | undefined,
+  language: VoiceLanguage,
+  destination?: { fullAddress: string; specialInstructions?: string | null }
+): string {
+  const phrases = PHRASEBOOKS[language];
+  const atManeuver = distanceMeters === undefined || distanceMeters <= ANNOUNCE_DISTANCES_METERS[ANNOUNCE_DISTANCES_METERS.length - 1];
+
+  if (step.turnType === "arrive") {
+    const address = destination?.fullAddress ?? "";
+    if (!atManeuver) {
+      return `${phrases.inDistance(distanceMeters!)}${phrases.separator}${phrases.arriveAt(address)}.`;
+    }
+    const instructions = destination?.specialInstructions?.trim();
+    return instructions ? `${phrases.arrived(address)} ${phrases.note(instructions)}` : phrases.arrived(address);
+  }
+
+  const maneuver = describeManeuver(step, phrases, destination?.fullAddress);
+  if (distanceMeters === undefined) return `${capitalize(maneuver)}.`;
+  if (atManeuver) return `${phrases.now} ${maneuver}.`;
+  return `${phrases.inDistance(distanceMeters)}${phrases.separator}${maneuver}.`;
+}
+
+export function reroutingAnnouncement(language: VoiceLanguage): string {
+  return PHRASEBOOKS[language].rerouting;
+}
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+// Speak `text`, cutting off whatever is still being said
+export function speak(text: string, settings: VoiceSettings) {
+  if (!isSpeechSupported() || settings.muted) return;
+
+  const { speechLang } = PHRASEBOOKS[settings.language];
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = speechLang;
+  utterance.volume = settings.volume;
+
+  // Prefer an installed voice for the language; the browser default may not speak it
+  const voice = window.speechSynthesis.getVoices().find(voice => voice.lang.replace("_", "-").startsWith(speechLang.slice(0, 2)));
+  if (voice) utterance.voice = voice;
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+}
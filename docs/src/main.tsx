@@ -1,5 +1,13 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import { registerServiceWorker } from "./lib/offline";
+import { startOutboxSync } from "./lib/outbox";
+import { queryClient } from "./lib/queryClient";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
+
+// Send status updates queued while offline; refresh stops once they're in
+startOutboxSync(() => queryClient.invalidateQueries({ queryKey: ["/api/addresses"] }));
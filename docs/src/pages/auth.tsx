@@ -0,0 +1,127 @@
+import React from 'react';
+import { Redirect } from 'wouter';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '@/hooks/use-auth';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader, Navigation } from 'lucide-react';
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const registerSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+type CredentialsFormValues = z.infer<typeof loginSchema>;
+
+interface CredentialsFormProps {
+  schema: typeof loginSchema | typeof registerSchema;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (data: CredentialsFormValues) => void;
+}
+
+function CredentialsForm({ schema, submitLabel, isSubmitting, onSubmit }: CredentialsFormProps) {
+  const form = useForm<CredentialsFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: '', password: '' },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm font-medium text-primary-700">Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" className="border" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm font-medium text-primary-700">Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" className="border" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  // Already logged in: go straight to route planning
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="p-6 pb-2 text-center">
+          <div className="flex items-center justify-center gap-2">
+            <Navigation className="h-6 w-6 text-primary-900" />
+            <h1 className="text-2xl font-bold text-primary-900">DeliveryNav</h1>
+          </div>
+          <p className="text-sm text-primary-500">Sign in to plan and drive your delivery routes</p>
+        </CardHeader>
+
+        <CardContent className="p-6">
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Log In</TabsTrigger>
+              <TabsTrigger value="register">Create Account</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <CredentialsForm
+                schema={loginSchema}
+                submitLabel="Log In"
+                isSubmitting={loginMutation.isPending}
+                onSubmit={(data) => loginMutation.mutate(data)}
+              />
+            </TabsContent>
+
+            <TabsContent value="register">
+              <CredentialsForm
+                schema={registerSchema}
+                submitLabel="Create Account"
+                isSubmitting={registerMutation.isPending}
+                onSubmit={(data) => registerMutation.mutate(data)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Header } from '@/components/layout/header';
+import { TabNavigation } from '@/components/tab-navigation';
+import { DeliveryMap } from '@/components/delivery-map';
+import { useTrackedDrivers } from '@/hooks/use-tracking';
+import { useCommunityReports } from '@/hooks/use-community-reports';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Radio, Truck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const TABS = [
+  { name: 'Plan Route', href: '/' },
+  { name: 'Navigation', href: '/navigation' },
+  { name: 'Summary', href: '/summary' },
+  { name: 'History', href: '/history' },
+  { name: 'Dispatch', href: '/dispatch' },
+];
+
+export default function DispatchPage() {
+  const { drivers, connected } = useTrackedDrivers();
+  const onlineDrivers = drivers.filter(driver => driver.online).length;
+  // Hazards reported by drivers, shown alongside them
+  const { reports, voteOnReport } = useCommunityReports();
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+
+      <TabNavigation tabs={TABS} />
+
+      <main className="flex-1 container mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <DeliveryMap
+          addresses={[]}
+          drivers={drivers}
+          reports={reports}
+          onReportVote={(id, vote) => voteOnReport({ id, vote })}
+          title="Live Drivers"
+        />
+
+        <Card>
+          <CardHeader className="p-4 border-b border-primary-200">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold flex items-center">
+                <Truck className="h-5 w-5 mr-2" />
+                Drivers
+              </h2>
+              <span className={`flex items-center text-sm ${connected ? 'text-success-700' : 'text-primary-500'}`}>
+                <Radio className="h-4 w-4 mr-1" />
+                {connected ? `${onlineDrivers} online` : 'Connecting...'}
+              </span>
+            </div>
+            <p className="text-sm text-primary-500">
+              Drivers appear here while the navigation page is open on their device
+            </p>
+          </CardHeader>
+
+          <CardContent className="p-0">
+            {drivers.length === 0 ? (
+              <div className="p-10 text-center">
+                <Truck className="mx-auto h-8 w-8 text-primary-300 mb-2" />
+                <p className="text-primary-500">No drivers on the road right now.</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-primary-200">
+                {drivers.map((driver) => (
+                  <div key={driver.driverId} className="p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="font-medium">
+                          {driver.vehicleName || (driver.routeId ? `Route #${driver.routeId}` : 'Driver')}
+                          {driver.driverName && <span className="text-primary-500 font-normal"> · {driver.driverName}</span>}
+                        </p>
+                        <p className="text-sm text-primary-500">
+                          {driver.currentStop ? `Next: ${driver.currentStop.fullAddress}` : 'No stop in progress'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {driver.simulated && (
+                          <Badge variant="outline" className="bg-primary-100 text-primary-800 border-primary-200">Simulated</Badge>
+                        )}
+                        <Badge
+                          variant="outline"
+                          className={driver.online
+                            ? "bg-success-100 text-success-800 border-success-200"
+                            : "bg-primary-100 text-primary-500 border-primary-200"}
+                        >
+                          {driver.online ? 'Online' : `Seen ${formatDistanceToNow(new Date(driver.position.timestamp), { addSuffix: true })}`}
+                        </Badge>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      <Progress value={driver.total > 0 ? driver.completed / driver.total * 100 : 0} className="h-2" />
+                      <span className="text-sm text-primary-500 whitespace-nowrap">
+                        {driver.completed}/{driver.total} stops
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Link } from 'wouter';
+import { Header } from '@/components/layout/header';
+import { TabNavigation } from '@/components/tab-navigation';
+import { useRoutes } from '@/hooks/use-route';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Clock, Fuel, History, Route as RouteIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { ROUTE_PREFERENCE_LABELS, RoutePreference } from '@shared/routing';
+
+const TABS = [
+  { name: 'Plan Route', href: '/' },
+  { name: 'Navigation', href: '/navigation' },
+  { name: 'Summary', href: '/summary' },
+  { name: 'History', href: '/history' },
+  { name: 'Dispatch', href: '/dispatch' },
+];
+
+export default function HistoryPage() {
+  const { routes, isLoadingRoutes } = useRoutes();
+
+  // Completed routes, newest first (the API already sorts by creation date)
+  const completedRoutes = routes.filter(route => route.completed);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+
+      <TabNavigation tabs={TABS} />
+
+      <main className="flex-1 container mx-auto px-4 sm:px-6 py-6">
+        <Card>
+          <CardHeader className="p-4 border-b border-primary-200">
+            <h2 className="text-lg font-semibold">Route History</h2>
+            <p className="text-sm text-primary-500">Completed routes with the stops as they were driven</p>
+          </CardHeader>
+
+          <CardContent className="p-0">
+            {isLoadingRoutes ? (
+              <div className="p-4 space-y-3 animate-pulse">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <div key={i} className="h-14 bg-primary-100 rounded"></div>
+                ))}
+              </div>
+            ) : completedRoutes.length === 0 ? (
+              <div className="p-10 text-center">
+                <History className="mx-auto h-8 w-8 text-primary-300 mb-2" />
+                <p className="text-primary-500">No completed routes yet.</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-primary-200">
+                {completedRoutes.map((route) => (
+                  <div key={route.id} className="flex items-center justify-between p-4">
+                    <div>
+                      <p className="font-medium">
+                        {format(new Date(route.completedAt ?? route.createdAt ?? Date.now()), 'MMMM d, yyyy h:mm a')}
+                      </p>
+                      <div className="flex space-x-4 mt-1 text-sm text-primary-500">
+                        <span className="flex items-center">
+                          <RouteIcon className="h-4 w-4 mr-1" />
+                          {route.totalDistance || '-'}
+                        </span>
+                        <span className="flex items-center">
+                          <Clock className="h-4 w-4 mr-1" />
+                          {route.totalTime || '-'}
+                        </span>
+                        <span className="flex items-center">
+                          <Fuel className="h-4 w-4 mr-1" />
+                          {route.fuelUsed || '-'}
+                        </span>
+                      </div>
+                      {!!route.preferences?.length && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {route.preferences.map(preference => (
+                            <Badge key={preference} variant="outline" className="bg-primary-100 text-primary-800 border-primary-200 text-xs">
+                              {ROUTE_PREFERENCE_LABELS[preference as RoutePreference] ?? preference}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <Link href={`/summary?route=${route.id}`}>
+                      <Button variant="outline" size="sm">View</Button>
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,15 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { useLocation } from 'wouter';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useSearch } from 'wouter';
 import { Header } from '@/components/layout/header';
 import { TabNavigation } from '@/components/tab-navigation';
 import { DeliveryMap } from '@/components/delivery-map';
+import { ProofOfDeliveryDialog } from '@/components/proof-of-delivery';
+import { VoiceControls } from '@/components/voice-controls';
+import { ReportHazardDialog } from '@/components/report-hazard';
 import { useAddresses } from '@/hooks/use-addresses';
 import { useRouteSettings, useRoutes } from '@/hooks/use-route';
-import { geocodeAddress, calculateRoute } from '@/lib/map-service';
-import { AddressWithCoordinates, RouteStep, Coordinates } from '@/lib/types';
-import { Address, DeliveryStatus } from '@shared/schema';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { usePendingUpdates } from '@/hooks/use-outbox';
+import { useDevicePosition, useDriverTracking } from '@/hooks/use-tracking';
+import { useRouteTracker } from '@/hooks/use-route-tracker';
+import { useVoiceGuidance } from '@/hooks/use-voice-guidance';
+import { useCustomerNotifications } from '@/hooks/use-notifications';
+import { useCommunityReports } from '@/hooks/use-community-reports';
+import { useDepots } from '@/hooks/use-depots';
+import { calculateRoute, routePlanFor, withCoordinates } from '@/lib/map-service';
+import { OfflineRouteSnapshot, loadOfflineRoute, saveOfflineRoute } from '@/lib/offline';
+import { parseGpx } from '@/lib/tracking';
+import { AddressWithCoordinates, RouteStep, Coordinates, DeliveryProof, RoutePlaceVisit, RouteTraffic } from '@/lib/types';
+import { Address, DeliveryStatus, FailureReason } from '@shared/schema';
+import { decideReattempt } from '@shared/reattempt';
+import { StopSchedule, formatTimeOfDay, minutesOfDay } from '@shared/scheduler';
+import { DriverPosition } from '@shared/tracking';
 import { AdBanner } from '@/components/ad-banner';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   ArrowLeft, 
   ArrowRight, 
@@ -17,7 +35,10 @@ import {
   Phone, 
   AlertTriangle, 
   List, 
-  Navigation2 
+  Navigation2,
+  CloudOff,
+  Upload,
+  TriangleAlert
 } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { toast } from '@/hooks/use-toast';
@@ -44,6 +65,8 @@ const TABS = [
   { name: 'Plan Route', href: '/' },
   { name: 'Navigation', href: '/navigation' },
   { name: 'Summary', href: '/summary' },
+  { name: 'History', href: '/history' },
+  { name: 'Dispatch', href: '/dispatch' },
 ];
 
 export default function NavigationPage() {
@@ -54,24 +77,63 @@ export default function NavigationPage() {
     coordinates: [number, number][]; 
     steps?: RouteStep[];
     currentLocation?: Coordinates;
+    schedule?: StopSchedule[];
+    traffic?: RouteTraffic;
+    places?: RoutePlaceVisit[];
   } | undefined>();
   const [activeStepIndex, setActiveStepIndex] = useState(0);
   const [showTurnByTurn, setShowTurnByTurn] = useState(false);
   const [fullScreenMap, setFullScreenMap] = useState(false);
   const [showRouteOverview, setShowRouteOverview] = useState(false);
   const [isNotDeliveredDialogOpen, setIsNotDeliveredDialogOpen] = useState(false);
+  const [isProofDialogOpen, setIsProofDialogOpen] = useState(false);
+  const [failureReason, setFailureReason] = useState<FailureReason | ''>('');
+  const [failureNotes, setFailureNotes] = useState('');
   const [isAllStopsDialogOpen, setIsAllStopsDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   
   // Get addresses and route settings
   const { 
-    addresses, 
+    addresses: onlineAddresses, 
     isLoadingAddresses, 
+    errorLoadingAddresses,
     updateAddressStatus, 
     isUpdatingAddressStatus 
   } = useAddresses();
   
+  // A driver opening a fleet route (/navigation?route=ID) only sees that route's stops
+  const searchParams = new URLSearchParams(useSearch());
+  const routeParam = searchParams.get('route');
+  const selectedRouteId = routeParam ? parseInt(routeParam) : null;
+  
+  // Route stored on this device by offline mode, used when there is no signal
+  const isOnline = useOnlineStatus();
+  const pendingUpdates = usePendingUpdates();
+  const offlineKey = selectedRouteId !== null ? String(selectedRouteId) : 'current';
+  const [offlineSnapshot, setOfflineSnapshot] = useState<OfflineRouteSnapshot | undefined>();
+  const [isLoadingOfflineSnapshot, setIsLoadingOfflineSnapshot] = useState(true);
+  
+  useEffect(() => {
+    setIsLoadingOfflineSnapshot(true);
+    loadOfflineRoute(offlineKey)
+      .then(setOfflineSnapshot)
+      .catch(error => console.error("Failed to load offline route:", error))
+      .finally(() => setIsLoadingOfflineSnapshot(false));
+  }, [offlineKey]);
+  
+  // Only consulted while offline, so an online session never waits for it
+  const offlineRoute = isOnline ? undefined : offlineSnapshot;
+  const allAddresses = errorLoadingAddresses && offlineSnapshot ? offlineSnapshot.addresses : onlineAddresses;
+  
+  const addresses = useMemo(
+    () => selectedRouteId !== null
+      ? allAddresses.filter(address => address.routeId === selectedRouteId)
+      : allAddresses,
+    [allAddresses, selectedRouteId]
+  );
+  
   const { routeSettings } = useRouteSettings();
+  const { depots, isLoadingDepots } = useDepots();
   
   const { 
     routes, 
@@ -80,8 +142,10 @@ export default function NavigationPage() {
     isCompletingRoute
   } = useRoutes();
   
-  // Get current route (should be the latest non-completed route)
-  const currentRoute = routes?.find(route => !route.completed);
+  // Get current route (the selected fleet route, otherwise the latest non-completed route)
+  const currentRoute = selectedRouteId !== null
+    ? routes?.find(route => route.id === selectedRouteId)
+    : routes?.find(route => !route.completed);
   
   // Get current address
   const currentAddress = addresses[currentAddressIndex];
@@ -92,75 +156,208 @@ export default function NavigationPage() {
     addr => addr.status === DeliveryStatus.DELIVERED || addr.status === DeliveryStatus.FAILED
   ).length;
   
+  // Follow the GPS while navigating; /navigation?simulate=1 drives the planned
+  // route instead, or replays a GPX file loaded on the page
+  const simulateGps = searchParams.get('simulate') === '1';
+  const [replayPositions, setReplayPositions] = useState<DriverPosition[] | undefined>();
+  const position = useDevicePosition({
+    enabled: addresses.length > 0 && (!simulateGps || !!routePath || !!replayPositions),
+    simulatedPath: simulateGps && !replayPositions ? routePath?.coordinates : undefined,
+    replay: replayPositions,
+  });
+  
+  // Share the driver's position with the dispatcher map
+  useDriverTracking({
+    enabled: isOnline && addresses.length > 0,
+    position,
+    routeId: currentRoute?.id ?? null,
+    currentStop: currentAddress ? { id: currentAddress.id, fullAddress: currentAddress.fullAddress } : null,
+    completed: completedAddresses,
+    total: totalAddresses,
+    simulated: simulateGps,
+  });
+  
+  // Recalculate the rest of the route from where the driver is after leaving it
+  const [isRerouting, setIsRerouting] = useState(false);
+  const handleOffRoute = async (offRoutePosition: DriverPosition) => {
+    if (!isOnline || !routeSettings || isRerouting) return;
+    
+    const remaining = withCoordinates(addresses.filter(
+      addr => addr.status !== DeliveryStatus.DELIVERED && addr.status !== DeliveryStatus.FAILED
+    ));
+    if (remaining.length === 0) return;
+    
+    setIsRerouting(true);
+    voice.announceRerouting();
+    toast({
+      title: "Off route",
+      description: "Recalculating the route from your position...",
+    });
+    
+    try {
+      // Carry on to the same end and reloads, starting from here
+      const plan = { ...routePlanFor(routeSettings, depots), start: 'current' as const };
+      const route = await calculateRoute(remaining, routeSettings, plan, {
+        lat: offRoutePosition.lat,
+        lng: offRoutePosition.lng
+      });
+      if (route) {
+        setRoutePath({
+          coordinates: route.coordinates || [],
+          steps: route.steps,
+          currentLocation: route.currentLocation,
+          schedule: route.schedule,
+          traffic: route.traffic,
+          places: route.places
+        });
+        setActiveStepIndex(0);
+      }
+    } finally {
+      setIsRerouting(false);
+    }
+  };
+  
+  const tracker = useRouteTracker(routePath, position, handleOffRoute);
+  
+  // Shown on the map snapped onto the route while the driver is on it
+  const livePosition = useMemo(
+    () => position && tracker ? { ...position, ...tracker.snapped } : position,
+    [position, tracker]
+  );
+  
+  // Passing a maneuver moves on to the next step; the arrows still work in between
+  useEffect(() => {
+    if (tracker) setActiveStepIndex(tracker.stepIndex);
+  }, [tracker?.stepIndex]);
+  
+  // Customers hear their delivery is on its way, and when they're next
+  useCustomerNotifications({
+    enabled: isOnline && !!currentAddress,
+    routeId: currentRoute?.id ?? null,
+    currentStopId: currentAddress?.id ?? null,
+    schedule: routePath?.schedule,
+  });
+  
+  // Hazards reported by drivers, and reporting new ones where the driver is
+  const { reports, createReport, voteOnReport } = useCommunityReports(isOnline);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+  
+  // Spoken directions; the distance is only known while the GPS is on the shown step
+  const voice = useVoiceGuidance({
+    steps: showTurnByTurn ? routePath?.steps : undefined,
+    stepIndex: activeStepIndex,
+    distanceToStep: tracker && tracker.stepIndex === activeStepIndex ? tracker.distanceToStep : undefined,
+    addresses,
+  });
+  
+  const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      setReplayPositions(parseGpx(await file.text()));
+    } catch (error) {
+      toast({
+        title: "Could not replay GPX",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+  
   // Navigate to plan route if no addresses
   useEffect(() => {
-    if (addresses.length === 0 && !isLoadingAddresses) {
+    if (addresses.length === 0 && !isLoadingAddresses && !isLoadingOfflineSnapshot) {
       toast({
         title: "No route planned",
         description: "Please plan a route first.",
       });
       navigate('/');
     }
-  }, [addresses, isLoadingAddresses, navigate]);
+  }, [addresses, isLoadingAddresses, isLoadingOfflineSnapshot, navigate]);
   
   // Get coordinates for addresses and calculate route
   useEffect(() => {
-    const geocodeAddresses = async () => {
+    const updateRoute = async () => {
       if (addresses.length === 0) return;
       
+      // Without signal, reuse the route calculated while online
+      if (offlineRoute) {
+        setAddressesWithCoordinates(offlineRoute.route.waypoints);
+        setRoutePath({
+          coordinates: offlineRoute.route.coordinates || [],
+          steps: offlineRoute.route.steps,
+          currentLocation: offlineRoute.route.currentLocation,
+          schedule: offlineRoute.route.schedule,
+          traffic: offlineRoute.route.traffic,
+          places: offlineRoute.route.places
+        });
+        setShowTurnByTurn(true);
+        toast({
+          title: "Offline",
+          description: `Using the route saved ${new Date(offlineRoute.savedAt).toLocaleString()}.`,
+        });
+        return;
+      }
+      
+      // The starting depot decides where the route begins
+      if (isLoadingDepots) return;
+      
       setIsLoading(true);
       try {
         console.log("Starting navigation with addresses:", addresses);
         
-        // Geocode addresses that don't have lat/lng
-        const geocodedAddresses: AddressWithCoordinates[] = [];
-        
-        for (const address of addresses) {
-          // If we already have geocoded this address, use cached coordinates
-          const existingAddress = addressesWithCoordinates.find(a => a.id === address.id);
-          if (existingAddress) {
-            geocodedAddresses.push(existingAddress);
-            console.log(`Using cached coordinates for ${address.fullAddress}`);
-            continue;
-          }
-          
-          // Otherwise, geocode the address
-          const coords = await geocodeAddress(address.fullAddress);
-          if (coords) {
-            geocodedAddresses.push({
-              ...address,
-              position: [coords.lat, coords.lng]
-            });
-            console.log(`Successfully geocoded ${address.fullAddress} to:`, coords);
-          } else {
-            console.error(`Could not geocode address: ${address.fullAddress}`);
-          }
-        }
+        // The server geocodes addresses when they are added
+        const geocodedAddresses = withCoordinates(addresses);
         
         setAddressesWithCoordinates(geocodedAddresses);
-        console.log(`Successfully geocoded ${geocodedAddresses.length} addresses`);
+        console.log(`${geocodedAddresses.length} of ${addresses.length} addresses have coordinates`);
+        
+        // Stops without a position can't be routed; point the driver at the review list
+        const unlocated = addresses.length - geocodedAddresses.length;
+        if (unlocated > 0) {
+          toast({
+            title: "Stops missing from the map",
+            description: `${unlocated} ${unlocated === 1 ? 'address has' : 'addresses have'} no location. Fix them under Review Locations on the Plan Route tab.`,
+            variant: "destructive",
+          });
+        }
         
         // Calculate route if we have at least 1 address and route settings
         if (geocodedAddresses.length >= 1 && routeSettings) {
           try {
-            console.log("Calculating route with user's current location");
-            // Get the user's current location and calculate route from there
+            console.log("Calculating route from the starting point");
+            // Start at the chosen depot, or get the user's current location and calculate route from there
             const route = await calculateRoute(
               geocodedAddresses, 
               routeSettings,
-              true // start from current location
+              routePlanFor(routeSettings, depots)
             );
             
             if (route) {
               console.log("Route calculation successful:", route);
               
+              // Keep the route on the device so navigation works without signal
+              if (routeSettings.offlineMode) {
+                saveOfflineRoute({
+                  key: offlineKey,
+                  addresses,
+                  route,
+                  savedAt: new Date().toISOString()
+                }).catch(error => console.error("Failed to save route for offline use:", error));
+              }
+              
               // Immediately enable turn-by-turn directions
               setShowTurnByTurn(true);
               
               setRoutePath({
                 coordinates: route.coordinates || [],
                 steps: route.steps,
-                currentLocation: route.currentLocation
+                currentLocation: route.currentLocation,
+                schedule: route.schedule,
+                traffic: route.traffic,
+                places: route.places
               });
               
               // Reset active step index when route changes
@@ -168,7 +365,7 @@ export default function NavigationPage() {
               
               toast({
                 title: "Navigation Ready",
-                description: `Route optimized based on your current location. ${route.steps.length} turn-by-turn directions available.`,
+                description: `Route optimized from ${route.places?.find(place => place.role === 'start')?.name ?? 'your current location'}. ${route.steps.length} turn-by-turn directions available.`,
               });
             }
           } catch (error) {
@@ -176,11 +373,14 @@ export default function NavigationPage() {
             
             // Fall back to route without current location
             console.log("Falling back to route without current location");
-            const fallbackRoute = await calculateRoute(geocodedAddresses, routeSettings);
+            const fallbackRoute = await calculateRoute(geocodedAddresses, routeSettings, routePlanFor(routeSettings, depots, false));
             if (fallbackRoute) {
               setRoutePath({
                 coordinates: fallbackRoute.coordinates || [],
-                steps: fallbackRoute.steps
+                steps: fallbackRoute.steps,
+                schedule: fallbackRoute.schedule,
+                traffic: fallbackRoute.traffic,
+                places: fallbackRoute.places
               });
             }
           }
@@ -197,16 +397,18 @@ export default function NavigationPage() {
       }
     };
     
-    geocodeAddresses();
-  }, [addresses, routeSettings]);
+    updateRoute();
+  }, [addresses, routeSettings, offlineRoute, depots, isLoadingDepots]);
   
-  // Mark current address as delivered
-  const handleMarkDelivered = () => {
+  // Mark current address as delivered, with whatever proof the driver captured
+  const handleMarkDelivered = (proof: DeliveryProof) => {
     if (!currentAddress) return;
     
+    const hasProof = !!(proof.recipientName || proof.photo || proof.signature);
     updateAddressStatus({
       id: currentAddress.id,
-      status: DeliveryStatus.DELIVERED
+      status: DeliveryStatus.DELIVERED,
+      proof: hasProof ? proof : undefined
     });
     
     // Move to next address if not at the end
@@ -225,16 +427,33 @@ export default function NavigationPage() {
     }
   };
   
+  // What the re-attempt rules will do with the current stop for the picked reason
+  const reattemptPreview = currentAddress && failureReason
+    ? decideReattempt(
+        failureReason,
+        (currentAddress.attemptCount ?? 0) + 1,
+        currentAddress.status === DeliveryStatus.ATTEMPTED,
+        new Date()
+      )
+    : undefined;
+  
   // Mark current address as failed
   const handleMarkFailed = () => {
-    if (!currentAddress) return;
+    if (!currentAddress || !failureReason) return;
     
     updateAddressStatus({
       id: currentAddress.id,
-      status: DeliveryStatus.FAILED
+      status: DeliveryStatus.FAILED,
+      failureReason,
+      notes: failureNotes.trim() || undefined
     });
     
     setIsNotDeliveredDialogOpen(false);
+    setFailureReason('');
+    setFailureNotes('');
+    
+    // A retried stop moves to the end of the route, so the next stop takes its place
+    if (reattemptPreview?.action === 'retry') return;
     
     // Move to next address if not at the end
     if (currentAddressIndex < totalAddresses - 1) {
@@ -315,21 +534,52 @@ export default function NavigationPage() {
   
   // Handle fake call button
   const handleCall = () => {
-    toast({
-      title: "Calling customer...",
-      description: "This would initiate a call in a real app.",
-    });
+    if (!currentAddress?.customerPhone) {
+      toast({
+        title: "No phone number",
+        description: "Add the customer's phone number to the stop to call them.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    window.location.href = `tel:${currentAddress.customerPhone.replace(/[^\d+]/g, '')}`;
+  };
+  
+  // Planned timeline entry for an address, if the route has been scheduled
+  const getStopSchedule = (addressId?: number) => {
+    return routePath?.schedule?.find(stop => stop.id === addressId);
   };
   
-  // Calculate ETA (fake implementation)
+  // Calculate ETA from the planned arrival time of the current stop
   const getETA = () => {
-    return '12 min';
+    const stop = getStopSchedule(currentAddress?.id);
+    if (!stop) return '--';
+    
+    const minutesAway = Math.max(0, Math.round(stop.arrival - minutesOfDay(new Date())));
+    return `${formatTimeOfDay(stop.arrival)} (${minutesAway} min)`;
+  };
+  
+  // Describe waiting time and lateness for a stop in the timeline
+  const describeSchedule = (stop: StopSchedule) => {
+    const parts = [`Arrive ${formatTimeOfDay(stop.arrival)}`];
+    if (stop.waitMinutes >= 1) {
+      parts.push(`wait ${Math.round(stop.waitMinutes)} min`);
+    }
+    if (stop.latenessMinutes >= 1) {
+      parts.push(`${Math.round(stop.latenessMinutes)} min late${stop.missedHardWindow ? ' (misses exact time)' : ''}`);
+    }
+    parts.push(`depart ${formatTimeOfDay(stop.departure)}`);
+    return parts.join(' • ');
   };
   
-  // Get traffic condition (fake implementation)
+  // Traffic along the route, from the delay it adds to the free-flow drive time
   const getTrafficCondition = () => {
-    const conditions = ['Light traffic', 'Moderate traffic', 'Heavy traffic'];
-    return conditions[Math.floor(Math.random() * conditions.length)];
+    const traffic = routePath?.traffic;
+    if (!traffic) return 'Traffic unknown';
+    
+    const delayPercent = Math.round((traffic.delayRatio - 1) * 100);
+    return delayPercent >= 1 ? `${traffic.condition} (+${delayPercent}%)` : traffic.condition;
   };
   
   // Toggle route overview
@@ -402,6 +652,7 @@ export default function NavigationPage() {
             <DeliveryMap
               addresses={addressesWithCoordinates}
               currentRoute={routePath}
+              livePosition={livePosition}
               isLoading={isLoading}
               activeAddressId={currentAddress?.id}
               showActiveStepDirections={showTurnByTurn && !showRouteOverview}
@@ -409,8 +660,48 @@ export default function NavigationPage() {
               fullScreen={fullScreenMap}
               title={fullScreenMap ? (showRouteOverview ? "Route Overview" : "Live Navigation") : "Route Preview"}
               showRouteOverview={showRouteOverview}
+              reports={reports}
+              onReportVote={(id, vote) => voteOnReport({ id, vote })}
             />
             
+            {/* Report a hazard at the driver's location */}
+            {isOnline && (
+              <div className="absolute bottom-4 right-4 z-50">
+                <Button
+                  variant="outline"
+                  className="bg-white rounded-full shadow-lg"
+                  onClick={() => setIsReportDialogOpen(true)}
+                >
+                  <TriangleAlert className="h-4 w-4 mr-1 text-warning-600" />
+                  Report
+                </Button>
+              </div>
+            )}
+            
+            {/* Status updates recorded offline and not yet sent */}
+            {pendingUpdates > 0 && (
+              <div className="absolute top-16 left-4 z-50 bg-white border border-warning-200 text-warning-800 text-sm rounded-full shadow px-3 py-1 flex items-center">
+                <CloudOff className="h-4 w-4 mr-1" />
+                {pendingUpdates} {pendingUpdates === 1 ? 'update' : 'updates'} waiting to sync
+              </div>
+            )}
+            
+            {/* Voice guidance controls */}
+            {showTurnByTurn && (
+              <div className="absolute bottom-4 left-4 z-50">
+                <VoiceControls settings={voice.settings} onChange={voice.updateSettings} supported={voice.supported} />
+              </div>
+            )}
+            
+            {/* GPS simulation: replay a recorded drive instead of the planned route */}
+            {simulateGps && (
+              <label className="absolute top-28 left-4 z-50 bg-white border border-primary-200 text-primary-700 text-sm rounded-full shadow px-3 py-1 flex items-center cursor-pointer">
+                <Upload className="h-4 w-4 mr-1" />
+                {replayPositions ? `Replaying ${replayPositions.length} GPX points` : 'Replay GPX'}
+                <input type="file" accept=".gpx,application/gpx+xml" className="hidden" onChange={handleReplayFile} />
+              </label>
+            )}
+            
             {/* Floating Next Button in Top Right Corner */}
             {currentAddressIndex < totalAddresses - 1 && (
               <div className="absolute top-16 right-4 z-50">
@@ -445,6 +736,14 @@ export default function NavigationPage() {
                       Note: {currentAddress.specialInstructions}
                     </p>
                   )}
+                  {(currentAddress.attemptCount ?? 0) > 0 && (
+                    <p className="text-sm text-warning-700 mt-1">
+                      Attempt {(currentAddress.attemptCount ?? 0) + 1}
+                      {currentAddress.failureReason && ` • last: ${currentAddress.failureReason}`}
+                      {currentAddress.status === DeliveryStatus.ATTEMPTED && currentAddress.retryAfter &&
+                        ` • retry after ${formatTimeOfDay(minutesOfDay(new Date(currentAddress.retryAfter)))}`}
+                    </p>
+                  )}
                 </div>
                 
                 <div className="flex items-center justify-between text-sm mb-3">
@@ -500,7 +799,7 @@ export default function NavigationPage() {
                 <Button 
                   variant="default" 
                   className="bg-success-500 hover:bg-success-600"
-                  onClick={handleMarkDelivered}
+                  onClick={() => setIsProofDialogOpen(true)}
                   disabled={isUpdatingAddressStatus}
                 >
                   <Check className="mr-2 h-4 w-4" /> Delivered
@@ -573,6 +872,10 @@ export default function NavigationPage() {
                   
                   <span className="text-xs font-medium text-primary-700">
                     Step {activeStepIndex + 1} of {routePath.steps.length}
+                    {tracker && tracker.stepIndex === activeStepIndex && Number.isFinite(tracker.distanceToStep) && (
+                      <> · in {(tracker.distanceToStep / 1609.34).toFixed(1)} mi</>
+                    )}
+                    {isRerouting && <> · Rerouting...</>}
                   </span>
                   
                   <Button 
@@ -590,19 +893,62 @@ export default function NavigationPage() {
         </div>
       </main>
       
+      {/* Proof of Delivery Dialog */}
+      <ProofOfDeliveryDialog
+        open={isProofDialogOpen}
+        onOpenChange={setIsProofDialogOpen}
+        address={currentAddress?.fullAddress}
+        onConfirm={handleMarkDelivered}
+      />
+      
+      {/* Hazard report dialog */}
+      <ReportHazardDialog
+        open={isReportDialogOpen}
+        onOpenChange={setIsReportDialogOpen}
+        location={position ? { lat: position.lat, lng: position.lng } : undefined}
+        onReport={createReport}
+      />
+      
       {/* Not Delivered Dialog */}
       <AlertDialog open={isNotDeliveredDialogOpen} onOpenChange={setIsNotDeliveredDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Unable to Deliver?</AlertDialogTitle>
             <AlertDialogDescription>
-              Please confirm that you were unable to deliver this package. This will mark the stop as "Failed".
+              Pick what went wrong. Depending on the reason the stop is retried later today, moved to the next route or marked as "Failed".
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-3">
+            <Select value={failureReason} onValueChange={(value) => setFailureReason(value as FailureReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(FailureReason).map(reason => (
+                  <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="Notes (optional)"
+              value={failureNotes}
+              onChange={(e) => setFailureNotes(e.target.value)}
+            />
+            {reattemptPreview && (
+              <p className="text-sm text-primary-600">
+                {reattemptPreview.action === 'retry'
+                  ? `Will be retried after ${formatTimeOfDay(minutesOfDay(reattemptPreview.retryAfter))}, at the end of this route.`
+                  : reattemptPreview.action === 'carryOver'
+                    ? 'Will be moved to the next route.'
+                    : 'Will not be retried.'}
+              </p>
+            )}
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction 
               onClick={handleMarkFailed}
+              disabled={!failureReason}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
               Mark as Failed
@@ -645,6 +991,13 @@ export default function NavigationPage() {
                           ? '✗ Failed' 
                           : 'Pending'}
                     </p>
+                    {getStopSchedule(address.id) && (
+                      <p className={`text-xs ${
+                        getStopSchedule(address.id)!.latenessMinutes >= 1 ? 'text-destructive-600' : 'text-primary-500'
+                      }`}>
+                        {describeSchedule(getStopSchedule(address.id)!)}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useLocation, useRoute } from 'wouter';
 import { TabNavigation } from '@/components/tab-navigation';
 import { Header } from '@/components/layout/header';
@@ -8,14 +8,18 @@ import { AddressList } from '@/components/address-list';
 import { DeliveryMap } from '@/components/delivery-map';
 import { CSVImport } from '@/components/csv-import';
 import { RouteSettingsForm } from '@/components/route-settings';
+import { FleetPlanner } from '@/components/fleet-planner';
+import { DepotManager } from '@/components/depot-manager';
+import { AddressReview } from '@/components/address-review';
 import { useAddresses } from '@/hooks/use-addresses';
 import { useRouteSettings, useRoutes } from '@/hooks/use-route';
-import { Address, InsertAddress, RouteSettings } from '@shared/schema';
-import { AddressWithCoordinates } from '@/lib/types';
-import { 
-  calculateRoute, 
-  geocodeAddress 
-} from '@/lib/map-service';
+import { useFleet } from '@/hooks/use-fleet';
+import { useDepots } from '@/hooks/use-depots';
+import { Address, DeliveryStatus, FleetBalance, InsertAddress, RouteSettings } from '@shared/schema';
+import { AddressWithCoordinates, Coordinates, RoutePlaceVisit } from '@/lib/types';
+import { calculateBounds, calculateRoute, routePlanFor, withCoordinates } from '@/lib/map-service';
+import { RoutePreference } from '@shared/routing';
+import { precacheTiles } from '@/lib/offline';
 import { 
   Dialog, 
   DialogContent, 
@@ -32,6 +36,8 @@ const TABS = [
   { name: 'Plan Route', href: '/' },
   { name: 'Navigation', href: '/navigation' },
   { name: 'Summary', href: '/summary' },
+  { name: 'History', href: '/history' },
+  { name: 'Dispatch', href: '/dispatch' },
 ];
 
 export default function PlanRoute() {
@@ -39,9 +45,12 @@ export default function PlanRoute() {
   const [editingAddress, setEditingAddress] = useState<Address | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [addressesWithCoordinates, setAddressesWithCoordinates] = useState<AddressWithCoordinates[]>([]);
-  const [routePath, setRoutePath] = useState<{ coordinates: [number, number][] } | undefined>();
-  const [routeStats, setRouteStats] = useState<{ totalDistance: string; totalTime: string; totalFuel: string; } | undefined>();
+  const [routePath, setRoutePath] = useState<{ coordinates: [number, number][]; places?: RoutePlaceVisit[] } | undefined>();
+  const [routeGeometry, setRouteGeometry] = useState<[number, number][]>([]);
+  const [routeStats, setRouteStats] = useState<{ totalDistance: string; totalTime: string; totalFuel: string; preferences?: RoutePreference[]; } | undefined>();
   const [isOptimizing, setIsOptimizing] = useState(false);
+  const [draggingAddressId, setDraggingAddressId] = useState<number | undefined>();
+  const [offlineDownloadProgress, setOfflineDownloadProgress] = useState<{ done: number; total: number } | undefined>();
 
   // Fetch addresses and route settings
   const { 
@@ -54,7 +63,9 @@ export default function PlanRoute() {
     deleteAddress, 
     isDeletingAddress,
     bulkAddAddresses,
-    isBulkAddingAddresses
+    isBulkAddingAddresses,
+    relocateAddress,
+    isRelocatingAddress
   } = useAddresses();
 
   const { 
@@ -68,12 +79,30 @@ export default function PlanRoute() {
     createRoute,
     isCreatingRoute,
     optimizeRoute,
-    isOptimizingRoute
+    isOptimizingRoute,
+    optimizationResult
   } = useRoutes();
 
+  const {
+    vehicles,
+    createVehicle,
+    isCreatingVehicle,
+    deleteVehicle,
+    planFleet,
+    isPlanningFleet,
+    fleetPlan
+  } = useFleet();
+
+  const {
+    depots,
+    createDepot,
+    isCreatingDepot,
+    deleteDepot
+  } = useDepots();
+
   // Convert addresses to addressesWithCoordinates when addresses change
   useEffect(() => {
-    const geocodeAddresses = async () => {
+    const updateRoute = async () => {
       if (addresses.length === 0) {
         setAddressesWithCoordinates([]);
         setRoutePath(undefined);
@@ -81,38 +110,8 @@ export default function PlanRoute() {
         return;
       }
 
-      // Geocode addresses that don't have lat/lng
-      const geocodedAddresses: AddressWithCoordinates[] = [];
-      
-      for (const address of addresses) {
-        // If we already have geocoded this address, use cached coordinates
-        const existingAddress = addressesWithCoordinates.find(a => a.id === address.id);
-        if (existingAddress) {
-          geocodedAddresses.push(existingAddress);
-          continue;
-        }
-        
-        // Otherwise, geocode the address
-        try {
-          const coords = await geocodeAddress(address.fullAddress);
-          if (coords) {
-            geocodedAddresses.push({
-              ...address,
-              position: [coords.lat, coords.lng]
-            });
-          } else {
-            // If geocoding fails, push address without coordinates
-            console.warn(`Failed to geocode address: ${address.fullAddress}`);
-            toast({
-              title: "Geocoding failed",
-              description: `Could not find coordinates for: ${address.fullAddress}`,
-              variant: "destructive",
-            });
-          }
-        } catch (error) {
-          console.error(`Error geocoding address: ${address.fullAddress}`, error);
-        }
-      }
+      // The server geocodes addresses when they are added
+      const geocodedAddresses = withCoordinates(addresses);
       
       setAddressesWithCoordinates(geocodedAddresses);
 
@@ -120,16 +119,19 @@ export default function PlanRoute() {
       if (geocodedAddresses.length >= 2 && routeSettings) {
         try {
           setIsOptimizing(true);
-          const route = await calculateRoute(geocodedAddresses, routeSettings);
+          // Planning happens ahead of time, so the route starts at a depot or the first stop
+          const route = await calculateRoute(geocodedAddresses, routeSettings, routePlanFor(routeSettings, depots, false));
           
           if (route) {
             // Get coordinates for route path
             const coordinates = route.waypoints.map(wp => [wp.position[1], wp.position[0]] as [number, number]);
-            setRoutePath({ coordinates });
+            setRoutePath({ coordinates, places: route.places });
+            setRouteGeometry(route.coordinates || []);
             setRouteStats({
               totalDistance: route.totalDistance,
               totalTime: route.totalDuration,
-              totalFuel: route.totalFuel
+              totalFuel: route.totalFuel,
+              preferences: route.preferences
             });
           }
         } catch (error) {
@@ -145,8 +147,73 @@ export default function PlanRoute() {
       }
     };
 
-    geocodeAddresses();
-  }, [addresses, routeSettings]);
+    updateRoute();
+  }, [addresses, routeSettings, depots]);
+
+  // Addresses on the map, plus a pin to drag for an address that has no position yet
+  const mapAddresses = useMemo(() => {
+    const pinAddress = addresses.find(address => address.id === draggingAddressId);
+    if (!pinAddress || addressesWithCoordinates.some(address => address.id === pinAddress.id)) {
+      return addressesWithCoordinates;
+    }
+    
+    // Start the pin in the middle of the other stops
+    const located = addressesWithCoordinates;
+    const position: [number, number] = located.length > 0
+      ? [
+          located.reduce((sum, address) => sum + address.position[0], 0) / located.length,
+          located.reduce((sum, address) => sum + address.position[1], 0) / located.length,
+        ]
+      : [50.0646, 19.9450];
+    
+    return [...addressesWithCoordinates, { ...pinAddress, position }];
+  }, [addresses, addressesWithCoordinates, draggingAddressId]);
+  
+  const handleRelocateAddress = (id: number, location?: Coordinates) => {
+    relocateAddress({ id, location });
+  };
+  
+  const handleAddressMoved = (id: number, location: Coordinates) => {
+    relocateAddress({ id, location });
+    setDraggingAddressId(undefined);
+  };
+
+  // Download the map tiles around the stops so the map works without signal
+  const handleDownloadOfflineMaps = async () => {
+    if (addressesWithCoordinates.length === 0) {
+      toast({
+        title: "Nothing to download",
+        description: "Add addresses first so we know which area to save.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const bounds = calculateBounds(
+      addressesWithCoordinates.map(address => ({ lat: address.position[0], lng: address.position[1] }))
+    );
+    
+    try {
+      setOfflineDownloadProgress({ done: 0, total: 0 });
+      const result = await precacheTiles(bounds, (done, total) => setOfflineDownloadProgress({ done, total }));
+      
+      updateRouteSettings({ offlineMapsLastUpdated: new Date() });
+      toast({
+        title: "Offline maps ready",
+        description: result.failed > 0
+          ? `Saved ${result.total - result.failed} of ${result.total} map tiles. Try again later for the rest.`
+          : `Saved ${result.total} map tiles for your delivery area.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Offline map download failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setOfflineDownloadProgress(undefined);
+    }
+  };
 
   const handleAddAddress = async (data: InsertAddress) => {
     createAddress(data);
@@ -177,6 +244,14 @@ export default function PlanRoute() {
     bulkAddAddresses(addresses);
   };
 
+  const handleOptimizeRoute = () => {
+    optimizeRoute({});
+  };
+
+  const handlePlanFleet = (balance: FleetBalance) => {
+    planFleet({ balance });
+  };
+
   const handleStartRoute = () => {
     if (addresses.length < 2) {
       toast({
@@ -193,6 +268,8 @@ export default function PlanRoute() {
         totalDistance: routeStats.totalDistance,
         totalTime: routeStats.totalTime,
         fuelUsed: routeStats.totalFuel,
+        geometry: routeGeometry,
+        preferences: routeStats.preferences ?? null,
         completed: false
       });
       
@@ -261,12 +338,41 @@ export default function PlanRoute() {
               <RouteSettingsForm 
                 onSubmit={updateRouteSettings}
                 isSubmitting={isUpdatingRouteSettings}
+                onDownloadOfflineMaps={handleDownloadOfflineMaps}
+                offlineDownloadProgress={offlineDownloadProgress}
                 defaultValues={routeSettings}
+                depots={depots}
+              />
+              
+              <DepotManager
+                depots={depots}
+                onAddDepot={createDepot}
+                onDeleteDepot={deleteDepot}
+                isAddingDepot={isCreatingDepot}
+              />
+              
+              <FleetPlanner
+                vehicles={vehicles}
+                onAddVehicle={createVehicle}
+                onDeleteVehicle={deleteVehicle}
+                isAddingVehicle={isCreatingVehicle}
+                onPlan={handlePlanFleet}
+                isPlanning={isPlanningFleet}
+                plan={fleetPlan}
+                canPlan={addresses.some(address => address.status === DeliveryStatus.PENDING)}
               />
             </div>
             
             {/* Map and Address List Section */}
             <div className="lg:col-span-2 space-y-6">
+              <AddressReview
+                addresses={addresses}
+                onRelocate={handleRelocateAddress}
+                isRelocating={isRelocatingAddress}
+                draggingAddressId={draggingAddressId}
+                onToggleDrag={setDraggingAddressId}
+              />
+              
               <AddressList 
                 addresses={addresses}
                 isLoading={isLoadingAddresses}
@@ -274,12 +380,17 @@ export default function PlanRoute() {
                 onDeleteAddress={handleDeleteAddress}
                 routeStats={routeStats}
                 onStartRoute={handleStartRoute}
+                onOptimizeRoute={handleOptimizeRoute}
+                isOptimizingRoute={isOptimizingRoute}
+                optimizationResult={optimizationResult}
               />
               
               <DeliveryMap 
-                addresses={addressesWithCoordinates}
+                addresses={mapAddresses}
                 currentRoute={routePath}
                 isLoading={isOptimizing}
+                draggableAddressId={draggingAddressId}
+                onAddressMoved={handleAddressMoved}
               />
             </div>
           </div>
@@ -300,8 +411,12 @@ export default function PlanRoute() {
               defaultValues={{
                 fullAddress: editingAddress.fullAddress,
                 timeWindow: editingAddress.timeWindow,
+                exactDeliveryTime: editingAddress.exactDeliveryTime || '',
+                serviceTime: editingAddress.serviceTime,
                 priority: editingAddress.priority,
                 specialInstructions: editingAddress.specialInstructions || '',
+                customerPhone: editingAddress.customerPhone || '',
+                customerEmail: editingAddress.customerEmail || '',
               }}
             />
           )}
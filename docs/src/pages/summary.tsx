@@ -1,10 +1,12 @@
 import React from 'react';
-import { useLocation } from 'wouter';
+import { useLocation, useSearch } from 'wouter';
 import { Header } from '@/components/layout/header';
 import { TabNavigation } from '@/components/tab-navigation';
-import { useAddresses } from '@/hooks/use-addresses';
-import { useRoutes } from '@/hooks/use-route';
-import { DeliveryStatus } from '@shared/schema';
+import { useRoutes, useRouteStops } from '@/hooks/use-route';
+import { DeliveryStatus, RouteStop } from '@shared/schema';
+import { AddressWithCoordinates } from '@/lib/types';
+import { downloadFile } from '@/lib/queryClient';
+import { evaluateDeliveryTime, formatTimeOfDay, getDeliveryWindow } from '@shared/scheduler';
 import { Button } from '@/components/ui/button';
 import { 
   Card, 
@@ -29,45 +31,161 @@ const TABS = [
   { name: 'Plan Route', href: '/' },
   { name: 'Navigation', href: '/navigation' },
   { name: 'Summary', href: '/summary' },
+  { name: 'History', href: '/history' },
+  { name: 'Dispatch', href: '/dispatch' },
 ];
 
 export default function SummaryPage() {
   const [, navigate] = useLocation();
   
-  // Get addresses and routes
-  const { addresses, isLoadingAddresses } = useAddresses();
+  // Get routes
   const { routes, isLoadingRoutes } = useRoutes();
   
-  // Get the most recent completed route
-  const completedRoute = routes?.find(route => route.completed);
+  // Show the route picked from the history (/summary?route=ID), otherwise the most recent completed one
+  const routeParam = new URLSearchParams(useSearch()).get('route');
+  const completedRoute = routeParam
+    ? routes?.find(route => route.id === parseInt(routeParam) && route.completed)
+    : routes?.find(route => route.completed);
+  
+  // Stops as they were when the route was completed
+  const { routeStops, isLoadingRouteStops } = useRouteStops(completedRoute?.id);
   
   // Calculate delivery stats
-  const totalDeliveries = addresses.length;
-  const successfulDeliveries = addresses.filter(a => a.status === DeliveryStatus.DELIVERED).length;
-  const failedDeliveries = addresses.filter(a => a.status === DeliveryStatus.FAILED).length;
+  const totalDeliveries = routeStops.length;
+  const successfulDeliveries = routeStops.filter(s => s.status === DeliveryStatus.DELIVERED).length;
+  const failedDeliveries = routeStops.filter(s => s.status === DeliveryStatus.FAILED).length;
+  
+  // Stops the map can place, rebuilt as addresses from their snapshot
+  const mappedStops: AddressWithCoordinates[] = routeStops
+    .filter(stop => stop.latitude && stop.longitude)
+    .map(stop => ({
+      id: stop.id,
+      fullAddress: stop.fullAddress,
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      geocodeStatus: null,
+      geocodeCandidates: null,
+      timeWindow: stop.timeWindow,
+      exactDeliveryTime: stop.exactDeliveryTime,
+      serviceTime: stop.serviceTime,
+      priority: stop.priority,
+      specialInstructions: stop.specialInstructions,
+      customerPhone: null,
+      customerEmail: null,
+      trackingToken: null,
+      estimatedArrival: null,
+      userId: null,
+      routeId: stop.routeId,
+      status: stop.status,
+      statusUpdatedAt: null,
+      deliveredAt: stop.deliveredAt,
+      failureReason: stop.failureReason,
+      notes: stop.notes,
+      attemptCount: stop.attemptCount,
+      retryAfter: null,
+      recipientName: stop.recipientName,
+      proofPhoto: stop.proofPhoto,
+      proofSignature: stop.proofSignature,
+      sequence: stop.sequence,
+      position: [parseFloat(stop.latitude!), parseFloat(stop.longitude!)],
+    }));
   
   // Format date for display
   const getFormattedDate = () => {
-    if (completedRoute?.createdAt) {
-      return format(new Date(completedRoute.createdAt), 'MMMM d, yyyy');
+    const date = completedRoute?.completedAt ?? completedRoute?.createdAt;
+    if (date) {
+      return format(new Date(date), 'MMMM d, yyyy');
     }
     return format(new Date(), 'MMMM d, yyyy');
   };
   
-  // Handle CSV export (placeholder)
-  const handleExportCSV = () => {
-    toast({
-      title: "Export CSV",
-      description: "This would export the route data as CSV in a real app.",
-    });
+  // Describe the delivery window a stop had to be served in
+  const getWindowLabel = (stop: RouteStop) => {
+    const window = getDeliveryWindow(stop);
+    if (!window) return 'Any time';
+    return `${formatTimeOfDay(window.start)} - ${formatTimeOfDay(window.end)}`;
+  };
+  
+  // Show whether a delivered stop was served inside its window
+  const renderPunctuality = (stop: RouteStop) => {
+    if (!stop.deliveredAt || !getDeliveryWindow(stop)) return null;
+    
+    const { onTime, latenessMinutes } = evaluateDeliveryTime(stop, new Date(stop.deliveredAt));
+    return (
+      <span className={`ml-2 text-xs ${onTime ? 'text-success-700' : 'text-destructive-700'}`}>
+        {onTime ? 'On time' : `${latenessMinutes} min late`}
+      </span>
+    );
   };
   
-  // Handle PDF export (placeholder)
-  const handleExportPDF = () => {
-    toast({
-      title: "Export PDF",
-      description: "This would export the route data as PDF in a real app.",
-    });
+  // Recipient plus photo and signature thumbnails, each opening the full image
+  const renderProof = (stop: RouteStop) => {
+    if (!stop.recipientName && !stop.proofPhoto && !stop.proofSignature) return '-';
+    
+    return (
+      <div className="space-y-1">
+        {stop.recipientName && <p className="text-primary-900">{stop.recipientName}</p>}
+        <div className="flex gap-2">
+          {[stop.proofPhoto, stop.proofSignature].filter(Boolean).map(file => (
+            <a key={file} href={`/api/proofs/${file}`} target="_blank" rel="noreferrer">
+              <img
+                src={`/api/proofs/${file}`}
+                alt={file === stop.proofPhoto ? 'Delivery photo' : 'Signature'}
+                className="h-12 w-16 object-contain rounded border border-primary-200 bg-white"
+              />
+            </a>
+          ))}
+        </div>
+      </div>
+    );
+  };
+  
+  // Download the route's stops as CSV
+  const handleExportCSV = async () => {
+    if (!completedRoute) return;
+    
+    try {
+      await downloadFile(`/api/routes/${completedRoute.id}/export/csv`, `route-${completedRoute.id}.csv`);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Download only the failed stops, ready to be imported into the next route
+  const handleExportFailedCSV = async () => {
+    if (!completedRoute) return;
+    
+    try {
+      await downloadFile(
+        `/api/routes/${completedRoute.id}/export/csv?status=${encodeURIComponent(DeliveryStatus.FAILED)}`,
+        `route-${completedRoute.id}-failed.csv`
+      );
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Download the printable route report
+  const handleExportPDF = async () => {
+    if (!completedRoute) return;
+    
+    try {
+      await downloadFile(`/api/routes/${completedRoute.id}/export/pdf`, `route-${completedRoute.id}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
   };
   
   // Handle new route button
@@ -76,7 +194,7 @@ export default function SummaryPage() {
   };
   
   // Loading state
-  if (isLoadingAddresses || isLoadingRoutes) {
+  if (isLoadingRoutes || (completedRoute && isLoadingRouteStops)) {
     return (
       <div className="flex flex-col min-h-screen">
         <Header />
@@ -105,7 +223,7 @@ export default function SummaryPage() {
   }
   
   // No completed route state
-  if (!completedRoute || addresses.length === 0) {
+  if (!completedRoute) {
     return (
       <div className="flex flex-col min-h-screen">
         <Header />
@@ -183,12 +301,7 @@ export default function SummaryPage() {
               <div className="rounded-lg overflow-hidden border border-primary-200">
                 <div className="h-60 w-full">
                   {/* A simplified version of the map showing the completed route */}
-                  <DeliveryMap 
-                    addresses={addresses.map(addr => ({
-                      ...addr,
-                      position: [0, 0], // Dummy positions, would be calculated in a real app
-                    }))}
-                  />
+                  <DeliveryMap addresses={mappedStops} />
                 </div>
               </div>
             </div>
@@ -202,34 +315,46 @@ export default function SummaryPage() {
                     <tr>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-primary-500 uppercase tracking-wider">Address</th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-primary-500 uppercase tracking-wider">Status</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-primary-500 uppercase tracking-wider">Window</th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-primary-500 uppercase tracking-wider">Time</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-primary-500 uppercase tracking-wider">Proof</th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-primary-500 uppercase tracking-wider">Notes</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-primary-200">
-                    {addresses.map((address) => (
-                      <tr key={address.id}>
+                    {routeStops.map((stop) => (
+                      <tr key={stop.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-primary-900">
-                          {address.fullAddress}
+                          {stop.fullAddress}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                            address.status === DeliveryStatus.DELIVERED
+                            stop.status === DeliveryStatus.DELIVERED
                               ? 'bg-success-100 text-success-800'
-                              : address.status === DeliveryStatus.FAILED
+                              : stop.status === DeliveryStatus.FAILED
                                 ? 'bg-destructive-100 text-destructive-800'
                                 : 'bg-primary-100 text-primary-800'
                           }`}>
-                            {address.status}
+                            {stop.status}
                           </span>
+                          {stop.failureReason && (
+                            <p className="mt-1 text-xs text-primary-500">{stop.failureReason}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-primary-500">
+                          {getWindowLabel(stop)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-primary-500">
-                          {address.deliveredAt 
-                            ? format(new Date(address.deliveredAt), 'hh:mm a')
+                          {stop.deliveredAt 
+                            ? format(new Date(stop.deliveredAt), 'hh:mm a')
                             : '-'}
+                          {renderPunctuality(stop)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-primary-500">
+                          {renderProof(stop)}
                         </td>
                         <td className="px-6 py-4 text-sm text-primary-500">
-                          {address.specialInstructions || '-'}
+                          {[stop.specialInstructions, stop.notes].filter(Boolean).join(' · ') || '-'}
                         </td>
                       </tr>
                     ))}
@@ -242,6 +367,11 @@ export default function SummaryPage() {
               <Button variant="outline" onClick={handleExportCSV}>
                 <FileDown className="mr-2 h-4 w-4" /> Export CSV
               </Button>
+              {failedDeliveries > 0 && (
+                <Button variant="outline" onClick={handleExportFailedCSV}>
+                  <FileDown className="mr-2 h-4 w-4" /> Export Failed Stops
+                </Button>
+              )}
               <Button variant="outline" onClick={handleExportPDF}>
                 <FileText className="mr-2 h-4 w-4" /> Export PDF
               </Button>
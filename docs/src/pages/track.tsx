@@ -0,0 +1,184 @@
+import React, { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { TILE_URL } from '@/lib/offline';
+import { getQueryFn } from '@/lib/queryClient';
+import { DeliveryStatus } from '@shared/schema';
+import { LatLng } from '@shared/optimizer';
+import { AlertCircle, Clock, Loader, MapPin, PackageCheck, Truck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+
+// What the public tracking endpoint shares about a delivery
+interface TrackingInfo {
+  address: string;
+  status: string;
+  deliveredAt: string | null;
+  recipientName: string | null;
+  eta: string | null;
+  isNext: boolean;
+  destination: LatLng | null;
+  driver: { lat: number; lng: number; updatedAt: string; online: boolean } | null;
+}
+
+// The driver's position is refreshed this often while the page is open
+const REFRESH_INTERVAL_MS = 30000;
+
+function formatClock(value: string): string {
+  return new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function pinIcon(color: string) {
+  return L.divIcon({
+    className: 'tracking-marker',
+    html: `<div style="
+      width: 18px;
+      height: 18px;
+      border-radius: 50%;
+      background-color: ${color};
+      border: 3px solid white;
+      box-shadow: 0 0 4px rgba(0,0,0,0.4);
+    "></div>`,
+    iconSize: [18, 18],
+    iconAnchor: [9, 9],
+  });
+}
+
+// Small map with the customer's stop and roughly where the driver is
+function TrackingMap({ destination, driver }: { destination: LatLng | null; driver: TrackingInfo['driver'] }) {
+  const container = useRef<HTMLDivElement>(null);
+  const map = useRef<L.Map | null>(null);
+  const layer = useRef<L.LayerGroup | null>(null);
+
+  useEffect(() => {
+    if (!container.current || map.current) return;
+
+    map.current = L.map(container.current, { zoomControl: false }).setView([50.0646, 19.9450], 12);
+    L.tileLayer(TILE_URL, {
+      maxZoom: 19,
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+    }).addTo(map.current);
+    layer.current = L.layerGroup().addTo(map.current);
+
+    return () => {
+      map.current?.remove();
+      map.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!map.current || !layer.current) return;
+    layer.current.clearLayers();
+
+    const points: [number, number][] = [];
+    if (destination) {
+      L.marker([destination.lat, destination.lng], { icon: pinIcon('#16a34a') })
+        .bindPopup('Your delivery address')
+        .addTo(layer.current);
+      points.push([destination.lat, destination.lng]);
+    }
+    if (driver) {
+      // The position is rounded, so show an area rather than a point
+      L.circle([driver.lat, driver.lng], { radius: 150, color: '#2563eb', weight: 1, fillOpacity: 0.15 }).addTo(layer.current);
+      L.marker([driver.lat, driver.lng], { icon: pinIcon('#2563eb') })
+        .bindPopup('Driver (approximate)')
+        .addTo(layer.current);
+      points.push([driver.lat, driver.lng]);
+    }
+
+    if (points.length > 1) {
+      map.current.fitBounds(points, { padding: [40, 40], maxZoom: 15 });
+    } else if (points.length === 1) {
+      map.current.setView(points[0], 14);
+    }
+  }, [destination?.lat, destination?.lng, driver?.lat, driver?.lng]);
+
+  return <div ref={container} className="h-64 w-full rounded-md overflow-hidden" />;
+}
+
+// Public page a customer reaches from the link in their notification
+export default function TrackPage({ params }: { params: { token: string } }) {
+  const { data: tracking, isLoading, error } = useQuery<TrackingInfo>({
+    queryKey: [`/api/track/${encodeURIComponent(params.token)}`],
+    queryFn: getQueryFn({ on401: 'throw' }),
+    refetchInterval: REFRESH_INTERVAL_MS,
+    retry: false,
+  });
+
+  const delivered = tracking?.status === DeliveryStatus.DELIVERED;
+  const open = tracking?.status === DeliveryStatus.PENDING || tracking?.status === DeliveryStatus.ATTEMPTED;
+
+  return (
+    <div className="min-h-screen w-full bg-gray-50 flex justify-center p-4">
+      <Card className="w-full max-w-lg h-fit">
+        <CardHeader className="p-4 border-b border-primary-200">
+          <h1 className="text-lg font-semibold flex items-center">
+            <Truck className="h-5 w-5 mr-2" />
+            Track your delivery
+          </h1>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          {isLoading ? (
+            <div className="py-10 flex justify-center">
+              <Loader className="h-6 w-6 animate-spin text-primary-500" />
+            </div>
+          ) : error || !tracking ? (
+            <div className="py-6 flex items-center gap-2 text-primary-700">
+              <AlertCircle className="h-5 w-5 text-red-500" />
+              <p>This tracking link is not valid anymore.</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-2">
+                <p className="flex items-start text-sm">
+                  <MapPin className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+                  {tracking.address}
+                </p>
+                <Badge
+                  variant="outline"
+                  className={delivered
+                    ? "bg-success-100 text-success-800 border-success-200 shrink-0"
+                    : "bg-primary-100 text-primary-800 border-primary-200 shrink-0"}
+                >
+                  {open && tracking.isNext ? "You're next" : tracking.status}
+                </Badge>
+              </div>
+
+              {delivered ? (
+                <p className="flex items-center text-success-700">
+                  <PackageCheck className="h-5 w-5 mr-2" />
+                  Delivered{tracking.deliveredAt ? ` at ${formatClock(tracking.deliveredAt)}` : ''}
+                  {tracking.recipientName ? `, received by ${tracking.recipientName}` : ''}
+                </p>
+              ) : open ? (
+                <p className="flex items-center">
+                  <Clock className="h-5 w-5 mr-2" />
+                  {tracking.eta
+                    ? <>Expected around <span className="font-semibold ml-1">{formatClock(tracking.eta)}</span></>
+                    : 'Your delivery is scheduled for today'}
+                </p>
+              ) : (
+                <p className="text-primary-700">We couldn't deliver this time. We'll be in touch about a new attempt.</p>
+              )}
+
+              {open && (tracking.destination || tracking.driver) && (
+                <TrackingMap destination={tracking.destination} driver={tracking.driver} />
+              )}
+
+              {open && (
+                <p className="text-xs text-primary-500">
+                  {tracking.driver
+                    ? `Driver position updated ${formatDistanceToNow(new Date(tracking.driver.updatedAt), { addSuffix: true })}`
+                    : 'The driver\'s position shows up here once they are on the road'}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
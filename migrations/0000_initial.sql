@@ -0,0 +1,52 @@
+CREATE TABLE "addresses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"full_address" text NOT NULL,
+	"latitude" text,
+	"longitude" text,
+	"time_window" text DEFAULT 'Any time',
+	"exact_delivery_time" text,
+	"service_time" integer,
+	"priority" text DEFAULT 'Normal',
+	"special_instructions" text,
+	"user_id" integer,
+	"status" text DEFAULT 'Pending',
+	"delivered_at" timestamp,
+	"sequence" integer
+);
+--> statement-breakpoint
+CREATE TABLE "route_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"shortest_distance" boolean DEFAULT true,
+	"real_time_traffic" boolean DEFAULT true,
+	"avoid_highways" boolean DEFAULT false,
+	"avoid_tolls" boolean DEFAULT false,
+	"minimize_left_turns" boolean DEFAULT false,
+	"starting_point" text DEFAULT 'Current Location',
+	"return_to_start" boolean DEFAULT false,
+	"offline_mode" boolean DEFAULT false,
+	"offline_maps_last_updated" timestamp,
+	"traffic_data_provider" text DEFAULT 'OpenData',
+	"priority_weighting" text DEFAULT 'Balanced',
+	"user_id" integer
+);
+--> statement-breakpoint
+CREATE TABLE "routes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"total_distance" text,
+	"total_time" text,
+	"fuel_used" text,
+	"user_id" integer,
+	"completed" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "addresses" ADD CONSTRAINT "addresses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "route_settings" ADD CONSTRAINT "route_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "routes" ADD CONSTRAINT "routes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "vehicles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"driver_name" text,
+	"capacity" integer,
+	"shift_start" text,
+	"shift_end" text,
+	"depot" text,
+	"user_id" integer
+);
+--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "route_id" integer;--> statement-breakpoint
+ALTER TABLE "routes" ADD COLUMN "vehicle_id" integer;--> statement-breakpoint
+ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "addresses" ADD CONSTRAINT "addresses_route_id_routes_id_fk" FOREIGN KEY ("route_id") REFERENCES "public"."routes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "routes" ADD CONSTRAINT "routes_vehicle_id_vehicles_id_fk" FOREIGN KEY ("vehicle_id") REFERENCES "public"."vehicles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
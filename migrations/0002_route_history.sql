@@ -0,0 +1,20 @@
+CREATE TABLE "route_stops" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"route_id" integer NOT NULL,
+	"address_id" integer,
+	"sequence" integer NOT NULL,
+	"full_address" text NOT NULL,
+	"latitude" text,
+	"longitude" text,
+	"time_window" text,
+	"exact_delivery_time" text,
+	"service_time" integer,
+	"priority" text,
+	"special_instructions" text,
+	"status" text NOT NULL,
+	"delivered_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "routes" ADD COLUMN "completed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD CONSTRAINT "route_stops_route_id_routes_id_fk" FOREIGN KEY ("route_id") REFERENCES "public"."routes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD CONSTRAINT "route_stops_address_id_addresses_id_fk" FOREIGN KEY ("address_id") REFERENCES "public"."addresses"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
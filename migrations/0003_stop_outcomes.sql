@@ -0,0 +1,4 @@
+ALTER TABLE "addresses" ADD COLUMN "failure_reason" text;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD COLUMN "failure_reason" text;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD COLUMN "notes" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "routes" ADD COLUMN "geometry" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "route_settings" ADD COLUMN "routing_provider" text DEFAULT 'Server default';--> statement-breakpoint
+ALTER TABLE "route_settings" ADD COLUMN "routing_url" text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "geocode_cache" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"query" text NOT NULL,
+	"latitude" text,
+	"longitude" text,
+	"label" text,
+	"provider" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "geocode_cache_query_unique" UNIQUE("query")
+);
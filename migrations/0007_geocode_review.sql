@@ -0,0 +1,3 @@
+ALTER TABLE "addresses" ADD COLUMN "geocode_status" text;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "geocode_candidates" jsonb;--> statement-breakpoint
+ALTER TABLE "geocode_cache" ADD COLUMN "candidates" jsonb;
\ No newline at end of file
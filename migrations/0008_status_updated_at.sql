@@ -0,0 +1 @@
+ALTER TABLE "addresses" ADD COLUMN "status_updated_at" timestamp;
\ No newline at end of file
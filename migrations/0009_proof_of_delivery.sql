@@ -0,0 +1,6 @@
+ALTER TABLE "addresses" ADD COLUMN "recipient_name" text;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "proof_photo" text;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "proof_signature" text;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD COLUMN "recipient_name" text;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD COLUMN "proof_photo" text;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD COLUMN "proof_signature" text;
\ No newline at end of file
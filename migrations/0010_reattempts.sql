@@ -0,0 +1,3 @@
+ALTER TABLE "addresses" ADD COLUMN "attempt_count" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "retry_after" timestamp;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD COLUMN "attempt_count" integer;
\ No newline at end of file
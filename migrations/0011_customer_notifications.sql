@@ -0,0 +1,20 @@
+CREATE TABLE "customer_notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"address_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"channel" text NOT NULL,
+	"recipient" text NOT NULL,
+	"message" text NOT NULL,
+	"status" text NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "customer_phone" text;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "customer_email" text;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "tracking_token" text;--> statement-breakpoint
+ALTER TABLE "addresses" ADD COLUMN "estimated_arrival" timestamp;--> statement-breakpoint
+ALTER TABLE "customer_notifications" ADD CONSTRAINT "customer_notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customer_notifications" ADD CONSTRAINT "customer_notifications_address_id_addresses_id_fk" FOREIGN KEY ("address_id") REFERENCES "public"."addresses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "addresses" ADD CONSTRAINT "addresses_tracking_token_unique" UNIQUE("tracking_token");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "routes" ADD COLUMN "preferences" jsonb;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "traffic_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"region" text NOT NULL,
+	"weekend" boolean NOT NULL,
+	"hour" integer NOT NULL,
+	"delay_ratio" double precision NOT NULL,
+	"samples" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "traffic_profiles_region_weekend_hour_unique" UNIQUE("region","weekend","hour")
+);
@@ -0,0 +1,25 @@
+CREATE TABLE "community_report_votes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"report_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"vote" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "community_report_votes_report_id_user_id_unique" UNIQUE("report_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "community_reports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"kind" text NOT NULL,
+	"latitude" double precision NOT NULL,
+	"longitude" double precision NOT NULL,
+	"note" text,
+	"confirmations" integer DEFAULT 0 NOT NULL,
+	"dismissals" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "community_report_votes" ADD CONSTRAINT "community_report_votes_report_id_community_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."community_reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "community_report_votes" ADD CONSTRAINT "community_report_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "community_reports" ADD CONSTRAINT "community_reports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "depots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"kind" text DEFAULT 'Warehouse' NOT NULL,
+	"full_address" text NOT NULL,
+	"latitude" text,
+	"longitude" text,
+	"geocode_status" text,
+	"user_id" integer
+);
+--> statement-breakpoint
+ALTER TABLE "route_settings" ADD COLUMN "start_depot_id" integer;--> statement-breakpoint
+ALTER TABLE "route_settings" ADD COLUMN "end_depot_id" integer;--> statement-breakpoint
+ALTER TABLE "route_settings" ADD COLUMN "reload_depot_id" integer;--> statement-breakpoint
+ALTER TABLE "route_settings" ADD COLUMN "reload_after_stops" integer;--> statement-breakpoint
+ALTER TABLE "depots" ADD CONSTRAINT "depots_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "route_settings" ADD CONSTRAINT "route_settings_start_depot_id_depots_id_fk" FOREIGN KEY ("start_depot_id") REFERENCES "public"."depots"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "route_settings" ADD CONSTRAINT "route_settings_end_depot_id_depots_id_fk" FOREIGN KEY ("end_depot_id") REFERENCES "public"."depots"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "route_settings" ADD CONSTRAINT "route_settings_reload_depot_id_depots_id_fk" FOREIGN KEY ("reload_depot_id") REFERENCES "public"."depots"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
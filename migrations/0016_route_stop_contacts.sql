@@ -0,0 +1,2 @@
+ALTER TABLE "route_stops" ADD COLUMN "customer_phone" text;--> statement-breakpoint
+ALTER TABLE "route_stops" ADD COLUMN "customer_email" text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle, type NeonDatabase } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = NeonDatabase<typeof schema>;
+export type DatabasePool = Pool;
+
+// Create a connection pool and drizzle client for the PostgreSQL database at the given URL
+export function createDatabase(connectionString: string): { db: Database; pool: DatabasePool } {
+  const pool = new Pool({ connectionString });
+  return { db: drizzle({ client: pool, schema }), pool };
+}
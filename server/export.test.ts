@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Response } from "express";
+import { DeliveryStatus, InsertRouteStop } from "@shared/schema";
+import { streamStopsCSV } from "./export";
+
+// Collects what the export writes instead of sending it
+function exportCSV(stops: InsertRouteStop[]): { headers: Record<string, string>; lines: string[] } {
+  const headers: Record<string, string> = {};
+  let body = "";
+  const res = {
+    setHeader: (name: string, value: string) => { headers[name] = value; },
+    write: (chunk: string) => { body += chunk; },
+    end: () => undefined,
+  } as unknown as Response;
+
+  streamStopsCSV(res, "stops.csv", stops);
+  return { headers, lines: body.split("\r\n").slice(0, -1) };
+}
+
+function stop(overrides: Partial<InsertRouteStop>): InsertRouteStop {
+  return {
+    routeId: 1,
+    sequence: 0,
+    fullAddress: "1 High St, London",
+    latitude: "51.5",
+    longitude: "-0.12",
+    status: DeliveryStatus.PENDING,
+    ...overrides,
+  };
+}
+
+// Cells of a row written without quoted commas
+function cells(line: string): string[] {
+  return line.split(",");
+}
+
+describe("streamStopsCSV", () => {
+  it("writes a header row and one row per stop", () => {
+    const { headers, lines } = exportCSV([stop({}), stop({ sequence: 1 })]);
+
+    assert.equal(headers["Content-Type"], "text/csv; charset=utf-8");
+    assert.equal(headers["Content-Disposition"], 'attachment; filename="stops.csv"');
+    assert.equal(lines.length, 3);
+    assert.deepEqual(cells(lines[0]).slice(0, 4), ["sequence", "address", "latitude", "longitude"]);
+    assert.deepEqual(cells(lines[2]).slice(0, 1), ["2"]);
+  });
+
+  it("quotes fields with commas, quotes and line breaks", () => {
+    const { lines } = exportCSV([stop({ notes: 'Ring "twice"\nthen wait' })]);
+
+    assert.ok(lines.slice(1).join("\r\n").includes('"Ring ""twice""\nthen wait"'));
+    assert.ok(lines[1].includes('"1 High St, London"'));
+  });
+
+  it("keeps spreadsheets from running text as formulas", () => {
+    const { lines } = exportCSV([stop({
+      notes: "=HYPERLINK(\"http://example.com\")",
+      specialInstructions: "@SUM(A1)",
+      customerPhone: "+44 20 7946 0000",
+      recipientName: "-2+3",
+      customerEmail: "\tx@example.com",
+    })]);
+    const row = lines[1];
+
+    assert.ok(row.includes('"\'=HYPERLINK(""http://example.com"")"'));
+    assert.ok(row.includes(",'@SUM(A1),"));
+    assert.ok(row.includes(",'+44 20 7946 0000,"));
+    assert.ok(row.includes(",'-2+3,"));
+    assert.ok(row.endsWith(",'\tx@example.com"));
+  });
+
+  it("leaves numbers alone", () => {
+    const { lines } = exportCSV([stop({ fullAddress: "1 George St", latitude: "-33.87", longitude: "+151.21", customerPhone: "+15551234567" })]);
+    const row = cells(lines[1]);
+
+    assert.equal(row[2], "-33.87");
+    assert.equal(row[3], "+151.21");
+    assert.equal(row[row.length - 2], "+15551234567");
+  });
+});
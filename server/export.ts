@@ -0,0 +1,55 @@
+import type { Response } from "express";
+import { InsertRouteStop, Priority, TimeWindow } from "@shared/schema";
+import { proofImageUrl } from "./proofs";
+
+// Column order of the stop export. address, timeWindow, exactDeliveryTime, priority,
+// specialInstructions, phone and email use the header names parseCSV reads, so an exported
+// file (for example only the failed stops) can be imported again as the next day's route.
+const CSV_COLUMNS: { header: string; value: (stop: InsertRouteStop) => unknown }[] = [
+  { header: "sequence", value: stop => stop.sequence + 1 },
+  { header: "address", value: stop => stop.fullAddress },
+  { header: "latitude", value: stop => stop.latitude },
+  { header: "longitude", value: stop => stop.longitude },
+  { header: "timeWindow", value: stop => stop.timeWindow || TimeWindow.ANY },
+  { header: "exactDeliveryTime", value: stop => stop.exactDeliveryTime },
+  { header: "priority", value: stop => stop.priority || Priority.NORMAL },
+  { header: "status", value: stop => stop.status },
+  { header: "deliveredAt", value: stop => stop.deliveredAt ? new Date(stop.deliveredAt).toISOString() : "" },
+  { header: "failureReason", value: stop => stop.failureReason },
+  { header: "attempts", value: stop => stop.attemptCount },
+  { header: "notes", value: stop => stop.notes },
+  { header: "recipientName", value: stop => stop.recipientName },
+  { header: "proofPhoto", value: stop => proofImageUrl(stop.proofPhoto) },
+  { header: "proofSignature", value: stop => proofImageUrl(stop.proofSignature) },
+  { header: "specialInstructions", value: stop => stop.specialInstructions },
+  { header: "phone", value: stop => stop.customerPhone },
+  { header: "email", value: stop => stop.customerEmail },
+];
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+// Quote a CSV field when it contains a delimiter, quote or line break. Text that
+// a spreadsheet would take for a formula gets a leading ' (the importer drops it);
+// plain numbers such as negative longitudes are left as they are.
+function escapeCSV(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (FORMULA_START.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Write the stops as a CSV download, one row at a time
+export function streamStopsCSV(res: Response, filename: string, stops: InsertRouteStop[]): void {
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+  res.write(CSV_COLUMNS.map(column => column.header).join(",") + "\r\n");
+  for (const stop of stops) {
+    res.write(CSV_COLUMNS.map(column => escapeCSV(column.value(stop))).join(",") + "\r\n");
+  }
+  res.end();
+}
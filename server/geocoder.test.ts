@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GeocodeStatus, GeocodingProviderType } from "@shared/schema";
+import { geocodeInBackground } from "./geocoder";
+import { storage } from "./storage";
+
+// Deterministic positions instead of a real geocoder
+process.env.GEOCODING_PROVIDER = GeocodingProviderType.MOCK;
+
+const USER_ID = 1;
+
+async function settled(id: number) {
+  for (let i = 0; i < 100; i++) {
+    const address = await storage.getAddress(USER_ID, id);
+    if (address?.geocodeStatus !== GeocodeStatus.PENDING) return address;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Address ${id} is still pending`);
+}
+
+describe("geocodeInBackground", () => {
+  it("marks imported addresses pending and locates them after returning", async () => {
+    const created = [
+      await storage.createAddress(USER_ID, { fullAddress: "1 High St, London" }),
+      await storage.createAddress(USER_ID, { fullAddress: "2 High St, London" }),
+    ];
+
+    const pending = await geocodeInBackground(USER_ID, created);
+
+    assert.deepEqual(pending.map(address => address.geocodeStatus), [GeocodeStatus.PENDING, GeocodeStatus.PENDING]);
+    assert.ok(pending.every(address => address.latitude === null));
+
+    for (const address of created) {
+      const located = await settled(address.id);
+      assert.equal(located?.geocodeStatus, GeocodeStatus.EXACT);
+      assert.ok(located?.latitude && located?.longitude);
+    }
+  });
+});
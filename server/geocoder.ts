@@ -0,0 +1,144 @@
+import { Address, Depot, GeocodeStatus, GeocodingProviderType } from "@shared/schema";
+import { GeocodeCandidate, classifyGeocode } from "@shared/geocoding";
+import { storage } from "./storage";
+import { getGeocodingProvider, getProviderConfig } from "./providers";
+import { log } from "./vite";
+
+// Nominatim's usage policy allows at most one request per second. The limit is
+// applied to every remote geocoder; GEOCODING_MIN_INTERVAL_MS can lower it for
+// self-hosted instances.
+const MIN_REQUEST_INTERVAL_MS = Number(process.env.GEOCODING_MIN_INTERVAL_MS ?? 1000);
+
+// Tail of the request queue and when the last request went out
+let queue: Promise<unknown> = Promise.resolve();
+let lastRequestAt = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run geocoder requests one at a time, spaced by the minimum interval
+function rateLimited<T>(request: () => Promise<T>): Promise<T> {
+  const run = queue.then(async () => {
+    const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt = Date.now();
+    return request();
+  });
+  
+  // Keep the queue going when a request fails
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+// Cache key for an address: case, whitespace and punctuation differences don't matter
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.#]/g, "")
+    .replace(/\s*,\s*/g, ", ")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s,]+|[\s,]+$/g, "");
+}
+
+// Cache key for an address as geocoded by one geocoder; another provider, or
+// another server of the same kind, may place the same address differently
+function geocodeCacheKey(provider: string, url: string | null, query: string): string {
+  return `${provider}|${url ?? ""}|${query}`;
+}
+
+// Most candidates kept for the review list
+const MAX_CANDIDATES = 5;
+
+// Geocoder matches for an address, best first, from the cache when possible.
+// `refresh` skips the cached result and asks the geocoder again.
+export async function geocode(address: string, refresh = false): Promise<GeocodeCandidate[]> {
+  const query = normalizeAddress(address);
+  if (!query) return [];
+  
+  const provider = getGeocodingProvider();
+  const key = geocodeCacheKey(provider.name, getProviderConfig().geocodingUrl, query);
+  
+  if (!refresh) {
+    const cached = await storage.getGeocodeCacheEntry(key);
+    if (cached) {
+      if (cached.candidates) return cached.candidates;
+      if (cached.latitude === null || cached.longitude === null) return [];
+      return [{ lat: parseFloat(cached.latitude), lng: parseFloat(cached.longitude), label: cached.label ?? address }];
+    }
+  }
+  
+  const lookup = () => provider.geocode(address, MAX_CANDIDATES);
+  const candidates = provider.name === GeocodingProviderType.MOCK ? await lookup() : await rateLimited(lookup);
+  const [best] = candidates;
+  
+  await storage.saveGeocodeCacheEntry({
+    query: key,
+    latitude: best ? String(best.lat) : null,
+    longitude: best ? String(best.lng) : null,
+    label: best?.label ?? null,
+    candidates,
+    provider: provider.name,
+  });
+  
+  return candidates;
+}
+
+// Geocode an address and store the best match, the match status and the other
+// candidates on it. Approximate matches are still placed on the map so the route
+// can be planned, but are flagged for review. Geocoder errors are logged, not
+// thrown, so a failing geocoder never blocks creating or importing addresses.
+export async function geocodeAddressRecord(userId: number, address: Address, refresh = false): Promise<Address> {
+  try {
+    const candidates = await geocode(address.fullAddress, refresh);
+    const [best] = candidates;
+    
+    const updated = await storage.updateAddress(userId, address.id, {
+      latitude: best ? String(best.lat) : null,
+      longitude: best ? String(best.lng) : null,
+      geocodeStatus: classifyGeocode(candidates),
+      geocodeCandidates: candidates,
+    });
+    return updated ?? address;
+  } catch (error) {
+    log(`Geocoding "${address.fullAddress}" failed: ${(error as Error).message}`, "geocoder");
+    return address;
+  }
+}
+
+// Geocode imported addresses one after another without holding up the request.
+// They are marked pending first so the client can show which are still waiting;
+// repeated addresses come from the cache.
+export async function geocodeInBackground(userId: number, addresses: Address[]): Promise<Address[]> {
+  const pending: Address[] = [];
+  for (const address of addresses) {
+    pending.push(await storage.updateAddress(userId, address.id, { geocodeStatus: GeocodeStatus.PENDING }) ?? address);
+  }
+  
+  (async () => {
+    for (const address of pending) {
+      await geocodeAddressRecord(userId, address);
+    }
+  })().catch(error => log(`Background geocoding failed: ${(error as Error).message}`, "geocoder"));
+  
+  return pending;
+}
+
+// Geocode a depot and store the best match. Depots are only used as route
+// points, so the other candidates aren't kept.
+export async function geocodeDepotRecord(userId: number, depot: Depot, refresh = false): Promise<Depot> {
+  try {
+    const candidates = await geocode(depot.fullAddress, refresh);
+    const [best] = candidates;
+    
+    const updated = await storage.updateDepot(userId, depot.id, {
+      latitude: best ? String(best.lat) : null,
+      longitude: best ? String(best.lng) : null,
+      geocodeStatus: classifyGeocode(candidates),
+    });
+    return updated ?? depot;
+  } catch (error) {
+    log(`Geocoding depot "${depot.fullAddress}" failed: ${(error as Error).message}`, "geocoder");
+    return depot;
+  }
+}
@@ -0,0 +1,167 @@
+import { randomBytes } from "crypto";
+import {
+  Address,
+  NotificationChannel,
+  NotificationKind,
+  NotificationStatus,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { NotificationTransport, createTransport } from "./transports";
+import { log } from "./vite";
+
+// Customer notifications along a route: "out for delivery" when the driver sets
+// off, "you're next" with an ETA when their stop comes up and "delivered" at the
+// door. Each kind is sent once per stop and channel; every attempt is logged in
+// customer_notifications.
+
+export interface NotifyOptions {
+  baseUrl: string; // where the public tracking page is served
+  timeZone?: string; // the driver's time zone, for the times in messages
+}
+
+// Transports are created on first use so a bad configuration only fails notifications
+let transports: Map<NotificationChannel, NotificationTransport | undefined> | undefined;
+
+function getTransport(channel: NotificationChannel): NotificationTransport | undefined {
+  if (!transports) {
+    const created = new Map<NotificationChannel, NotificationTransport | undefined>();
+    for (const option of Object.values(NotificationChannel)) {
+      created.set(option, createTransport(option));
+    }
+    transports = created;
+  }
+  return transports.get(channel);
+}
+
+// Stops being notified right now, so overlapping progress reports don't double up
+const inFlight = new Set<string>();
+
+export function trackingUrl(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/$/, "")}/track/${token}`;
+}
+
+// The stop's tracking token, created the first time a customer gets a link
+export async function ensureTrackingToken(userId: number, address: Address): Promise<string> {
+  if (address.trackingToken) return address.trackingToken;
+
+  // The stop may have been given one since it was loaded
+  const stored = await storage.getAddress(userId, address.id);
+  if (stored?.trackingToken) return stored.trackingToken;
+
+  const token = randomBytes(18).toString("base64url");
+  await storage.updateAddress(userId, address.id, { trackingToken: token });
+  return token;
+}
+
+function formatTime(date: Date, timeZone?: string): string {
+  try {
+    return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone });
+  } catch (error) {
+    // Unknown time zone names fall back to the server's
+    return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+  }
+}
+
+function composeMessage(kind: NotificationKind, address: Address, link: string, options: NotifyOptions): { subject: string; text: string } {
+  const eta = address.estimatedArrival ? formatTime(new Date(address.estimatedArrival), options.timeZone) : null;
+
+  switch (kind) {
+    case NotificationKind.OUT_FOR_DELIVERY:
+      return {
+        subject: "Your delivery is on its way",
+        text: `Your delivery to ${address.fullAddress} is out for delivery today` +
+          (eta ? `, expected around ${eta}` : "") +
+          `. Follow it here: ${link}`,
+      };
+    case NotificationKind.NEXT:
+      return {
+        subject: "You're next",
+        text: `You're next! Our driver is heading to ${address.fullAddress} now` +
+          (eta ? ` and should arrive around ${eta}` : "") +
+          `. Follow it here: ${link}`,
+      };
+    case NotificationKind.DELIVERED:
+      return {
+        subject: "Your delivery has arrived",
+        text: `Your delivery to ${address.fullAddress} has been delivered` +
+          (address.recipientName ? ` and was received by ${address.recipientName}` : "") +
+          ". Thank you!",
+      };
+  }
+}
+
+// Send one kind of message to every contact of a stop that hasn't had it yet
+async function notifyStop(userId: number, address: Address, kind: NotificationKind, options: NotifyOptions): Promise<number> {
+  const contacts: [NotificationChannel, string | null][] = [
+    [NotificationChannel.SMS, address.customerPhone],
+    [NotificationChannel.EMAIL, address.customerEmail],
+  ];
+  if (!contacts.some(([, recipient]) => recipient)) return 0;
+
+  const key = `${address.id}:${kind}`;
+  if (inFlight.has(key)) return 0;
+  inFlight.add(key);
+
+  try {
+    const previous = await storage.getCustomerNotifications(userId, address.id);
+    const link = trackingUrl(options.baseUrl, await ensureTrackingToken(userId, address));
+    const { subject, text } = composeMessage(kind, address, link, options);
+    let sent = 0;
+
+    for (const [channel, recipient] of contacts) {
+      const transport = getTransport(channel);
+      if (!recipient || !transport) continue;
+
+      // Failed attempts are tried again with the next progress report
+      const alreadySent = previous.some(notification =>
+        notification.kind === kind && notification.channel === channel && notification.status === NotificationStatus.SENT
+      );
+      if (alreadySent) continue;
+
+      let error: string | null = null;
+      try {
+        await transport.send({ to: recipient, subject, text });
+        sent++;
+      } catch (sendError) {
+        error = (sendError as Error).message;
+        log(`${channel} to ${recipient} failed: ${error}`, "notify");
+      }
+
+      await storage.createCustomerNotification(userId, {
+        addressId: address.id,
+        kind,
+        channel,
+        recipient,
+        message: text,
+        status: error ? NotificationStatus.FAILED : NotificationStatus.SENT,
+        error,
+      });
+    }
+
+    return sent;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+// The driver is on the road: every open stop hears it's coming, and the stop
+// being driven to hears it's next
+export async function notifyRouteProgress(
+  userId: number,
+  stops: Address[],
+  currentStopId: number | null,
+  options: NotifyOptions
+): Promise<number> {
+  let sent = 0;
+  for (const stop of stops) {
+    sent += await notifyStop(userId, stop, NotificationKind.OUT_FOR_DELIVERY, options);
+    if (stop.id === currentStopId) {
+      sent += await notifyStop(userId, stop, NotificationKind.NEXT, options);
+    }
+  }
+  return sent;
+}
+
+export function notifyDelivered(userId: number, address: Address, options: NotifyOptions): Promise<number> {
+  return notifyStop(userId, address, NotificationKind.DELIVERED, options);
+}
@@ -0,0 +1,67 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Proof-of-delivery images (photo, signature) are kept on local disk, one folder
+// per user. PROOF_STORAGE_DIR moves them, e.g. onto a mounted volume.
+const PROOF_DIR = path.resolve(process.env.PROOF_STORAGE_DIR || "uploads/proofs");
+
+// Largest accepted image after base64 decoding; the client downsizes photos first
+const MAX_PROOF_BYTES = 4 * 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+// Leading bytes of each image format; the declared type has to match the data
+const IMAGE_SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  jpg: data => data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  png: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  webp: data => data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP",
+};
+
+// Stored file names are generated here, so anything else is rejected when serving
+const FILE_NAME_PATTERN = /^[0-9a-f-]+\.(jpg|png|webp)$/;
+
+export interface ProofImage {
+  data: Buffer;
+  extension: string;
+}
+
+// Decode a "data:image/...;base64," URL sent by the client. Returns undefined
+// for anything that isn't a JPEG, PNG or WebP image of an acceptable size, including
+// data whose bytes don't start like the image type it claims to be.
+export function decodeProofImage(dataUrl: unknown): ProofImage | undefined {
+  const match = typeof dataUrl === "string" ? dataUrl.match(/^data:(image\/[a-z]+);base64,(.+)$/) : null;
+  const extension = match ? IMAGE_TYPES[match[1]] : undefined;
+  if (!match || !extension) return undefined;
+
+  const data = Buffer.from(match[2], "base64");
+  if (data.length === 0 || data.length > MAX_PROOF_BYTES) return undefined;
+  if (!IMAGE_SIGNATURES[extension](data)) return undefined;
+
+  return { data, extension };
+}
+
+// Write an image to the user's folder; returns the file name to store on the address
+export async function saveProofImage(userId: number, image: ProofImage): Promise<string> {
+  const fileName = `${randomUUID()}.${image.extension}`;
+  const directory = path.join(PROOF_DIR, String(userId));
+  await mkdir(directory, { recursive: true });
+  await writeFile(path.join(directory, fileName), image.data);
+  return fileName;
+}
+
+// Absolute path of one of the user's proof images, or undefined for names that
+// were not generated by saveProofImage
+export function proofImagePath(userId: number, fileName: string): string | undefined {
+  if (!FILE_NAME_PATTERN.test(fileName)) return undefined;
+  return path.join(PROOF_DIR, String(userId), fileName);
+}
+
+// Link the client (and exports) use for a stored proof image
+export function proofImageUrl(fileName: string | null | undefined): string | null {
+  return fileName ? `/api/proofs/${fileName}` : null;
+}
@@ -0,0 +1,93 @@
+import { readFileSync } from "fs";
+import { GeocodingProviderType, RoutingProviderType, TrafficDataProvider } from "@shared/schema";
+import { GeocodingProvider, createGeocodingProvider } from "@shared/geocoding";
+import { DEFAULT_OPENROUTESERVICE_URL } from "@shared/routing";
+import { TrafficFeed, TrafficFixture, createTrafficFeed } from "@shared/traffic";
+
+// Server-wide provider defaults. Set ROUTING_PROVIDER / ROUTING_URL to point the
+// app at a self-hosted OSRM or Valhalla, GEOCODING_PROVIDER / GEOCODING_URL for
+// a local Nominatim, and ORS_API_KEY when using OpenRouteService. The config is
+// sent to the browser, so it never includes the API key.
+export interface ProviderConfig {
+  routingProvider: string;
+  routingUrl: string | null;
+  geocodingProvider: string;
+  geocodingUrl: string | null;
+}
+
+function readEnumEnv<T extends Record<string, string>>(name: string, values: T, fallback: string): string {
+  const value = process.env[name];
+  if (!value) return fallback;
+
+  const match = Object.values(values).find(option => option.toLowerCase() === value.toLowerCase());
+  if (!match) {
+    throw new Error(`${name} must be one of: ${Object.values(values).join(", ")}`);
+  }
+  return match;
+}
+
+export function getProviderConfig(): ProviderConfig {
+  const routingProvider = readEnumEnv("ROUTING_PROVIDER", RoutingProviderType, RoutingProviderType.OSRM);
+  const geocodingProvider = readEnumEnv("GEOCODING_PROVIDER", GeocodingProviderType, GeocodingProviderType.NOMINATIM);
+
+  return {
+    // "Server default" only makes sense as a per-user setting
+    routingProvider: routingProvider === RoutingProviderType.SERVER_DEFAULT ? RoutingProviderType.OSRM : routingProvider,
+    routingUrl: process.env.ROUTING_URL || null,
+    geocodingProvider,
+    geocodingUrl: process.env.GEOCODING_URL || null,
+  };
+}
+
+// Geocoder used by the server when addresses are created or imported
+export function getGeocodingProvider(): GeocodingProvider {
+  const config = getProviderConfig();
+  return createGeocodingProvider(config.geocodingProvider, { url: config.geocodingUrl, apiKey: process.env.ORS_API_KEY || null });
+}
+
+// OpenRouteService requests the browser may send through the server
+export const OPENROUTESERVICE_PROXY_PATHS = ["/v2/directions/driving-car/geojson", "/v2/matrix/driving-car"];
+
+// Where proxied OpenRouteService requests go, with the key they're sent with:
+// ROUTING_URL when OpenRouteService is the server's routing provider, otherwise
+// the hosted API
+export function getOpenRouteServiceTarget(): { url: string; apiKey: string | null } {
+  const config = getProviderConfig();
+  const url = config.routingProvider === RoutingProviderType.OPENROUTESERVICE && config.routingUrl
+    ? config.routingUrl
+    : DEFAULT_OPENROUTESERVICE_URL;
+  return { url: url.replace(/\/+$/, ""), apiKey: process.env.ORS_API_KEY || null };
+}
+
+// Recorded traffic responses, read once
+let trafficFixtures: TrafficFixture[] | null | undefined;
+
+function loadTrafficFixtures(): TrafficFixture[] | null {
+  if (trafficFixtures === undefined) {
+    const file = process.env.TRAFFIC_FIXTURES;
+    trafficFixtures = file ? JSON.parse(readFileSync(file, "utf8")) : null;
+  }
+  return trafficFixtures ?? null;
+}
+
+// Live traffic feed for a traffic data provider setting, or null when it has
+// none or no API key is configured. TOMTOM_API_KEY and HERE_API_KEY enable the
+// live feeds; TRAFFIC_FIXTURES names a JSON file of recorded provider responses
+// to replay instead (see server/fixtures/traffic.json).
+export function getTrafficFeed(type: string | null | undefined): TrafficFeed | null {
+  const fixtures = loadTrafficFixtures();
+  if (fixtures) return createTrafficFeed(type, { fixtures });
+
+  switch (type) {
+    case TrafficDataProvider.TOMTOM:
+      return process.env.TOMTOM_API_KEY
+        ? createTrafficFeed(type, { apiKey: process.env.TOMTOM_API_KEY, url: process.env.TOMTOM_TRAFFIC_URL })
+        : null;
+    case TrafficDataProvider.HERE:
+      return process.env.HERE_API_KEY
+        ? createTrafficFeed(type, { apiKey: process.env.HERE_API_KEY, url: process.env.HERE_TRAFFIC_URL })
+        : null;
+    default:
+      return null;
+  }
+}
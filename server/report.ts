@@ -0,0 +1,308 @@
+import type { Response } from "express";
+import { existsSync } from "fs";
+import PDFDocument from "pdfkit";
+import { format } from "date-fns";
+import { DeliveryStatus, InsertRouteStop, Route, Vehicle } from "@shared/schema";
+import { formatTimeOfDay, getDeliveryWindow } from "@shared/scheduler";
+import { proofImagePath } from "./proofs";
+import { log } from "./vite";
+
+const PAGE_MARGIN = 40;
+const MAP_HEIGHT = 260;
+const PROOF_ROW_HEIGHT = 100;
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#64748b",
+  border: "#cbd5e1",
+  panel: "#f8fafc",
+  route: "#2563eb",
+  delivered: "#16a34a",
+  failed: "#dc2626",
+  pending: "#475569",
+};
+
+// Table columns: header, width in points and how to read the cell from a stop
+const TABLE_COLUMNS: { header: string; width: number; value: (stop: InsertRouteStop) => string }[] = [
+  { header: "#", width: 24, value: stop => String(stop.sequence + 1) },
+  { header: "Address", width: 170, value: stop => stop.fullAddress },
+  { header: "Window", width: 90, value: stop => windowLabel(stop) },
+  { header: "Status", width: 60, value: stop => stop.status },
+  { header: "Time", width: 50, value: stop => stop.deliveredAt ? format(new Date(stop.deliveredAt), "hh:mm a") : "-" },
+  { header: "Notes", width: 138, value: stop => [
+    stop.failureReason,
+    stop.recipientName ? `Received by ${stop.recipientName}` : null,
+    stop.specialInstructions,
+    stop.notes,
+  ].filter(Boolean).join(" · ") || "-" },
+];
+
+function windowLabel(stop: InsertRouteStop): string {
+  const window = getDeliveryWindow({ id: stop.sequence, ...stop });
+  if (!window) return "Any time";
+  return `${formatTimeOfDay(window.start)} - ${formatTimeOfDay(window.end)}`;
+}
+
+function statusColor(status: string): string {
+  if (status === DeliveryStatus.DELIVERED) return COLORS.delivered;
+  if (status === DeliveryStatus.FAILED) return COLORS.failed;
+  return COLORS.pending;
+}
+
+function stopPosition(stop: InsertRouteStop): [number, number] | null {
+  const lat = parseFloat(stop.latitude ?? "");
+  const lng = parseFloat(stop.longitude ?? "");
+  return Number.isFinite(lat) && Number.isFinite(lng) ? [lng, lat] : null;
+}
+
+// Draw the route polyline and numbered stops into a box, scaled to fit.
+// Uses an equirectangular projection, which is accurate enough at city scale.
+function drawRouteMap(
+  doc: PDFKit.PDFDocument,
+  box: { x: number; y: number; width: number; height: number },
+  geometry: [number, number][],
+  stops: InsertRouteStop[]
+) {
+  doc.save();
+  doc.rect(box.x, box.y, box.width, box.height).fillAndStroke(COLORS.panel, COLORS.border);
+
+  const located = stops
+    .map(stop => ({ stop, position: stopPosition(stop) }))
+    .filter((entry): entry is { stop: InsertRouteStop; position: [number, number] } => entry.position !== null);
+
+  // Without a stored polyline connect the stops in visiting order
+  const line = geometry.length > 1 ? geometry : located.map(entry => entry.position);
+  const points = [...line, ...located.map(entry => entry.position)];
+
+  if (points.length === 0) {
+    doc.fillColor(COLORS.muted).fontSize(10)
+      .text("No coordinates recorded for this route", box.x, box.y + box.height / 2 - 5, { width: box.width, align: "center" });
+    doc.restore();
+    return;
+  }
+
+  const lngs = points.map(point => point[0]);
+  const lats = points.map(point => point[1]);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+
+  // Shrink longitude with latitude so the map isn't stretched
+  const lngScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+  const spanX = Math.max((maxLng - minLng) * lngScale, 1e-6);
+  const spanY = Math.max(maxLat - minLat, 1e-6);
+
+  const padding = 20;
+  const scale = Math.min((box.width - padding * 2) / spanX, (box.height - padding * 2) / spanY);
+  const offsetX = box.x + (box.width - spanX * scale) / 2;
+  const offsetY = box.y + (box.height - spanY * scale) / 2;
+
+  const project = ([lng, lat]: [number, number]): [number, number] => [
+    offsetX + (lng - minLng) * lngScale * scale,
+    offsetY + (maxLat - lat) * scale,
+  ];
+
+  if (line.length > 1) {
+    const [startX, startY] = project(line[0]);
+    doc.moveTo(startX, startY);
+    for (const point of line.slice(1)) {
+      const [x, y] = project(point);
+      doc.lineTo(x, y);
+    }
+    doc.lineWidth(2.5).lineJoin("round").strokeColor(COLORS.route).stroke();
+  }
+
+  for (const { stop, position } of located) {
+    const [x, y] = project(position);
+    doc.circle(x, y, 8).fillAndStroke(statusColor(stop.status), "#ffffff");
+    doc.fillColor("#ffffff").fontSize(7)
+      .text(String(stop.sequence + 1), x - 8, y - 3, { width: 16, align: "center" });
+  }
+
+  doc.restore();
+}
+
+function drawTableHeader(doc: PDFKit.PDFDocument, y: number): number {
+  let x = PAGE_MARGIN;
+  doc.font("Helvetica-Bold").fontSize(8).fillColor(COLORS.muted);
+  for (const column of TABLE_COLUMNS) {
+    doc.text(column.header.toUpperCase(), x + 2, y, { width: column.width - 4 });
+    x += column.width;
+  }
+  doc.moveTo(PAGE_MARGIN, y + 12).lineTo(doc.page.width - PAGE_MARGIN, y + 12).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+  doc.font("Helvetica");
+  return y + 16;
+}
+
+function drawStopTable(doc: PDFKit.PDFDocument, startY: number, stops: InsertRouteStop[]) {
+  let y = drawTableHeader(doc, startY);
+  const bottom = doc.page.height - PAGE_MARGIN;
+
+  for (const stop of stops) {
+    doc.fontSize(8);
+    const cells = TABLE_COLUMNS.map(column => column.value(stop));
+    const rowHeight = Math.max(
+      ...cells.map((cell, index) => doc.heightOfString(cell, { width: TABLE_COLUMNS[index].width - 4 }))
+    ) + 6;
+
+    // Continue on a new page with the header repeated
+    if (y + rowHeight > bottom) {
+      doc.addPage();
+      y = drawTableHeader(doc, PAGE_MARGIN);
+    }
+
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, index) => {
+      const column = TABLE_COLUMNS[index];
+      doc.fillColor(column.header === "Status" ? statusColor(stop.status) : COLORS.text)
+        .text(cell, x + 2, y + 3, { width: column.width - 4 });
+      x += column.width;
+    });
+
+    y += rowHeight;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).lineWidth(0.25).strokeColor(COLORS.border).stroke();
+  }
+}
+
+function hasProof(stop: InsertRouteStop): boolean {
+  return !!(stop.recipientName || stop.proofPhoto || stop.proofSignature);
+}
+
+// Draw a stored proof image into a box, or a placeholder when it can't be embedded
+// (PDFKit reads JPEG and PNG only, and throws on files it can't decode)
+function drawProofImage(
+  doc: PDFKit.PDFDocument,
+  userId: number,
+  fileName: string | null | undefined,
+  box: { x: number; y: number; width: number; height: number }
+) {
+  if (!fileName) return;
+
+  const filePath = proofImagePath(userId, fileName);
+  if (filePath && /\.(jpg|png)$/.test(filePath) && existsSync(filePath)) {
+    try {
+      doc.image(filePath, box.x, box.y, { fit: [box.width, box.height] });
+      return;
+    } catch (error) {
+      log(`Proof image ${fileName} could not be embedded: ${error}`, "report");
+    }
+  }
+
+  doc.rect(box.x, box.y, box.width, box.height).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+  doc.fillColor(COLORS.muted).fontSize(7).text("Image unavailable", box.x, box.y + box.height / 2 - 4, { width: box.width, align: "center" });
+}
+
+// Recipient, photo and signature of every stop delivered with proof
+function drawProofSection(doc: PDFKit.PDFDocument, userId: number, stops: InsertRouteStop[]) {
+  const withProof = stops.filter(hasProof);
+  if (withProof.length === 0) return;
+
+  doc.addPage();
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(COLORS.text).text("Proof of Delivery", PAGE_MARGIN, PAGE_MARGIN);
+  doc.font("Helvetica");
+
+  let y = PAGE_MARGIN + 24;
+  const bottom = doc.page.height - PAGE_MARGIN;
+
+  for (const stop of withProof) {
+    if (y + PROOF_ROW_HEIGHT > bottom) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+
+    doc.fillColor(COLORS.text).fontSize(9)
+      .text(`${stop.sequence + 1}. ${stop.fullAddress}`, PAGE_MARGIN, y, { width: 220 });
+    doc.fillColor(COLORS.muted).fontSize(8).text([
+      stop.recipientName ? `Received by ${stop.recipientName}` : "Recipient not recorded",
+      stop.deliveredAt ? format(new Date(stop.deliveredAt), "MMM d, hh:mm a") : null,
+    ].filter(Boolean).join("\n"), PAGE_MARGIN, doc.y + 2, { width: 220 });
+
+    drawProofImage(doc, userId, stop.proofPhoto, { x: PAGE_MARGIN + 230, y, width: 120, height: PROOF_ROW_HEIGHT - 12 });
+    drawProofImage(doc, userId, stop.proofSignature, { x: PAGE_MARGIN + 362, y, width: 170, height: PROOF_ROW_HEIGHT - 12 });
+
+    y += PROOF_ROW_HEIGHT;
+    doc.moveTo(PAGE_MARGIN, y - 6).lineTo(doc.page.width - PAGE_MARGIN, y - 6).lineWidth(0.25).strokeColor(COLORS.border).stroke();
+  }
+}
+
+// Render the route report (header stats, route map, stop table and proof of
+// delivery) as a PDF download. Once streaming has started the status can't
+// change, so a failure cuts the download off instead of answering with an error.
+export function streamRoutePDF(
+  res: Response,
+  filename: string,
+  userId: number,
+  route: Route,
+  stops: InsertRouteStop[],
+  vehicle?: Vehicle
+): void {
+  const doc = new PDFDocument({ size: "LETTER", margin: PAGE_MARGIN, info: { Title: `Route ${route.id} report` } });
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  doc.pipe(res);
+
+  try {
+    drawRouteReport(doc, userId, route, stops, vehicle);
+  } catch (error) {
+    log(`Route ${route.id} report failed: ${(error as Error).message}`, "report");
+    doc.unpipe(res);
+    res.destroy(error as Error);
+    return;
+  }
+
+  doc.end();
+}
+
+function drawRouteReport(
+  doc: PDFKit.PDFDocument,
+  userId: number,
+  route: Route,
+  stops: InsertRouteStop[],
+  vehicle?: Vehicle
+) {
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const date = route.completedAt ?? route.createdAt ?? new Date();
+
+  // Title
+  doc.font("Helvetica-Bold").fontSize(18).fillColor(COLORS.text).text("Delivery Route Report", PAGE_MARGIN, PAGE_MARGIN);
+  doc.font("Helvetica").fontSize(10).fillColor(COLORS.muted)
+    .text([
+      format(new Date(date), "MMMM d, yyyy"),
+      `Route #${route.id}`,
+      vehicle ? `${vehicle.name}${vehicle.driverName ? ` (${vehicle.driverName})` : ""}` : null,
+      route.completed ? "Completed" : "In progress",
+    ].filter(Boolean).join("  ·  "));
+
+  // Header stats
+  const delivered = stops.filter(stop => stop.status === DeliveryStatus.DELIVERED).length;
+  const stats = [
+    { label: "Total Distance", value: route.totalDistance || "0 mi" },
+    { label: "Total Time", value: route.totalTime || "0h 0m" },
+    { label: "Fuel Used", value: route.fuelUsed || "0 gal" },
+    { label: "Deliveries", value: `${delivered}/${stops.length}` },
+  ];
+
+  const statsY = doc.y + 12;
+  const statWidth = (contentWidth - 3 * 8) / 4;
+  stats.forEach((stat, index) => {
+    const x = PAGE_MARGIN + index * (statWidth + 8);
+    doc.rect(x, statsY, statWidth, 44).fillAndStroke(COLORS.panel, COLORS.border);
+    doc.fillColor(COLORS.muted).fontSize(8).text(stat.label.toUpperCase(), x + 8, statsY + 8, { width: statWidth - 16 });
+    doc.fillColor(COLORS.text).font("Helvetica-Bold").fontSize(14).text(stat.value, x + 8, statsY + 20, { width: statWidth - 16 });
+    doc.font("Helvetica");
+  });
+
+  // Route map
+  const mapY = statsY + 44 + 16;
+  drawRouteMap(doc, { x: PAGE_MARGIN, y: mapY, width: contentWidth, height: MAP_HEIGHT }, route.geometry ?? [], stops);
+
+  // Stop table
+  const tableY = mapY + MAP_HEIGHT + 20;
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(COLORS.text).text("Delivery Details", PAGE_MARGIN, tableY);
+  doc.font("Helvetica");
+  drawStopTable(doc, tableY + 20, stops);
+
+  drawProofSection(doc, userId, stops);
+}
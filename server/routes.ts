@@ -1,34 +1,224 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { Address, DeliveryStatus, InsertAddress, InsertRoute, InsertRouteSettings, Priority, Route, RouteSettings, TimeWindow } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import { Address, CommunityReport, DeliveryStatus, Depot, DepotKind, FailureReason, FleetBalance, GeocodeStatus, InsertAddress, InsertDepot, InsertRoute, InsertRouteSettings, InsertRouteStop, InsertVehicle, Priority, PriorityWeighting, ReportVote, Route, RouteSettings, TimeWindow, Vehicle, insertAddressSchema, insertVehicleSchema, updateAddressSchema, updateRouteSchema, updateRouteSettingsSchema, updateVehicleSchema } from "@shared/schema";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { LatLng, OptimizerStop, optimizeStopOrder } from "@shared/optimizer";
+import { getPriorityWeight, isPriorityRelevant, priorityPenalty } from "@shared/priority";
+import { parseTimeOfDay } from "@shared/scheduler";
+import { FleetStop, FleetVehicle, planFleetRoutes } from "@shared/fleet";
+import { streamStopsCSV } from "./export";
+import { streamRoutePDF } from "./report";
+import { countsAsAttempt, reattemptChanges, shouldCarryOver } from "@shared/reattempt";
+import { OPENROUTESERVICE_PROXY_PATHS, getOpenRouteServiceTarget, getProviderConfig } from "./providers";
+import { findRouteDriver, setupTracking } from "./tracking";
+import { ROUTE_PREFERENCE_LABELS } from "@shared/routing";
+import { LegTrafficRequest, estimateTraffic } from "./traffic";
+import { applyReportVote, isReportActive, isReportKind, reportExpiry, toReportView } from "@shared/community";
+import { geocodeAddressRecord, geocodeDepotRecord, geocodeInBackground } from "./geocoder";
+import { decodeProofImage, saveProofImage, proofImagePath } from "./proofs";
+import { NotifyOptions, notifyDelivered, notifyRouteProgress } from "./notifications";
+import { log } from "./vite";
+
+function isValidCoordinate(lat: unknown, lng: unknown): boolean {
+  return typeof lat === "number" && typeof lng === "number" &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+// Work out where the route starts: an explicit location sent by the client
+// (e.g. the driver's GPS position) wins over a "lat, lng" starting point setting
+function resolveStartLocation(startingPoint: string | null | undefined, requested?: Partial<LatLng>): LatLng | undefined {
+  if (requested && isValidCoordinate(requested.lat, requested.lng)) {
+    return { lat: requested.lat!, lng: requested.lng! };
+  }
+  
+  const match = startingPoint?.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (match) {
+    const lat = parseFloat(match[1]);
+    const lng = parseFloat(match[2]);
+    if (isValidCoordinate(lat, lng)) return { lat, lng };
+  }
+  
+  return undefined;
+}
+
+// Driven polyline sent along with a new route, as [lng, lat] pairs
+const routeGeometrySchema = z.array(z.tuple([z.number(), z.number()]));
+
+// Parse the stored text coordinates of an address (or a depot)
+function addressLocation(address: Pick<Address, "latitude" | "longitude">): LatLng | undefined {
+  const lat = parseFloat(address.latitude ?? "");
+  const lng = parseFloat(address.longitude ?? "");
+  return isValidCoordinate(lat, lng) ? { lat, lng } : undefined;
+}
+
+// Where a route starts and finishes: the depots chosen in the settings, else the
+// starting point (see resolveStartLocation) and no fixed end
+async function resolveRouteEnds(
+  userId: number,
+  settings: RouteSettings,
+  requestedStart?: Partial<LatLng>
+): Promise<{ start?: LatLng; end?: LatLng }> {
+  const depotLocation = async (id: number | null) => {
+    const depot = id != null ? await storage.getDepot(userId, id) : undefined;
+    return depot ? addressLocation(depot) : undefined;
+  };
+  
+  return {
+    start: await depotLocation(settings.startDepotId) ?? resolveStartLocation(settings.startingPoint, requestedStart),
+    end: await depotLocation(settings.endDepotId),
+  };
+}
+
+// Describe a vehicle for the fleet planner: depot position and shift length
+function toFleetVehicle(vehicle: Vehicle): FleetVehicle {
+  const shiftStart = parseTimeOfDay(vehicle.shiftStart);
+  const shiftEnd = parseTimeOfDay(vehicle.shiftEnd);
+  
+  return {
+    id: vehicle.id,
+    capacity: vehicle.capacity,
+    depot: resolveStartLocation(vehicle.depot),
+    shiftMinutes: shiftStart !== null && shiftEnd !== null && shiftEnd > shiftStart ? shiftEnd - shiftStart : null,
+  };
+}
+
+// Freeze an address as a stop of a completed route
+function toRouteStop(routeId: number, address: Address, sequence: number): InsertRouteStop {
+  return {
+    routeId,
+    addressId: address.id,
+    sequence,
+    fullAddress: address.fullAddress,
+    latitude: address.latitude,
+    longitude: address.longitude,
+    timeWindow: address.timeWindow,
+    exactDeliveryTime: address.exactDeliveryTime,
+    serviceTime: address.serviceTime,
+    priority: address.priority,
+    specialInstructions: address.specialInstructions,
+    customerPhone: address.customerPhone,
+    customerEmail: address.customerEmail,
+    status: address.status ?? DeliveryStatus.PENDING,
+    deliveredAt: address.deliveredAt,
+    failureReason: address.failureReason,
+    notes: address.notes,
+    attemptCount: address.attemptCount,
+    recipientName: address.recipientName,
+    proofPhoto: address.proofPhoto,
+    proofSignature: address.proofSignature,
+  };
+}
+
+// Stops of a route: the frozen snapshot once completed, the live addresses while open
+async function loadRouteStops(userId: number, route: Route): Promise<InsertRouteStop[]> {
+  if (route.completed) {
+    return storage.getRouteStops(userId, route.id);
+  }
+  
+  return (await storage.getAllAddresses(userId))
+    .filter(address => address.routeId === route.id)
+    .map((address, index) => toRouteStop(route.id, address, index));
+}
+
+// Limits of a traffic estimate request
+const MAX_TRAFFIC_LEGS = 200;
+const MAX_TRAFFIC_POINTS = 5;
+
+// Optional contact field: trimmed, or null when blank
+function contactField(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Where customers reach the public tracking page. In production the links must
+// come from PUBLIC_URL: the request's Host header is whatever the client sent.
+// Null when notifications can't be sent.
+function notifyOptions(req: Request, timeZone?: string): NotifyOptions | null {
+  if (!process.env.PUBLIC_URL && req.app.get("env") === "production") {
+    log("PUBLIC_URL must be set in production to send customer notifications", "notify");
+    return null;
+  }
+  
+  return {
+    baseUrl: process.env.PUBLIC_URL || `${req.protocol}://${req.get("host")}`,
+    timeZone,
+  };
+}
+
+// Longest note a community report may carry
+const MAX_REPORT_NOTE_LENGTH = 200;
+
+// Format minutes the same way route totals are shown on the client ("1h 25m")
+function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = Math.round(totalMinutes % 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+// Every user gets default route settings the first time they are needed
+async function getOrCreateRouteSettings(userId: number): Promise<RouteSettings> {
+  const settings = await storage.getRouteSettings(userId);
+  if (settings) return settings;
+  
+  return storage.createRouteSettings(userId, {
+    shortestDistance: true,
+    realTimeTraffic: true,
+    avoidHighways: false,
+    avoidTolls: false,
+    minimizeLeftTurns: false,
+    startingPoint: "Current Location",
+    returnToStart: false,
+    priorityWeighting: PriorityWeighting.BALANCED,
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Initialize storage with default route settings if none exist
-  const initDefaultRouteSettings = async () => {
-    const settings = await storage.getRouteSettings();
-    if (!settings) {
-      await storage.createRouteSettings({
-        shortestDistance: true,
-        realTimeTraffic: true,
-        avoidHighways: false,
-        avoidTolls: false,
-        minimizeLeftTurns: false,
-        startingPoint: "Current Location",
-        returnToStart: false,
+  const sessionParser = setupAuth(app);
+  
+  // Everything below belongs to the logged-in user
+  app.use(["/api/addresses", "/api/routes", "/api/route-settings", "/api/vehicles", "/api/depots", "/api/fleet", "/api/config", "/api/routing", "/api/proofs", "/api/notifications", "/api/traffic", "/api/reports"], requireAuth);
+  
+  // Routing and geocoding providers configured on the server. Routing runs in the
+  // browser; OpenRouteService requests needing the server's key go through the proxy below.
+  app.get("/api/config", (_req, res) => {
+    try {
+      res.json(getProviderConfig());
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // OpenRouteService proxy: forwards the browser's directions and matrix requests
+  // with ORS_API_KEY added, so the key never leaves the server
+  app.post(OPENROUTESERVICE_PROXY_PATHS.map(path => `/api/routing/openrouteservice${path}`), async (req, res) => {
+    try {
+      const { url, apiKey } = getOpenRouteServiceTarget();
+      const response = await fetch(url + req.path.slice("/api/routing/openrouteservice".length), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: apiKey } : {}),
+        },
+        body: JSON.stringify(req.body),
       });
+      
+      res.status(response.status)
+        .type(response.headers.get("content-type") ?? "application/json")
+        .send(await response.text());
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
     }
-  };
+  });
   
-  initDefaultRouteSettings();
-
   // === Address Routes ===
   
   // Get all addresses
   app.get("/api/addresses", async (req, res) => {
     try {
-      const addresses = await storage.getAllAddresses();
+      const addresses = await storage.getAllAddresses(req.user!.id);
       res.json(addresses);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
@@ -39,7 +229,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/addresses/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const address = await storage.getAddress(id);
+      const address = await storage.getAddress(req.user!.id, id);
       
       if (!address) {
         return res.status(404).json({ message: "Address not found" });
@@ -54,15 +244,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create a new address
   app.post("/api/addresses", async (req, res) => {
     try {
+      const serviceTime = insertAddressSchema.shape.serviceTime.safeParse(req.body.serviceTime ?? null);
+      
+      if (!serviceTime.success) {
+        return res.status(400).json({ message: "Service time must be a whole number of minutes, 0 or more" });
+      }
+      
+      const customerEmail = insertAddressSchema.shape.customerEmail.safeParse(req.body.customerEmail ?? null);
+      
+      if (!customerEmail.success) {
+        return res.status(400).json({ message: "Customer email must be a valid email address" });
+      }
+      
       const addressData: InsertAddress = {
         fullAddress: req.body.fullAddress,
         timeWindow: req.body.timeWindow || TimeWindow.ANY,
+        exactDeliveryTime: req.body.exactDeliveryTime || null,
+        serviceTime: serviceTime.data,
         priority: req.body.priority || Priority.NORMAL,
         specialInstructions: req.body.specialInstructions || "",
+        customerPhone: contactField(req.body.customerPhone),
+        customerEmail: customerEmail.data ?? null,
       };
       
-      const newAddress = await storage.createAddress(addressData);
-      res.status(201).json(newAddress);
+      const newAddress = await storage.createAddress(req.user!.id, addressData);
+      res.status(201).json(await geocodeAddressRecord(req.user!.id, newAddress));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
@@ -72,14 +278,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/addresses/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const addressData: Partial<Address> = req.body;
+      const parsed = updateAddressSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
       
-      const updatedAddress = await storage.updateAddress(id, addressData);
+      const addressData: Partial<Address> = parsed.data;
+      const existing = await storage.getAddress(req.user!.id, id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      
+      const updatedAddress = await storage.updateAddress(req.user!.id, id, addressData);
       
       if (!updatedAddress) {
         return res.status(404).json({ message: "Address not found" });
       }
       
+      // A changed address text needs new coordinates
+      if (addressData.fullAddress !== undefined && addressData.fullAddress !== existing.fullAddress) {
+        return res.json(await geocodeAddressRecord(req.user!.id, updatedAddress));
+      }
+      
       res.json(updatedAddress);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
@@ -90,7 +312,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/addresses/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteAddress(id);
+      const success = await storage.deleteAddress(req.user!.id, id);
       
       if (!success) {
         return res.status(404).json({ message: "Address not found" });
@@ -105,59 +327,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Bulk import addresses
   app.post("/api/addresses/bulk", async (req, res) => {
     try {
-      const addresses: InsertAddress[] = req.body;
-      
-      if (!Array.isArray(addresses)) {
+      if (!Array.isArray(req.body)) {
         return res.status(400).json({ message: "Expected an array of addresses" });
       }
       
-      const results = await Promise.all(
-        addresses.map(addr => storage.createAddress(addr))
-      );
+      const addresses: InsertAddress[] = [];
+      for (let i = 0; i < req.body.length; i++) {
+        const parsed = insertAddressSchema.omit({ userId: true }).safeParse(req.body[i]);
+        if (!parsed.success) {
+          return res.status(400).json({ message: `Address ${i + 1}: ${fromZodError(parsed.error).message}` });
+        }
+        addresses.push(parsed.data);
+      }
+      
+      const created: Address[] = [];
+      for (const addr of addresses) {
+        created.push(await storage.createAddress(req.user!.id, addr));
+      }
+      
+      // The geocoder is rate-limited, so the rows are located after the response
+      const pending = await geocodeInBackground(req.user!.id, created);
+      res.status(201).json({ success: true, count: pending.length });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Look the address up again, or set its coordinates by hand (a picked candidate
+  // or a dragged pin) when the geocoder got it wrong
+  app.post("/api/addresses/:id/geocode", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const address = await storage.getAddress(req.user!.id, id);
       
-      res.status(201).json({ success: true, count: results.length });
+      if (!address) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      
+      const { lat, lng } = req.body ?? {};
+      if (lat !== undefined || lng !== undefined) {
+        if (!isValidCoordinate(lat, lng)) {
+          return res.status(400).json({ message: "Invalid coordinates" });
+        }
+        
+        // A position the user confirmed counts as exact
+        const corrected = await storage.updateAddress(req.user!.id, id, {
+          latitude: String(lat),
+          longitude: String(lng),
+          geocodeStatus: GeocodeStatus.EXACT,
+        });
+        return res.json(corrected);
+      }
+      
+      // Bypass the cache so a bad cached result gets replaced
+      res.json(await geocodeAddressRecord(req.user!.id, address, true));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
-  // Update address status
+  // Update address status, with proof of delivery ({ recipientName, photo, signature }
+  // as image data URLs) when delivered
   app.patch("/api/addresses/:id/status", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { status } = req.body;
+      const { status, failureReason, notes, clientTimestamp, proof } = req.body;
       
       // Validate status
       if (!Object.values(DeliveryStatus).includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
       
-      const updatedAddress = await storage.updateAddress(id, { 
+      if (failureReason && !Object.values(FailureReason).includes(failureReason)) {
+        return res.status(400).json({ message: "Invalid failure reason" });
+      }
+      
+      if (proof !== undefined && status !== DeliveryStatus.DELIVERED) {
+        return res.status(400).json({ message: "Proof of delivery only applies to delivered stops" });
+      }
+      
+      const photo = proof?.photo ? decodeProofImage(proof.photo) : undefined;
+      const signature = proof?.signature ? decodeProofImage(proof.signature) : undefined;
+      if ((proof?.photo && !photo) || (proof?.signature && !signature)) {
+        return res.status(400).json({ message: "Proof images must be JPEG, PNG or WebP under 4 MB" });
+      }
+      
+      // When the driver actually tapped the button. Updates queued offline arrive
+      // late, so the client sends its own time; it can't be in the future.
+      const now = new Date();
+      let actionTime = now;
+      if (clientTimestamp !== undefined) {
+        const parsed = new Date(clientTimestamp);
+        if (isNaN(parsed.getTime())) {
+          return res.status(400).json({ message: "Invalid clientTimestamp" });
+        }
+        actionTime = parsed < now ? parsed : now;
+      }
+      
+      const existing = await storage.getAddress(req.user!.id, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      
+      // The latest action wins: a replayed update older than the stored one is dropped
+      if (existing.statusUpdatedAt && actionTime < new Date(existing.statusUpdatedAt)) {
+        return res.status(409).json({
+          message: "A newer status update was already recorded",
+          address: existing,
+        });
+      }
+      
+      const changes: Partial<Address> = { 
         status,
-        deliveredAt: status === DeliveryStatus.DELIVERED ? new Date() : undefined
-      });
+        statusUpdatedAt: actionTime,
+        deliveredAt: status === DeliveryStatus.DELIVERED ? actionTime : undefined,
+        // A reason only makes sense for stops that weren't delivered
+        failureReason: status === DeliveryStatus.DELIVERED ? null : failureReason || null,
+        // A new status replaces any earlier proof
+        recipientName: typeof proof?.recipientName === "string" ? proof.recipientName.trim() || null : null,
+        proofPhoto: photo ? await saveProofImage(req.user!.id, photo) : null,
+        proofSignature: signature ? await saveProofImage(req.user!.id, signature) : null,
+      };
+      if (notes !== undefined) {
+        changes.notes = notes || null;
+      }
+      
+      // A failed attempt is retried later on this route, carried over or given up
+      // depending on the reason (shared/reattempt.ts)
+      if (countsAsAttempt(status)) {
+        Object.assign(changes, reattemptChanges(existing, failureReason, actionTime, await storage.getAllAddresses(req.user!.id)));
+      } else {
+        changes.retryAfter = null;
+      }
+      
+      const updatedAddress = await storage.updateAddress(req.user!.id, id, changes);
       
       if (!updatedAddress) {
         return res.status(404).json({ message: "Address not found" });
       }
       
+      // Let the customer know, without holding up the driver
+      if (updatedAddress.status === DeliveryStatus.DELIVERED && existing.status !== DeliveryStatus.DELIVERED) {
+        const options = notifyOptions(req);
+        if (options) {
+          notifyDelivered(req.user!.id, updatedAddress, options)
+            .catch(error => log(`Delivered notification failed: ${(error as Error).message}`, "notify"));
+        }
+      }
+      
       res.json(updatedAddress);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
+  // Messages sent to a stop's customer
+  app.get("/api/addresses/:id/notifications", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const address = await storage.getAddress(req.user!.id, id);
+      
+      if (!address) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      
+      res.json(await storage.getCustomerNotifications(req.user!.id, id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Serve a proof-of-delivery image of the logged-in user
+  app.get("/api/proofs/:file", (req, res) => {
+    const filePath = proofImagePath(req.user!.id, req.params.file);
+    if (!filePath) {
+      return res.status(404).json({ message: "Image not found" });
+    }
+    
+    res.sendFile(filePath, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: "Image not found" });
+      }
+    });
+  });
+  
   // === Route Settings Routes ===
   
   // Get route settings
   app.get("/api/route-settings", async (req, res) => {
     try {
-      const settings = await storage.getRouteSettings();
-      
-      if (!settings) {
-        return res.status(404).json({ message: "Route settings not found" });
-      }
-      
+      const settings = await getOrCreateRouteSettings(req.user!.id);
       res.json(settings);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
@@ -167,15 +526,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Update route settings
   app.patch("/api/route-settings", async (req, res) => {
     try {
-      const settingsData: Partial<RouteSettings> = req.body;
+      const parsed = updateRouteSettingsSchema.safeParse(req.body);
       
-      const settings = await storage.getRouteSettings();
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
       
-      if (!settings) {
-        return res.status(404).json({ message: "Route settings not found" });
+      const settingsData: Partial<RouteSettings> = parsed.data;
+      
+      // Depots have to be the user's own
+      for (const key of ["startDepotId", "endDepotId", "reloadDepotId"] as const) {
+        const depotId = settingsData[key];
+        if (depotId != null && !(await storage.getDepot(req.user!.id, depotId))) {
+          return res.status(400).json({ message: "Depot not found" });
+        }
       }
       
-      const updatedSettings = await storage.updateRouteSettings(settingsData);
+      await getOrCreateRouteSettings(req.user!.id);
+      const updatedSettings = await storage.updateRouteSettings(req.user!.id, settingsData);
       
       res.json(updatedSettings);
     } catch (error) {
@@ -188,7 +556,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all routes
   app.get("/api/routes", async (req, res) => {
     try {
-      const routes = await storage.getAllRoutes();
+      const routes = await storage.getAllRoutes(req.user!.id);
       res.json(routes);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
@@ -199,7 +567,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/routes/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const route = await storage.getRoute(id);
+      const route = await storage.getRoute(req.user!.id, id);
       
       if (!route) {
         return res.status(404).json({ message: "Route not found" });
@@ -218,10 +586,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalDistance: req.body.totalDistance,
         totalTime: req.body.totalTime,
         fuelUsed: req.body.fuelUsed,
+        geometry: routeGeometrySchema.safeParse(req.body.geometry).data ?? null,
+        preferences: Array.isArray(req.body.preferences)
+          ? req.body.preferences.filter((preference: unknown) => typeof preference === "string" && preference in ROUTE_PREFERENCE_LABELS)
+          : null,
         completed: req.body.completed || false,
       };
       
-      const newRoute = await storage.createRoute(routeData);
+      // Stops already driven on another open route (e.g. a fleet route) stay there
+      const openRouteIds = new Set(
+        (await storage.getAllRoutes(req.user!.id)).filter(route => !route.completed).map(route => route.id)
+      );
+      
+      const newRoute = await storage.createRoute(req.user!.id, routeData);
+      
+      const addresses = await storage.getAllAddresses(req.user!.id);
+      for (const address of addresses) {
+        if (address.routeId == null || !openRouteIds.has(address.routeId)) {
+          await storage.updateAddress(req.user!.id, address.id, { routeId: newRoute.id });
+        }
+      }
+      
       res.status(201).json(newRoute);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
@@ -232,9 +617,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/routes/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const routeData: Partial<Route> = req.body;
+      const parsed = updateRouteSchema.safeParse(req.body);
       
-      const updatedRoute = await storage.updateRoute(id, routeData);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const routeData: Partial<Route> = parsed.data;
+      
+      const updatedRoute = await storage.updateRoute(req.user!.id, id, routeData);
       
       if (!updatedRoute) {
         return res.status(404).json({ message: "Route not found" });
@@ -246,46 +637,688 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Mark a route as complete
+  // Mark a route as complete and freeze its stops for the history
   app.patch("/api/routes/:id/complete", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const route = await storage.getRoute(req.user!.id, id);
       
-      const updatedRoute = await storage.updateRoute(id, { completed: true });
-      
-      if (!updatedRoute) {
+      if (!route) {
         return res.status(404).json({ message: "Route not found" });
       }
       
+      // The snapshot is taken once; completing again doesn't overwrite it
+      if (route.completed) {
+        return res.json(route);
+      }
+      
+      const routeAddresses = (await storage.getAllAddresses(req.user!.id))
+        .filter(address => address.routeId === id);
+      const stops = routeAddresses.map((address, index) => toRouteStop(id, address, index));
+      
+      const updatedRoute = await storage.completeRoute(req.user!.id, id, stops);
+      
+      // Failed stops worth another try go back to pending for the next route
+      const completedAt = new Date();
+      for (const address of routeAddresses.filter(shouldCarryOver)) {
+        await storage.updateAddress(req.user!.id, address.id, {
+          routeId: null,
+          status: DeliveryStatus.PENDING,
+          statusUpdatedAt: completedAt,
+          retryAfter: null,
+        });
+      }
+      
       res.json(updatedRoute);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
-  // Optimize a route (reorder addresses for efficiency)
+  // Download a route's stops as CSV, optionally only those with a given status (?status=Failed)
+  app.get("/api/routes/:id/export/csv", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const route = await storage.getRoute(req.user!.id, id);
+      
+      if (!route) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+      
+      const status = req.query.status;
+      if (status !== undefined && !Object.values(DeliveryStatus).includes(status as DeliveryStatus)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      
+      const stops = (await loadRouteStops(req.user!.id, route))
+        .filter(stop => status === undefined || stop.status === status);
+      
+      const suffix = status ? `-${String(status).toLowerCase()}` : "";
+      streamStopsCSV(res, `route-${route.id}${suffix}.csv`, stops);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Download a printable PDF report of a route: totals, route map and stop table
+  app.get("/api/routes/:id/export/pdf", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const route = await storage.getRoute(req.user!.id, id);
+      
+      if (!route) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+      
+      const stops = await loadRouteStops(req.user!.id, route);
+      const vehicle = route.vehicleId ? await storage.getVehicle(req.user!.id, route.vehicleId) : undefined;
+      
+      streamRoutePDF(res, `route-${route.id}.pdf`, req.user!.id, route, stops, vehicle);
+    } catch (error) {
+      // The PDF may already be partly sent
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Get the frozen stops of a completed route (empty while the route is still open)
+  app.get("/api/routes/:id/stops", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const route = await storage.getRoute(req.user!.id, id);
+      
+      if (!route) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+      
+      const stops = await storage.getRouteStops(req.user!.id, id);
+      res.json(stops);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Optimize a route (reorder addresses for efficiency): the pending stops of the
+  // route given as routeId, or without one the pending stops not on an open route
   app.post("/api/routes/optimize", async (req, res) => {
     try {
-      const addresses = await storage.getAllAddresses();
+      const routeId = req.body.routeId;
+      let onRoute: (address: Address) => boolean;
       
-      // In a real implementation, this would use an actual routing API
-      // to determine the optimal order of addresses
+      if (routeId != null) {
+        const route = Number.isInteger(routeId) ? await storage.getRoute(req.user!.id, routeId) : undefined;
+        if (!route) {
+          return res.status(404).json({ message: "Route not found" });
+        }
+        onRoute = address => address.routeId === route.id;
+      } else {
+        // Stops already driven on another open route (e.g. a fleet route) stay there
+        const openRouteIds = new Set(
+          (await storage.getAllRoutes(req.user!.id)).filter(route => !route.completed).map(route => route.id)
+        );
+        onRoute = address => address.routeId == null || !openRouteIds.has(address.routeId);
+      }
+      
+      const addresses = (await storage.getAllAddresses(req.user!.id))
+        .filter(address => address.status === DeliveryStatus.PENDING && onRoute(address));
+      const settings = await getOrCreateRouteSettings(req.user!.id);
       
-      // For now, we'll do a simple simulation
-      const optimizedAddresses = [...addresses];
+      // Only stops with known coordinates can be optimized; the rest keep their order at the end
+      const locatedStops: OptimizerStop[] = [];
+      const unlocatedAddresses: Address[] = [];
+      
+      for (const address of addresses) {
+        const location = addressLocation(address);
+        
+        if (location) {
+          locatedStops.push({ id: address.id, ...location });
+        } else {
+          unlocatedAddresses.push(address);
+        }
+      }
+      
+      const addressesById = new Map(addresses.map(address => [address.id, address]));
+      
+      // Trade distance against reaching high-priority stops early when priorities differ
+      const priorityWeight = getPriorityWeight(settings.priorityWeighting);
+      const weighPriority = isPriorityRelevant(
+        locatedStops.map(stop => addressesById.get(stop.id)!),
+        priorityWeight
+      );
+      
+      const { start, end } = await resolveRouteEnds(req.user!.id, settings, req.body.startLocation);
+      const result = optimizeStopOrder(locatedStops, {
+        start,
+        end,
+        returnToStart: settings.returnToStart ?? false,
+        objective: weighPriority
+          ? (orderedStops, legDistances, totalDistance) => {
+              // Distance already driven when each stop is reached
+              let driven = 0;
+              const reachedAfter = legDistances.map(distance => (driven += distance));
+              const ordered = orderedStops.map(stop => addressesById.get(stop.id)!);
+              return totalDistance + priorityPenalty(ordered, reachedAfter, priorityWeight);
+            }
+          : undefined,
+      });
+      const optimizedAddresses = [
+        ...result.order.map(id => addressesById.get(id)!),
+        ...unlocatedAddresses,
+      ];
       
       // Update the sequence for each address
+      const updatedAddresses: Address[] = [];
       for (let i = 0; i < optimizedAddresses.length; i++) {
-        await storage.updateAddress(optimizedAddresses[i].id, { sequence: i });
+        const updated = await storage.updateAddress(req.user!.id, optimizedAddresses[i].id, { sequence: i });
+        if (updated) updatedAddresses.push(updated);
+      }
+      
+      res.json({
+        success: true,
+        message: "Route optimized",
+        addresses: updatedAddresses,
+        distanceBefore: result.distanceBefore,
+        distanceAfter: result.distanceAfter,
+        distanceSaved: Math.max(0, result.distanceBefore - result.distanceAfter),
+        skipped: unlocatedAddresses.length,
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // === Traffic ===
+  
+  // Drive times in traffic for the legs of a route: { legs: [{ duration, points: [{ lat, lng }] }], departAt }
+  // with free-flow durations in seconds and a few points along each leg
+  app.post("/api/traffic/estimate", async (req, res) => {
+    try {
+      const { legs, departAt } = req.body ?? {};
+      
+      if (!Array.isArray(legs) || legs.length > MAX_TRAFFIC_LEGS) {
+        return res.status(400).json({ message: `legs must be a list of at most ${MAX_TRAFFIC_LEGS} legs` });
+      }
+      
+      const requests: LegTrafficRequest[] = [];
+      for (const leg of legs) {
+        const points = Array.isArray(leg?.points) ? leg.points.slice(0, MAX_TRAFFIC_POINTS) : [];
+        if (typeof leg?.duration !== "number" || !Number.isFinite(leg.duration) || leg.duration < 0 ||
+            !points.every((point: any) => isValidCoordinate(point?.lat, point?.lng))) {
+          return res.status(400).json({ message: "Each leg needs a duration and valid points" });
+        }
+        requests.push({ duration: leg.duration, points: points.map((point: LatLng) => ({ lat: point.lat, lng: point.lng })) });
+      }
+      
+      const start = departAt !== undefined ? new Date(departAt) : new Date();
+      if (isNaN(start.getTime())) {
+        return res.status(400).json({ message: "Invalid departAt" });
+      }
+      
+      const settings = await getOrCreateRouteSettings(req.user!.id);
+      res.json(await estimateTraffic(settings, requests, start));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // === Community Reports ===
+  
+  // Hazards reported by any driver that haven't expired yet
+  app.get("/api/reports", async (req, res) => {
+    try {
+      const reports = await storage.getActiveCommunityReports(new Date());
+      res.json(reports.map(report => toReportView(report, req.user!.id)));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Report a hazard at the driver's location: { kind, lat, lng, note }
+  app.post("/api/reports", async (req, res) => {
+    try {
+      const { kind, lat, lng, note } = req.body ?? {};
+      
+      if (!isReportKind(kind)) {
+        return res.status(400).json({ message: "Invalid report kind" });
+      }
+      if (!isValidCoordinate(lat, lng)) {
+        return res.status(400).json({ message: "Invalid location" });
+      }
+      if (note !== undefined && note !== null && (typeof note !== "string" || note.length > MAX_REPORT_NOTE_LENGTH)) {
+        return res.status(400).json({ message: `note must be at most ${MAX_REPORT_NOTE_LENGTH} characters` });
+      }
+      
+      const report = await storage.createCommunityReport(req.user!.id, {
+        kind,
+        latitude: lat,
+        longitude: lng,
+        note: typeof note === "string" && note.trim() ? note.trim() : null,
+      }, reportExpiry(kind));
+      res.status(201).json(toReportView(report, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Another driver confirms the hazard is still there, or says it's gone
+  const voteOnReport = (vote: ReportVote) => async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const report = await storage.getCommunityReport(id);
+      const now = new Date();
+      
+      if (!report || !isReportActive(report, now)) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (report.userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't vote on your own report" });
+      }
+      
+      const previous = await storage.getCommunityReportVote(id, req.user!.id);
+      let updated: CommunityReport | undefined = report;
+      if (previous?.vote !== vote) {
+        await storage.saveCommunityReportVote(id, req.user!.id, vote);
+        updated = await storage.updateCommunityReport(id, applyReportVote(report, vote, (previous?.vote as ReportVote) ?? null, now));
+      }
+      
+      res.json(toReportView(updated ?? report, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  };
+  app.post("/api/reports/:id/confirm", voteOnReport(ReportVote.CONFIRM));
+  app.post("/api/reports/:id/dismiss", voteOnReport(ReportVote.DISMISS));
+  
+  // === Customer Notifications ===
+  
+  // The driver's progress along a route: { routeId, currentStopId, etas: [{ id, eta }], timeZone }.
+  // Stores the ETAs and sends "out for delivery" and "you're next" messages in the background.
+  app.post("/api/notifications/progress", async (req, res) => {
+    try {
+      const { routeId = null, currentStopId = null, etas = [], timeZone } = req.body ?? {};
+      
+      if (routeId !== null && !Number.isInteger(routeId)) {
+        return res.status(400).json({ message: "Invalid routeId" });
+      }
+      if (currentStopId !== null && !Number.isInteger(currentStopId)) {
+        return res.status(400).json({ message: "Invalid currentStopId" });
+      }
+      if (!Array.isArray(etas) || etas.some(entry => !Number.isInteger(entry?.id) || isNaN(new Date(entry?.eta).getTime()))) {
+        return res.status(400).json({ message: "etas must be a list of { id, eta }" });
+      }
+      if (timeZone !== undefined && typeof timeZone !== "string") {
+        return res.status(400).json({ message: "Invalid timeZone" });
+      }
+      
+      // Stops still to visit on this route
+      const stops = (await storage.getAllAddresses(req.user!.id)).filter(address =>
+        address.routeId === routeId &&
+        (address.status === DeliveryStatus.PENDING || address.status === DeliveryStatus.ATTEMPTED)
+      );
+      const etasById = new Map<number, Date>(etas.map((entry: { id: number; eta: string }) => [entry.id, new Date(entry.eta)]));
+      
+      const updatedStops: Address[] = [];
+      for (const stop of stops) {
+        const eta = etasById.get(stop.id);
+        const updated = eta ? await storage.updateAddress(req.user!.id, stop.id, { estimatedArrival: eta }) : stop;
+        if (updated) updatedStops.push(updated);
+      }
+      
+      const options = notifyOptions(req, timeZone);
+      if (options) {
+        notifyRouteProgress(req.user!.id, updatedStops, currentStopId, options)
+          .catch(error => log(`Progress notifications failed: ${(error as Error).message}`, "notify"));
+      }
+      
+      res.status(202).json({ success: true, stops: updatedStops.length });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Public tracking page data for a customer's link. Only what the customer
+  // needs: their stop, its ETA and roughly where the driver is.
+  app.get("/api/track/:token", async (req, res) => {
+    try {
+      const address = await storage.getAddressByTrackingToken(req.params.token);
+      
+      if (!address || address.userId === null) {
+        return res.status(404).json({ message: "Tracking link not found" });
+      }
+      
+      const open = address.status === DeliveryStatus.PENDING || address.status === DeliveryStatus.ATTEMPTED;
+      const driver = open ? findRouteDriver(address.userId, address.routeId) : undefined;
+      
+      // About 100 m of precision is enough to see the driver coming
+      res.json({
+        address: address.fullAddress,
+        status: address.status,
+        deliveredAt: address.deliveredAt,
+        recipientName: address.recipientName,
+        eta: open ? address.estimatedArrival : null,
+        isNext: !!driver && driver.currentStop?.id === address.id,
+        destination: addressLocation(address) ?? null,
+        driver: driver
+          ? {
+              lat: Math.round(driver.position.lat * 1000) / 1000,
+              lng: Math.round(driver.position.lng * 1000) / 1000,
+              updatedAt: new Date(driver.position.timestamp),
+              online: driver.online,
+            }
+          : null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // === Vehicle Routes ===
+  
+  // Get all vehicles
+  app.get("/api/vehicles", async (req, res) => {
+    try {
+      const vehicles = await storage.getAllVehicles(req.user!.id);
+      res.json(vehicles);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Create a new vehicle
+  app.post("/api/vehicles", async (req, res) => {
+    try {
+      const parsed = insertVehicleSchema.omit({ userId: true }).safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const vehicleData: InsertVehicle = {
+        name: parsed.data.name,
+        driverName: parsed.data.driverName || null,
+        capacity: parsed.data.capacity ?? null,
+        shiftStart: parsed.data.shiftStart ?? null,
+        shiftEnd: parsed.data.shiftEnd ?? null,
+        depot: parsed.data.depot || null,
+      };
+      
+      const newVehicle = await storage.createVehicle(req.user!.id, vehicleData);
+      res.status(201).json(newVehicle);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Update a vehicle
+  app.patch("/api/vehicles/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = updateVehicleSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const vehicleData: Partial<Vehicle> = parsed.data;
+      
+      const updatedVehicle = await storage.updateVehicle(req.user!.id, id, vehicleData);
+      
+      if (!updatedVehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
       
-      res.json({ success: true, message: "Route optimized" });
+      res.json(updatedVehicle);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Delete a vehicle
+  app.delete("/api/vehicles/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteVehicle(req.user!.id, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // === Depot Routes ===
+  
+  // Get all depots
+  app.get("/api/depots", async (req, res) => {
+    try {
+      const depots = await storage.getAllDepots(req.user!.id);
+      res.json(depots);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Create a new depot; its address is geocoded right away
+  app.post("/api/depots", async (req, res) => {
+    try {
+      if (!req.body.name?.trim()) {
+        return res.status(400).json({ message: "Depot name is required" });
+      }
+      if (!req.body.fullAddress?.trim()) {
+        return res.status(400).json({ message: "Depot address is required" });
+      }
+      if (req.body.kind !== undefined && !Object.values(DepotKind).includes(req.body.kind)) {
+        return res.status(400).json({ message: "Invalid depot kind" });
+      }
+      
+      const depotData: InsertDepot = {
+        name: req.body.name.trim(),
+        kind: req.body.kind || DepotKind.WAREHOUSE,
+        fullAddress: req.body.fullAddress.trim(),
+      };
+      
+      const newDepot = await storage.createDepot(req.user!.id, depotData);
+      res.status(201).json(await geocodeDepotRecord(req.user!.id, newDepot));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Update a depot; a changed address is geocoded again
+  app.patch("/api/depots/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getDepot(req.user!.id, id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Depot not found" });
+      }
+      
+      if (req.body.kind !== undefined && !Object.values(DepotKind).includes(req.body.kind)) {
+        return res.status(400).json({ message: "Invalid depot kind" });
+      }
+      
+      const depotData: Partial<Depot> = {};
+      if (req.body.name?.trim()) depotData.name = req.body.name.trim();
+      if (req.body.kind !== undefined) depotData.kind = req.body.kind;
+      if (req.body.fullAddress?.trim()) depotData.fullAddress = req.body.fullAddress.trim();
+      
+      const updatedDepot = await storage.updateDepot(req.user!.id, id, depotData);
+      
+      if (!updatedDepot) {
+        return res.status(404).json({ message: "Depot not found" });
+      }
+      
+      if (depotData.fullAddress !== undefined && depotData.fullAddress !== existing.fullAddress) {
+        return res.json(await geocodeDepotRecord(req.user!.id, updatedDepot));
+      }
+      
+      res.json(updatedDepot);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Place a depot by hand ({ lat, lng }) when the geocoder got it wrong, or
+  // look its address up again when no coordinates are sent
+  app.post("/api/depots/:id/geocode", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const depot = await storage.getDepot(req.user!.id, id);
+      
+      if (!depot) {
+        return res.status(404).json({ message: "Depot not found" });
+      }
+      
+      const { lat, lng } = req.body ?? {};
+      if (lat !== undefined || lng !== undefined) {
+        if (!isValidCoordinate(lat, lng)) {
+          return res.status(400).json({ message: "Invalid coordinates" });
+        }
+        
+        const corrected = await storage.updateDepot(req.user!.id, id, {
+          latitude: String(lat),
+          longitude: String(lng),
+          geocodeStatus: GeocodeStatus.EXACT,
+        });
+        return res.json(corrected);
+      }
+      
+      res.json(await geocodeDepotRecord(req.user!.id, depot, true));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Delete a depot; route settings using it fall back to the starting point
+  app.delete("/api/depots/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteDepot(req.user!.id, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Depot not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // === Fleet Routes ===
+  
+  // Split the pending stops into one optimized route per vehicle
+  app.post("/api/fleet/plan", async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const vehicles = await storage.getAllVehicles(userId);
+      
+      if (vehicles.length === 0) {
+        return res.status(400).json({ message: "Add at least one vehicle before planning fleet routes" });
+      }
+      
+      const settings = await getOrCreateRouteSettings(userId);
+      const pending = (await storage.getAllAddresses(userId))
+        .filter(address => address.status === DeliveryStatus.PENDING);
+      
+      const stops: FleetStop[] = [];
+      const unlocatedAddresses: Address[] = [];
+      
+      for (const address of pending) {
+        const location = addressLocation(address);
+        
+        if (location) {
+          stops.push({ id: address.id, ...location, serviceTime: address.serviceTime });
+        } else {
+          unlocatedAddresses.push(address);
+        }
+      }
+      
+      const { start, end } = await resolveRouteEnds(userId, settings, req.body.startLocation);
+      const plan = planFleetRoutes(stops, vehicles.map(toFleetVehicle), {
+        balance: req.body.balance === FleetBalance.DRIVE_TIME ? "time" : "stops",
+        start,
+        end,
+        returnToStart: settings.returnToStart ?? false,
+      });
+      
+      // Routes the replanned stops belonged to before
+      const previousRouteIds = new Set(
+        pending.map(address => address.routeId).filter((id): id is number => id != null)
+      );
+      
+      const addressesById = new Map(pending.map(address => [address.id, address]));
+      const vehiclesById = new Map(vehicles.map(vehicle => [vehicle.id, vehicle]));
+      const plannedRoutes = [];
+      
+      for (const planned of plan.routes) {
+        if (planned.order.length === 0) continue;
+        
+        const route = await storage.createRoute(userId, {
+          vehicleId: planned.vehicleId,
+          totalDistance: `${planned.distance.toFixed(1)} mi`,
+          totalTime: formatMinutes(planned.minutes),
+          fuelUsed: `${(planned.distance / 25).toFixed(1)} gal`, // assuming 25 mpg
+          completed: false,
+        });
+        
+        const routeAddresses: Address[] = [];
+        for (let i = 0; i < planned.order.length; i++) {
+          const updated = await storage.updateAddress(userId, planned.order[i], { routeId: route.id, sequence: i });
+          if (updated) routeAddresses.push(updated);
+        }
+        
+        plannedRoutes.push({
+          route,
+          vehicle: vehiclesById.get(planned.vehicleId)!,
+          addresses: routeAddresses,
+          minutes: Math.round(planned.minutes),
+          overShift: planned.overShift,
+        });
+      }
+      
+      // Stops that didn't fit or couldn't be located stay unassigned
+      const unassigned: Address[] = [];
+      const unassignedAddresses = [
+        ...plan.unassigned.map(id => addressesById.get(id)!),
+        ...unlocatedAddresses,
+      ];
+      for (const address of unassignedAddresses) {
+        const updated = await storage.updateAddress(userId, address.id, { routeId: null });
+        if (updated) unassigned.push(updated);
+      }
+      
+      // Drop open routes that lost all of their stops to the new plan
+      const remaining = await storage.getAllAddresses(userId);
+      for (const routeId of Array.from(previousRouteIds)) {
+        const route = await storage.getRoute(userId, routeId);
+        if (route && !route.completed && !remaining.some(address => address.routeId === routeId)) {
+          await storage.deleteRoute(userId, routeId);
+        }
+      }
+      
+      res.json({
+        success: true,
+        message: `Planned ${plannedRoutes.length} routes`,
+        routes: plannedRoutes,
+        unassigned,
+      });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
   const httpServer = createServer(app);
+  
+  // Live driver positions for the dispatcher view
+  setupTracking(httpServer, sessionParser);
 
   return httpServer;
 }
@@ -0,0 +1,329 @@
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import {
+  DeliveryStatus, DepotKind, NotificationChannel, NotificationKind, NotificationStatus, ReportKind, ReportVote,
+  type InsertRouteStop,
+} from "@shared/schema";
+import { MemStorage, DbStorage, type IStorage } from "./storage";
+import type { Database, DatabasePool } from "./db";
+
+// The same behaviour is expected from both storage drivers, so every test below
+// runs once against MemStorage and once against DbStorage on an embedded
+// Postgres (PGlite) with the real migrations applied.
+
+interface StorageDriver {
+  name: string;
+  setup(): Promise<void>;
+  create(): Promise<IStorage>;
+  teardown(): Promise<void>;
+}
+
+const memoryDriver: StorageDriver = {
+  name: "MemStorage",
+  async setup() {},
+  async create() {
+    return new MemStorage();
+  },
+  async teardown() {},
+};
+
+// Migrating takes a while, so it's done once and every test gets a copy of the migrated database
+function postgresDriver(): StorageDriver {
+  let migrated: PGlite;
+  const open: PGlite[] = [];
+
+  return {
+    name: "DbStorage",
+    async setup() {
+      migrated = new PGlite();
+      await migrate(drizzle(migrated, { schema }), { migrationsFolder: "migrations" });
+    },
+    async create() {
+      const client = await migrated.clone() as PGlite;
+      open.push(client);
+      // The session store is not exercised here; it only touches its pool when a session is used
+      return new DbStorage(drizzle(client, { schema }) as unknown as Database, {} as DatabasePool);
+    },
+    async teardown() {
+      await Promise.all(open.map(client => client.close()));
+      await migrated.close();
+    },
+  };
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function stop(routeId: number, addressId: number, sequence: number): InsertRouteStop {
+  return {
+    routeId,
+    addressId,
+    sequence,
+    fullAddress: `${sequence + 1} Main St`,
+    status: DeliveryStatus.DELIVERED,
+  };
+}
+
+for (const driver of [memoryDriver, postgresDriver()]) {
+  describe(driver.name, () => {
+    let storage: IStorage;
+    let userId: number;
+    let otherUserId: number;
+
+    before(() => driver.setup());
+    after(() => driver.teardown());
+
+    beforeEach(async () => {
+      storage = await driver.create();
+      userId = (await storage.createUser({ username: "driver", password: "secret" })).id;
+      otherUserId = (await storage.createUser({ username: "other", password: "secret" })).id;
+    });
+
+    describe("users", () => {
+      it("finds users by id and username", async () => {
+        const user = await storage.getUser(userId);
+
+        assert.equal(user?.username, "driver");
+        assert.equal((await storage.getUserByUsername("driver"))?.id, userId);
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+      });
+    });
+
+    describe("addresses", () => {
+      it("creates addresses with the column defaults", async () => {
+        const address = await storage.createAddress(userId, { fullAddress: "1 Main St" });
+
+        assert.equal(address.userId, userId);
+        assert.equal(address.status, DeliveryStatus.PENDING);
+        assert.equal(address.timeWindow, "Any time");
+        assert.equal(address.priority, "Normal");
+        assert.equal(address.attemptCount, 0);
+        assert.equal(address.serviceTime, null);
+      });
+
+      it("only returns a user's own addresses, in sequence order", async () => {
+        const first = await storage.createAddress(userId, { fullAddress: "1 Main St" });
+        const second = await storage.createAddress(userId, { fullAddress: "2 Main St" });
+        await storage.createAddress(otherUserId, { fullAddress: "3 Main St" });
+        await storage.updateAddress(userId, first.id, { sequence: 1 });
+        await storage.updateAddress(userId, second.id, { sequence: 0 });
+
+        const list = await storage.getAllAddresses(userId);
+
+        assert.deepEqual(list.map(address => address.fullAddress), ["2 Main St", "1 Main St"]);
+      });
+
+      it("does not read, update or delete another user's address", async () => {
+        const address = await storage.createAddress(otherUserId, { fullAddress: "1 Main St" });
+
+        assert.equal(await storage.getAddress(userId, address.id), undefined);
+        assert.equal(await storage.updateAddress(userId, address.id, { notes: "mine now" }), undefined);
+        assert.equal(await storage.deleteAddress(userId, address.id), false);
+        assert.equal((await storage.getAddress(otherUserId, address.id))?.notes, null);
+      });
+
+      it("updates and deletes an address", async () => {
+        const address = await storage.createAddress(userId, { fullAddress: "1 Main St" });
+
+        const updated = await storage.updateAddress(userId, address.id, { status: DeliveryStatus.DELIVERED, serviceTime: 5 });
+
+        assert.equal(updated?.status, DeliveryStatus.DELIVERED);
+        assert.equal(updated?.serviceTime, 5);
+        assert.equal(await storage.deleteAddress(userId, address.id), true);
+        assert.equal(await storage.getAddress(userId, address.id), undefined);
+      });
+
+      it("finds an address by its tracking token", async () => {
+        const address = await storage.createAddress(userId, { fullAddress: "1 Main St" });
+        await storage.updateAddress(userId, address.id, { trackingToken: "token-1" });
+
+        assert.equal((await storage.getAddressByTrackingToken("token-1"))?.id, address.id);
+        assert.equal(await storage.getAddressByTrackingToken("token-2"), undefined);
+      });
+    });
+
+    describe("route settings", () => {
+      it("keeps one settings row per user", async () => {
+        assert.equal(await storage.getRouteSettings(userId), undefined);
+
+        await storage.createRouteSettings(userId, { avoidTolls: true });
+        const updated = await storage.updateRouteSettings(userId, { returnToStart: true });
+
+        assert.equal(updated?.avoidTolls, true);
+        assert.equal(updated?.returnToStart, true);
+        assert.equal(await storage.getRouteSettings(otherUserId), undefined);
+      });
+    });
+
+    describe("routes", () => {
+      it("only returns a user's own routes", async () => {
+        const route = await storage.createRoute(userId, { totalDistance: "12 km" });
+        await storage.createRoute(otherUserId, { totalDistance: "5 km" });
+
+        assert.deepEqual((await storage.getAllRoutes(userId)).map(r => r.id), [route.id]);
+        assert.equal(await storage.getRoute(otherUserId, route.id), undefined);
+        assert.equal(await storage.deleteRoute(otherUserId, route.id), false);
+      });
+
+      it("stores the route geometry and preferences", async () => {
+        const route = await storage.createRoute(userId, {
+          geometry: [[51.5, -0.1], [51.6, -0.2]],
+          preferences: ["Avoid tolls"],
+        });
+
+        const stored = await storage.getRoute(userId, route.id);
+
+        assert.deepEqual(stored?.geometry, [[51.5, -0.1], [51.6, -0.2]]);
+        assert.deepEqual(stored?.preferences, ["Avoid tolls"]);
+      });
+
+      it("completes a route with a snapshot of its stops", async () => {
+        const route = await storage.createRoute(userId, {});
+        const first = await storage.createAddress(userId, { fullAddress: "1 Main St" });
+        const second = await storage.createAddress(userId, { fullAddress: "2 Main St" });
+
+        const completed = await storage.completeRoute(userId, route.id, [
+          stop(route.id, second.id, 1),
+          { ...stop(route.id, first.id, 0), customerPhone: "+15550100", customerEmail: "jo@example.com" },
+        ]);
+        const stops = await storage.getRouteStops(userId, route.id);
+
+        assert.equal(completed?.completed, true);
+        assert.deepEqual(stops.map(s => s.addressId), [first.id, second.id]);
+        assert.equal(stops[0].customerPhone, "+15550100");
+        assert.equal(stops[0].customerEmail, "jo@example.com");
+        assert.equal(stops[1].customerPhone, null);
+        assert.deepEqual(await storage.getRouteStops(otherUserId, route.id), []);
+      });
+
+      it("does not complete another user's route", async () => {
+        const route = await storage.createRoute(otherUserId, {});
+
+        assert.equal(await storage.completeRoute(userId, route.id, [stop(route.id, 0, 0)]), undefined);
+        assert.equal((await storage.getRoute(otherUserId, route.id))?.completed, false);
+      });
+
+      it("unassigns addresses when their route is deleted", async () => {
+        const route = await storage.createRoute(userId, {});
+        const address = await storage.createAddress(userId, { fullAddress: "1 Main St" });
+        await storage.updateAddress(userId, address.id, { routeId: route.id });
+
+        assert.equal(await storage.deleteRoute(userId, route.id), true);
+        assert.equal((await storage.getAddress(userId, address.id))?.routeId, null);
+      });
+    });
+
+    describe("vehicles", () => {
+      it("creates, updates and deletes a user's vehicles", async () => {
+        const vehicle = await storage.createVehicle(userId, { name: "Van 1", capacity: 40 });
+
+        assert.deepEqual((await storage.getAllVehicles(userId)).map(v => v.id), [vehicle.id]);
+        assert.deepEqual(await storage.getAllVehicles(otherUserId), []);
+        assert.equal((await storage.updateVehicle(userId, vehicle.id, { capacity: 60 }))?.capacity, 60);
+        assert.equal(await storage.updateVehicle(otherUserId, vehicle.id, { capacity: 1 }), undefined);
+        assert.equal(await storage.deleteVehicle(userId, vehicle.id), true);
+        assert.equal(await storage.getVehicle(userId, vehicle.id), undefined);
+      });
+    });
+
+    describe("depots", () => {
+      it("clears a deleted depot from the route settings", async () => {
+        const depot = await storage.createDepot(userId, { name: "Warehouse", kind: DepotKind.WAREHOUSE, fullAddress: "1 Dock Rd" });
+        await storage.createRouteSettings(userId, { startDepotId: depot.id, reloadDepotId: depot.id });
+
+        assert.equal(await storage.deleteDepot(otherUserId, depot.id), false);
+        assert.equal(await storage.deleteDepot(userId, depot.id), true);
+
+        const settings = await storage.getRouteSettings(userId);
+        assert.equal(settings?.startDepotId, null);
+        assert.equal(settings?.reloadDepotId, null);
+        assert.deepEqual(await storage.getAllDepots(userId), []);
+      });
+    });
+
+    describe("geocode cache", () => {
+      it("replaces the entry saved for the same query", async () => {
+        await storage.saveGeocodeCacheEntry({ query: "1 main st", latitude: "1", longitude: "2", provider: "Nominatim" });
+        const saved = await storage.saveGeocodeCacheEntry({
+          query: "1 main st",
+          latitude: "3",
+          longitude: "4",
+          candidates: [{ latitude: "3", longitude: "4", label: "1 Main St" }],
+          provider: "Mapbox",
+        });
+
+        const entry = await storage.getGeocodeCacheEntry("1 main st");
+
+        assert.equal(entry?.id, saved.id);
+        assert.equal(entry?.latitude, "3");
+        assert.equal(entry?.provider, "Mapbox");
+        assert.deepEqual(entry?.candidates, [{ latitude: "3", longitude: "4", label: "1 Main St" }]);
+        assert.equal(await storage.getGeocodeCacheEntry("2 main st"), undefined);
+      });
+    });
+
+    describe("traffic profiles", () => {
+      it("averages the samples recorded for the same hour", async () => {
+        await storage.recordTrafficSample("51:0", false, 8, 1.2);
+        await storage.recordTrafficSample("51:0", false, 8, 1.6);
+        await storage.recordTrafficSample("51:0", true, 8, 1.1);
+
+        const profile = await storage.getTrafficProfile("51:0");
+        const weekday = profile.find(entry => !entry.weekend);
+
+        assert.equal(profile.length, 2);
+        assert.equal(weekday?.samples, 2);
+        assert.ok(Math.abs((weekday?.delayRatio ?? 0) - 1.4) < 1e-9);
+        assert.deepEqual(await storage.getTrafficProfile("52:0"), []);
+      });
+    });
+
+    describe("customer notifications", () => {
+      it("lists a user's notifications for an address, oldest first", async () => {
+        const address = await storage.createAddress(userId, { fullAddress: "1 Main St" });
+        const notification = {
+          addressId: address.id,
+          channel: NotificationChannel.SMS,
+          recipient: "+15550100",
+          status: NotificationStatus.SENT,
+        };
+        await storage.createCustomerNotification(userId, { ...notification, kind: NotificationKind.OUT_FOR_DELIVERY, message: "On the way" });
+        await storage.createCustomerNotification(userId, { ...notification, kind: NotificationKind.DELIVERED, message: "Delivered" });
+
+        const list = await storage.getCustomerNotifications(userId, address.id);
+
+        assert.deepEqual(list.map(n => n.kind), [NotificationKind.OUT_FOR_DELIVERY, NotificationKind.DELIVERED]);
+        assert.deepEqual(await storage.getCustomerNotifications(otherUserId, address.id), []);
+      });
+    });
+
+    describe("community reports", () => {
+      it("only lists reports that have not expired, newest first", async () => {
+        const now = new Date();
+        const older = await storage.createCommunityReport(userId, { kind: ReportKind.CLOSURE, latitude: 51.5, longitude: -0.1 }, new Date(now.getTime() + HOUR));
+        const newer = await storage.createCommunityReport(otherUserId, { kind: ReportKind.ACCIDENT, latitude: 51.6, longitude: -0.2 }, new Date(now.getTime() + HOUR));
+        await storage.createCommunityReport(userId, { kind: ReportKind.CONSTRUCTION, latitude: 51.7, longitude: -0.3 }, new Date(now.getTime() - HOUR));
+
+        const active = await storage.getActiveCommunityReports(now);
+
+        assert.deepEqual(active.map(report => report.id), [newer.id, older.id]);
+        assert.equal(older.confirmations, 0);
+        assert.equal(older.dismissals, 0);
+      });
+
+      it("replaces a driver's earlier vote", async () => {
+        const report = await storage.createCommunityReport(userId, { kind: ReportKind.CLOSURE, latitude: 51.5, longitude: -0.1 }, new Date(Date.now() + HOUR));
+
+        await storage.saveCommunityReportVote(report.id, otherUserId, ReportVote.CONFIRM);
+        await storage.saveCommunityReportVote(report.id, otherUserId, ReportVote.DISMISS);
+
+        assert.equal((await storage.getCommunityReportVote(report.id, otherUserId))?.vote, ReportVote.DISMISS);
+        assert.equal(await storage.getCommunityReportVote(report.id, userId), undefined);
+        assert.equal((await storage.updateCommunityReport(report.id, { dismissals: 1 }))?.dismissals, 1);
+      });
+    });
+  });
+}
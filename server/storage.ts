@@ -3,8 +3,28 @@ import {
   Address, InsertAddress, DeliveryStatus,
   RouteSettings, InsertRouteSettings,
   Route, InsertRoute,
-  TimeWindow, Priority
+  RouteStop, InsertRouteStop,
+  Vehicle, InsertVehicle,
+  Depot, InsertDepot, DepotKind,
+  GeocodeCacheEntry, InsertGeocodeCacheEntry,
+  CustomerNotification, InsertCustomerNotification,
+  TrafficProfileEntry,
+  CommunityReport, InsertCommunityReport, CommunityReportVote, ReportVote,
+  TimeWindow, Priority, PriorityWeighting, RoutingProviderType, TrafficDataProvider,
+  users, addresses, routeSettings, routes, routeStops, vehicles, depots, geocodeCache, customerNotifications, trafficProfiles,
+  communityReports, communityReportVotes
 } from "@shared/schema";
+import { and, asc, desc, eq, gt, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDatabase, type Database, type DatabasePool } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Traffic averages give a new sample at least 1% weight, so they follow changes in traffic
+const MAX_TRAFFIC_SAMPLE_WEIGHT = 100;
 
 // modify the interface with any CRUD methods
 // you might need
@@ -15,45 +35,131 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
-  // Address methods
-  getAllAddresses(): Promise<Address[]>;
-  getAddress(id: number): Promise<Address | undefined>;
-  createAddress(address: InsertAddress): Promise<Address>;
-  updateAddress(id: number, data: Partial<Address>): Promise<Address | undefined>;
-  deleteAddress(id: number): Promise<boolean>;
+  // Address methods (scoped to the owning user)
+  getAllAddresses(userId: number): Promise<Address[]>;
+  getAddress(userId: number, id: number): Promise<Address | undefined>;
+  createAddress(userId: number, address: InsertAddress): Promise<Address>;
+  updateAddress(userId: number, id: number, data: Partial<Address>): Promise<Address | undefined>;
+  deleteAddress(userId: number, id: number): Promise<boolean>;
   
-  // Route Settings methods
-  getRouteSettings(): Promise<RouteSettings | undefined>;
-  createRouteSettings(settings: InsertRouteSettings): Promise<RouteSettings>;
-  updateRouteSettings(data: Partial<RouteSettings>): Promise<RouteSettings | undefined>;
+  // Public tracking page lookup; the token is the only credential
+  getAddressByTrackingToken(token: string): Promise<Address | undefined>;
   
-  // Route methods
-  getAllRoutes(): Promise<Route[]>;
-  getRoute(id: number): Promise<Route | undefined>;
-  createRoute(route: InsertRoute): Promise<Route>;
-  updateRoute(id: number, data: Partial<Route>): Promise<Route | undefined>;
+  // Route Settings methods (one settings row per user)
+  getRouteSettings(userId: number): Promise<RouteSettings | undefined>;
+  createRouteSettings(userId: number, settings: InsertRouteSettings): Promise<RouteSettings>;
+  updateRouteSettings(userId: number, data: Partial<RouteSettings>): Promise<RouteSettings | undefined>;
+  
+  // Route methods (scoped to the owning user)
+  getAllRoutes(userId: number): Promise<Route[]>;
+  getRoute(userId: number, id: number): Promise<Route | undefined>;
+  createRoute(userId: number, route: InsertRoute): Promise<Route>;
+  updateRoute(userId: number, id: number, data: Partial<Route>): Promise<Route | undefined>;
+  deleteRoute(userId: number, id: number): Promise<boolean>;
+  
+  // Route history: mark a route completed together with the snapshot of its stops
+  completeRoute(userId: number, id: number, stops: InsertRouteStop[]): Promise<Route | undefined>;
+  getRouteStops(userId: number, routeId: number): Promise<RouteStop[]>;
+  
+  // Vehicle methods (scoped to the owning user)
+  getAllVehicles(userId: number): Promise<Vehicle[]>;
+  getVehicle(userId: number, id: number): Promise<Vehicle | undefined>;
+  createVehicle(userId: number, vehicle: InsertVehicle): Promise<Vehicle>;
+  updateVehicle(userId: number, id: number, data: Partial<Vehicle>): Promise<Vehicle | undefined>;
+  deleteVehicle(userId: number, id: number): Promise<boolean>;
+  
+  // Depot methods (scoped to the owning user); deleting one clears it from route settings
+  getAllDepots(userId: number): Promise<Depot[]>;
+  getDepot(userId: number, id: number): Promise<Depot | undefined>;
+  createDepot(userId: number, depot: InsertDepot): Promise<Depot>;
+  updateDepot(userId: number, id: number, data: Partial<Depot>): Promise<Depot | undefined>;
+  deleteDepot(userId: number, id: number): Promise<boolean>;
+  
+  // Geocode cache (shared by all users, keyed by geocoder and normalized address)
+  getGeocodeCacheEntry(query: string): Promise<GeocodeCacheEntry | undefined>;
+  saveGeocodeCacheEntry(entry: InsertGeocodeCacheEntry): Promise<GeocodeCacheEntry>;
+  
+  // Traffic profiles (shared by all users): hourly averages per area, folded in one sample at a time
+  getTrafficProfile(region: string): Promise<TrafficProfileEntry[]>;
+  recordTrafficSample(region: string, weekend: boolean, hour: number, delayRatio: number): Promise<void>;
+  
+  // Customer notifications (scoped to the owning user), oldest first
+  getCustomerNotifications(userId: number, addressId: number): Promise<CustomerNotification[]>;
+  createCustomerNotification(userId: number, notification: InsertCustomerNotification): Promise<CustomerNotification>;
+  
+  // Community reports (shared by all users); active ones are those not expired yet, newest first
+  getActiveCommunityReports(now: Date): Promise<CommunityReport[]>;
+  getCommunityReport(id: number): Promise<CommunityReport | undefined>;
+  createCommunityReport(userId: number, report: InsertCommunityReport, expiresAt: Date): Promise<CommunityReport>;
+  updateCommunityReport(id: number, data: Partial<CommunityReport>): Promise<CommunityReport | undefined>;
+  
+  // A driver's vote on a community report; saving replaces their earlier vote
+  getCommunityReportVote(reportId: number, userId: number): Promise<CommunityReportVote | undefined>;
+  saveCommunityReportVote(reportId: number, userId: number, vote: ReportVote): Promise<CommunityReportVote>;
+  
+  // Session store used by express-session
+  sessionStore: session.Store;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private addresses: Map<number, Address>;
   private routes: Map<number, Route>;
-  private routeSettings?: RouteSettings;
+  private routeSettings: Map<number, RouteSettings>; // keyed by user id
+  private vehicles: Map<number, Vehicle>;
+  private depots: Map<number, Depot>;
+  private routeStops: Map<number, RouteStop>;
+  private geocodeCache: Map<string, GeocodeCacheEntry>; // keyed by query
+  private trafficProfiles: Map<string, TrafficProfileEntry>; // keyed by region, weekend and hour
+  private customerNotifications: Map<number, CustomerNotification>;
+  private communityReports: Map<number, CommunityReport>;
+  private communityReportVotes: Map<string, CommunityReportVote>; // keyed by report and user
   
   private userId: number;
   private addressId: number;
   private routeId: number;
   private routeSettingsId: number;
+  private vehicleId: number;
+  private depotId: number;
+  private routeStopId: number;
+  private geocodeCacheId: number;
+  private trafficProfileId: number;
+  private customerNotificationId: number;
+  private communityReportId: number;
+  private communityReportVoteId: number;
+  
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.addresses = new Map();
     this.routes = new Map();
+    this.routeSettings = new Map();
+    this.vehicles = new Map();
+    this.depots = new Map();
+    this.routeStops = new Map();
+    this.geocodeCache = new Map();
+    this.trafficProfiles = new Map();
+    this.customerNotifications = new Map();
+    this.communityReports = new Map();
+    this.communityReportVotes = new Map();
     
     this.userId = 1;
     this.addressId = 1;
     this.routeId = 1;
     this.routeSettingsId = 1;
+    this.vehicleId = 1;
+    this.depotId = 1;
+    this.routeStopId = 1;
+    this.geocodeCacheId = 1;
+    this.trafficProfileId = 1;
+    this.customerNotificationId = 1;
+    this.communityReportId = 1;
+    this.communityReportVoteId = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
   }
 
   // User methods
@@ -75,38 +181,57 @@ export class MemStorage implements IStorage {
   }
   
   // Address methods
-  async getAllAddresses(): Promise<Address[]> {
-    return Array.from(this.addresses.values()).sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+  async getAllAddresses(userId: number): Promise<Address[]> {
+    return Array.from(this.addresses.values())
+      .filter(address => address.userId === userId)
+      .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
   }
   
-  async getAddress(id: number): Promise<Address | undefined> {
-    return this.addresses.get(id);
+  async getAddress(userId: number, id: number): Promise<Address | undefined> {
+    const address = this.addresses.get(id);
+    return address?.userId === userId ? address : undefined;
   }
   
-  async createAddress(address: InsertAddress): Promise<Address> {
+  async createAddress(userId: number, address: InsertAddress): Promise<Address> {
     const id = this.addressId++;
-    const now = new Date();
+    const existing = await this.getAllAddresses(userId);
     const newAddress: Address = {
       ...address,
       id,
       latitude: null,
       longitude: null,
+      geocodeStatus: null,
+      geocodeCandidates: null,
       status: DeliveryStatus.PENDING,
-      sequence: this.addresses.size,
+      statusUpdatedAt: null,
+      sequence: existing.length,
       deliveredAt: null,
+      failureReason: null,
+      notes: null,
+      attemptCount: 0,
+      retryAfter: null,
+      recipientName: null,
+      proofPhoto: null,
+      proofSignature: null,
+      trackingToken: null,
+      estimatedArrival: null,
       // Default values for optional fields
       specialInstructions: address.specialInstructions || null,
+      customerPhone: address.customerPhone || null,
+      customerEmail: address.customerEmail || null,
       timeWindow: address.timeWindow || TimeWindow.ANY,
       exactDeliveryTime: address.exactDeliveryTime ?? null,
+      serviceTime: address.serviceTime ?? null,
       priority: address.priority || Priority.NORMAL,
-      userId: address.userId || null,
+      routeId: null,
+      userId,
     };
     this.addresses.set(id, newAddress);
     return newAddress;
   }
   
-  async updateAddress(id: number, data: Partial<Address>): Promise<Address | undefined> {
-    const address = this.addresses.get(id);
+  async updateAddress(userId: number, id: number, data: Partial<Address>): Promise<Address | undefined> {
+    const address = await this.getAddress(userId, id);
     if (!address) {
       return undefined;
     }
@@ -114,69 +239,101 @@ export class MemStorage implements IStorage {
     const updatedAddress = {
       ...address,
       ...data,
+      id,
+      userId,
     };
     
     this.addresses.set(id, updatedAddress);
     return updatedAddress;
   }
   
-  async deleteAddress(id: number): Promise<boolean> {
+  async deleteAddress(userId: number, id: number): Promise<boolean> {
+    const address = await this.getAddress(userId, id);
+    if (!address) return false;
+    
+    // Notifications go with their address, as the foreign key cascades
+    this.customerNotifications.forEach((notification, notificationId) => {
+      if (notification.addressId === id) {
+        this.customerNotifications.delete(notificationId);
+      }
+    });
+    
     return this.addresses.delete(id);
   }
   
+  async getAddressByTrackingToken(token: string): Promise<Address | undefined> {
+    return Array.from(this.addresses.values()).find(address => address.trackingToken === token);
+  }
+  
   // Route Settings methods
-  async getRouteSettings(): Promise<RouteSettings | undefined> {
-    return this.routeSettings;
+  async getRouteSettings(userId: number): Promise<RouteSettings | undefined> {
+    return this.routeSettings.get(userId);
   }
   
-  async createRouteSettings(settings: InsertRouteSettings): Promise<RouteSettings> {
-    const id = this.routeSettingsId;
+  async createRouteSettings(userId: number, settings: InsertRouteSettings): Promise<RouteSettings> {
+    const id = this.routeSettingsId++;
     
     const newSettings: RouteSettings = {
       id,
-      shortestDistance: settings.shortestDistance || true,
-      realTimeTraffic: settings.realTimeTraffic || true,
-      avoidHighways: settings.avoidHighways || false,
-      avoidTolls: settings.avoidTolls || false,
-      minimizeLeftTurns: settings.minimizeLeftTurns || false,
+      shortestDistance: settings.shortestDistance ?? true,
+      realTimeTraffic: settings.realTimeTraffic ?? true,
+      avoidHighways: settings.avoidHighways ?? false,
+      avoidTolls: settings.avoidTolls ?? false,
+      minimizeLeftTurns: settings.minimizeLeftTurns ?? false,
       startingPoint: settings.startingPoint || "Current Location",
-      returnToStart: settings.returnToStart || false,
-      userId: settings.userId || null,
+      returnToStart: settings.returnToStart ?? false,
+      startDepotId: settings.startDepotId ?? null,
+      endDepotId: settings.endDepotId ?? null,
+      reloadDepotId: settings.reloadDepotId ?? null,
+      reloadAfterStops: settings.reloadAfterStops ?? null,
+      offlineMode: settings.offlineMode ?? false,
+      offlineMapsLastUpdated: null,
+      trafficDataProvider: settings.trafficDataProvider || TrafficDataProvider.OPENDATA,
+      priorityWeighting: settings.priorityWeighting || PriorityWeighting.BALANCED,
+      routingProvider: settings.routingProvider || RoutingProviderType.SERVER_DEFAULT,
+      routingUrl: settings.routingUrl || null,
+      userId,
     };
     
-    this.routeSettings = newSettings;
+    this.routeSettings.set(userId, newSettings);
     return newSettings;
   }
   
-  async updateRouteSettings(data: Partial<RouteSettings>): Promise<RouteSettings | undefined> {
-    if (!this.routeSettings) {
+  async updateRouteSettings(userId: number, data: Partial<RouteSettings>): Promise<RouteSettings | undefined> {
+    const settings = this.routeSettings.get(userId);
+    if (!settings) {
       return undefined;
     }
     
     const updatedSettings = {
-      ...this.routeSettings,
+      ...settings,
       ...data,
+      id: settings.id,
+      userId,
     };
     
-    this.routeSettings = updatedSettings;
+    this.routeSettings.set(userId, updatedSettings);
     return updatedSettings;
   }
   
   // Route methods
-  async getAllRoutes(): Promise<Route[]> {
-    return Array.from(this.routes.values()).sort((a, b) => {
-      // Since createdAt can be null, provide safe comparison
-      const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-      const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-      return dateB - dateA;
-    });
+  async getAllRoutes(userId: number): Promise<Route[]> {
+    return Array.from(this.routes.values())
+      .filter(route => route.userId === userId)
+      .sort((a, b) => {
+        // Since createdAt can be null, provide safe comparison
+        const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+        const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+        return dateB - dateA;
+      });
   }
   
-  async getRoute(id: number): Promise<Route | undefined> {
-    return this.routes.get(id);
+  async getRoute(userId: number, id: number): Promise<Route | undefined> {
+    const route = this.routes.get(id);
+    return route?.userId === userId ? route : undefined;
   }
   
-  async createRoute(route: InsertRoute): Promise<Route> {
+  async createRoute(userId: number, route: InsertRoute): Promise<Route> {
     const id = this.routeId++;
     const now = new Date();
     
@@ -185,17 +342,21 @@ export class MemStorage implements IStorage {
       totalDistance: route.totalDistance || null,
       totalTime: route.totalTime || null,
       fuelUsed: route.fuelUsed || null,
+      geometry: route.geometry ?? null,
+      preferences: route.preferences ?? null,
       completed: route.completed || false,
-      userId: route.userId || null,
+      vehicleId: route.vehicleId ?? null,
+      userId,
       createdAt: now,
+      completedAt: null,
     };
     
     this.routes.set(id, newRoute);
     return newRoute;
   }
   
-  async updateRoute(id: number, data: Partial<Route>): Promise<Route | undefined> {
-    const route = this.routes.get(id);
+  async updateRoute(userId: number, id: number, data: Partial<Route>): Promise<Route | undefined> {
+    const route = await this.getRoute(userId, id);
     if (!route) {
       return undefined;
     }
@@ -203,11 +364,705 @@ export class MemStorage implements IStorage {
     const updatedRoute = {
       ...route,
       ...data,
+      id,
+      userId,
     };
     
     this.routes.set(id, updatedRoute);
     return updatedRoute;
   }
+  
+  async deleteRoute(userId: number, id: number): Promise<boolean> {
+    const route = await this.getRoute(userId, id);
+    if (!route) {
+      return false;
+    }
+    
+    // Its stops go back to the unassigned pool
+    this.addresses.forEach((address, addressId) => {
+      if (address.routeId === id) {
+        this.addresses.set(addressId, { ...address, routeId: null });
+      }
+    });
+    
+    this.routeStops.forEach((stop, stopId) => {
+      if (stop.routeId === id) {
+        this.routeStops.delete(stopId);
+      }
+    });
+    
+    return this.routes.delete(id);
+  }
+  
+  async completeRoute(userId: number, id: number, stops: InsertRouteStop[]): Promise<Route | undefined> {
+    const route = await this.getRoute(userId, id);
+    if (!route) {
+      return undefined;
+    }
+    
+    for (const stop of stops) {
+      const stopId = this.routeStopId++;
+      this.routeStops.set(stopId, {
+        id: stopId,
+        routeId: id,
+        addressId: stop.addressId ?? null,
+        sequence: stop.sequence,
+        fullAddress: stop.fullAddress,
+        latitude: stop.latitude ?? null,
+        longitude: stop.longitude ?? null,
+        timeWindow: stop.timeWindow ?? null,
+        exactDeliveryTime: stop.exactDeliveryTime ?? null,
+        serviceTime: stop.serviceTime ?? null,
+        priority: stop.priority ?? null,
+        specialInstructions: stop.specialInstructions ?? null,
+        customerPhone: stop.customerPhone ?? null,
+        customerEmail: stop.customerEmail ?? null,
+        status: stop.status,
+        deliveredAt: stop.deliveredAt ?? null,
+        failureReason: stop.failureReason ?? null,
+        notes: stop.notes ?? null,
+        attemptCount: stop.attemptCount ?? null,
+        recipientName: stop.recipientName ?? null,
+        proofPhoto: stop.proofPhoto ?? null,
+        proofSignature: stop.proofSignature ?? null,
+      });
+    }
+    
+    return this.updateRoute(userId, id, { completed: true, completedAt: new Date() });
+  }
+  
+  async getRouteStops(userId: number, routeId: number): Promise<RouteStop[]> {
+    const route = await this.getRoute(userId, routeId);
+    if (!route) {
+      return [];
+    }
+    
+    return Array.from(this.routeStops.values())
+      .filter(stop => stop.routeId === routeId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+  
+  // Vehicle methods
+  async getAllVehicles(userId: number): Promise<Vehicle[]> {
+    return Array.from(this.vehicles.values())
+      .filter(vehicle => vehicle.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getVehicle(userId: number, id: number): Promise<Vehicle | undefined> {
+    const vehicle = this.vehicles.get(id);
+    return vehicle?.userId === userId ? vehicle : undefined;
+  }
+  
+  async createVehicle(userId: number, vehicle: InsertVehicle): Promise<Vehicle> {
+    const id = this.vehicleId++;
+    
+    const newVehicle: Vehicle = {
+      id,
+      name: vehicle.name,
+      driverName: vehicle.driverName || null,
+      capacity: vehicle.capacity ?? null,
+      shiftStart: vehicle.shiftStart || null,
+      shiftEnd: vehicle.shiftEnd || null,
+      depot: vehicle.depot || null,
+      userId,
+    };
+    
+    this.vehicles.set(id, newVehicle);
+    return newVehicle;
+  }
+  
+  async updateVehicle(userId: number, id: number, data: Partial<Vehicle>): Promise<Vehicle | undefined> {
+    const vehicle = await this.getVehicle(userId, id);
+    if (!vehicle) {
+      return undefined;
+    }
+    
+    const updatedVehicle = {
+      ...vehicle,
+      ...data,
+      id,
+      userId,
+    };
+    
+    this.vehicles.set(id, updatedVehicle);
+    return updatedVehicle;
+  }
+  
+  async deleteVehicle(userId: number, id: number): Promise<boolean> {
+    const vehicle = await this.getVehicle(userId, id);
+    if (!vehicle) {
+      return false;
+    }
+    
+    // Routes outlive the vehicle they were planned for
+    this.routes.forEach((route, routeId) => {
+      if (route.vehicleId === id) {
+        this.routes.set(routeId, { ...route, vehicleId: null });
+      }
+    });
+    
+    return this.vehicles.delete(id);
+  }
+  
+  // Depot methods
+  async getAllDepots(userId: number): Promise<Depot[]> {
+    return Array.from(this.depots.values())
+      .filter(depot => depot.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getDepot(userId: number, id: number): Promise<Depot | undefined> {
+    const depot = this.depots.get(id);
+    return depot?.userId === userId ? depot : undefined;
+  }
+  
+  async createDepot(userId: number, depot: InsertDepot): Promise<Depot> {
+    const id = this.depotId++;
+    
+    const newDepot: Depot = {
+      id,
+      name: depot.name,
+      kind: depot.kind || DepotKind.WAREHOUSE,
+      fullAddress: depot.fullAddress,
+      latitude: null,
+      longitude: null,
+      geocodeStatus: null,
+      userId,
+    };
+    
+    this.depots.set(id, newDepot);
+    return newDepot;
+  }
+  
+  async updateDepot(userId: number, id: number, data: Partial<Depot>): Promise<Depot | undefined> {
+    const depot = await this.getDepot(userId, id);
+    if (!depot) {
+      return undefined;
+    }
+    
+    const updatedDepot = {
+      ...depot,
+      ...data,
+      id,
+      userId,
+    };
+    
+    this.depots.set(id, updatedDepot);
+    return updatedDepot;
+  }
+  
+  async deleteDepot(userId: number, id: number): Promise<boolean> {
+    const depot = await this.getDepot(userId, id);
+    if (!depot) {
+      return false;
+    }
+    
+    // Settings pointing at the depot fall back to the starting point and last stop
+    const settings = this.routeSettings.get(userId);
+    if (settings) {
+      this.routeSettings.set(userId, {
+        ...settings,
+        startDepotId: settings.startDepotId === id ? null : settings.startDepotId,
+        endDepotId: settings.endDepotId === id ? null : settings.endDepotId,
+        reloadDepotId: settings.reloadDepotId === id ? null : settings.reloadDepotId,
+      });
+    }
+    
+    return this.depots.delete(id);
+  }
+  
+  // Geocode cache methods
+  async getGeocodeCacheEntry(query: string): Promise<GeocodeCacheEntry | undefined> {
+    return this.geocodeCache.get(query);
+  }
+  
+  async saveGeocodeCacheEntry(entry: InsertGeocodeCacheEntry): Promise<GeocodeCacheEntry> {
+    const existing = this.geocodeCache.get(entry.query);
+    
+    const savedEntry: GeocodeCacheEntry = {
+      id: existing?.id ?? this.geocodeCacheId++,
+      query: entry.query,
+      latitude: entry.latitude ?? null,
+      longitude: entry.longitude ?? null,
+      label: entry.label ?? null,
+      candidates: entry.candidates ?? null,
+      provider: entry.provider,
+      createdAt: new Date(),
+    };
+    
+    this.geocodeCache.set(entry.query, savedEntry);
+    return savedEntry;
+  }
+  
+  // Traffic profile methods
+  async getTrafficProfile(region: string): Promise<TrafficProfileEntry[]> {
+    return Array.from(this.trafficProfiles.values()).filter(entry => entry.region === region);
+  }
+  
+  async recordTrafficSample(region: string, weekend: boolean, hour: number, delayRatio: number): Promise<void> {
+    const key = `${region}|${weekend}|${hour}`;
+    const existing = this.trafficProfiles.get(key);
+    
+    this.trafficProfiles.set(key, {
+      id: existing?.id ?? this.trafficProfileId++,
+      region,
+      weekend,
+      hour,
+      delayRatio: existing
+        ? existing.delayRatio + (delayRatio - existing.delayRatio) / Math.min(existing.samples + 1, MAX_TRAFFIC_SAMPLE_WEIGHT)
+        : delayRatio,
+      samples: (existing?.samples ?? 0) + 1,
+      updatedAt: new Date(),
+    });
+  }
+  
+  // Customer notification methods
+  async getCustomerNotifications(userId: number, addressId: number): Promise<CustomerNotification[]> {
+    return Array.from(this.customerNotifications.values())
+      .filter(notification => notification.userId === userId && notification.addressId === addressId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createCustomerNotification(userId: number, notification: InsertCustomerNotification): Promise<CustomerNotification> {
+    const id = this.customerNotificationId++;
+    const newNotification: CustomerNotification = {
+      ...notification,
+      id,
+      error: notification.error ?? null,
+      createdAt: new Date(),
+      userId,
+    };
+    this.customerNotifications.set(id, newNotification);
+    return newNotification;
+  }
+  
+  // Community report methods
+  async getActiveCommunityReports(now: Date): Promise<CommunityReport[]> {
+    return Array.from(this.communityReports.values())
+      .filter(report => report.expiresAt > now)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getCommunityReport(id: number): Promise<CommunityReport | undefined> {
+    return this.communityReports.get(id);
+  }
+  
+  async createCommunityReport(userId: number, report: InsertCommunityReport, expiresAt: Date): Promise<CommunityReport> {
+    const id = this.communityReportId++;
+    const newReport: CommunityReport = {
+      ...report,
+      id,
+      note: report.note ?? null,
+      confirmations: 0,
+      dismissals: 0,
+      expiresAt,
+      createdAt: new Date(),
+      userId,
+    };
+    this.communityReports.set(id, newReport);
+    return newReport;
+  }
+  
+  async updateCommunityReport(id: number, data: Partial<CommunityReport>): Promise<CommunityReport | undefined> {
+    const report = this.communityReports.get(id);
+    if (!report) return undefined;
+    
+    const updatedReport = { ...report, ...data, id };
+    this.communityReports.set(id, updatedReport);
+    return updatedReport;
+  }
+  
+  async getCommunityReportVote(reportId: number, userId: number): Promise<CommunityReportVote | undefined> {
+    return this.communityReportVotes.get(`${reportId}|${userId}`);
+  }
+  
+  async saveCommunityReportVote(reportId: number, userId: number, vote: ReportVote): Promise<CommunityReportVote> {
+    const key = `${reportId}|${userId}`;
+    const savedVote: CommunityReportVote = {
+      id: this.communityReportVotes.get(key)?.id ?? this.communityReportVoteId++,
+      reportId,
+      userId,
+      vote,
+      createdAt: new Date(),
+    };
+    this.communityReportVotes.set(key, savedVote);
+    return savedVote;
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, pool: DatabasePool) {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  // Address methods
+  async getAllAddresses(userId: number): Promise<Address[]> {
+    return this.db.select().from(addresses)
+      .where(eq(addresses.userId, userId))
+      .orderBy(asc(addresses.sequence), asc(addresses.id));
+  }
+  
+  async getAddress(userId: number, id: number): Promise<Address | undefined> {
+    const [address] = await this.db.select().from(addresses)
+      .where(and(eq(addresses.id, id), eq(addresses.userId, userId)));
+    return address;
+  }
+  
+  async createAddress(userId: number, address: InsertAddress): Promise<Address> {
+    // New addresses go to the end of the route, matching MemStorage
+    const existing = await this.db.select({ id: addresses.id }).from(addresses)
+      .where(eq(addresses.userId, userId));
+    
+    const [newAddress] = await this.db.insert(addresses).values({
+      ...address,
+      status: DeliveryStatus.PENDING,
+      sequence: existing.length,
+      specialInstructions: address.specialInstructions || null,
+      customerPhone: address.customerPhone || null,
+      customerEmail: address.customerEmail || null,
+      timeWindow: address.timeWindow || TimeWindow.ANY,
+      exactDeliveryTime: address.exactDeliveryTime ?? null,
+      serviceTime: address.serviceTime ?? null,
+      priority: address.priority || Priority.NORMAL,
+      userId,
+    }).returning();
+    return newAddress;
+  }
+  
+  async updateAddress(userId: number, id: number, data: Partial<Address>): Promise<Address | undefined> {
+    const { id: _id, userId: _userId, ...changes } = data;
+    if (Object.keys(changes).length === 0) {
+      return this.getAddress(userId, id);
+    }
+    
+    const [updatedAddress] = await this.db.update(addresses)
+      .set(changes)
+      .where(and(eq(addresses.id, id), eq(addresses.userId, userId)))
+      .returning();
+    return updatedAddress;
+  }
+  
+  async deleteAddress(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(addresses)
+      .where(and(eq(addresses.id, id), eq(addresses.userId, userId)))
+      .returning({ id: addresses.id });
+    return deleted.length > 0;
+  }
+  
+  async getAddressByTrackingToken(token: string): Promise<Address | undefined> {
+    const [address] = await this.db.select().from(addresses).where(eq(addresses.trackingToken, token));
+    return address;
+  }
+  
+  // Route Settings methods
+  async getRouteSettings(userId: number): Promise<RouteSettings | undefined> {
+    const [settings] = await this.db.select().from(routeSettings)
+      .where(eq(routeSettings.userId, userId))
+      .orderBy(asc(routeSettings.id))
+      .limit(1);
+    return settings;
+  }
+  
+  async createRouteSettings(userId: number, settings: InsertRouteSettings): Promise<RouteSettings> {
+    const [newSettings] = await this.db.insert(routeSettings).values({ ...settings, userId }).returning();
+    return newSettings;
+  }
+  
+  async updateRouteSettings(userId: number, data: Partial<RouteSettings>): Promise<RouteSettings | undefined> {
+    const current = await this.getRouteSettings(userId);
+    if (!current) {
+      return undefined;
+    }
+    
+    const { id: _id, userId: _userId, ...changes } = data;
+    if (Object.keys(changes).length === 0) {
+      return current;
+    }
+    
+    const [updatedSettings] = await this.db.update(routeSettings)
+      .set(changes)
+      .where(eq(routeSettings.id, current.id))
+      .returning();
+    return updatedSettings;
+  }
+  
+  // Route methods
+  async getAllRoutes(userId: number): Promise<Route[]> {
+    return this.db.select().from(routes)
+      .where(eq(routes.userId, userId))
+      .orderBy(desc(routes.createdAt), desc(routes.id));
+  }
+  
+  async getRoute(userId: number, id: number): Promise<Route | undefined> {
+    const [route] = await this.db.select().from(routes)
+      .where(and(eq(routes.id, id), eq(routes.userId, userId)));
+    return route;
+  }
+  
+  async createRoute(userId: number, route: InsertRoute): Promise<Route> {
+    const [newRoute] = await this.db.insert(routes).values({ ...route, userId }).returning();
+    return newRoute;
+  }
+  
+  async updateRoute(userId: number, id: number, data: Partial<Route>): Promise<Route | undefined> {
+    const { id: _id, userId: _userId, ...changes } = data;
+    if (Object.keys(changes).length === 0) {
+      return this.getRoute(userId, id);
+    }
+    
+    const [updatedRoute] = await this.db.update(routes)
+      .set(changes)
+      .where(and(eq(routes.id, id), eq(routes.userId, userId)))
+      .returning();
+    return updatedRoute;
+  }
+  
+  async deleteRoute(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(routes)
+      .where(and(eq(routes.id, id), eq(routes.userId, userId)))
+      .returning({ id: routes.id });
+    return deleted.length > 0;
+  }
+  
+  async completeRoute(userId: number, id: number, stops: InsertRouteStop[]): Promise<Route | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [completedRoute] = await tx.update(routes)
+        .set({ completed: true, completedAt: new Date() })
+        .where(and(eq(routes.id, id), eq(routes.userId, userId)))
+        .returning();
+      
+      if (!completedRoute) {
+        return undefined;
+      }
+      
+      if (stops.length > 0) {
+        await tx.insert(routeStops).values(stops.map(stop => ({ ...stop, routeId: id })));
+      }
+      return completedRoute;
+    });
+  }
+  
+  async getRouteStops(userId: number, routeId: number): Promise<RouteStop[]> {
+    const rows = await this.db.select({ stop: routeStops }).from(routeStops)
+      .innerJoin(routes, eq(routeStops.routeId, routes.id))
+      .where(and(eq(routeStops.routeId, routeId), eq(routes.userId, userId)))
+      .orderBy(asc(routeStops.sequence));
+    return rows.map(row => row.stop);
+  }
+  
+  // Vehicle methods
+  async getAllVehicles(userId: number): Promise<Vehicle[]> {
+    return this.db.select().from(vehicles)
+      .where(eq(vehicles.userId, userId))
+      .orderBy(asc(vehicles.id));
+  }
+  
+  async getVehicle(userId: number, id: number): Promise<Vehicle | undefined> {
+    const [vehicle] = await this.db.select().from(vehicles)
+      .where(and(eq(vehicles.id, id), eq(vehicles.userId, userId)));
+    return vehicle;
+  }
+  
+  async createVehicle(userId: number, vehicle: InsertVehicle): Promise<Vehicle> {
+    const [newVehicle] = await this.db.insert(vehicles).values({ ...vehicle, userId }).returning();
+    return newVehicle;
+  }
+  
+  async updateVehicle(userId: number, id: number, data: Partial<Vehicle>): Promise<Vehicle | undefined> {
+    const { id: _id, userId: _userId, ...changes } = data;
+    if (Object.keys(changes).length === 0) {
+      return this.getVehicle(userId, id);
+    }
+    
+    const [updatedVehicle] = await this.db.update(vehicles)
+      .set(changes)
+      .where(and(eq(vehicles.id, id), eq(vehicles.userId, userId)))
+      .returning();
+    return updatedVehicle;
+  }
+  
+  async deleteVehicle(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(vehicles)
+      .where(and(eq(vehicles.id, id), eq(vehicles.userId, userId)))
+      .returning({ id: vehicles.id });
+    return deleted.length > 0;
+  }
+  
+  // Depot methods
+  async getAllDepots(userId: number): Promise<Depot[]> {
+    return this.db.select().from(depots)
+      .where(eq(depots.userId, userId))
+      .orderBy(asc(depots.id));
+  }
+  
+  async getDepot(userId: number, id: number): Promise<Depot | undefined> {
+    const [depot] = await this.db.select().from(depots)
+      .where(and(eq(depots.id, id), eq(depots.userId, userId)));
+    return depot;
+  }
+  
+  async createDepot(userId: number, depot: InsertDepot): Promise<Depot> {
+    const [newDepot] = await this.db.insert(depots).values({ ...depot, userId }).returning();
+    return newDepot;
+  }
+  
+  async updateDepot(userId: number, id: number, data: Partial<Depot>): Promise<Depot | undefined> {
+    const { id: _id, userId: _userId, ...changes } = data;
+    if (Object.keys(changes).length === 0) {
+      return this.getDepot(userId, id);
+    }
+    
+    const [updatedDepot] = await this.db.update(depots)
+      .set(changes)
+      .where(and(eq(depots.id, id), eq(depots.userId, userId)))
+      .returning();
+    return updatedDepot;
+  }
+  
+  async deleteDepot(userId: number, id: number): Promise<boolean> {
+    // Route settings references are cleared by the foreign keys
+    const deleted = await this.db.delete(depots)
+      .where(and(eq(depots.id, id), eq(depots.userId, userId)))
+      .returning({ id: depots.id });
+    return deleted.length > 0;
+  }
+  
+  // Geocode cache methods
+  async getGeocodeCacheEntry(query: string): Promise<GeocodeCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(geocodeCache).where(eq(geocodeCache.query, query));
+    return entry;
+  }
+  
+  async saveGeocodeCacheEntry(entry: InsertGeocodeCacheEntry): Promise<GeocodeCacheEntry> {
+    const [savedEntry] = await this.db.insert(geocodeCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: geocodeCache.query,
+        set: { ...entry, createdAt: new Date() },
+      })
+      .returning();
+    return savedEntry;
+  }
+  
+  // Traffic profile methods
+  async getTrafficProfile(region: string): Promise<TrafficProfileEntry[]> {
+    return this.db.select().from(trafficProfiles).where(eq(trafficProfiles.region, region));
+  }
+  
+  async recordTrafficSample(region: string, weekend: boolean, hour: number, delayRatio: number): Promise<void> {
+    await this.db.insert(trafficProfiles)
+      .values({ region, weekend, hour, delayRatio, samples: 1 })
+      .onConflictDoUpdate({
+        target: [trafficProfiles.region, trafficProfiles.weekend, trafficProfiles.hour],
+        set: {
+          delayRatio: sql`${trafficProfiles.delayRatio} + (${delayRatio} - ${trafficProfiles.delayRatio}) / LEAST(${trafficProfiles.samples} + 1, ${MAX_TRAFFIC_SAMPLE_WEIGHT})`,
+          samples: sql`${trafficProfiles.samples} + 1`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+  
+  // Customer notification methods
+  async getCustomerNotifications(userId: number, addressId: number): Promise<CustomerNotification[]> {
+    return this.db.select().from(customerNotifications)
+      .where(and(eq(customerNotifications.userId, userId), eq(customerNotifications.addressId, addressId)))
+      .orderBy(asc(customerNotifications.id));
+  }
+  
+  async createCustomerNotification(userId: number, notification: InsertCustomerNotification): Promise<CustomerNotification> {
+    const [newNotification] = await this.db.insert(customerNotifications)
+      .values({ ...notification, userId })
+      .returning();
+    return newNotification;
+  }
+  
+  // Community report methods
+  async getActiveCommunityReports(now: Date): Promise<CommunityReport[]> {
+    return this.db.select().from(communityReports)
+      .where(gt(communityReports.expiresAt, now))
+      .orderBy(desc(communityReports.id));
+  }
+  
+  async getCommunityReport(id: number): Promise<CommunityReport | undefined> {
+    const [report] = await this.db.select().from(communityReports).where(eq(communityReports.id, id));
+    return report;
+  }
+  
+  async createCommunityReport(userId: number, report: InsertCommunityReport, expiresAt: Date): Promise<CommunityReport> {
+    const [newReport] = await this.db.insert(communityReports)
+      .values({ ...report, userId, expiresAt })
+      .returning();
+    return newReport;
+  }
+  
+  async updateCommunityReport(id: number, data: Partial<CommunityReport>): Promise<CommunityReport | undefined> {
+    const { id: _id, ...changes } = data;
+    const [updatedReport] = await this.db.update(communityReports)
+      .set(changes)
+      .where(eq(communityReports.id, id))
+      .returning();
+    return updatedReport;
+  }
+  
+  async getCommunityReportVote(reportId: number, userId: number): Promise<CommunityReportVote | undefined> {
+    const [vote] = await this.db.select().from(communityReportVotes)
+      .where(and(eq(communityReportVotes.reportId, reportId), eq(communityReportVotes.userId, userId)));
+    return vote;
+  }
+  
+  async saveCommunityReportVote(reportId: number, userId: number, vote: ReportVote): Promise<CommunityReportVote> {
+    const [savedVote] = await this.db.insert(communityReportVotes)
+      .values({ reportId, userId, vote })
+      .onConflictDoUpdate({
+        target: [communityReportVotes.reportId, communityReportVotes.userId],
+        set: { vote, createdAt: new Date() },
+      })
+      .returning();
+    return savedVote;
+  }
+}
+
+// Pick the storage backend from the environment. STORAGE_DRIVER can be "memory" or
+// "postgres"; by default PostgreSQL is used whenever DATABASE_URL is set.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? "postgres" : "memory");
+  
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+  
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+  
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to use the postgres storage driver");
+  }
+  
+  const { db, pool } = createDatabase(process.env.DATABASE_URL);
+  return new DbStorage(db, pool);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
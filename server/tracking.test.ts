@@ -0,0 +1,117 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { Request, RequestHandler } from "express";
+import { WebSocket } from "ws";
+import { TRACKING_PATH, TrackingServerMessage } from "@shared/tracking";
+import { setupTracking } from "./tracking";
+
+// Stands in for express-session + passport: the "session" cookie names the
+// logged-in user, "session=guest" is a session nobody logged in to
+const sessionParser: RequestHandler = (req, _res, next) => {
+  const session = req.headers.cookie?.match(/session=(\w+)/)?.[1];
+  if (session) {
+    (req as Request & { session: object }).session = session === "guest" ? {} : { passport: { user: Number(session) } };
+  }
+  next();
+};
+
+function connect(port: number, cookie?: string): WebSocket {
+  return new WebSocket(`ws://127.0.0.1:${port}${TRACKING_PATH}`, { headers: cookie ? { cookie } : {} });
+}
+
+// Status of a refused upgrade
+function rejection(socket: WebSocket): Promise<number> {
+  return new Promise((resolve, reject) => {
+    socket.on("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+    socket.on("open", () => reject(new Error("Connection was accepted")));
+    socket.on("error", () => undefined);
+  });
+}
+
+function opened(socket: WebSocket): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.on("open", () => resolve());
+    socket.on("error", reject);
+  });
+}
+
+function nextMessage(socket: WebSocket): Promise<TrackingServerMessage> {
+  return new Promise(resolve => socket.once("message", data => resolve(JSON.parse(data.toString()))));
+}
+
+describe("tracking WebSocket", () => {
+  let server: Server;
+  let port: number;
+  const sockets: WebSocket[] = [];
+
+  before(async () => {
+    // The heartbeat interval would keep the test process alive
+    mock.timers.enable({ apis: ["setInterval"] });
+    server = createServer();
+    setupTracking(server, sessionParser);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    sockets.forEach(socket => socket.terminate());
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    mock.timers.reset();
+  });
+
+  function open(cookie?: string): WebSocket {
+    const socket = connect(port, cookie);
+    sockets.push(socket);
+    return socket;
+  }
+
+  it("refuses a connection without a session", async () => {
+    assert.equal(await rejection(open()), 401);
+  });
+
+  it("refuses a session nobody is logged in to", async () => {
+    assert.equal(await rejection(open("session=guest")), 401);
+  });
+
+  it("accepts a logged-in user and sends dispatchers a snapshot", async () => {
+    const dispatcher = open("session=1");
+    await opened(dispatcher);
+
+    const snapshot = nextMessage(dispatcher);
+    dispatcher.send(JSON.stringify({ type: "subscribe" }));
+
+    assert.deepEqual(await snapshot, { type: "snapshot", drivers: [] });
+  });
+
+  it("only shows drivers to dispatchers of the same account", async () => {
+    const driver = open("session=2");
+    const ownDispatcher = open("session=2");
+    const otherDispatcher = open("session=3");
+    await Promise.all([opened(driver), opened(ownDispatcher), opened(otherDispatcher)]);
+
+    const ownSnapshot = nextMessage(ownDispatcher);
+    ownDispatcher.send(JSON.stringify({ type: "subscribe" }));
+    await ownSnapshot;
+
+    const update = nextMessage(ownDispatcher);
+    driver.send(JSON.stringify({
+      type: "position",
+      routeId: null,
+      position: { lat: 51.5, lng: -0.12, timestamp: Date.now() },
+      currentStop: null,
+      completed: 0,
+      total: 3,
+    }));
+    const message = await update;
+
+    assert.equal(message.type, "driver");
+    assert.equal(message.type === "driver" && message.driver.total, 3);
+
+    const otherSnapshot = nextMessage(otherDispatcher);
+    otherDispatcher.send(JSON.stringify({ type: "subscribe" }));
+    assert.deepEqual(await otherSnapshot, { type: "snapshot", drivers: [] });
+  });
+});
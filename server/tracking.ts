@@ -0,0 +1,209 @@
+import type { Server, IncomingMessage } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  DriverState,
+  MAX_TRAIL_POINTS,
+  PositionMessage,
+  TRACKING_PATH,
+  TrackingClientMessage,
+  TrackingServerMessage,
+  isValidPosition,
+} from "@shared/tracking";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Drivers that went offline are dropped from the dispatcher view after this long
+const STALE_DRIVER_MS = 30 * 60 * 1000;
+
+// Dead connections (e.g. a phone that lost signal) are closed after one missed ping
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Live state per account: drivers by id and the dispatcher sockets watching them
+const driversByUser = new Map<number, Map<string, DriverState>>();
+const dispatchersByUser = new Map<number, Set<WebSocket>>();
+
+function getDrivers(userId: number): Map<string, DriverState> {
+  let drivers = driversByUser.get(userId);
+  if (!drivers) {
+    drivers = new Map();
+    driversByUser.set(userId, drivers);
+  }
+  return drivers;
+}
+
+function send(socket: WebSocket, message: TrackingServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(userId: number, driver: DriverState) {
+  dispatchersByUser.get(userId)?.forEach(socket => send(socket, { type: "driver", driver }));
+}
+
+// Drivers to show a dispatcher who just connected, minus long-gone ones
+function activeDrivers(userId: number): DriverState[] {
+  const drivers = getDrivers(userId);
+  const now = Date.now();
+  for (const [driverId, driver] of Array.from(drivers.entries())) {
+    if (!driver.online && now - driver.position.timestamp > STALE_DRIVER_MS) {
+      drivers.delete(driverId);
+    }
+  }
+  return Array.from(drivers.values());
+}
+
+// Most recently seen driver of a route (for stops without a route, of the
+// account's drivers without one), for the public tracking page
+export function findRouteDriver(userId: number, routeId: number | null): DriverState | undefined {
+  return activeDrivers(userId)
+    .filter(driver => driver.routeId === routeId)
+    .sort((a, b) => b.position.timestamp - a.position.timestamp)[0];
+}
+
+// Vehicle and driver name of a route, for labelling it on the dispatcher map
+async function describeRoute(userId: number, routeId: number | null): Promise<{ vehicleName: string | null; driverName: string | null }> {
+  const route = routeId !== null ? await storage.getRoute(userId, routeId) : undefined;
+  const vehicle = route?.vehicleId ? await storage.getVehicle(userId, route.vehicleId) : undefined;
+  return { vehicleName: vehicle?.name ?? null, driverName: vehicle?.driverName ?? null };
+}
+
+// One connected driver: keeps the label lookup per route and the driver's state up to date
+class DriverConnection {
+  private driverId: string | null = null;
+  private labelledRouteId: number | null | undefined = undefined;
+  private label: { vehicleName: string | null; driverName: string | null } = { vehicleName: null, driverName: null };
+
+  constructor(private userId: number, private connectionId: number) {}
+
+  async update(message: PositionMessage) {
+    const routeId = typeof message.routeId === "number" ? message.routeId : null;
+    if (routeId !== this.labelledRouteId) {
+      this.label = await describeRoute(this.userId, routeId);
+      this.labelledRouteId = routeId;
+    }
+
+    // A route is driven by one driver; without a route each connection is its own driver
+    const driverId = routeId !== null ? `route-${routeId}` : `driver-${this.connectionId}`;
+    const drivers = getDrivers(this.userId);
+    if (this.driverId && this.driverId !== driverId) {
+      drivers.delete(this.driverId);
+    }
+    this.driverId = driverId;
+
+    const previous = drivers.get(driverId);
+    const point: [number, number] = [message.position.lat, message.position.lng];
+    const trail = previous?.trail ?? [];
+    const last = trail[trail.length - 1];
+    if (!last || last[0] !== point[0] || last[1] !== point[1]) {
+      trail.push(point);
+      if (trail.length > MAX_TRAIL_POINTS) trail.splice(0, trail.length - MAX_TRAIL_POINTS);
+    }
+
+    const driver: DriverState = {
+      driverId,
+      routeId,
+      ...this.label,
+      position: message.position,
+      trail,
+      currentStop: message.currentStop ?? null,
+      completed: Number(message.completed) || 0,
+      total: Number(message.total) || 0,
+      online: true,
+      simulated: !!message.simulated,
+    };
+    drivers.set(driverId, driver);
+    broadcast(this.userId, driver);
+  }
+
+  disconnect() {
+    const driver = this.driverId ? getDrivers(this.userId).get(this.driverId) : undefined;
+    if (driver) {
+      driver.online = false;
+      broadcast(this.userId, driver);
+    }
+  }
+}
+
+// Logged-in user of an upgrade request, read from the same session cookie as the API
+function authenticate(sessionParser: RequestHandler, req: IncomingMessage): Promise<number | undefined> {
+  return new Promise(resolve => {
+    sessionParser(req as Request, {} as Response, () => {
+      const userId = (req as Request & { session?: { passport?: { user?: number } } }).session?.passport?.user;
+      resolve(typeof userId === "number" ? userId : undefined);
+    });
+  });
+}
+
+// Accept tracking WebSockets on TRACKING_PATH. Other upgrades (e.g. Vite's HMR
+// socket in development) are left to their own handlers.
+export function setupTracking(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+  let nextConnectionId = 1;
+
+  server.on("upgrade", async (req, socket, head) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== TRACKING_PATH) return;
+
+    const userId = await authenticate(sessionParser, req);
+    if (userId === undefined) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, userId));
+  });
+
+  wss.on("connection", (ws: WebSocket & { isAlive?: boolean }, userId: number) => {
+    const driver = new DriverConnection(userId, nextConnectionId++);
+    ws.isAlive = true;
+    ws.on("pong", () => {
+      ws.isAlive = true;
+    });
+
+    ws.on("message", async (data) => {
+      let message: TrackingClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        return;
+      }
+
+      try {
+        if (message.type === "subscribe") {
+          let dispatchers = dispatchersByUser.get(userId);
+          if (!dispatchers) {
+            dispatchers = new Set();
+            dispatchersByUser.set(userId, dispatchers);
+          }
+          dispatchers.add(ws);
+          send(ws, { type: "snapshot", drivers: activeDrivers(userId) });
+        } else if (message.type === "position" && isValidPosition(message.position)) {
+          await driver.update(message);
+        }
+      } catch (error) {
+        log(`Tracking message failed: ${(error as Error).message}`, "tracking");
+      }
+    });
+
+    ws.on("close", () => {
+      dispatchersByUser.get(userId)?.delete(ws);
+      driver.disconnect();
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client: WebSocket & { isAlive?: boolean }) => {
+      if (client.isAlive === false) {
+        client.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(heartbeat));
+}
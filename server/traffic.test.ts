@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RouteSettings, TrafficDataProvider } from "@shared/schema";
+import { DEFAULT_TRAFFIC_PROFILE } from "@shared/traffic";
+import { estimateTraffic } from "./traffic";
+import { storage } from "./storage";
+
+// Live readings come from the recorded TomTom responses
+process.env.TRAFFIC_FIXTURES = "server/fixtures/traffic.json";
+
+const PROFILE_ONLY = { realTimeTraffic: false } as RouteSettings;
+const LIVE = { realTimeTraffic: true, trafficDataProvider: TrafficDataProvider.TOMTOM } as RouteSettings;
+
+// Where the recorded fixtures were taken; 167 s instead of 60 s in free flow
+const RECORDED_POINT = { lat: 50.0619, lng: 19.9368 };
+
+function close(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`);
+}
+
+describe("estimateTraffic", () => {
+  it("slows legs down by the default profile where nothing was recorded", async () => {
+    // Monday 08:00, local time
+    const estimate = await estimateTraffic(PROFILE_ONLY, [{ duration: 600, points: [{ lat: 10, lng: 10 }] }], new Date(2026, 9, 19, 8, 0));
+
+    close(estimate.legs[0].duration, 600 * DEFAULT_TRAFFIC_PROFILE.weekday[8]);
+    assert.equal(estimate.legs[0].source, "profile");
+    assert.equal(estimate.provider, null);
+  });
+
+  it("starts each leg when the one before ends in traffic", async () => {
+    // The first leg leaves at 06:50 and takes 690 s at 1.15, so the second starts in the 07:00 rush
+    const estimate = await estimateTraffic(PROFILE_ONLY, [
+      { duration: 600, points: [{ lat: 11, lng: 11 }] },
+      { duration: 600, points: [{ lat: 11, lng: 11 }] },
+    ], new Date(2026, 9, 19, 6, 50));
+
+    close(estimate.legs[0].delayRatio, DEFAULT_TRAFFIC_PROFILE.weekday[6]);
+    close(estimate.legs[1].delayRatio, DEFAULT_TRAFFIC_PROFILE.weekday[7]);
+    close(estimate.delayRatio, (DEFAULT_TRAFFIC_PROFILE.weekday[6] + DEFAULT_TRAFFIC_PROFILE.weekday[7]) / 2);
+    assert.equal(estimate.condition, "Moderate traffic");
+  });
+
+  it("weighs legs by their free-flow time in the route's delay ratio", async () => {
+    const estimate = await estimateTraffic(PROFILE_ONLY, [
+      { duration: 900, points: [{ lat: 12, lng: 12 }] },
+      { duration: 100, points: [] },
+    ], new Date(2026, 9, 19, 8, 0));
+
+    assert.equal(estimate.legs[1].delayRatio, 1);
+    close(estimate.delayRatio, (900 * DEFAULT_TRAFFIC_PROFILE.weekday[8] + 100) / 1000);
+  });
+
+  it("uses the area's recorded averages once there are enough samples", async () => {
+    for (let i = 0; i < 3; i++) {
+      await storage.recordTrafficSample("13.0,13.0", false, 8, 2);
+    }
+    await storage.recordTrafficSample("13.0,13.0", false, 9, 3);
+
+    const estimate = await estimateTraffic(PROFILE_ONLY, [
+      { duration: 4000, points: [{ lat: 13, lng: 13 }] },
+      { duration: 600, points: [{ lat: 13, lng: 13 }] },
+    ], new Date(2026, 9, 19, 7, 30));
+
+    // 07:30 has no samples; the second leg starts at 09:00, which has one sample
+    close(estimate.legs[0].delayRatio, DEFAULT_TRAFFIC_PROFILE.weekday[7]);
+    close(estimate.legs[1].delayRatio, DEFAULT_TRAFFIC_PROFILE.weekday[9]);
+
+    const rush = await estimateTraffic(PROFILE_ONLY, [{ duration: 600, points: [{ lat: 13, lng: 13 }] }], new Date(2026, 9, 19, 8, 15));
+    close(rush.legs[0].delayRatio, 2);
+  });
+
+  it("uses live traffic for legs driven within the hour and records it", async () => {
+    const now = new Date();
+    const estimate = await estimateTraffic(LIVE, [{ duration: 600, points: [RECORDED_POINT] }], now);
+
+    close(estimate.legs[0].delayRatio, 167 / 60);
+    close(estimate.legs[0].duration, 600 * 167 / 60);
+    assert.equal(estimate.legs[0].source, "live");
+    assert.equal(estimate.provider, "TomTom (recorded)");
+    assert.equal(estimate.condition, "Heavy traffic");
+
+    const [sample] = await storage.getTrafficProfile("50.1,19.9");
+    close(sample.delayRatio, 167 / 60);
+  });
+
+  it("uses the profile for legs driven later", async () => {
+    const later = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const estimate = await estimateTraffic(LIVE, [{ duration: 600, points: [RECORDED_POINT] }], later);
+
+    assert.equal(estimate.legs[0].source, "profile");
+    assert.equal(estimate.provider, null);
+  });
+});
@@ -0,0 +1,160 @@
+import { RouteSettings } from "@shared/schema";
+import { LatLng } from "@shared/optimizer";
+import {
+  DEFAULT_TRAFFIC_PROFILE,
+  TrafficCondition,
+  TrafficFeed,
+  TrafficProfile,
+  isWeekend,
+  profileDelayRatio,
+  trafficCondition,
+  trafficRegion,
+} from "@shared/traffic";
+import { storage } from "./storage";
+import { getTrafficFeed } from "./providers";
+import { log } from "./vite";
+
+// Traffic-aware leg durations. Free-flow drive times from the router are
+// multiplied by a delay ratio: the live feed's for legs driven within the next
+// hour, otherwise the area's historical average for the hour the leg starts.
+// Live readings are folded into those averages as they come in.
+
+export interface LegTrafficRequest {
+  duration: number; // free-flow drive time, seconds
+  points: LatLng[]; // a few points along the leg to sample traffic at
+}
+
+export interface LegTrafficEstimate {
+  duration: number; // drive time in traffic, seconds
+  delayRatio: number;
+  source: "live" | "profile";
+}
+
+export interface TrafficEstimate {
+  legs: LegTrafficEstimate[];
+  delayRatio: number; // over the whole route
+  condition: TrafficCondition;
+  provider: string | null; // live feed used, if any
+}
+
+// Live traffic only says something about the near future
+const LIVE_HORIZON_MS = 60 * 60 * 1000;
+
+// Live readings are reused for a few minutes per point, sparing the provider's quota
+const LIVE_CACHE_MS = 5 * 60 * 1000;
+
+// Hours with fewer recorded samples use the default profile
+const MIN_PROFILE_SAMPLES = 3;
+
+// Stored profiles are reloaded after this long
+const PROFILE_CACHE_MS = 10 * 60 * 1000;
+
+const liveCache = new Map<string, { delayRatio: number | null; readAt: number }>();
+const profileCache = new Map<string, { profile: TrafficProfile; loadedAt: number }>();
+
+// The area's hourly averages, with the default profile where too little was recorded
+async function regionProfile(region: string): Promise<TrafficProfile> {
+  const cached = profileCache.get(region);
+  if (cached && Date.now() - cached.loadedAt < PROFILE_CACHE_MS) return cached.profile;
+
+  const profile: TrafficProfile = {
+    weekday: [...DEFAULT_TRAFFIC_PROFILE.weekday],
+    weekend: [...DEFAULT_TRAFFIC_PROFILE.weekend],
+  };
+  for (const entry of await storage.getTrafficProfile(region)) {
+    if (entry.samples >= MIN_PROFILE_SAMPLES && entry.hour >= 0 && entry.hour < 24) {
+      (entry.weekend ? profile.weekend : profile.weekday)[entry.hour] = entry.delayRatio;
+    }
+  }
+
+  profileCache.set(region, { profile, loadedAt: Date.now() });
+  return profile;
+}
+
+// Average live delay ratio over the sample points, null when the feed knows none of them
+async function liveDelayRatio(feed: TrafficFeed, points: LatLng[]): Promise<number | null> {
+  const ratios: number[] = [];
+
+  for (const point of points) {
+    const key = `${feed.name}|${point.lat.toFixed(3)},${point.lng.toFixed(3)}`;
+    const cached = liveCache.get(key);
+    let delayRatio: number | null;
+
+    if (cached && Date.now() - cached.readAt < LIVE_CACHE_MS) {
+      delayRatio = cached.delayRatio;
+    } else {
+      try {
+        delayRatio = await feed.delayRatio(point);
+      } catch (error) {
+        log(`${feed.name} traffic failed: ${(error as Error).message}`, "traffic");
+        delayRatio = null;
+      }
+      liveCache.set(key, { delayRatio, readAt: Date.now() });
+
+      // Every fresh reading improves the historical averages
+      if (delayRatio !== null) {
+        const now = new Date();
+        await storage.recordTrafficSample(trafficRegion(point), isWeekend(now), now.getHours(), delayRatio);
+      }
+    }
+
+    if (delayRatio !== null) ratios.push(delayRatio);
+  }
+
+  if (ratios.length === 0) return null;
+  return ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+}
+
+// Drive times in traffic for consecutive legs of a route leaving at `departAt`.
+// Stops along the way aren't counted, so later legs start a little early.
+export async function estimateTraffic(
+  settings: RouteSettings,
+  legs: LegTrafficRequest[],
+  departAt: Date
+): Promise<TrafficEstimate> {
+  let feed: TrafficFeed | null = null;
+  if (settings.realTimeTraffic) {
+    try {
+      feed = getTrafficFeed(settings.trafficDataProvider);
+    } catch (error) {
+      log(`Traffic feed unavailable: ${(error as Error).message}`, "traffic");
+    }
+  }
+
+  const estimates: LegTrafficEstimate[] = [];
+  let clock = departAt.getTime();
+
+  for (const leg of legs) {
+    const start = new Date(clock);
+    let delayRatio = 1;
+    let source: LegTrafficEstimate["source"] = "profile";
+
+    if (leg.points.length > 0) {
+      const profile = await regionProfile(trafficRegion(leg.points[0]));
+      delayRatio = profileDelayRatio(profile, start);
+
+      if (feed && clock - Date.now() < LIVE_HORIZON_MS) {
+        const live = await liveDelayRatio(feed, leg.points);
+        if (live !== null) {
+          delayRatio = live;
+          source = "live";
+        }
+      }
+    }
+
+    const duration = leg.duration * delayRatio;
+    estimates.push({ duration, delayRatio, source });
+    clock += duration * 1000;
+  }
+
+  const freeFlow = legs.reduce((sum, leg) => sum + leg.duration, 0);
+  const inTraffic = estimates.reduce((sum, leg) => sum + leg.duration, 0);
+  const delayRatio = freeFlow > 0 ? inTraffic / freeFlow : 1;
+
+  return {
+    legs: estimates,
+    delayRatio,
+    condition: trafficCondition(delayRatio),
+    provider: estimates.some(leg => leg.source === "live") ? feed!.name : null,
+  };
+}
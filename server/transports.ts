@@ -0,0 +1,221 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import path from "path";
+import { appendFile, mkdir } from "fs/promises";
+import { NotificationChannel } from "@shared/schema";
+import { log } from "./vite";
+
+// Delivery channels for customer notifications. Email goes over SMTP and SMS to
+// an HTTP gateway; without either configured, messages are written to a local
+// outbox folder instead, so the whole flow can be tried without real accounts.
+//
+//   EMAIL_TRANSPORT  "smtp", "outbox" or "off" (default: smtp when SMTP_HOST is set)
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, NOTIFY_FROM
+//   SMS_TRANSPORT    "webhook", "outbox" or "off" (default: webhook when SMS_WEBHOOK_URL is set)
+//   SMS_WEBHOOK_URL, SMS_WEBHOOK_TOKEN
+//   NOTIFY_OUTBOX_DIR (default "uploads/outbox")
+//
+// A local mail catcher such as Mailpit (SMTP_HOST=localhost SMTP_PORT=1025)
+// shows the emails as customers would get them.
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+// Give up on an SMTP server or SMS gateway that stops answering
+const TRANSPORT_TIMEOUT_MS = 15000;
+
+const OUTBOX_DIR = path.resolve(process.env.NOTIFY_OUTBOX_DIR || "uploads/outbox");
+
+// Appends each message as a JSON line to <channel>.log in the outbox folder
+class OutboxTransport implements NotificationTransport {
+  readonly name = "outbox";
+
+  constructor(private channel: NotificationChannel) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await mkdir(OUTBOX_DIR, { recursive: true });
+    const file = path.join(OUTBOX_DIR, `${this.channel.toLowerCase()}.log`);
+    await appendFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n");
+    log(`${this.channel} to ${message.to}: ${message.text}`, "notify");
+  }
+}
+
+// Posts { to, text } as JSON, for an SMS provider or a gateway in front of one
+class WebhookSmsTransport implements NotificationTransport {
+  readonly name = "webhook";
+
+  constructor(private url: string, private token?: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify({ to: message.to, text: message.text }),
+      signal: AbortSignal.timeout(TRANSPORT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS gateway answered ${response.status}`);
+    }
+  }
+}
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise plain text
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// Encode a header value that isn't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+// Bare address of "Name <address>"
+function mailbox(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
+
+// Minimal SMTP client: one connection per message, optional AUTH PLAIN
+class SmtpTransport implements NotificationTransport {
+  readonly name = "smtp";
+
+  constructor(private options: SmtpOptions) {}
+
+  send(message: OutgoingMessage): Promise<void> {
+    const { host, port, secure, user, password, from } = this.options;
+
+    // A line break would let the value add headers or SMTP commands of its own
+    if ([message.to, message.subject, from].some(value => /[\r\n]/.test(value))) {
+      return Promise.reject(new Error("Email recipient, sender and subject must not contain line breaks"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket.setEncoding("utf8");
+      socket.setTimeout(TRANSPORT_TIMEOUT_MS);
+
+      let buffer = "";
+      let waiting: { expected: number[]; resolve: () => void } | null = null;
+
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      // Replies can span several lines ("250-...") and end with "250 ..."
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split("\r\n");
+        const last = lines.findIndex(line => /^\d{3} /.test(line));
+        if (last === -1 || !waiting) return;
+
+        buffer = lines.slice(last + 1).join("\r\n");
+        const code = parseInt(lines[last].slice(0, 3));
+        const current = waiting;
+        waiting = null;
+        if (current.expected.includes(code)) {
+          current.resolve();
+        } else {
+          fail(new Error(`SMTP server answered: ${lines[last]}`));
+        }
+      });
+      socket.on("timeout", () => fail(new Error("SMTP server timed out")));
+      socket.on("error", fail);
+
+      const reply = (expected: number[]) => new Promise<void>(done => {
+        waiting = { expected, resolve: done };
+      });
+      const command = (line: string, expected: number[]) => {
+        const answered = reply(expected);
+        socket.write(line + "\r\n");
+        return answered;
+      };
+
+      const body = [
+        `From: ${encodeHeader(from)}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        "MIME-Version: 1.0",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: 8bit",
+        "",
+        ...message.text.split(/\r?\n/),
+      ]
+        // Lines starting with a dot would end the message early
+        .map(line => line.startsWith(".") ? "." + line : line)
+        .join("\r\n");
+
+      (async () => {
+        await reply([220]);
+        await command(`EHLO ${os.hostname()}`, [250]);
+        if (user) {
+          const credentials = Buffer.from(`\0${user}\0${password ?? ""}`).toString("base64");
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+        await command(`MAIL FROM:<${mailbox(from)}>`, [250]);
+        await command(`RCPT TO:<${mailbox(message.to)}>`, [250, 251]);
+        await command("DATA", [354]);
+        await command(`${body}\r\n.`, [250]);
+        socket.end("QUIT\r\n");
+        resolve();
+      })().catch(fail);
+    });
+  }
+}
+
+function readTransportEnv(name: string, options: string[], fallback: string): string {
+  const value = (process.env[name] || fallback).toLowerCase();
+  if (!options.includes(value)) {
+    throw new Error(`${name} must be one of: ${options.join(", ")}`);
+  }
+  return value;
+}
+
+// Transport for a channel from the environment; undefined when the channel is off
+export function createTransport(channel: NotificationChannel): NotificationTransport | undefined {
+  if (channel === NotificationChannel.EMAIL) {
+    const type = readTransportEnv("EMAIL_TRANSPORT", ["smtp", "outbox", "off"], process.env.SMTP_HOST ? "smtp" : "outbox");
+    if (type === "off") return undefined;
+    if (type === "outbox") return new OutboxTransport(channel);
+
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST must be set to send email over SMTP");
+    }
+    const secure = process.env.SMTP_SECURE === "true";
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 25),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      from: process.env.NOTIFY_FROM || "DeliveryNav <no-reply@localhost>",
+    });
+  }
+
+  const type = readTransportEnv("SMS_TRANSPORT", ["webhook", "outbox", "off"], process.env.SMS_WEBHOOK_URL ? "webhook" : "outbox");
+  if (type === "off") return undefined;
+  if (type === "outbox") return new OutboxTransport(channel);
+
+  if (!process.env.SMS_WEBHOOK_URL) {
+    throw new Error("SMS_WEBHOOK_URL must be set to send SMS through a webhook");
+  }
+  return new WebhookSmsTransport(process.env.SMS_WEBHOOK_URL, process.env.SMS_WEBHOOK_TOKEN || undefined);
+}
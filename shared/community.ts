@@ -0,0 +1,132 @@
+import { CommunityReport, ReportKind, ReportVote } from "./schema";
+
+// Hazards reported by drivers. A report lives for a while depending on its kind;
+// other drivers passing by confirm it (keeping it alive) or dismiss it (ending it
+// early). When the community traffic provider is selected, routes passing a
+// report are charged a delay so the router prefers alternatives around it.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a report stays up without confirmations
+export const REPORT_LIFETIME_MS: Record<ReportKind, number> = {
+  [ReportKind.ACCIDENT]: 2 * HOUR_MS,
+  [ReportKind.CLOSURE]: 24 * HOUR_MS,
+  [ReportKind.CONSTRUCTION]: 14 * 24 * HOUR_MS,
+  [ReportKind.ACCESS]: 90 * 24 * HOUR_MS,
+};
+
+// Time lost driving past (or around) a reported hazard, in seconds. A building
+// that's hard to access costs time at the door, not on the road.
+export const REPORT_DELAY_SECONDS: Record<ReportKind, number> = {
+  [ReportKind.CLOSURE]: 900,
+  [ReportKind.ACCIDENT]: 300,
+  [ReportKind.CONSTRUCTION]: 120,
+  [ReportKind.ACCESS]: 0,
+};
+
+// A report further than this from a route doesn't affect it
+export const REPORT_RADIUS_METERS = 50;
+
+// Dismissals needed on top of the confirmations to take a report down
+const DISMISSALS_TO_EXPIRE = 2;
+
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG = 111320;
+
+export function isReportKind(kind: unknown): kind is ReportKind {
+  return Object.values(ReportKind).includes(kind as ReportKind);
+}
+
+export function reportExpiry(kind: ReportKind, from: Date = new Date()): Date {
+  return new Date(from.getTime() + REPORT_LIFETIME_MS[kind]);
+}
+
+export function isReportActive(report: Pick<CommunityReport, "expiresAt">, now: Date = new Date()): boolean {
+  return new Date(report.expiresAt).getTime() > now.getTime();
+}
+
+type ReportTally = Pick<CommunityReport, "kind" | "confirmations" | "dismissals" | "expiresAt">;
+
+// The report after a driver's vote; `previous` is what they voted before, if anything
+export function applyReportVote(
+  report: ReportTally,
+  vote: ReportVote,
+  previous: ReportVote | null = null,
+  now: Date = new Date()
+): Pick<CommunityReport, "confirmations" | "dismissals" | "expiresAt"> {
+  let { confirmations, dismissals } = report;
+  let expiresAt = new Date(report.expiresAt);
+
+  // A changed mind replaces the earlier vote
+  if (previous === ReportVote.CONFIRM) confirmations = Math.max(0, confirmations - 1);
+  if (previous === ReportVote.DISMISS) dismissals = Math.max(0, dismissals - 1);
+
+  if (vote === ReportVote.CONFIRM) {
+    confirmations++;
+    // Still there: good for another full lifetime from now
+    const renewed = isReportKind(report.kind) ? reportExpiry(report.kind, now) : expiresAt;
+    if (renewed > expiresAt) expiresAt = renewed;
+  } else {
+    dismissals++;
+    if (dismissals >= confirmations + DISMISSALS_TO_EXPIRE && expiresAt > now) expiresAt = now;
+  }
+
+  return { confirmations, dismissals, expiresAt };
+}
+
+// Straight-line distance in meters from a point to a segment; fine at street scale
+function distanceToSegment(
+  point: { lat: number; lng: number },
+  [aLng, aLat]: [number, number],
+  [bLng, bLat]: [number, number]
+): number {
+  const scaleLng = METERS_PER_DEGREE_LNG * Math.cos(point.lat * Math.PI / 180);
+  const ax = (aLng - point.lng) * scaleLng;
+  const ay = (aLat - point.lat) * METERS_PER_DEGREE_LAT;
+  const bx = (bLng - point.lng) * scaleLng;
+  const by = (bLat - point.lat) * METERS_PER_DEGREE_LAT;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Reports lying on a route polyline ([lng, lat] pairs)
+export function reportsAlongRoute<T extends Pick<CommunityReport, "latitude" | "longitude">>(
+  geometry: [number, number][],
+  reports: T[]
+): T[] {
+  if (geometry.length === 0) return [];
+
+  return reports.filter(report => {
+    const point = { lat: report.latitude, lng: report.longitude };
+    if (geometry.length === 1) {
+      return distanceToSegment(point, geometry[0], geometry[0]) <= REPORT_RADIUS_METERS;
+    }
+    for (let i = 0; i < geometry.length - 1; i++) {
+      if (distanceToSegment(point, geometry[i], geometry[i + 1]) <= REPORT_RADIUS_METERS) return true;
+    }
+    return false;
+  });
+}
+
+// Extra drive time, in seconds, from the reports along a route polyline
+export function communityDelay(
+  geometry: [number, number][],
+  reports: Pick<CommunityReport, "kind" | "latitude" | "longitude">[]
+): number {
+  return reportsAlongRoute(geometry, reports)
+    .reduce((sum, report) => sum + (isReportKind(report.kind) ? REPORT_DELAY_SECONDS[report.kind] : 0), 0);
+}
+
+// A report as drivers see it: who reported it stays private
+export type CommunityReportView = Omit<CommunityReport, "userId"> & {
+  mine: boolean; // reported by the driver asking, who can't vote on it
+};
+
+export function toReportView(report: CommunityReport, userId: number): CommunityReportView {
+  const { userId: reporterId, ...view } = report;
+  return { ...view, mine: reporterId === userId };
+}
@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FleetStop, estimateRouteMinutes, planFleetRoutes } from "./fleet";
+
+// Two clusters of stops, west and east of the city center
+function cluster(firstId: number, count: number, lng: number): FleetStop[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: firstId + i,
+    lat: 51.5 + (i % 3) * 0.002,
+    lng: lng + Math.floor(i / 3) * 0.002,
+  }));
+}
+
+const WEST = cluster(1, 6, -0.2);
+const EAST = cluster(101, 6, 0);
+const STOPS = [...WEST, ...EAST];
+
+function assigned(plan: ReturnType<typeof planFleetRoutes>): number[] {
+  return [...plan.routes.flatMap(route => route.order), ...plan.unassigned].sort((a, b) => a - b);
+}
+
+describe("planFleetRoutes", () => {
+  it("gives each vehicle the stops on its side of the map", () => {
+    const plan = planFleetRoutes(STOPS, [
+      { id: 1, depot: { lat: 51.5, lng: 0.05 } },
+      { id: 2, depot: { lat: 51.5, lng: -0.25 } },
+    ]);
+
+    assert.deepEqual(plan.routes.map(route => route.vehicleId), [1, 2]);
+    assert.deepEqual([...plan.routes[0].order].sort((a, b) => a - b), EAST.map(stop => stop.id));
+    assert.deepEqual([...plan.routes[1].order].sort((a, b) => a - b), WEST.map(stop => stop.id));
+    assert.deepEqual(plan.unassigned, []);
+  });
+
+  it("fills vehicles up to their capacity and leaves the rest unassigned", () => {
+    const plan = planFleetRoutes(STOPS, [
+      { id: 1, capacity: 3 },
+      { id: 2, capacity: 4 },
+    ]);
+
+    assert.equal(plan.routes[0].order.length, 3);
+    assert.equal(plan.routes[1].order.length, 4);
+    assert.equal(plan.unassigned.length, 5);
+    assert.deepEqual(assigned(plan), STOPS.map(stop => stop.id));
+  });
+
+  it("gives the stops a small vehicle can't take to the others", () => {
+    const plan = planFleetRoutes(STOPS, [
+      { id: 1, capacity: 2 },
+      { id: 2 },
+      { id: 3 },
+    ]);
+
+    assert.deepEqual(plan.routes.map(route => route.order.length), [2, 5, 5]);
+    assert.deepEqual(plan.unassigned, []);
+  });
+
+  it("flags routes that run past the driver's shift", () => {
+    const plan = planFleetRoutes(STOPS, [
+      { id: 1, shiftMinutes: 30 },
+      { id: 2, shiftMinutes: 8 * 60 },
+    ]);
+
+    // Six stops at five minutes each already fill half an hour
+    assert.ok(plan.routes[0].minutes > 30);
+    assert.equal(plan.routes[0].overShift, true);
+    assert.equal(plan.routes[1].overShift, false);
+  });
+
+  it("moves stops off the longest route when balancing drive time", () => {
+    // Slow stops on one side; by stop count the split is even
+    const stops = STOPS.map(stop => stop.id > 100 ? { ...stop, serviceTime: 30 } : stop);
+    const vehicles = [{ id: 1 }, { id: 2 }];
+
+    const byStops = planFleetRoutes(stops, vehicles);
+    const byTime = planFleetRoutes(stops, vehicles, { balance: "time" });
+
+    const longest = (plan: typeof byStops) => Math.max(...plan.routes.map(route => route.minutes));
+    assert.deepEqual(byStops.routes.map(route => route.order.length), [6, 6]);
+    assert.ok(longest(byTime) < longest(byStops));
+    assert.deepEqual(assigned(byTime), STOPS.map(stop => stop.id));
+  });
+
+  it("plans empty routes without stops and leaves stops unassigned without vehicles", () => {
+    assert.deepEqual(planFleetRoutes([], [{ id: 1 }]).routes[0].order, []);
+    assert.deepEqual(planFleetRoutes(STOPS, []).unassigned, STOPS.map(stop => stop.id));
+  });
+});
+
+describe("estimateRouteMinutes", () => {
+  it("adds the time at each stop to the drive at 30 mph", () => {
+    assert.equal(estimateRouteMinutes(15, [{ id: 1, lat: 0, lng: 0 }, { id: 2, lat: 0, lng: 0, serviceTime: 10 }]), 30 + 5 + 10);
+  });
+});
@@ -0,0 +1,235 @@
+// Fleet planning shared by the server (/api/fleet/plan) and the client.
+// Splits the stops between vehicles with a sweep around the stops' centroid,
+// balances the sectors by stop count or drive time and optimizes each sector
+// into its own route.
+
+import { LatLng, OptimizerStop, optimizeStopOrder } from "./optimizer";
+import { DEFAULT_SERVICE_MINUTES } from "./scheduler";
+
+const AVERAGE_SPEED_MPH = 30;
+
+export interface FleetStop extends OptimizerStop {
+  // Minutes spent at the stop
+  serviceTime?: number | null;
+}
+
+export interface FleetVehicle {
+  id: number;
+  // Maximum number of stops the vehicle can take; unlimited when missing
+  capacity?: number | null;
+  // Where the vehicle starts (and returns to, with returnToStart and no end)
+  depot?: LatLng;
+  // Length of the driver's shift in minutes
+  shiftMinutes?: number | null;
+}
+
+export type FleetBalance = "stops" | "time";
+
+export interface FleetPlanOptions {
+  // Balance the number of stops or the estimated route time between vehicles
+  balance?: FleetBalance;
+  // Fallback origin for vehicles without a depot
+  start?: LatLng;
+  returnToStart?: boolean;
+  // Where every route finishes, e.g. an end depot
+  end?: LatLng;
+  // Upper bound on boundary moves while balancing drive time
+  maxMoves?: number;
+}
+
+export interface FleetPlanRoute {
+  vehicleId: number;
+  // Stop ids in visiting order
+  order: number[];
+  // Route distance in miles
+  distance: number;
+  // Estimated driving plus service time in minutes
+  minutes: number;
+  // Whether the estimated time exceeds the vehicle's shift
+  overShift: boolean;
+}
+
+export interface FleetPlan {
+  routes: FleetPlanRoute[];
+  // Stops that did not fit into any vehicle's capacity
+  unassigned: number[];
+}
+
+// Estimate how long a route takes: driving at average speed plus time at each stop
+export function estimateRouteMinutes(distance: number, stops: FleetStop[]): number {
+  const driving = (distance / AVERAGE_SPEED_MPH) * 60;
+  const service = stops.reduce((sum, stop) => sum + (stop.serviceTime ?? DEFAULT_SERVICE_MINUTES), 0);
+  return driving + service;
+}
+
+// Order stops by angle around `center`, starting after the widest gap so that
+// no sector wraps around an empty stretch of the map
+function sweepOrder(stops: FleetStop[], center: LatLng): FleetStop[] {
+  const withAngles = stops
+    .map(stop => ({ stop, angle: Math.atan2(stop.lat - center.lat, stop.lng - center.lng) }))
+    .sort((a, b) => a.angle - b.angle);
+
+  if (withAngles.length < 2) return withAngles.map(entry => entry.stop);
+
+  let widestGap = -1;
+  let startIndex = 0;
+  for (let i = 0; i < withAngles.length; i++) {
+    const next = withAngles[(i + 1) % withAngles.length];
+    const gap = (next.angle - withAngles[i].angle + 2 * Math.PI) % (2 * Math.PI);
+    if (gap > widestGap) {
+      widestGap = gap;
+      startIndex = (i + 1) % withAngles.length;
+    }
+  }
+
+  return [...withAngles.slice(startIndex), ...withAngles.slice(0, startIndex)].map(entry => entry.stop);
+}
+
+function centroid(points: LatLng[]): LatLng {
+  const lat = points.reduce((sum, point) => sum + point.lat, 0) / points.length;
+  const lng = points.reduce((sum, point) => sum + point.lng, 0) / points.length;
+  return { lat, lng };
+}
+
+// Share `total` stops between vehicles as evenly as their capacities allow
+function stopTargets(total: number, vehicles: FleetVehicle[]): number[] {
+  const targets = vehicles.map(() => 0);
+  let remaining = total;
+  let open = vehicles.map((_, index) => index);
+
+  while (remaining > 0 && open.length > 0) {
+    const share = Math.max(1, Math.floor(remaining / open.length));
+    let assigned = 0;
+
+    for (const index of open) {
+      if (remaining - assigned === 0) break;
+      const capacity = vehicles[index].capacity ?? Infinity;
+      const take = Math.min(share, capacity - targets[index], remaining - assigned);
+      targets[index] += take;
+      assigned += take;
+    }
+
+    remaining -= assigned;
+    open = open.filter(index => targets[index] < (vehicles[index].capacity ?? Infinity));
+    if (assigned === 0) break;
+  }
+
+  return targets;
+}
+
+// Split the stops into one optimized route per vehicle
+export function planFleetRoutes(
+  stops: FleetStop[],
+  vehicles: FleetVehicle[],
+  options: FleetPlanOptions = {}
+): FleetPlan {
+  const { balance = "stops", start, returnToStart = false, end } = options;
+
+  if (vehicles.length === 0) {
+    return { routes: [], unassigned: stops.map(stop => stop.id) };
+  }
+
+  if (stops.length === 0) {
+    return {
+      routes: vehicles.map(vehicle => ({ vehicleId: vehicle.id, order: [], distance: 0, minutes: 0, overShift: false })),
+      unassigned: [],
+    };
+  }
+
+  const center = centroid(stops);
+  const swept = sweepOrder(stops, center);
+
+  // Hand out the sectors in the same angular order as the depots, so each
+  // vehicle gets the stops on its side of the map
+  const depotAngle = (vehicle: FleetVehicle) => vehicle.depot
+    ? Math.atan2(vehicle.depot.lat - center.lat, vehicle.depot.lng - center.lng)
+    : 0;
+  const orderedVehicles = vehicles.some(vehicle => vehicle.depot)
+    ? [...vehicles].sort((a, b) => depotAngle(a) - depotAngle(b))
+    : [...vehicles];
+
+  // Initial split: consecutive sectors sized by stop count
+  const targets = stopTargets(swept.length, orderedVehicles);
+  const sectors: FleetStop[][] = [];
+  let offset = 0;
+  for (const target of targets) {
+    sectors.push(swept.slice(offset, offset + target));
+    offset += target;
+  }
+  const unassigned = swept.slice(offset).map(stop => stop.id);
+
+  const evaluate = (vehicle: FleetVehicle, sector: FleetStop[]) => {
+    const result = optimizeStopOrder(sector, { start: vehicle.depot ?? start, returnToStart, end });
+    return { order: result.order, distance: result.distanceAfter, minutes: estimateRouteMinutes(result.distanceAfter, sector) };
+  };
+
+  let evaluations = sectors.map((sector, index) => evaluate(orderedVehicles[index], sector));
+
+  // Drive-time balancing: keep moving a boundary stop away from the longest
+  // route into a neighboring sector while that shortens the longest route
+  if (balance === "time" && sectors.length > 1) {
+    const maxMoves = options.maxMoves ?? stops.length * 2;
+
+    for (let move = 0; move < maxMoves; move++) {
+      const longest = evaluations.reduce((best, evaluation, index) =>
+        evaluation.minutes > evaluations[best].minutes ? index : best, 0);
+      const sector = sectors[longest];
+      if (sector.length === 0) break;
+
+      // Sectors are consecutive in sweep order, so only the first stop can go
+      // to the previous sector and only the last stop to the next one
+      const candidates: { neighbor: number; fromStart: boolean }[] = [];
+      if (longest > 0) candidates.push({ neighbor: longest - 1, fromStart: true });
+      if (longest < sectors.length - 1) candidates.push({ neighbor: longest + 1, fromStart: false });
+
+      let best: { neighbor: number; fromStart: boolean; peak: number } | null = null;
+      const currentPeak = evaluations[longest].minutes;
+
+      for (const candidate of candidates) {
+        const neighborVehicle = orderedVehicles[candidate.neighbor];
+        if (sectors[candidate.neighbor].length >= (neighborVehicle.capacity ?? Infinity)) continue;
+
+        const stop = candidate.fromStart ? sector[0] : sector[sector.length - 1];
+        const shrunk = candidate.fromStart ? sector.slice(1) : sector.slice(0, -1);
+        const grown = candidate.fromStart
+          ? [...sectors[candidate.neighbor], stop]
+          : [stop, ...sectors[candidate.neighbor]];
+
+        const peak = Math.max(
+          evaluate(orderedVehicles[longest], shrunk).minutes,
+          evaluate(neighborVehicle, grown).minutes
+        );
+
+        if (peak < currentPeak - 1e-6 && (!best || peak < best.peak)) {
+          best = { ...candidate, peak };
+        }
+      }
+
+      if (!best) break;
+
+      const stop = best.fromStart ? sector.shift()! : sector.pop()!;
+      if (best.fromStart) {
+        sectors[best.neighbor].push(stop);
+      } else {
+        sectors[best.neighbor].unshift(stop);
+      }
+
+      evaluations = evaluations.map((evaluation, index) =>
+        index === longest || index === best!.neighbor ? evaluate(orderedVehicles[index], sectors[index]) : evaluation);
+    }
+  }
+
+  const routes = orderedVehicles.map((vehicle, index) => ({
+    vehicleId: vehicle.id,
+    order: evaluations[index].order,
+    distance: evaluations[index].distance,
+    minutes: evaluations[index].minutes,
+    overShift: vehicle.shiftMinutes != null && evaluations[index].minutes > vehicle.shiftMinutes,
+  }));
+
+  // Report routes in the order the vehicles were given
+  routes.sort((a, b) =>
+    vehicles.findIndex(vehicle => vehicle.id === a.vehicleId) - vehicles.findIndex(vehicle => vehicle.id === b.vehicleId));
+
+  return { routes, unassigned };
+}
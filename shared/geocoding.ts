@@ -0,0 +1,181 @@
+import { LatLng, haversineDistance } from "./optimizer";
+import { GeocodeStatus, GeocodingProviderType } from "./schema";
+
+// Address lookup behind a common interface: Nominatim (public or self-hosted),
+// OpenRouteService's Pelias geocoder or a deterministic mock.
+
+export const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+export const DEFAULT_OPENROUTESERVICE_GEOCODER_URL = "https://api.openrouteservice.org";
+
+export interface GeocodeCandidate extends LatLng {
+  // Display name of the match as returned by the geocoder
+  label: string;
+  // Match quality between 0 and 1 when the geocoder reports one
+  confidence?: number;
+  // How precise the match is: a house, only the street, or a whole area (town, postcode)
+  matchLevel?: GeocodeMatchLevel;
+}
+
+export type GeocodeMatchLevel = "address" | "street" | "area";
+
+export interface GeocodingProvider {
+  readonly name: string;
+  // Best matches for a free-form address, best first
+  geocode(query: string, limit?: number): Promise<GeocodeCandidate[]>;
+}
+
+export interface GeocodingProviderOptions {
+  url?: string | null;
+  apiKey?: string | null;
+  fetch?: typeof fetch;
+}
+
+// House-level results are buildings or address points; highways are street matches
+function nominatimMatchLevel(result: any): GeocodeMatchLevel {
+  if (result.class === "building" || result.type === "house" || result.addresstype === "building") return "address";
+  if (result.class === "place" && result.type === "house") return "address";
+  if (result.class === "highway") return "street";
+  return "area";
+}
+
+// Nominatim search API
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = "Nominatim";
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: GeocodingProviderOptions = {}) {
+    this.baseUrl = (options.url || DEFAULT_NOMINATIM_URL).replace(/\/+$/, "");
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  async geocode(query: string, limit = 1): Promise<GeocodeCandidate[]> {
+    const params = new URLSearchParams({
+      q: query,
+      format: "json",
+      limit: String(limit),
+    });
+
+    const response = await this.fetchImpl(`${this.baseUrl}/search?${params.toString()}`, {
+      headers: {
+        // Nominatim requires a User-Agent header
+        "User-Agent": "DeliveryNav/1.0"
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoding failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data)) return [];
+
+    // Nominatim returns lat/lon as strings
+    return data.map((result: any) => ({
+      lat: parseFloat(result.lat),
+      lng: parseFloat(result.lon),
+      label: result.display_name ?? query,
+      confidence: typeof result.importance === "number" ? Math.min(1, result.importance) : undefined,
+      matchLevel: nominatimMatchLevel(result),
+    }));
+  }
+}
+
+// OpenRouteService geocoder (Pelias)
+export class OpenRouteServiceGeocodingProvider implements GeocodingProvider {
+  readonly name = "OpenRouteService";
+  private baseUrl: string;
+  private apiKey: string | null;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: GeocodingProviderOptions = {}) {
+    this.baseUrl = (options.url || DEFAULT_OPENROUTESERVICE_GEOCODER_URL).replace(/\/+$/, "");
+    this.apiKey = options.apiKey ?? null;
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  async geocode(query: string, limit = 1): Promise<GeocodeCandidate[]> {
+    const params = new URLSearchParams({ text: query, size: String(limit) });
+    if (this.apiKey) params.set("api_key", this.apiKey);
+
+    const response = await this.fetchImpl(`${this.baseUrl}/geocode/search?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Geocoding failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.features ?? []).map((feature: any) => ({
+      lng: feature.geometry.coordinates[0],
+      lat: feature.geometry.coordinates[1],
+      label: feature.properties?.label ?? query,
+      confidence: feature.properties?.confidence,
+      matchLevel: feature.properties?.layer === "address" || feature.properties?.layer === "venue"
+        ? "address"
+        : feature.properties?.layer === "street" ? "street" : "area",
+    }));
+  }
+}
+
+// Deterministic geocoder for tests: the same address always lands on the same
+// point within about 10 km of `center`
+export class MockGeocodingProvider implements GeocodingProvider {
+  readonly name = "Mock";
+  private center: LatLng;
+
+  constructor(center: LatLng = { lat: 40.7128, lng: -74.006 }) {
+    this.center = center;
+  }
+
+  async geocode(query: string): Promise<GeocodeCandidate[]> {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return [];
+
+    // FNV-1a hash split into two offsets
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+      hash ^= normalized.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    const latOffset = ((hash & 0xffff) / 0xffff - 0.5) * 0.18;
+    const lngOffset = ((hash >>> 16) / 0xffff - 0.5) * 0.18;
+
+    return [{
+      lat: this.center.lat + latOffset,
+      lng: this.center.lng + lngOffset,
+      label: query.trim(),
+      confidence: 1,
+      matchLevel: "address",
+    }];
+  }
+}
+
+// Other house-level matches further than this from the best one make it ambiguous
+const AMBIGUOUS_MATCH_MILES = 0.25;
+
+// Exact when the best match is a single house-level result, approximate when it
+// only matched a street or area or when several distinct houses matched
+export function classifyGeocode(candidates: GeocodeCandidate[]): GeocodeStatus {
+  if (candidates.length === 0) return GeocodeStatus.FAILED;
+
+  const [best, ...others] = candidates;
+  if (best.matchLevel && best.matchLevel !== "address") return GeocodeStatus.APPROXIMATE;
+
+  const ambiguous = others.some(candidate =>
+    candidate.matchLevel === "address" && haversineDistance(best, candidate) > AMBIGUOUS_MATCH_MILES
+  );
+  return ambiguous ? GeocodeStatus.APPROXIMATE : GeocodeStatus.EXACT;
+}
+
+// Build the geocoder for a provider type from the server config
+export function createGeocodingProvider(type: string | null | undefined, options: GeocodingProviderOptions = {}): GeocodingProvider {
+  switch (type) {
+    case GeocodingProviderType.OPENROUTESERVICE:
+      return new OpenRouteServiceGeocodingProvider(options);
+    case GeocodingProviderType.MOCK:
+      return new MockGeocodingProvider();
+    case GeocodingProviderType.NOMINATIM:
+    default:
+      return new NominatimGeocodingProvider(options);
+  }
+}
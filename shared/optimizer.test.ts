@@ -0,0 +1,164 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LatLng, OptimizerStop, buildDistanceMatrix, haversineDistance, optimizeStopOrder, tourDistance } from "./optimizer";
+
+// Stops along one street, given out of order
+const STREET: OptimizerStop[] = [
+  { id: 1, lat: 51.5, lng: -0.1 },
+  { id: 4, lat: 51.5, lng: -0.07 },
+  { id: 2, lat: 51.5, lng: -0.09 },
+  { id: 5, lat: 51.5, lng: -0.06 },
+  { id: 3, lat: 51.5, lng: -0.08 },
+];
+
+// Corners of a square, listed so that the route crosses itself
+const SQUARE: OptimizerStop[] = [
+  { id: 1, lat: 51.5, lng: -0.1 },
+  { id: 2, lat: 51.51, lng: -0.09 },
+  { id: 3, lat: 51.51, lng: -0.1 },
+  { id: 4, lat: 51.5, lng: -0.09 },
+];
+
+// Stops scattered over a city, the same ones on every run
+function scattered(count: number): OptimizerStop[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    lat: 51.5 + ((i * 37) % 100) / 1000,
+    lng: -0.12 + ((i * 61) % 100) / 1000,
+  }));
+}
+
+// Shortest route from the first stop through all others, by trying every order
+function bruteForceDistance(stops: OptimizerStop[], returnToStart: boolean): number {
+  const matrix = buildDistanceMatrix(stops);
+  const nodes = stops.map((_, index) => index).slice(1);
+  let best = Infinity;
+
+  const permute = (tour: number[], rest: number[]) => {
+    if (rest.length === 0) {
+      best = Math.min(best, tourDistance(matrix, 0, tour, returnToStart ? 0 : undefined));
+      return;
+    }
+    rest.forEach((node, index) => permute([...tour, node], [...rest.slice(0, index), ...rest.slice(index + 1)]));
+  };
+  permute([], nodes);
+
+  return best;
+}
+
+function close(actual: number, expected: number, tolerance = 1e-9) {
+  assert.ok(Math.abs(actual - expected) < tolerance, `expected ${expected}, got ${actual}`);
+}
+
+describe("haversineDistance", () => {
+  it("measures great-circle miles", () => {
+    const london: LatLng = { lat: 51.5074, lng: -0.1278 };
+    const paris: LatLng = { lat: 48.8566, lng: 2.3522 };
+
+    close(haversineDistance(london, paris), 213.5, 0.5);
+    assert.equal(haversineDistance(london, london), 0);
+  });
+});
+
+describe("optimizeStopOrder", () => {
+  it("drives along a street instead of back and forth", () => {
+    const result = optimizeStopOrder(STREET);
+
+    assert.deepEqual(result.order, [1, 2, 3, 4, 5]);
+    assert.ok(result.distanceAfter < result.distanceBefore);
+  });
+
+  it("untangles a route that crosses itself", () => {
+    const result = optimizeStopOrder(SQUARE, { returnToStart: true });
+
+    // Around the square, either way
+    assert.ok(
+      JSON.stringify(result.order) === "[1,3,2,4]" || JSON.stringify(result.order) === "[1,4,2,3]",
+      `got ${result.order}`
+    );
+    const [a, b, c, d] = SQUARE;
+    const perimeter = haversineDistance(a, d) + haversineDistance(d, b) + haversineDistance(b, c) + haversineDistance(c, a);
+    close(result.distanceAfter, perimeter, 1e-6);
+  });
+
+  it("finds the shortest route for a handful of stops", () => {
+    const stops = scattered(8);
+
+    close(optimizeStopOrder(stops).distanceAfter, bruteForceDistance(stops, false), 1e-6);
+    close(optimizeStopOrder(stops, { returnToStart: true }).distanceAfter, bruteForceDistance(stops, true), 1e-6);
+  });
+
+  it("keeps the first stop first when there is no start", () => {
+    // Stop 3 is in the middle of the street, so the route has to double back once
+    const reversed = [...STREET].reverse();
+    const result = optimizeStopOrder(reversed);
+
+    assert.equal(result.order[0], 3);
+    close(result.distanceAfter, 3 * haversineDistance(STREET[0], STREET[2]) + 3 * haversineDistance(STREET[2], STREET[4]), 1e-6);
+  });
+
+  it("leaves from a fixed start and finishes at a fixed end", () => {
+    const west: LatLng = { lat: 51.5, lng: -0.11 };
+    const east: LatLng = { lat: 51.5, lng: -0.05 };
+
+    assert.deepEqual(optimizeStopOrder(STREET, { start: west }).order, [1, 2, 3, 4, 5]);
+    assert.deepEqual(optimizeStopOrder(STREET, { start: east }).order, [5, 4, 3, 2, 1]);
+
+    // Starting in the middle, the end decides which way to go first
+    const middle: LatLng = { lat: 51.5, lng: -0.08 };
+    const toEast = optimizeStopOrder(STREET, { start: middle, end: east });
+    assert.equal(toEast.order[toEast.order.length - 1], 5);
+    const toWest = optimizeStopOrder(STREET, { start: middle, end: west });
+    assert.equal(toWest.order[toWest.order.length - 1], 1);
+  });
+
+  it("counts the way back in round trips, and the end instead of it", () => {
+    const oneWay = optimizeStopOrder(STREET);
+    const roundTrip = optimizeStopOrder(STREET, { returnToStart: true });
+    close(roundTrip.distanceAfter, 2 * oneWay.distanceAfter, 1e-6);
+
+    const end: LatLng = { lat: 51.5, lng: -0.05 };
+    const withEnd = optimizeStopOrder(STREET, { returnToStart: true, end });
+    close(withEnd.distanceAfter, oneWay.distanceAfter + haversineDistance(STREET[3], end), 1e-6);
+  });
+
+  it("minimizes the given matrix instead of straight-line miles", () => {
+    // Going 1 -> 2 -> 3 is cheap only in one direction; straight-line 1 -> 3 -> 2 is shorter
+    const stops: OptimizerStop[] = [
+      { id: 1, lat: 0, lng: 0 },
+      { id: 2, lat: 0, lng: 2 },
+      { id: 3, lat: 0, lng: 1 },
+    ];
+    const matrix = [
+      [0, 1, 10],
+      [10, 0, 1],
+      [1, 10, 0],
+    ];
+
+    const result = optimizeStopOrder(stops, { matrix });
+
+    assert.deepEqual(result.order, [1, 2, 3]);
+    assert.equal(result.distanceAfter, 2);
+    assert.deepEqual(optimizeStopOrder(stops).order, [1, 3, 2]);
+  });
+
+  it("minimizes a custom objective with the legs of each order", () => {
+    const calls: number[][] = [];
+    // Stop 5 has to be served first; distance breaks ties
+    const result = optimizeStopOrder(STREET, {
+      start: { lat: 51.5, lng: -0.11 },
+      objective: (orderedStops, legDistances, totalDistance) => {
+        calls.push(legDistances);
+        return (orderedStops[0].id === 5 ? 0 : 1000) + totalDistance;
+      },
+    });
+
+    assert.equal(result.order[0], 5);
+    assert.deepEqual(result.order, [5, 4, 3, 2, 1]);
+    assert.ok(calls.every(legs => legs.length === STREET.length));
+  });
+
+  it("returns nothing to do for no stops", () => {
+    assert.deepEqual(optimizeStopOrder([]), { order: [], distanceBefore: 0, distanceAfter: 0 });
+  });
+});
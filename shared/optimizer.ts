@@ -0,0 +1,225 @@
+// Stop-sequence optimizer shared by the server (/api/routes/optimize) and the client.
+// Builds a distance matrix from stop coordinates, constructs a tour with the
+// nearest-neighbor heuristic and improves it with 2-opt and Or-opt moves.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface OptimizerStop extends LatLng {
+  id: number;
+}
+
+export interface OptimizeOptions {
+  // Fixed origin of the route. When omitted the first stop is used as the origin.
+  start?: LatLng;
+  // Whether the route has to come back to the origin after the last stop
+  returnToStart?: boolean;
+  // Fixed point the route finishes at after the last stop, e.g. a depot. Takes
+  // the place of returnToStart when given.
+  end?: LatLng;
+  // Upper bound on improvement passes to keep large inputs responsive
+  maxIterations?: number;
+  // Custom cost to minimize instead of plain distance. Receives the stops in visiting
+  // order, the distance in miles driven into each of them and the total route distance
+  // (including the way to the end or back to the start).
+  objective?: (orderedStops: OptimizerStop[], legDistances: number[], totalDistance: number) => number;
+  // Cost of going between the points (the start first, when given, then the stops,
+  // then the end, when given) instead of straight-line miles, e.g. drive times from a routing table. Costs
+  // reported to the objective and in the result are then in its units.
+  matrix?: number[][];
+}
+
+export interface OptimizeResult {
+  // Stop ids in optimized visiting order
+  order: number[];
+  // Route distance in miles for the order the stops were given in
+  distanceBefore: number;
+  // Route distance in miles for the optimized order
+  distanceAfter: number;
+}
+
+const EPSILON = 1e-9;
+
+// Haversine formula to calculate distance between two points on Earth (miles)
+export function haversineDistance(a: LatLng, b: LatLng): number {
+  const R = 3958.8; // Earth's radius in miles
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lng - a.lng) * Math.PI / 180;
+
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// Build a symmetric matrix of straight-line distances between all points
+export function buildDistanceMatrix(points: LatLng[]): number[][] {
+  const matrix: number[][] = points.map(() => new Array(points.length).fill(0));
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const distance = haversineDistance(points[i], points[j]);
+      matrix[i][j] = distance;
+      matrix[j][i] = distance;
+    }
+  }
+
+  return matrix;
+}
+
+// Total length of a tour that leaves `origin`, visits `tour` in order and
+// optionally drives on to `finish` (the origin itself for a round trip)
+export function tourDistance(
+  matrix: number[][],
+  origin: number,
+  tour: number[],
+  finish?: number
+): number {
+  if (tour.length === 0) return finish !== undefined ? matrix[origin][finish] : 0;
+
+  let distance = matrix[origin][tour[0]];
+  for (let i = 0; i < tour.length - 1; i++) {
+    distance += matrix[tour[i]][tour[i + 1]];
+  }
+
+  if (finish !== undefined) {
+    distance += matrix[tour[tour.length - 1]][finish];
+  }
+
+  return distance;
+}
+
+// Greedy construction: always drive to the closest unvisited stop
+function nearestNeighborTour(matrix: number[][], origin: number, nodes: number[]): number[] {
+  const remaining = new Set(nodes);
+  const tour: number[] = [];
+  let current = origin;
+
+  while (remaining.size > 0) {
+    let closest = -1;
+    let closestDistance = Number.MAX_VALUE;
+
+    remaining.forEach(node => {
+      if (matrix[current][node] < closestDistance) {
+        closestDistance = matrix[current][node];
+        closest = node;
+      }
+    });
+
+    tour.push(closest);
+    remaining.delete(closest);
+    current = closest;
+  }
+
+  return tour;
+}
+
+// Reverse tour segments while that shortens the route (first-improvement 2-opt)
+function twoOpt(tour: number[], cost: (tour: number[]) => number): boolean {
+  let improved = false;
+  let best = cost(tour);
+
+  for (let i = 0; i < tour.length - 1; i++) {
+    for (let j = i + 1; j < tour.length; j++) {
+      const candidate = [
+        ...tour.slice(0, i),
+        ...tour.slice(i, j + 1).reverse(),
+        ...tour.slice(j + 1),
+      ];
+      const candidateCost = cost(candidate);
+
+      if (candidateCost < best - EPSILON) {
+        tour.splice(0, tour.length, ...candidate);
+        best = candidateCost;
+        improved = true;
+      }
+    }
+  }
+
+  return improved;
+}
+
+// Move chains of one to three consecutive stops to a better position (Or-opt)
+function orOpt(tour: number[], cost: (tour: number[]) => number): boolean {
+  let improved = false;
+  let best = cost(tour);
+
+  for (let length = 1; length <= 3; length++) {
+    for (let i = 0; i + length <= tour.length; i++) {
+      const segment = tour.slice(i, i + length);
+      const rest = [...tour.slice(0, i), ...tour.slice(i + length)];
+
+      for (let position = 0; position <= rest.length; position++) {
+        if (position === i) continue;
+
+        const candidate = [...rest.slice(0, position), ...segment, ...rest.slice(position)];
+        const candidateCost = cost(candidate);
+
+        if (candidateCost < best - EPSILON) {
+          tour.splice(0, tour.length, ...candidate);
+          best = candidateCost;
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return improved;
+}
+
+// Find a short visiting order for the given stops
+export function optimizeStopOrder(stops: OptimizerStop[], options: OptimizeOptions = {}): OptimizeResult {
+  const { start, returnToStart = false, end, maxIterations = 50, objective } = options;
+
+  if (stops.length === 0) {
+    return { order: [], distanceBefore: 0, distanceAfter: 0 };
+  }
+
+  // Node 0 is always the origin: either the explicit start or the first stop.
+  // The end, when given, is the last node and stays out of the tour.
+  const points: LatLng[] = [...(start ? [start] : []), ...stops, ...(end ? [end] : [])];
+  const matrix = options.matrix ?? buildDistanceMatrix(points);
+  const origin = 0;
+  const finish = end ? points.length - 1 : returnToStart ? origin : undefined;
+  const nodes = points.map((_, index) => index).filter(index => index !== origin && !(end && index === finish));
+
+  const stopAt = (node: number) => stops[start ? node - 1 : node];
+  const distance = (tour: number[]) => tourDistance(matrix, origin, tour, finish);
+
+  const cost = objective
+    ? (tour: number[]) => {
+        // Without an explicit start the origin is itself the first stop of the route
+        const visited = start ? tour : [origin, ...tour];
+        const legDistances = visited.map((node, index) => {
+          if (index === 0) return start ? matrix[origin][node] : 0;
+          return matrix[visited[index - 1]][node];
+        });
+        return objective(visited.map(stopAt), legDistances, distance(tour));
+      }
+    : distance;
+
+  // Start improving from whichever is cheaper: the current order or the greedy tour
+  const currentTour = [...nodes];
+  const greedyTour = nearestNeighborTour(matrix, origin, nodes);
+  const tour = cost(greedyTour) < cost(currentTour) ? greedyTour : [...currentTour];
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const improvedByTwoOpt = twoOpt(tour, cost);
+    const improvedByOrOpt = orOpt(tour, cost);
+
+    if (!improvedByTwoOpt && !improvedByOrOpt) break;
+  }
+
+  const order = start ? tour.map(node => stopAt(node).id) : [stops[0].id, ...tour.map(node => stopAt(node).id)];
+
+  return {
+    order,
+    distanceBefore: distance(currentTour),
+    distanceAfter: distance(tour),
+  };
+}
@@ -0,0 +1,51 @@
+import { Priority, PriorityWeighting } from "./schema";
+
+// How much more a minute (or mile) of delay costs for a stop of each priority
+const PRIORITY_MULTIPLIERS: Record<string, number> = {
+  [Priority.HIGH]: 3,
+  [Priority.NORMAL]: 1,
+  [Priority.LOW]: 0.5,
+};
+
+// How strongly serving important stops early outweighs pure distance/time
+const PRIORITY_WEIGHTS: Record<string, number> = {
+  [PriorityWeighting.OFF]: 0,
+  [PriorityWeighting.BALANCED]: 0.5,
+  [PriorityWeighting.STRONG]: 2,
+};
+
+export function getPriorityMultiplier(priority: string | null | undefined): number {
+  return PRIORITY_MULTIPLIERS[priority ?? Priority.NORMAL] ?? 1;
+}
+
+export function getPriorityWeight(weighting: string | null | undefined): number {
+  return PRIORITY_WEIGHTS[weighting ?? PriorityWeighting.BALANCED] ?? 0;
+}
+
+// Whether priority can change the order at all: it needs a weight and mixed priorities
+export function isPriorityRelevant(stops: { priority?: string | null }[], weight: number): boolean {
+  if (weight <= 0) return false;
+  const multipliers = new Set(stops.map(stop => getPriorityMultiplier(stop.priority)));
+  return multipliers.size > 1;
+}
+
+// Extra cost for reaching important stops late in the route. `reachedAfter[i]` is how far
+// into the route (miles or minutes) stops[i] is reached. Only priority above the lowest
+// one present counts, so a route where every stop has the same priority costs nothing extra.
+export function priorityPenalty(
+  stops: { priority?: string | null }[],
+  reachedAfter: number[],
+  weight: number
+): number {
+  if (weight <= 0 || stops.length === 0) return 0;
+
+  const multipliers = stops.map(stop => getPriorityMultiplier(stop.priority));
+  const lowest = Math.min(...multipliers);
+
+  const penalty = multipliers.reduce(
+    (total, multiplier, index) => total + (multiplier - lowest) * reachedAfter[index],
+    0
+  );
+
+  return weight * penalty / stops.length;
+}
@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DeliveryStatus, FailureReason } from "./schema";
+import { countsAsAttempt, decideReattempt, reattemptChanges, routeEndSequence, shouldCarryOver } from "./reattempt";
+
+const FAILED_AT = new Date(2026, 9, 19, 10, 0);
+
+describe("decideReattempt", () => {
+  it("retries a stop nobody was home at later on the same route", () => {
+    const decision = decideReattempt(FailureReason.NO_ONE_HOME, 1, false, FAILED_AT);
+
+    assert.equal(decision.action, "retry");
+    assert.equal(decision.status, DeliveryStatus.ATTEMPTED);
+    assert.deepEqual(decision.action === "retry" && decision.retryAfter, new Date(2026, 9, 19, 12, 0));
+  });
+
+  it("carries a stop over once its same-route retry has failed too", () => {
+    assert.deepEqual(decideReattempt(FailureReason.NO_ONE_HOME, 2, true, FAILED_AT), { action: "carryOver", status: DeliveryStatus.FAILED });
+    assert.deepEqual(decideReattempt(FailureReason.ACCESS_DENIED, 1, false, FAILED_AT), { action: "carryOver", status: DeliveryStatus.FAILED });
+  });
+
+  it("gives up after the reason's last attempt, and on final or unknown reasons", () => {
+    assert.equal(decideReattempt(FailureReason.NO_ONE_HOME, 3, false, FAILED_AT).action, "none");
+    assert.equal(decideReattempt(FailureReason.ACCESS_DENIED, 2, false, FAILED_AT).action, "none");
+    assert.equal(decideReattempt(FailureReason.REFUSED, 1, false, FAILED_AT).action, "none");
+    assert.equal(decideReattempt(null, 1, false, FAILED_AT).action, "none");
+  });
+});
+
+describe("reattemptChanges", () => {
+  const addresses = [
+    { id: 1, routeId: 1, sequence: 1 },
+    { id: 2, routeId: 1, sequence: 2 },
+    { id: 3, routeId: 1, sequence: 3 },
+    // Another route's stops don't move the end of this one
+    { id: 4, routeId: 2, sequence: 9 },
+  ];
+
+  it("counts the attempt and moves a retry after the rest of its route", () => {
+    const stop = { ...addresses[0], status: DeliveryStatus.PENDING, attemptCount: 0 };
+
+    assert.deepEqual(reattemptChanges(stop, FailureReason.NO_ONE_HOME, FAILED_AT, addresses), {
+      status: DeliveryStatus.ATTEMPTED,
+      attemptCount: 1,
+      retryAfter: new Date(2026, 9, 19, 12, 0),
+      sequence: 4,
+    });
+  });
+
+  it("keeps the stop in place when it isn't retried", () => {
+    const stop = { ...addresses[0], status: DeliveryStatus.ATTEMPTED, attemptCount: 1 };
+
+    assert.deepEqual(reattemptChanges(stop, FailureReason.NO_ONE_HOME, FAILED_AT, addresses), {
+      status: DeliveryStatus.FAILED,
+      attemptCount: 2,
+      retryAfter: null,
+    });
+  });
+
+  it("applies to failed and attempted statuses only", () => {
+    assert.equal(countsAsAttempt(DeliveryStatus.FAILED), true);
+    assert.equal(countsAsAttempt(DeliveryStatus.ATTEMPTED), true);
+    assert.equal(countsAsAttempt(DeliveryStatus.DELIVERED), false);
+    assert.equal(countsAsAttempt(DeliveryStatus.PENDING), false);
+  });
+
+  it("ends a route of one stop after itself", () => {
+    assert.equal(routeEndSequence({ id: 5, routeId: 3, sequence: 7 }, addresses), 8);
+  });
+});
+
+describe("shouldCarryOver", () => {
+  it("carries over unfinished stops with attempts left", () => {
+    assert.equal(shouldCarryOver({ status: DeliveryStatus.FAILED, failureReason: FailureReason.NO_ONE_HOME, attemptCount: 2 }), true);
+    assert.equal(shouldCarryOver({ status: DeliveryStatus.ATTEMPTED, failureReason: FailureReason.NO_ONE_HOME, attemptCount: 1 }), true);
+    assert.equal(shouldCarryOver({ status: DeliveryStatus.FAILED, failureReason: FailureReason.NO_ONE_HOME, attemptCount: 3 }), false);
+    assert.equal(shouldCarryOver({ status: DeliveryStatus.FAILED, failureReason: FailureReason.WRONG_ADDRESS, attemptCount: 1 }), false);
+    assert.equal(shouldCarryOver({ status: DeliveryStatus.DELIVERED, failureReason: null, attemptCount: 0 }), false);
+  });
+});
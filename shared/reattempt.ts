@@ -0,0 +1,111 @@
+import { Address, DeliveryStatus, FailureReason } from "./schema";
+
+// Re-attempt rules for failed deliveries. A failed stop is either tried once more
+// later on the same route (status Attempted until then), carried over to the
+// next route, or given up on.
+
+export interface ReattemptRule {
+  // Minutes to wait before retrying on the same route; null never retries the same day
+  retryAfterMinutes: number | null;
+  // Whether the stop moves to the next route once this one is done with it
+  carryOver: boolean;
+  // Total attempts across routes before giving up
+  maxAttempts: number;
+}
+
+export const REATTEMPT_RULES: Record<FailureReason, ReattemptRule> = {
+  // Customers are often back within a couple of hours
+  [FailureReason.NO_ONE_HOME]: { retryAfterMinutes: 120, carryOver: true, maxAttempts: 3 },
+  // Needs a gate code or an appointment, which won't happen the same day
+  [FailureReason.ACCESS_DENIED]: { retryAfterMinutes: null, carryOver: true, maxAttempts: 2 },
+  // Needs the address fixed first, then it's planned again by hand
+  [FailureReason.WRONG_ADDRESS]: { retryAfterMinutes: null, carryOver: false, maxAttempts: 1 },
+  [FailureReason.REFUSED]: { retryAfterMinutes: null, carryOver: false, maxAttempts: 1 },
+  [FailureReason.DAMAGED]: { retryAfterMinutes: null, carryOver: false, maxAttempts: 1 },
+};
+
+// Unknown or missing reasons (e.g. stops failed before reasons existed) are final
+const NO_REATTEMPT: ReattemptRule = { retryAfterMinutes: null, carryOver: false, maxAttempts: 1 };
+
+export function getReattemptRule(reason: string | null | undefined): ReattemptRule {
+  return REATTEMPT_RULES[reason as FailureReason] ?? NO_REATTEMPT;
+}
+
+export type ReattemptDecision =
+  | { action: "retry"; status: DeliveryStatus.ATTEMPTED; retryAfter: Date }
+  | { action: "carryOver"; status: DeliveryStatus.FAILED }
+  | { action: "none"; status: DeliveryStatus.FAILED };
+
+// What happens to a stop that just failed. `attempts` counts this failure;
+// `retried` is set when this was already the same-route retry.
+export function decideReattempt(
+  reason: string | null | undefined,
+  attempts: number,
+  retried: boolean,
+  failedAt: Date
+): ReattemptDecision {
+  const rule = getReattemptRule(reason);
+
+  if (attempts >= rule.maxAttempts) {
+    return { action: "none", status: DeliveryStatus.FAILED };
+  }
+
+  if (rule.retryAfterMinutes !== null && !retried) {
+    return {
+      action: "retry",
+      status: DeliveryStatus.ATTEMPTED,
+      retryAfter: new Date(failedAt.getTime() + rule.retryAfterMinutes * 60 * 1000),
+    };
+  }
+
+  return rule.carryOver
+    ? { action: "carryOver", status: DeliveryStatus.FAILED }
+    : { action: "none", status: DeliveryStatus.FAILED };
+}
+
+// Statuses a driver sets for a stop that wasn't delivered; each counts as an attempt
+export function countsAsAttempt(status: string | null | undefined): boolean {
+  return status === DeliveryStatus.FAILED || status === DeliveryStatus.ATTEMPTED;
+}
+
+// Sequence that puts a stop after every other stop of its route
+export function routeEndSequence(
+  stop: Pick<Address, "id" | "routeId" | "sequence">,
+  addresses: Pick<Address, "id" | "routeId" | "sequence">[]
+): number {
+  const routeSequences = addresses
+    .filter(address => address.routeId === stop.routeId && address.id !== stop.id)
+    .map(address => address.sequence ?? 0);
+  return Math.max(stop.sequence ?? 0, ...routeSequences) + 1;
+}
+
+// Changes a failed or attempted status makes to a stop: one more attempt, and
+// a retry re-inserted after the rest of its route. `addresses` are the user's
+// addresses, to find the end of the route.
+export function reattemptChanges(
+  stop: Pick<Address, "id" | "routeId" | "sequence" | "status" | "attemptCount">,
+  failureReason: string | null | undefined,
+  failedAt: Date,
+  addresses: Pick<Address, "id" | "routeId" | "sequence">[]
+): Pick<Address, "status" | "attemptCount" | "retryAfter"> & Partial<Pick<Address, "sequence">> {
+  const attempts = (stop.attemptCount ?? 0) + 1;
+  const decision = decideReattempt(failureReason, attempts, stop.status === DeliveryStatus.ATTEMPTED, failedAt);
+
+  if (decision.action === "retry") {
+    return {
+      status: decision.status,
+      attemptCount: attempts,
+      retryAfter: decision.retryAfter,
+      sequence: routeEndSequence(stop, addresses),
+    };
+  }
+  return { status: decision.status, attemptCount: attempts, retryAfter: null };
+}
+
+// Whether a stop left unfinished by a completed route goes onto the next one
+export function shouldCarryOver(stop: { status?: string | null; failureReason?: string | null; attemptCount?: number | null }): boolean {
+  if (stop.status !== DeliveryStatus.FAILED && stop.status !== DeliveryStatus.ATTEMPTED) return false;
+
+  const rule = getReattemptRule(stop.failureReason);
+  return rule.carryOver && (stop.attemptCount ?? 0) < rule.maxAttempts;
+}
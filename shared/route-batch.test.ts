@@ -0,0 +1,165 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { performance } from "node:perf_hooks";
+import { LatLng } from "./optimizer";
+import { MockRoutingProvider, RouteOptions, RoutingProvider, RoutingResult, RoutingTable, routeOptionsFor } from "./routing";
+import { DEFAULT_ROUTING_CONCURRENCY, LegCache, mapWithConcurrency, routeLegs, routingMatrix } from "./route-batch";
+import { MemStorage } from "../server/storage";
+
+// Benchmarks for the batching in route-batch.ts against one request per leg or
+// per stop pair. The mock answers after a fixed delay, like a routing server
+// would, and counts the requests it gets.
+
+const LATENCY_MS = 10;
+
+class TimedProvider implements RoutingProvider {
+  readonly name = "Timed mock";
+  readonly maxWaypoints = 25;
+  readonly maxTableLocations = 50;
+  requests = 0;
+  private mock = new MockRoutingProvider();
+
+  private async respond<T>(answer: () => Promise<T>): Promise<T> {
+    this.requests++;
+    await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+    return answer();
+  }
+
+  route(waypoints: LatLng[], options?: RouteOptions): Promise<RoutingResult> {
+    if (waypoints.length > this.maxWaypoints) {
+      return Promise.reject(new Error(`Too many waypoints: ${waypoints.length}`));
+    }
+    return this.respond(() => this.mock.route(waypoints));
+  }
+
+  routeAlternatives(waypoints: LatLng[], options?: RouteOptions): Promise<RoutingResult[]> {
+    return this.respond(() => this.mock.routeAlternatives(waypoints));
+  }
+
+  table(sources: LatLng[], destinations: LatLng[]): Promise<RoutingTable> {
+    if (sources.length + destinations.length > this.maxTableLocations) {
+      return Promise.reject(new Error(`Too many locations: ${sources.length + destinations.length}`));
+    }
+    return this.respond(() => this.mock.table(sources, destinations));
+  }
+}
+
+// Stops scattered over a city, the same ones on every run
+function stops(count: number): LatLng[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: 51.5 + ((i * 37) % 100) / 1000,
+    lng: -0.12 + ((i * 61) % 100) / 1000,
+  }));
+}
+
+async function timed<T>(run: () => Promise<T>): Promise<{ result: T; ms: number }> {
+  const start = performance.now();
+  const result = await run();
+  return { result, ms: performance.now() - start };
+}
+
+describe("routeLegs", () => {
+  it("routes a long route in fewer, faster requests than one per leg", async (t) => {
+    const waypoints = stops(60);
+
+    const perLegProvider = new TimedProvider();
+    const perLeg = await timed(() => mapWithConcurrency(
+      waypoints.slice(1),
+      DEFAULT_ROUTING_CONCURRENCY,
+      (to, i) => perLegProvider.route([waypoints[i], to])
+    ));
+
+    const batchedProvider = new TimedProvider();
+    const batched = await timed(() => routeLegs(batchedProvider, waypoints));
+
+    t.diagnostic(`per leg: ${perLegProvider.requests} requests in ${perLeg.ms.toFixed(0)} ms`);
+    t.diagnostic(`batched: ${batchedProvider.requests} requests in ${batched.ms.toFixed(0)} ms`);
+
+    // 59 legs at 24 legs per request
+    assert.equal(perLegProvider.requests, 59);
+    assert.equal(batchedProvider.requests, 3);
+    assert.ok(batched.ms < perLeg.ms / 2, `batched took ${batched.ms} ms, per leg ${perLeg.ms} ms`);
+
+    // Splitting the batched routes gives the same legs
+    batched.result.forEach((routes, i) => {
+      assert.ok(Math.abs(routes![0].distance - perLeg.result[i].distance) < 1e-6);
+      assert.ok(Math.abs(routes![0].duration - perLeg.result[i].duration) < 1e-6);
+    });
+  });
+
+  it("batches legs with a new user's route settings", async () => {
+    const settings = await new MemStorage().createRouteSettings(1, {});
+    const provider = new TimedProvider();
+
+    // Shortest distance is on by default and goes into the batched requests
+    const legs = await routeLegs(provider, stops(60), { options: routeOptionsFor(settings) });
+
+    assert.equal(settings.shortestDistance, true);
+    assert.equal(provider.requests, 3);
+    assert.ok(legs.every(routes => routes !== null));
+
+    // Fewer left turns compares each leg's alternatives
+    provider.requests = 0;
+    await routeLegs(provider, stops(60), { options: routeOptionsFor({ ...settings, minimizeLeftTurns: true }) });
+    assert.equal(provider.requests, 59);
+  });
+
+  it("only requests the legs that changed when a route is recalculated", async () => {
+    const provider = new TimedProvider();
+    const cache = new LegCache();
+    const waypoints = stops(30);
+    await routeLegs(provider, waypoints, { cache });
+    provider.requests = 0;
+
+    // Moving one stop changes the two legs around it
+    const moved = waypoints.map((point, i) => i === 10 ? { lat: point.lat + 0.01, lng: point.lng } : point);
+    const legs = await routeLegs(provider, moved, { cache });
+
+    assert.equal(provider.requests, 1);
+    assert.equal(legs.length, 29);
+    assert.ok(legs.every(routes => routes !== null));
+
+    provider.requests = 0;
+    await routeLegs(provider, moved, { cache });
+    assert.equal(provider.requests, 0);
+  });
+});
+
+describe("routingMatrix", () => {
+  it("fills the stop-to-stop table in fewer, faster requests than routing every pair", async (t) => {
+    const points = stops(20);
+
+    const pairProvider = new TimedProvider();
+    const pairs = points.flatMap((from, i) => points.flatMap((to, j) => i === j ? [] : [{ from, to, i, j }]));
+    const pairwise = await timed(() => mapWithConcurrency(
+      pairs,
+      DEFAULT_ROUTING_CONCURRENCY,
+      pair => pairProvider.route([pair.from, pair.to])
+    ));
+
+    const tableProvider = new TimedProvider();
+    const table = await timed(() => routingMatrix(tableProvider, points));
+
+    t.diagnostic(`pairwise: ${pairProvider.requests} requests in ${pairwise.ms.toFixed(0)} ms`);
+    t.diagnostic(`table: ${tableProvider.requests} requests in ${table.ms.toFixed(0)} ms`);
+
+    assert.equal(pairProvider.requests, 380);
+    assert.equal(tableProvider.requests, 1);
+    assert.ok(table.ms < pairwise.ms / 2, `table took ${table.ms} ms, pairwise ${pairwise.ms} ms`);
+
+    pairs.forEach((pair, index) => {
+      assert.ok(Math.abs(table.result.durations[pair.i][pair.j]! - pairwise.result[index].duration) < 1e-6);
+    });
+  });
+
+  it("covers point sets over the table limit with blocks", async () => {
+    const provider = new TimedProvider();
+    const points = stops(60);
+
+    const { durations } = await routingMatrix(provider, points);
+
+    // Blocks of 25 sources by 25 destinations: 3 x 3
+    assert.equal(provider.requests, 9);
+    assert.ok(durations.every((row, i) => row.every((duration, j) => i === j ? duration === 0 : duration! > 0)));
+  });
+});
@@ -0,0 +1,228 @@
+import { LatLng } from "./optimizer";
+import { RouteOptions, RoutingProvider, RoutingResult } from "./routing";
+
+// Routing long routes without one request per leg: consecutive legs go to the
+// engine as multi-waypoint requests (split at the provider's waypoint limit),
+// stop-to-stop times for ordering come from table requests, requests run a few
+// at a time, and each leg's result is cached by its two ends.
+
+// Requests sent to a routing server at the same time
+export const DEFAULT_ROUTING_CONCURRENCY = 4;
+
+// Run `task` on every item, at most `limit` at a time; results keep the items' order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+// Routes for single legs, kept for a while so recalculating a route (after a
+// reroute or a delivered stop) only asks the engine about legs that changed
+export class LegCache {
+  private entries = new Map<string, { routes: RoutingResult[]; storedAt: number }>();
+
+  constructor(private maxEntries = 2000, private maxAgeMs = 60 * 60 * 1000) {}
+
+  static key(scope: string, from: LatLng, to: LatLng, options: RouteOptions = {}): string {
+    const flags = [options.avoidHighways, options.avoidTolls, options.shortest, options.alternatives]
+      .map(flag => flag ? 1 : 0)
+      .join("");
+    return `${scope}|${from.lat.toFixed(5)},${from.lng.toFixed(5)};${to.lat.toFixed(5)},${to.lng.toFixed(5)}|${flags}`;
+  }
+
+  get(key: string): RoutingResult[] | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.storedAt > this.maxAgeMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.routes;
+  }
+
+  set(key: string, routes: RoutingResult[]): void {
+    // Oldest entries go first once the cache is full
+    this.entries.delete(key);
+    this.entries.set(key, { routes, storedAt: Date.now() });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Squared planar distance; only used to compare points against the same target
+function nearness(point: [number, number], target: LatLng): number {
+  const dx = (point[0] - target.lng) * Math.cos(target.lat * Math.PI / 180);
+  const dy = point[1] - target.lat;
+  return dx * dx + dy * dy;
+}
+
+// Split a multi-waypoint route into one single-leg route per leg. The polyline
+// is cut at the point nearest each intermediate arrival, searching forward so a
+// road driven twice is cut on the right pass.
+export function splitRoute(route: RoutingResult, waypoints: LatLng[]): RoutingResult[] {
+  const legs: RoutingResult[] = [];
+  let start = 0;
+
+  route.legs.forEach((leg, index) => {
+    const isLast = index === route.legs.length - 1;
+    let end = route.geometry.length - 1;
+
+    if (!isLast) {
+      // The arrival maneuver sits on the polyline; the waypoint itself may be off the road
+      const arrival = leg.steps[leg.steps.length - 1]?.location ?? waypoints[index + 1];
+      let closest = Infinity;
+      for (let i = start; i < route.geometry.length; i++) {
+        const distance = nearness(route.geometry[i], arrival);
+        if (distance < closest) {
+          closest = distance;
+          end = i;
+        }
+      }
+    }
+
+    legs.push({
+      distance: leg.distance,
+      duration: leg.duration,
+      geometry: route.geometry.slice(start, end + 1),
+      legs: [leg],
+      applied: route.applied,
+    });
+    start = end;
+  });
+
+  return legs;
+}
+
+export interface RouteLegsOptions {
+  options?: RouteOptions;
+  cache?: LegCache;
+  // Keeps cached legs of different servers apart; the provider's name by default
+  cacheScope?: string;
+  concurrency?: number;
+}
+
+// Routes for every leg between consecutive waypoints: the engine's route and,
+// when alternatives are requested, its alternatives. Legs the engine couldn't
+// route are null. Alternatives only exist between two waypoints, so those legs
+// are requested one by one; otherwise runs of uncached legs are requested
+// together, as many as the provider takes per request.
+export async function routeLegs(
+  provider: RoutingProvider,
+  waypoints: LatLng[],
+  { options = {}, cache, cacheScope = provider.name, concurrency = DEFAULT_ROUTING_CONCURRENCY }: RouteLegsOptions = {}
+): Promise<(RoutingResult[] | null)[]> {
+  const legCount = Math.max(0, waypoints.length - 1);
+  const keys = Array.from({ length: legCount }, (_, i) => LegCache.key(cacheScope, waypoints[i], waypoints[i + 1], options));
+  const results: (RoutingResult[] | null)[] = keys.map(key => cache?.get(key) ?? null);
+
+  const store = (leg: number, routes: RoutingResult[]) => {
+    results[leg] = routes;
+    cache?.set(keys[leg], routes);
+  };
+
+  const routeLeg = async (leg: number) => {
+    try {
+      const pair = [waypoints[leg], waypoints[leg + 1]];
+      store(leg, options.alternatives
+        ? await provider.routeAlternatives(pair, options)
+        : [await provider.route(pair, options)]);
+    } catch (error) {
+      results[leg] = null;
+    }
+  };
+
+  const missing = results.flatMap((routes, leg) => routes ? [] : [leg]);
+  if (missing.length === 0) return results;
+
+  if (options.alternatives) {
+    await mapWithConcurrency(missing, concurrency, routeLeg);
+    return results;
+  }
+
+  // Consecutive missing legs, split into chunks that fit one request
+  const legsPerRequest = Math.max(1, provider.maxWaypoints - 1);
+  const chunks: number[][] = [];
+  for (const leg of missing) {
+    const chunk = chunks[chunks.length - 1];
+    if (chunk && chunk[chunk.length - 1] === leg - 1 && chunk.length < legsPerRequest) {
+      chunk.push(leg);
+    } else {
+      chunks.push([leg]);
+    }
+  }
+
+  await mapWithConcurrency(chunks, concurrency, async chunk => {
+    const first = chunk[0];
+    const chunkWaypoints = waypoints.slice(first, first + chunk.length + 1);
+    try {
+      const route = await provider.route(chunkWaypoints, options);
+      if (route.legs.length !== chunk.length) {
+        throw new Error(`Expected ${chunk.length} legs, got ${route.legs.length}`);
+      }
+      splitRoute(route, chunkWaypoints).forEach((legRoute, index) => store(first + index, [legRoute]));
+    } catch (error) {
+      // One unroutable stop fails the whole request; find out which legs still work
+      if (chunk.length === 1) {
+        results[first] = null;
+        return;
+      }
+      for (const leg of chunk) await routeLeg(leg);
+    }
+  });
+
+  return results;
+}
+
+// Drive times and distances between all points, with null where the engine
+// found no route. Point sets over the provider's table limit are covered with
+// smaller source-by-destination blocks.
+export async function routingMatrix(
+  provider: RoutingProvider,
+  points: LatLng[],
+  concurrency = DEFAULT_ROUTING_CONCURRENCY
+): Promise<{ durations: (number | null)[][]; distances: (number | null)[][] }> {
+  const durations: (number | null)[][] = points.map(() => new Array(points.length).fill(null));
+  const distances: (number | null)[][] = points.map(() => new Array(points.length).fill(null));
+  if (points.length < 2) return { durations, distances };
+
+  const blockSize = points.length <= provider.maxTableLocations / 2
+    ? points.length
+    : Math.max(1, Math.floor(provider.maxTableLocations / 2));
+  const blocks: { sources: number; destinations: number }[] = [];
+  for (let sources = 0; sources < points.length; sources += blockSize) {
+    for (let destinations = 0; destinations < points.length; destinations += blockSize) {
+      blocks.push({ sources, destinations });
+    }
+  }
+
+  await mapWithConcurrency(blocks, concurrency, async block => {
+    const sources = points.slice(block.sources, block.sources + blockSize);
+    const destinations = points.slice(block.destinations, block.destinations + blockSize);
+    const table = await provider.table(sources, destinations);
+
+    sources.forEach((_, i) => destinations.forEach((_, j) => {
+      durations[block.sources + i][block.destinations + j] = table.durations[i]?.[j] ?? null;
+      distances[block.sources + i][block.destinations + j] = table.distances[i]?.[j] ?? null;
+    }));
+  });
+
+  return { durations, distances };
+}
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LatLng } from "./optimizer";
+import { OFF_ROUTE_FIXES, TrackerState, prepareTrackedRoute, trackPosition } from "./route-tracker";
+
+// An L-shaped route: about 1.4 km east along one street, then 1.1 km north
+const START = { lat: 51.5, lng: -0.12 };
+const CORNER = { lat: 51.5, lng: -0.1 };
+const END = { lat: 51.51, lng: -0.1 };
+
+const route = prepareTrackedRoute(
+  [START, CORNER, END].map(point => [point.lng, point.lat] as [number, number]),
+  [START, CORNER, END]
+);
+
+// A point the given number of meters north of another
+function north(point: LatLng, meters: number): LatLng {
+  return { lat: point.lat + meters / 110540, lng: point.lng };
+}
+
+// Halfway along the first street
+const MIDDLE = { lat: 51.5, lng: -0.11 };
+
+function drive(fixes: (LatLng & { accuracy?: number })[], state?: TrackerState): TrackerState {
+  return fixes.reduce<TrackerState | undefined>((previous, fix) => trackPosition(route, previous, fix), state)!;
+}
+
+describe("trackPosition", () => {
+  it("snaps a fix near the route onto it", () => {
+    const state = drive([north(MIDDLE, 10)]);
+
+    assert.equal(state.offRoute, false);
+    assert.equal(state.offRouteFixes, 0);
+    assert.ok(Math.abs(state.distanceFromRoute - 10) < 0.5);
+    assert.ok(Math.abs(state.snapped.lat - MIDDLE.lat) < 1e-9);
+  });
+
+  it("ignores a single fix away from the route", () => {
+    const jumped = drive([MIDDLE, north(MIDDLE, 100)]);
+
+    assert.equal(jumped.offRouteFixes, 1);
+    assert.equal(jumped.offRoute, false);
+    // The driver stays where they were last seen on the route
+    assert.ok(Math.abs(jumped.distanceAlong - drive([MIDDLE]).distanceAlong) < 1e-6);
+
+    const back = trackPosition(route, jumped, MIDDLE);
+    assert.equal(back.offRouteFixes, 0);
+  });
+
+  it(`reports the driver off the route after ${OFF_ROUTE_FIXES} fixes away from it`, () => {
+    const fixes = Array.from({ length: OFF_ROUTE_FIXES }, () => north(MIDDLE, 100));
+
+    const beforeLast = drive([MIDDLE, ...fixes.slice(1)]);
+    const state = drive([MIDDLE, ...fixes]);
+
+    assert.equal(beforeLast.offRoute, false);
+    assert.equal(state.offRoute, true);
+    assert.ok(Math.abs(state.distanceFromRoute - 100) < 1);
+    assert.deepEqual(state.snapped, north(MIDDLE, 100));
+  });
+
+  it("allows inaccurate fixes further from the route, up to a limit", () => {
+    const away = north(MIDDLE, 120);
+
+    assert.equal(drive([away, away, away]).offRoute, true);
+    assert.equal(drive([{ ...away, accuracy: 130 }, { ...away, accuracy: 130 }, { ...away, accuracy: 130 }]).offRoute, false);
+
+    const farAway = { ...north(MIDDLE, 200), accuracy: 1000 };
+    assert.equal(drive([farAway, farAway, farAway]).offRoute, true);
+  });
+
+  it("moves on to the next step once the driver has passed its maneuver", () => {
+    const beforeCorner = drive([START, MIDDLE]);
+    const afterCorner = drive([START, MIDDLE, north(CORNER, 100)]);
+
+    assert.equal(beforeCorner.stepIndex, 1);
+    assert.ok(Math.abs(beforeCorner.distanceToStep - (route.stepOffsets[1] - beforeCorner.distanceAlong)) < 1e-6);
+    assert.equal(afterCorner.stepIndex, 2);
+    assert.equal(afterCorner.offRoute, false);
+  });
+});
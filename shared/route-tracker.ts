@@ -0,0 +1,163 @@
+import { LatLng } from "./optimizer";
+
+// Follows a driver along a planned route: snaps GPS fixes onto the route
+// polyline, works out which turn-by-turn step comes next and notices when the
+// driver has left the route. Distances are in meters.
+
+// A fix further than this from the route counts as off the route; inaccurate
+// fixes widen it up to MAX_OFF_ROUTE_METERS
+export const OFF_ROUTE_METERS = 50;
+const MAX_OFF_ROUTE_METERS = 150;
+
+// Consecutive off-route fixes before the driver is considered off the route,
+// so a single GPS jump doesn't trigger a reroute
+export const OFF_ROUTE_FIXES = 3;
+
+// How far past a maneuver the driver must be before its step is done
+const STEP_PASSED_METERS = 15;
+
+// Fixes are matched near the last known spot first, so a route that uses the
+// same road twice isn't snapped onto the later pass
+const SNAP_LOOKBEHIND_METERS = 50;
+const SNAP_LOOKAHEAD_METERS = 1000;
+
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG = 111320;
+
+export interface TrackedRoute {
+  path: LatLng[];
+  // Distance along the route to each path point
+  offsets: number[];
+  // Distance along the route to each step's maneuver
+  stepOffsets: number[];
+  length: number;
+}
+
+export interface TrackerState {
+  // Where the driver is on the route, or the raw fix while off it
+  snapped: LatLng;
+  distanceAlong: number;
+  distanceFromRoute: number;
+  // Step to follow next and the distance to its maneuver
+  stepIndex: number;
+  distanceToStep: number;
+  offRouteFixes: number;
+  offRoute: boolean;
+}
+
+interface Projection {
+  point: LatLng;
+  distanceAlong: number;
+  distanceFromRoute: number;
+}
+
+// Straight-line distance in meters; fine at the scale of a road segment
+function planarDistance(a: LatLng, b: LatLng): number {
+  const dx = (b.lng - a.lng) * METERS_PER_DEGREE_LNG * Math.cos((a.lat + b.lat) / 2 * Math.PI / 180);
+  const dy = (b.lat - a.lat) * METERS_PER_DEGREE_LAT;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+// Closest point to `point` on the route between two distances along it
+function project(route: TrackedRoute, point: LatLng, from = 0, to = Infinity): Projection | undefined {
+  let best: Projection | undefined;
+
+  for (let i = 1; i < route.path.length; i++) {
+    if (route.offsets[i] < from || route.offsets[i - 1] > to) continue;
+
+    const start = route.path[i - 1];
+    const end = route.path[i];
+    const cosLat = Math.cos(start.lat * Math.PI / 180);
+
+    // Project in a local flat frame around the segment start
+    const sx = (end.lng - start.lng) * METERS_PER_DEGREE_LNG * cosLat;
+    const sy = (end.lat - start.lat) * METERS_PER_DEGREE_LAT;
+    const px = (point.lng - start.lng) * METERS_PER_DEGREE_LNG * cosLat;
+    const py = (point.lat - start.lat) * METERS_PER_DEGREE_LAT;
+    const lengthSquared = sx * sx + sy * sy;
+    const fraction = lengthSquared > 0 ? Math.max(0, Math.min(1, (px * sx + py * sy) / lengthSquared)) : 0;
+
+    const snapped = {
+      lat: start.lat + (end.lat - start.lat) * fraction,
+      lng: start.lng + (end.lng - start.lng) * fraction,
+    };
+    const distanceFromRoute = planarDistance(point, snapped);
+
+    if (!best || distanceFromRoute < best.distanceFromRoute) {
+      best = {
+        point: snapped,
+        distanceAlong: route.offsets[i - 1] + (route.offsets[i] - route.offsets[i - 1]) * fraction,
+        distanceFromRoute,
+      };
+    }
+  }
+
+  return best;
+}
+
+// Prepare a route polyline ([lng, lat] pairs, as routes store them) and the
+// maneuver location of each step for tracking. Steps without a location
+// (routes saved before steps had one) are never passed automatically.
+export function prepareTrackedRoute(
+  coordinates: [number, number][],
+  stepLocations: (LatLng | undefined)[]
+): TrackedRoute {
+  const path = coordinates.map(([lng, lat]) => ({ lat, lng }));
+  const offsets = path.map(() => 0);
+  for (let i = 1; i < path.length; i++) {
+    offsets[i] = offsets[i - 1] + planarDistance(path[i - 1], path[i]);
+  }
+
+  const route: TrackedRoute = { path, offsets, stepOffsets: [], length: offsets[offsets.length - 1] ?? 0 };
+
+  // Maneuvers come in route order, so each is searched for after the previous one
+  let previousOffset = 0;
+  route.stepOffsets = stepLocations.map(location => {
+    if (!location || previousOffset === Infinity) {
+      previousOffset = Infinity;
+      return Infinity;
+    }
+    const projection = path.length > 1 ? project(route, location, previousOffset) : undefined;
+    previousOffset = projection?.distanceAlong ?? previousOffset;
+    return previousOffset;
+  });
+
+  return route;
+}
+
+// Next state after a GPS fix
+export function trackPosition(
+  route: TrackedRoute,
+  previous: TrackerState | undefined,
+  position: LatLng & { accuracy?: number | null }
+): TrackerState {
+  const threshold = Math.min(MAX_OFF_ROUTE_METERS, Math.max(OFF_ROUTE_METERS, position.accuracy ?? 0));
+  const lastAlong = previous?.distanceAlong ?? 0;
+
+  // Near the last known spot first, then anywhere (e.g. after a GPS gap)
+  let projection = project(route, position, lastAlong - SNAP_LOOKBEHIND_METERS, lastAlong + SNAP_LOOKAHEAD_METERS);
+  if (!projection || projection.distanceFromRoute > threshold) {
+    projection = project(route, position) ?? projection;
+  }
+
+  const onRoute = !!projection && projection.distanceFromRoute <= threshold;
+  const offRouteFixes = onRoute ? 0 : (previous?.offRouteFixes ?? 0) + 1;
+  const distanceAlong = onRoute ? projection!.distanceAlong : lastAlong;
+
+  // Steps only move forward; the last one (arriving) stays until the route changes
+  const lastStep = Math.max(0, route.stepOffsets.length - 1);
+  let stepIndex = Math.min(previous?.stepIndex ?? 0, lastStep);
+  while (stepIndex < lastStep && route.stepOffsets[stepIndex] + STEP_PASSED_METERS <= distanceAlong) {
+    stepIndex++;
+  }
+
+  return {
+    snapped: onRoute ? projection!.point : { lat: position.lat, lng: position.lng },
+    distanceAlong,
+    distanceFromRoute: projection?.distanceFromRoute ?? Infinity,
+    stepIndex,
+    distanceToStep: Math.max(0, (route.stepOffsets[stepIndex] ?? route.length) - distanceAlong),
+    offRouteFixes,
+    offRoute: offRouteFixes >= OFF_ROUTE_FIXES,
+  };
+}
@@ -0,0 +1,148 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import {
+  OpenRouteServiceRoutingProvider,
+  OsrmRoutingProvider,
+  ValhallaRoutingProvider,
+  countLeftTurns,
+} from "./routing";
+
+// Responses recorded between two points in Kraków, per provider
+const FIXTURES = JSON.parse(readFileSync("server/fixtures/routing.json", "utf8"));
+
+const KARMELICKA = { lat: 50.0619, lng: 19.9368 };
+const LUBELSKA = { lat: 50.0697, lng: 19.945 };
+
+// A fetch that answers each request with the response recorded for the first
+// matching URL, and 400 for anything else
+function replay(responses: [RegExp, unknown][]): { fetch: typeof fetch; urls: string[] } {
+  const urls: string[] = [];
+  const fetchImpl = async (input: string | URL | Request) => {
+    const url = String(input);
+    urls.push(url);
+    const recorded = responses.find(([pattern]) => pattern.test(url));
+    return recorded
+      ? new Response(JSON.stringify(recorded[1]), { headers: { "Content-Type": "application/json" } })
+      : new Response("Bad request", { status: 400 });
+  };
+  return { fetch: fetchImpl as typeof fetch, urls };
+}
+
+function close(actual: number, expected: number, tolerance = 1e-6) {
+  assert.ok(Math.abs(actual - expected) < tolerance, `expected ${expected}, got ${actual}`);
+}
+
+describe("OsrmRoutingProvider", () => {
+  it("parses the route and its alternatives", async () => {
+    const provider = new OsrmRoutingProvider(replay([[/\/route\/v1\//, FIXTURES.OSRM.route]]));
+
+    const [route, alternative] = await provider.routeAlternatives([KARMELICKA, LUBELSKA], { alternatives: true });
+
+    assert.equal(route.distance, 1454.2);
+    assert.equal(route.duration, 192.4);
+    assert.equal(route.geometry.length, 4);
+    assert.deepEqual(route.legs[0].steps.map(step => [step.maneuverType, step.modifier]), [
+      ["depart", undefined],
+      ["turn", "right"],
+      ["turn", "left"],
+      ["arrive", undefined],
+    ]);
+    assert.equal(route.legs[0].steps[2].instruction, "Turn left onto Lubelska");
+    assert.deepEqual(route.legs[0].steps[2].location, { lng: 19.945, lat: 50.0655 });
+    assert.equal(countLeftTurns(route), 1);
+    assert.equal(alternative.legs[0].steps[1].streetName, "Starowiślna");
+  });
+
+  it("routes without excluded road classes when the server has none", async () => {
+    // The recorded server rejects `exclude`
+    const { fetch, urls } = replay([[/alternatives=true$/, FIXTURES.OSRM.route]]);
+    const provider = new OsrmRoutingProvider({ fetch });
+
+    const [route] = await provider.routeAlternatives([KARMELICKA, LUBELSKA], { alternatives: true, avoidTolls: true });
+
+    assert.ok(urls[0].endsWith("&exclude=toll"));
+    assert.equal(urls.length, 2);
+    assert.deepEqual(route.applied, []);
+  });
+
+  it("reports the engine's reason when there is no route", async () => {
+    const provider = new OsrmRoutingProvider(replay([[/\/route\/v1\//, FIXTURES.OSRM.noRoute]]));
+
+    await assert.rejects(provider.route([KARMELICKA, LUBELSKA]), /Impossible route between points/);
+  });
+
+  it("parses the table", async () => {
+    const provider = new OsrmRoutingProvider(replay([[/\/table\/v1\//, FIXTURES.OSRM.table]]));
+
+    const table = await provider.table([KARMELICKA, LUBELSKA], [KARMELICKA, LUBELSKA]);
+
+    assert.deepEqual(table.durations, [[0, 192.4], [201.7, 0]]);
+    assert.deepEqual(table.distances, [[0, 1454.2], [1502.8, 0]]);
+  });
+});
+
+describe("OpenRouteServiceRoutingProvider", () => {
+  it("maps instruction types to maneuvers and places steps on the geometry", async () => {
+    const provider = new OpenRouteServiceRoutingProvider(replay([[/\/v2\/directions\//, FIXTURES.OpenRouteService.directions]]));
+
+    const route = await provider.route([KARMELICKA, LUBELSKA], { avoidHighways: true });
+    const steps = route.legs[0].steps;
+
+    assert.equal(route.distance, 1454.2);
+    assert.deepEqual(route.applied, ["avoidHighways"]);
+    assert.deepEqual(steps.map(step => [step.maneuverType, step.modifier]), [
+      ["depart", undefined],
+      ["turn", "right"],
+      ["turn", "left"],
+      ["arrive", undefined],
+    ]);
+    assert.equal(steps[1].instruction, "Turn right onto Aleje Trzech Wieszczów");
+    assert.deepEqual(steps[2].location, { lng: 19.945, lat: 50.0655 });
+    // ORS names unnamed roads "-"
+    assert.equal(steps[3].streetName, "");
+  });
+
+  it("parses the matrix", async () => {
+    const provider = new OpenRouteServiceRoutingProvider(replay([[/\/v2\/matrix\//, FIXTURES.OpenRouteService.matrix]]));
+
+    const table = await provider.table([KARMELICKA, LUBELSKA], [KARMELICKA, LUBELSKA]);
+
+    assert.deepEqual(table.durations, [[0, 192.4], [201.7, 0]]);
+    assert.deepEqual(table.distances, [[0, 1454.2], [1502.8, 0]]);
+  });
+});
+
+describe("ValhallaRoutingProvider", () => {
+  it("decodes the trip and its alternates in meters", async () => {
+    const provider = new ValhallaRoutingProvider(replay([[/\/route$/, FIXTURES.Valhalla.route]]));
+
+    const [route, alternative] = await provider.routeAlternatives([KARMELICKA, LUBELSKA], { alternatives: true });
+    const steps = route.legs[0].steps;
+
+    close(route.distance, 1454);
+    assert.equal(route.duration, 192.4);
+    assert.deepEqual(route.geometry, [[19.9368, 50.0619], [19.9368, 50.0655], [19.945, 50.0655], [19.945, 50.0697]]);
+    assert.deepEqual(steps.map(step => [step.maneuverType, step.modifier]), [
+      ["depart", "right"],
+      ["turn", "right"],
+      ["turn", "left"],
+      ["arrive", undefined],
+    ]);
+    close(steps[1].distance, 587);
+    assert.equal(steps[2].streetName, "Lubelska");
+    assert.deepEqual(steps[2].location, { lng: 19.945, lat: 50.0655 });
+    assert.equal(alternative.duration, 209.3);
+    assert.equal(countLeftTurns(alternative), 1);
+  });
+
+  it("parses the matrix, with no route as null", async () => {
+    const provider = new ValhallaRoutingProvider(replay([[/\/sources_to_targets$/, FIXTURES.Valhalla.matrix]]));
+
+    const table = await provider.table([KARMELICKA, LUBELSKA], [KARMELICKA, LUBELSKA]);
+
+    assert.deepEqual(table.durations, [[0, 192], [202, null]]);
+    close(table.distances[1][0] ?? 0, 1503);
+    assert.equal(table.distances[1][1], null);
+  });
+});
@@ -0,0 +1,767 @@
+import { LatLng, haversineDistance } from "./optimizer";
+import { RouteSettings, RoutingProviderType, TrafficDataProvider } from "./schema";
+
+// Road routing behind a common interface so the app can use the public OSRM
+// server, OpenRouteService, Valhalla, a self-hosted OSRM container or a
+// deterministic mock. Distances are in meters and durations in seconds, as
+// returned by the routing engines.
+
+export const DEFAULT_OSRM_URL = "https://router.project-osrm.org";
+export const DEFAULT_OPENROUTESERVICE_URL = "https://api.openrouteservice.org";
+export const DEFAULT_VALHALLA_URL = "https://valhalla1.openstreetmap.de";
+
+const METERS_PER_MILE = 1609.34;
+
+export interface RoutingStep {
+  distance: number;
+  duration: number;
+  // Maneuver in OSRM vocabulary: type ("turn", "depart", "arrive", ...) and
+  // modifier ("left", "slight right", ...)
+  maneuverType: string;
+  modifier?: string;
+  streetName: string;
+  instruction: string;
+  location: LatLng;
+}
+
+export interface RoutingLeg {
+  distance: number;
+  duration: number;
+  steps: RoutingStep[];
+}
+
+export interface RoutingResult {
+  distance: number;
+  duration: number;
+  // Route polyline as [lng, lat] pairs
+  geometry: [number, number][];
+  // One leg between each pair of consecutive waypoints
+  legs: RoutingLeg[];
+  // Preferences the engine actually applied to this route
+  applied: RoutePreference[];
+}
+
+// Route preferences from the route settings
+export interface RouteOptions {
+  avoidHighways?: boolean;
+  avoidTolls?: boolean;
+  // Shortest distance instead of fastest time
+  shortest?: boolean;
+  // Also ask for alternative routes, where the engine offers them
+  alternatives?: boolean;
+}
+
+export type RoutePreference = "avoidHighways" | "avoidTolls" | "shortest" | "minimizeLeftTurns";
+
+export const ROUTE_PREFERENCE_LABELS: Record<RoutePreference, string> = {
+  avoidHighways: "No highways",
+  avoidTolls: "No tolls",
+  shortest: "Shortest distance",
+  minimizeLeftTurns: "Fewer left turns",
+};
+
+// Drive times (seconds) and distances (meters) from each source to each
+// destination; null or missing where the engine found no route
+export interface RoutingTable {
+  durations: (number | null)[][];
+  distances: (number | null)[][];
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  // Most waypoints one route request may have
+  readonly maxWaypoints: number;
+  // Most points (sources and destinations together) one table request may have
+  readonly maxTableLocations: number;
+  // Driving route through the waypoints in the given order
+  route(waypoints: LatLng[], options?: RouteOptions): Promise<RoutingResult>;
+  // The engine's preferred route first, then any alternatives it found
+  routeAlternatives(waypoints: LatLng[], options?: RouteOptions): Promise<RoutingResult[]>;
+  // Drive times and distances between every source and destination
+  table(sources: LatLng[], destinations: LatLng[]): Promise<RoutingTable>;
+}
+
+export interface RoutingProviderOptions {
+  // Base URL of the routing server; each provider has a public default
+  url?: string | null;
+  apiKey?: string | null;
+  fetch?: typeof fetch;
+}
+
+// Extra seconds a left turn costs when minimizing them: it crosses oncoming
+// traffic (right-hand traffic assumed) and often waits for a gap or a signal
+const LEFT_TURN_PENALTY_SECONDS: Record<string, number> = {
+  "slight left": 5,
+  "left": 30,
+  "sharp left": 45,
+  "uturn": 60,
+};
+
+// Speed used to compare distances and turn penalties when optimizing for distance
+const COMPARISON_SPEED_METERS_PER_SECOND = (30 * METERS_PER_MILE) / 3600;
+
+function isTurnManeuver(step: RoutingStep): boolean {
+  return step.maneuverType !== "depart" && step.maneuverType !== "arrive";
+}
+
+export function countLeftTurns(route: RoutingResult): number {
+  return route.legs.reduce((count, leg) =>
+    count + leg.steps.filter(step => isTurnManeuver(step) && (step.modifier === "left" || step.modifier === "sharp left" || step.modifier === "uturn")).length,
+    0
+  );
+}
+
+export function leftTurnPenalty(route: RoutingResult): number {
+  return route.legs.reduce((total, leg) =>
+    total + leg.steps.reduce((sum, step) => sum + (isTurnManeuver(step) ? LEFT_TURN_PENALTY_SECONDS[step.modifier ?? ""] ?? 0 : 0), 0),
+    0
+  );
+}
+
+// Pick the best of the engine's routes: fastest (or shortest), counting left
+// turns against a route when minimizing them. `extraCost` adds seconds the
+// engine doesn't know about, like reported hazards. The engine's order breaks ties.
+export function chooseRoute(
+  routes: RoutingResult[],
+  preferences: { shortest?: boolean; minimizeLeftTurns?: boolean } = {},
+  extraCost?: (route: RoutingResult) => number
+): RoutingResult {
+  if (routes.length === 0) {
+    throw new Error("No route to choose from");
+  }
+
+  const cost = (route: RoutingResult) =>
+    (preferences.shortest ? route.distance / COMPARISON_SPEED_METERS_PER_SECOND : route.duration) +
+    (preferences.minimizeLeftTurns ? leftTurnPenalty(route) : 0) +
+    (extraCost ? extraCost(route) : 0);
+
+  return routes.reduce((best, route) => cost(route) < cost(best) ? route : best);
+}
+
+// Whether routes are charged for hazards reported by drivers
+export function usesCommunityReports(settings: RouteSettings): boolean {
+  return !!settings.realTimeTraffic && settings.trafficDataProvider === TrafficDataProvider.COMMUNITY;
+}
+
+// Routing preferences from the route settings. The engines that can optimize
+// for distance do so in the same multi-stop request as any other route, so
+// alternatives (one request per leg) are only compared when they can help:
+// fewer left turns or a way around reported hazards.
+export function routeOptionsFor(settings: RouteSettings): RouteOptions {
+  return {
+    avoidHighways: settings.avoidHighways ?? false,
+    avoidTolls: settings.avoidTolls ?? false,
+    shortest: settings.shortestDistance ?? false,
+    alternatives: !!(settings.minimizeLeftTurns || usesCommunityReports(settings)),
+  };
+}
+
+// Human-readable instruction for a maneuver, used when the engine doesn't provide one
+export function describeManeuver(type: string, modifier: string | undefined, streetName: string): string {
+  const onto = streetName ? ` onto ${streetName}` : "";
+
+  switch (type) {
+    case "depart":
+      return streetName ? `Head out on ${streetName}` : "Head out";
+    case "arrive":
+      return "Arrive at your destination";
+    case "roundabout":
+    case "rotary":
+      return `Enter the roundabout${streetName ? ` and exit onto ${streetName}` : ""}`;
+    case "merge":
+      return `Merge${onto}`;
+    case "on ramp":
+      return `Take the ramp${onto}`;
+    case "off ramp":
+      return `Take the exit${onto}`;
+    case "fork":
+      return `Keep ${modifier ?? "straight"} at the fork${onto}`;
+  }
+
+  if (modifier === "uturn") return `Make a U-turn${onto}`;
+  if (modifier === "straight" || !modifier) return `Continue straight${onto}`;
+  return `Turn ${modifier}${onto}`;
+}
+
+// The response types below only declare the fields the providers read, and
+// leave them optional where a server may omit them
+async function requestJSON<T>(
+  fetchImpl: typeof fetch,
+  url: string,
+  init?: RequestInit
+): Promise<T> {
+  const response = await fetchImpl(url, init);
+  if (!response.ok) {
+    throw new Error(`Routing request failed with ${response.status}`);
+  }
+  return response.json();
+}
+
+// Decode a Google-style encoded polyline (Valhalla uses 6 digits of precision)
+export function decodePolyline(encoded: string, precision = 6): [number, number][] {
+  const factor = Math.pow(10, precision);
+  const coordinates: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    coordinates.push([lng / factor, lat / factor]);
+  }
+
+  return coordinates;
+}
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name?: string;
+  maneuver?: { type?: string; modifier?: string; location?: [number, number] };
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  geometry?: { coordinates?: [number, number][] };
+  legs?: { distance: number; duration: number; steps?: OsrmStep[] }[];
+}
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes?: OsrmRoute[];
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations?: (number | null)[][];
+  distances?: (number | null)[][];
+}
+
+// OSRM HTTP API (public demo server or any self-hosted osrm-backend)
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  // The public demo server's limits; self-hosted servers default to more
+  readonly maxWaypoints = 100;
+  readonly maxTableLocations = 100;
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: RoutingProviderOptions = {}, name = "OSRM") {
+    this.name = name;
+    this.baseUrl = (options.url || DEFAULT_OSRM_URL).replace(/\/+$/, "");
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  async route(waypoints: LatLng[], options: RouteOptions = {}): Promise<RoutingResult> {
+    return (await this.routeAlternatives(waypoints, { ...options, alternatives: false }))[0];
+  }
+
+  // OSRM can't optimize for distance; highways and tolls are left out with
+  // `exclude`, which only works when the server's profile defines those classes
+  async routeAlternatives(waypoints: LatLng[], options: RouteOptions = {}): Promise<RoutingResult[]> {
+    const coordinates = waypoints.map(point => `${point.lng},${point.lat}`).join(";");
+    // Alternatives are only computed between two waypoints
+    const alternatives = !!options.alternatives && waypoints.length === 2;
+    const excluded: [RoutePreference, string][] = [];
+    if (options.avoidHighways) excluded.push(["avoidHighways", "motorway"]);
+    if (options.avoidTolls) excluded.push(["avoidTolls", "toll"]);
+
+    const request = (exclude: string[]) => requestJSON<OsrmRouteResponse>(
+      this.fetchImpl,
+      `${this.baseUrl}/route/v1/driving/${coordinates}?overview=full&steps=true&geometries=geojson` +
+        (alternatives ? "&alternatives=true" : "") +
+        (exclude.length ? `&exclude=${exclude.join(",")}` : "")
+    );
+
+    let data: OsrmRouteResponse;
+    let applied = excluded.map(([preference]) => preference);
+    try {
+      data = await request(excluded.map(([, roadClass]) => roadClass));
+    } catch (error) {
+      // Servers without those classes reject the request; route without them
+      if (excluded.length === 0) throw error;
+      data = await request([]);
+      applied = [];
+    }
+
+    if (data.code !== "Ok" || !data.routes?.length) {
+      throw new Error(`OSRM could not find a route: ${data.message ?? data.code}`);
+    }
+
+    return data.routes.map(route => this.parseRoute(route, applied));
+  }
+
+  async table(sources: LatLng[], destinations: LatLng[]): Promise<RoutingTable> {
+    const coordinates = [...sources, ...destinations].map(point => `${point.lng},${point.lat}`).join(";");
+    // OSRM wants the index lists' separators unescaped
+    const data = await requestJSON<OsrmTableResponse>(
+      this.fetchImpl,
+      `${this.baseUrl}/table/v1/driving/${coordinates}?annotations=duration,distance` +
+        `&sources=${sources.map((_, index) => index).join(";")}` +
+        `&destinations=${destinations.map((_, index) => sources.length + index).join(";")}`
+    );
+
+    if (data.code !== "Ok" || !data.durations) {
+      throw new Error(`OSRM could not compute a table: ${data.message ?? data.code}`);
+    }
+    // Older servers only return durations
+    return { durations: data.durations, distances: data.distances ?? [] };
+  }
+
+  private parseRoute(route: OsrmRoute, applied: RoutePreference[]): RoutingResult {
+    return {
+      distance: route.distance,
+      duration: route.duration,
+      geometry: route.geometry?.coordinates ?? [],
+      applied,
+      legs: (route.legs ?? []).map(leg => ({
+        distance: leg.distance,
+        duration: leg.duration,
+        steps: (leg.steps ?? []).map(step => {
+          const type = step.maneuver?.type ?? "turn";
+          const modifier = step.maneuver?.modifier;
+          const streetName = step.name ?? "";
+          return {
+            distance: step.distance,
+            duration: step.duration,
+            maneuverType: type,
+            modifier,
+            streetName,
+            instruction: describeManeuver(type, modifier, streetName),
+            location: { lng: step.maneuver?.location?.[0] ?? 0, lat: step.maneuver?.location?.[1] ?? 0 },
+          };
+        }),
+      })),
+    };
+  }
+}
+
+// OpenRouteService instruction types mapped to OSRM maneuvers
+const ORS_MANEUVERS: Record<number, { type: string; modifier?: string }> = {
+  0: { type: "turn", modifier: "left" },
+  1: { type: "turn", modifier: "right" },
+  2: { type: "turn", modifier: "sharp left" },
+  3: { type: "turn", modifier: "sharp right" },
+  4: { type: "turn", modifier: "slight left" },
+  5: { type: "turn", modifier: "slight right" },
+  6: { type: "continue", modifier: "straight" },
+  7: { type: "roundabout" },
+  8: { type: "exit roundabout" },
+  9: { type: "turn", modifier: "uturn" },
+  10: { type: "arrive" },
+  11: { type: "depart" },
+  12: { type: "fork", modifier: "left" },
+  13: { type: "fork", modifier: "right" },
+};
+
+interface OrsStep {
+  type: number;
+  distance?: number;
+  duration?: number;
+  name?: string;
+  instruction?: string;
+  // First and last index of the step in the route's geometry
+  way_points?: [number, number];
+}
+
+interface OrsFeature {
+  geometry?: { coordinates?: [number, number][] };
+  properties?: {
+    summary?: { distance?: number; duration?: number };
+    segments?: { distance?: number; duration?: number; steps?: OrsStep[] }[];
+  };
+}
+
+interface OrsDirectionsResponse {
+  features?: OrsFeature[];
+}
+
+interface OrsMatrixResponse {
+  durations?: (number | null)[][];
+  distances?: (number | null)[][];
+}
+
+// OpenRouteService directions API (hosted with an API key, or self-hosted)
+export class OpenRouteServiceRoutingProvider implements RoutingProvider {
+  readonly name = "OpenRouteService";
+  // The hosted API's limits
+  readonly maxWaypoints = 50;
+  readonly maxTableLocations = 100;
+  private baseUrl: string;
+  private apiKey: string | null;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: RoutingProviderOptions = {}) {
+    this.baseUrl = (options.url || DEFAULT_OPENROUTESERVICE_URL).replace(/\/+$/, "");
+    this.apiKey = options.apiKey ?? null;
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  async route(waypoints: LatLng[], options: RouteOptions = {}): Promise<RoutingResult> {
+    return (await this.routeAlternatives(waypoints, { ...options, alternatives: false }))[0];
+  }
+
+  async routeAlternatives(waypoints: LatLng[], options: RouteOptions = {}): Promise<RoutingResult[]> {
+    const avoidFeatures: string[] = [];
+    if (options.avoidHighways) avoidFeatures.push("highways");
+    if (options.avoidTolls) avoidFeatures.push("tollways");
+
+    const data = await requestJSON<OrsDirectionsResponse>(this.fetchImpl, `${this.baseUrl}/v2/directions/driving-car/geojson`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: this.apiKey } : {}),
+      },
+      body: JSON.stringify({
+        coordinates: waypoints.map(point => [point.lng, point.lat]),
+        instructions: true,
+        preference: options.shortest ? "shortest" : "fastest",
+        ...(avoidFeatures.length ? { options: { avoid_features: avoidFeatures } } : {}),
+        // Alternatives are only computed between two waypoints
+        ...(options.alternatives && waypoints.length === 2
+          ? { alternative_routes: { target_count: 3, share_factor: 0.6, weight_factor: 1.4 } }
+          : {}),
+      }),
+    });
+
+    if (!data.features?.length) {
+      throw new Error("OpenRouteService could not find a route");
+    }
+
+    const applied: RoutePreference[] = [];
+    if (options.avoidHighways) applied.push("avoidHighways");
+    if (options.avoidTolls) applied.push("avoidTolls");
+    if (options.shortest) applied.push("shortest");
+
+    return data.features.map(feature => this.parseFeature(feature, applied));
+  }
+
+  async table(sources: LatLng[], destinations: LatLng[]): Promise<RoutingTable> {
+    const data = await requestJSON<OrsMatrixResponse>(this.fetchImpl, `${this.baseUrl}/v2/matrix/driving-car`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: this.apiKey } : {}),
+      },
+      body: JSON.stringify({
+        locations: [...sources, ...destinations].map(point => [point.lng, point.lat]),
+        sources: sources.map((_, index) => index),
+        destinations: destinations.map((_, index) => sources.length + index),
+        metrics: ["duration", "distance"],
+        units: "m",
+      }),
+    });
+
+    if (!data.durations) {
+      throw new Error("OpenRouteService could not compute a table");
+    }
+    return { durations: data.durations, distances: data.distances ?? [] };
+  }
+
+  private parseFeature(feature: OrsFeature, applied: RoutePreference[]): RoutingResult {
+    const geometry: [number, number][] = feature.geometry?.coordinates ?? [];
+    return {
+      distance: feature.properties?.summary?.distance ?? 0,
+      duration: feature.properties?.summary?.duration ?? 0,
+      geometry,
+      applied,
+      legs: (feature.properties?.segments ?? []).map(segment => ({
+        distance: segment.distance ?? 0,
+        duration: segment.duration ?? 0,
+        steps: (segment.steps ?? []).map(step => {
+          const maneuver = ORS_MANEUVERS[step.type] ?? { type: "turn" };
+          const position = (step.way_points && geometry[step.way_points[0]]) ?? [0, 0];
+          const streetName = step.name && step.name !== "-" ? step.name : "";
+          return {
+            distance: step.distance ?? 0,
+            duration: step.duration ?? 0,
+            maneuverType: maneuver.type,
+            modifier: maneuver.modifier,
+            streetName,
+            instruction: step.instruction || describeManeuver(maneuver.type, maneuver.modifier, streetName),
+            location: { lng: position[0], lat: position[1] },
+          };
+        }),
+      })),
+    };
+  }
+}
+
+// Valhalla maneuver types mapped to OSRM maneuvers
+const VALHALLA_MANEUVERS: Record<number, { type: string; modifier?: string }> = {
+  1: { type: "depart" },
+  2: { type: "depart", modifier: "right" },
+  3: { type: "depart", modifier: "left" },
+  4: { type: "arrive" },
+  5: { type: "arrive", modifier: "right" },
+  6: { type: "arrive", modifier: "left" },
+  7: { type: "new name", modifier: "straight" },
+  8: { type: "continue", modifier: "straight" },
+  9: { type: "turn", modifier: "slight right" },
+  10: { type: "turn", modifier: "right" },
+  11: { type: "turn", modifier: "sharp right" },
+  12: { type: "turn", modifier: "uturn" },
+  13: { type: "turn", modifier: "uturn" },
+  14: { type: "turn", modifier: "sharp left" },
+  15: { type: "turn", modifier: "left" },
+  16: { type: "turn", modifier: "slight left" },
+  17: { type: "on ramp", modifier: "straight" },
+  18: { type: "on ramp", modifier: "right" },
+  19: { type: "on ramp", modifier: "left" },
+  20: { type: "off ramp", modifier: "right" },
+  21: { type: "off ramp", modifier: "left" },
+  22: { type: "fork", modifier: "straight" },
+  23: { type: "fork", modifier: "right" },
+  24: { type: "fork", modifier: "left" },
+  25: { type: "merge" },
+  26: { type: "roundabout" },
+  27: { type: "exit roundabout" },
+};
+
+// Lengths in kilometers, times in seconds
+interface ValhallaSummary {
+  length?: number;
+  time?: number;
+}
+
+interface ValhallaManeuver {
+  type: number;
+  instruction?: string;
+  street_names?: string[];
+  length?: number;
+  time?: number;
+  begin_shape_index: number;
+}
+
+interface ValhallaTrip {
+  summary?: ValhallaSummary;
+  legs?: { shape?: string; summary?: ValhallaSummary; maneuvers?: ValhallaManeuver[] }[];
+}
+
+interface ValhallaRouteResponse {
+  trip?: ValhallaTrip;
+  alternates?: { trip?: ValhallaTrip }[];
+}
+
+interface ValhallaMatrixResponse {
+  // Distances in kilometers, times in seconds; null where there is no route
+  sources_to_targets?: ({ distance?: number | null; time?: number | null } | null)[][];
+}
+
+// Valhalla route API (public FOSSGIS instance or self-hosted)
+export class ValhallaRoutingProvider implements RoutingProvider {
+  readonly name = "Valhalla";
+  // The public FOSSGIS instance's limits
+  readonly maxWaypoints = 20;
+  readonly maxTableLocations = 50;
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: RoutingProviderOptions = {}) {
+    this.baseUrl = (options.url || DEFAULT_VALHALLA_URL).replace(/\/+$/, "");
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  async route(waypoints: LatLng[], options: RouteOptions = {}): Promise<RoutingResult> {
+    return (await this.routeAlternatives(waypoints, { ...options, alternatives: false }))[0];
+  }
+
+  async routeAlternatives(waypoints: LatLng[], options: RouteOptions = {}): Promise<RoutingResult[]> {
+    // use_highways and use_tolls range from 0 (avoid) to 1 (prefer), 0.5 by default
+    const costing: Record<string, unknown> = {};
+    if (options.avoidHighways) costing.use_highways = 0;
+    if (options.avoidTolls) costing.use_tolls = 0;
+    if (options.shortest) costing.shortest = true;
+
+    const data = await requestJSON<ValhallaRouteResponse>(this.fetchImpl, `${this.baseUrl}/route`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        locations: waypoints.map(point => ({ lat: point.lat, lon: point.lng })),
+        costing: "auto",
+        costing_options: { auto: costing },
+        directions_options: { units: "kilometers" },
+        // Alternatives are only computed between two waypoints
+        ...(options.alternatives && waypoints.length === 2 ? { alternates: 2 } : {}),
+      }),
+    });
+
+    if (!data.trip?.legs?.length) {
+      throw new Error("Valhalla could not find a route");
+    }
+
+    const applied: RoutePreference[] = [];
+    if (options.avoidHighways) applied.push("avoidHighways");
+    if (options.avoidTolls) applied.push("avoidTolls");
+    if (options.shortest) applied.push("shortest");
+
+    const trips = [data.trip, ...(data.alternates ?? []).map(alternate => alternate.trip)]
+      .filter((trip): trip is ValhallaTrip => !!trip?.legs?.length);
+    return trips.map(trip => this.parseTrip(trip, applied));
+  }
+
+  async table(sources: LatLng[], destinations: LatLng[]): Promise<RoutingTable> {
+    const data = await requestJSON<ValhallaMatrixResponse>(this.fetchImpl, `${this.baseUrl}/sources_to_targets`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sources: sources.map(point => ({ lat: point.lat, lon: point.lng })),
+        targets: destinations.map(point => ({ lat: point.lat, lon: point.lng })),
+        costing: "auto",
+        units: "kilometers",
+      }),
+    });
+
+    if (!Array.isArray(data.sources_to_targets)) {
+      throw new Error("Valhalla could not compute a table");
+    }
+    const rows = data.sources_to_targets;
+    return {
+      durations: rows.map(row => row.map(cell => cell?.time ?? null)),
+      distances: rows.map(row => row.map(cell => cell?.distance != null ? cell.distance * 1000 : null)),
+    };
+  }
+
+  private parseTrip(trip: ValhallaTrip, applied: RoutePreference[]): RoutingResult {
+    const geometry: [number, number][] = [];
+    const legs: RoutingLeg[] = (trip.legs ?? []).map(leg => {
+      const shape = decodePolyline(leg.shape ?? "");
+      geometry.push(...shape);
+
+      return {
+        distance: (leg.summary?.length ?? 0) * 1000,
+        duration: leg.summary?.time ?? 0,
+        steps: (leg.maneuvers ?? []).map(maneuver => {
+          const mapped = VALHALLA_MANEUVERS[maneuver.type] ?? { type: "turn" };
+          const position = shape[maneuver.begin_shape_index] ?? [0, 0];
+          const streetName = maneuver.street_names?.[0] ?? "";
+          return {
+            distance: (maneuver.length ?? 0) * 1000,
+            duration: maneuver.time ?? 0,
+            maneuverType: mapped.type,
+            modifier: mapped.modifier,
+            streetName,
+            instruction: maneuver.instruction || describeManeuver(mapped.type, mapped.modifier, streetName),
+            location: { lng: position[0], lat: position[1] },
+          };
+        }),
+      };
+    });
+
+    return {
+      distance: (trip.summary?.length ?? 0) * 1000,
+      duration: trip.summary?.time ?? 0,
+      geometry,
+      legs,
+      applied,
+    };
+  }
+}
+
+// Deterministic provider for tests and offline development: straight lines
+// lengthened by a constant road factor and driven at a constant speed
+export class MockRoutingProvider implements RoutingProvider {
+  readonly name = "Mock";
+  readonly maxWaypoints = Infinity;
+  readonly maxTableLocations = Infinity;
+  static readonly ROAD_FACTOR = 1.3;
+  static readonly SPEED_METERS_PER_SECOND = (30 * METERS_PER_MILE) / 3600; // 30 mph
+
+  private static distance(from: LatLng, to: LatLng): number {
+    return haversineDistance(from, to) * METERS_PER_MILE * MockRoutingProvider.ROAD_FACTOR;
+  }
+
+  async table(sources: LatLng[], destinations: LatLng[]): Promise<RoutingTable> {
+    const distances = sources.map(from => destinations.map(to => MockRoutingProvider.distance(from, to)));
+    return {
+      durations: distances.map(row => row.map(distance => distance / MockRoutingProvider.SPEED_METERS_PER_SECOND)),
+      distances,
+    };
+  }
+
+  async routeAlternatives(waypoints: LatLng[]): Promise<RoutingResult[]> {
+    return [await this.route(waypoints)];
+  }
+
+  // Straight lines have no road classes to avoid, so options don't apply
+  async route(waypoints: LatLng[]): Promise<RoutingResult> {
+    if (waypoints.length < 2) {
+      throw new Error("At least two waypoints are required");
+    }
+
+    const legs: RoutingLeg[] = [];
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const from = waypoints[i];
+      const to = waypoints[i + 1];
+      const distance = MockRoutingProvider.distance(from, to);
+      const duration = distance / MockRoutingProvider.SPEED_METERS_PER_SECOND;
+
+      legs.push({
+        distance,
+        duration,
+        steps: [
+          {
+            distance,
+            duration,
+            maneuverType: "depart",
+            streetName: "",
+            instruction: describeManeuver("depart", undefined, ""),
+            location: from,
+          },
+          {
+            distance: 0,
+            duration: 0,
+            maneuverType: "arrive",
+            streetName: "",
+            instruction: describeManeuver("arrive", undefined, ""),
+            location: to,
+          },
+        ],
+      });
+    }
+
+    return {
+      distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+      duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+      geometry: waypoints.map(point => [point.lng, point.lat]),
+      legs,
+      applied: [],
+    };
+  }
+}
+
+// Build the routing provider for a provider type from the settings or server config
+export function createRoutingProvider(type: string | null | undefined, options: RoutingProviderOptions = {}): RoutingProvider {
+  switch (type) {
+    case RoutingProviderType.OPENROUTESERVICE:
+      return new OpenRouteServiceRoutingProvider(options);
+    case RoutingProviderType.VALHALLA:
+      return new ValhallaRoutingProvider(options);
+    case RoutingProviderType.SELF_HOSTED:
+      if (!options.url) {
+        throw new Error("A self-hosted routing provider needs a URL");
+      }
+      return new OsrmRoutingProvider(options, RoutingProviderType.SELF_HOSTED);
+    case RoutingProviderType.MOCK:
+      return new MockRoutingProvider();
+    case RoutingProviderType.OSRM:
+    default:
+      return new OsrmRoutingProvider(options);
+  }
+}
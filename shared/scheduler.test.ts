@@ -0,0 +1,150 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Priority, TimeWindow } from "./schema";
+import {
+  DEFAULT_SERVICE_MINUTES,
+  EXACT_TIME_LEAD_MINUTES,
+  SchedulableStop,
+  formatTimeOfDay,
+  getDeliveryWindow,
+  parseTimeOfDay,
+  retryAfterMinutes,
+  scheduleCost,
+  scheduleStops,
+  sortByDeadline,
+} from "./scheduler";
+
+const NINE = 9 * 60;
+const DAY = new Date(2026, 9, 19);
+
+describe("time of day", () => {
+  it("parses and formats clock times", () => {
+    assert.equal(parseTimeOfDay("14:30"), 14 * 60 + 30);
+    assert.equal(parseTimeOfDay("7:05"), 7 * 60 + 5);
+    assert.equal(parseTimeOfDay("24:00"), null);
+    assert.equal(parseTimeOfDay(""), null);
+    assert.equal(formatTimeOfDay(14 * 60 + 5), "2:05 PM");
+    assert.equal(formatTimeOfDay(0), "12:00 AM");
+    assert.equal(formatTimeOfDay(24 * 60 + 30), "12:30 AM");
+  });
+});
+
+describe("getDeliveryWindow", () => {
+  it("opens an exact time's hard window 15 minutes before it", () => {
+    assert.deepEqual(getDeliveryWindow({ id: 1, exactDeliveryTime: "10:00", timeWindow: TimeWindow.AFTERNOON }), {
+      start: 10 * 60 - EXACT_TIME_LEAD_MINUTES,
+      end: 10 * 60,
+      hard: true,
+    });
+  });
+
+  it("turns named windows into soft windows", () => {
+    assert.deepEqual(getDeliveryWindow({ id: 1, timeWindow: TimeWindow.MORNING }), { start: 8 * 60, end: 12 * 60, hard: false });
+    assert.equal(getDeliveryWindow({ id: 1, timeWindow: TimeWindow.ANY }), null);
+  });
+});
+
+describe("scheduleStops", () => {
+  it("drives, serves and moves on", () => {
+    const schedule = scheduleStops([{ id: 1 }, { id: 2, serviceTime: 12 }], [10, 20], NINE, DAY);
+
+    assert.deepEqual(schedule.map(stop => [stop.arrival, stop.departure]), [
+      [NINE + 10, NINE + 10 + DEFAULT_SERVICE_MINUTES],
+      [NINE + 35, NINE + 47],
+    ]);
+    assert.ok(schedule.every(stop => stop.waitMinutes === 0 && stop.latenessMinutes === 0 && stop.window === null));
+  });
+
+  it("waits for a window to open and records lateness after it closes", () => {
+    const [early, late] = scheduleStops(
+      [{ id: 1, timeWindow: TimeWindow.AFTERNOON }, { id: 2, timeWindow: TimeWindow.AFTERNOON }],
+      [60, 5 * 60],
+      10 * 60,
+      DAY
+    );
+
+    // Arrives at 11:00, serves at 12:00
+    assert.equal(early.waitMinutes, 60);
+    assert.equal(early.departure, 12 * 60 + DEFAULT_SERVICE_MINUTES);
+    // Arrives at 17:05
+    assert.equal(late.latenessMinutes, DEFAULT_SERVICE_MINUTES);
+    assert.equal(late.missedHardWindow, false);
+  });
+
+  it("holds exact delivery times to the 15 minutes before them", () => {
+    const stop = { id: 1, exactDeliveryTime: "10:00" };
+
+    // Arrives at 9:30; the window opens at 9:45
+    assert.equal(scheduleStops([stop], [30], NINE, DAY)[0].waitMinutes, 15);
+    assert.equal(scheduleStops([stop], [50], NINE, DAY)[0].missedHardWindow, false);
+    assert.equal(scheduleStops([stop], [60], NINE, DAY)[0].missedHardWindow, false);
+
+    const missed = scheduleStops([stop], [61], NINE, DAY)[0];
+    assert.equal(missed.missedHardWindow, true);
+    assert.equal(missed.latenessMinutes, 1);
+  });
+
+  it("waits until a retry is due", () => {
+    const retry = { id: 1, retryAfter: new Date(2026, 9, 19, 11, 0) };
+
+    assert.equal(retryAfterMinutes(retry, DAY), 11 * 60);
+    assert.equal(scheduleStops([retry], [10], NINE, DAY)[0].waitMinutes, 2 * 60 - 10);
+    // Yesterday's retry no longer holds the stop back
+    assert.equal(scheduleStops([retry], [10], NINE, new Date(2026, 9, 20))[0].waitMinutes, 0);
+  });
+});
+
+describe("scheduleCost", () => {
+  it("adds lateness to the route's duration, far more for hard windows", () => {
+    const soft = [{ id: 1, timeWindow: TimeWindow.MORNING }];
+    const hard = [{ id: 1, exactDeliveryTime: "11:50" }];
+    const start = 11 * 60;
+
+    // Both arrive at 12:10, ten or twenty minutes late, and leave five minutes later
+    const softCost = scheduleCost(soft, scheduleStops(soft, [70], start, DAY), start);
+    const hardCost = scheduleCost(hard, scheduleStops(hard, [70], start, DAY), start);
+
+    assert.equal(softCost, 75 + 10);
+    assert.equal(hardCost, 75 + 20 * 1000);
+  });
+
+  it("charges lateness at high-priority stops more", () => {
+    const normal = [{ id: 1, timeWindow: TimeWindow.MORNING }];
+    const high = [{ id: 1, timeWindow: TimeWindow.MORNING, priority: Priority.HIGH }];
+    const start = 11 * 60;
+
+    const normalCost = scheduleCost(normal, scheduleStops(normal, [70], start, DAY), start);
+    const highCost = scheduleCost(high, scheduleStops(high, [70], start, DAY), start);
+
+    assert.equal(highCost - normalCost, 2 * 10);
+  });
+
+  it("rewards reaching important stops early when priorities are weighted", () => {
+    const stops: SchedulableStop[] = [{ id: 1, priority: Priority.LOW }, { id: 2, priority: Priority.HIGH }];
+    const reversed = [...stops].reverse();
+
+    const lowFirst = scheduleCost(stops, scheduleStops(stops, [10, 10], NINE, DAY), NINE, 1);
+    const highFirst = scheduleCost(reversed, scheduleStops(reversed, [10, 10], NINE, DAY), NINE, 1);
+
+    assert.ok(highFirst < lowFirst);
+    assert.equal(scheduleCost(stops, scheduleStops(stops, [10, 10], NINE, DAY), NINE, 0), 30);
+  });
+
+  it("costs nothing for an empty route", () => {
+    assert.equal(scheduleCost([], [], NINE), 0);
+  });
+});
+
+describe("sortByDeadline", () => {
+  it("orders by closing time and keeps stops without a window last, in order", () => {
+    const stops = [
+      { id: 1 },
+      { id: 2, timeWindow: TimeWindow.EVENING },
+      { id: 3, exactDeliveryTime: "09:30" },
+      { id: 4 },
+      { id: 5, timeWindow: TimeWindow.MORNING },
+    ];
+
+    assert.deepEqual(sortByDeadline(stops).map(stop => stop.id), [3, 5, 2, 1, 4]);
+  });
+});
@@ -0,0 +1,186 @@
+import { TimeWindow } from "./schema";
+import { getPriorityMultiplier, priorityPenalty } from "./priority";
+
+// Time-window scheduling for delivery stops. All times are minutes since midnight
+// on the day the route is driven.
+
+// Minutes spent at a stop when the address does not specify its own service time
+export const DEFAULT_SERVICE_MINUTES = 5;
+
+// Exact delivery times are met by arriving within this many minutes before the time
+export const EXACT_TIME_LEAD_MINUTES = 15;
+
+// Cost per minute of lateness; hard windows are effectively infeasible when missed
+const SOFT_LATENESS_PENALTY = 1;
+const HARD_LATENESS_PENALTY = 1000;
+
+export interface DeliveryWindow {
+  start: number;
+  end: number;
+  // Hard windows (exact delivery times) must be met; soft windows only add a lateness penalty
+  hard: boolean;
+}
+
+export interface SchedulableStop {
+  id: number;
+  timeWindow?: string | null;
+  exactDeliveryTime?: string | null;
+  serviceTime?: number | null;
+  priority?: string | null;
+  // A stop retried after a failed attempt isn't served before this time
+  retryAfter?: Date | string | null;
+}
+
+export interface StopSchedule {
+  id: number;
+  arrival: number;
+  departure: number;
+  waitMinutes: number;
+  latenessMinutes: number;
+  window: DeliveryWindow | null;
+  missedHardWindow: boolean;
+}
+
+const TIME_WINDOW_RANGES: Record<string, [number, number]> = {
+  [TimeWindow.MORNING]: [8 * 60, 12 * 60],
+  [TimeWindow.AFTERNOON]: [12 * 60, 17 * 60],
+  [TimeWindow.EVENING]: [17 * 60, 20 * 60],
+};
+
+// Parse "HH:MM" (24h) into minutes since midnight
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+export function minutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+}
+
+// Format minutes since midnight as a 12-hour clock time, e.g. "2:05 PM"
+export function formatTimeOfDay(minutes: number): string {
+  const normalized = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  const suffix = hours < 12 ? "AM" : "PM";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+
+  return `${displayHours}:${mins.toString().padStart(2, "0")} ${suffix}`;
+}
+
+// Resolve the window a stop has to be served in. Exact delivery times take precedence.
+export function getDeliveryWindow(stop: SchedulableStop): DeliveryWindow | null {
+  const exactTime = parseTimeOfDay(stop.exactDeliveryTime);
+  if (exactTime !== null) {
+    return { start: exactTime - EXACT_TIME_LEAD_MINUTES, end: exactTime, hard: true };
+  }
+
+  const range = stop.timeWindow ? TIME_WINDOW_RANGES[stop.timeWindow] : undefined;
+  if (range) {
+    return { start: range[0], end: range[1], hard: false };
+  }
+
+  return null;
+}
+
+export function hasDeliveryWindow(stop: SchedulableStop): boolean {
+  return getDeliveryWindow(stop) !== null;
+}
+
+// When a stop waiting for a retry may be served again, in minutes since midnight
+// on `day` (past the end of the day when the retry is tomorrow)
+export function retryAfterMinutes(stop: SchedulableStop, day: Date): number | null {
+  if (!stop.retryAfter) return null;
+
+  const midnight = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  return (new Date(stop.retryAfter).getTime() - midnight.getTime()) / 60000;
+}
+
+// Build a timeline for stops visited in order. travelMinutes[i] is the drive time
+// into stops[i] from the previous stop (or from the route start for i = 0).
+// `day` is the date the route is driven, for stops waiting for a retry.
+export function scheduleStops(
+  stops: SchedulableStop[],
+  travelMinutes: number[],
+  startMinutes: number,
+  day: Date = new Date()
+): StopSchedule[] {
+  const schedule: StopSchedule[] = [];
+  let clock = startMinutes;
+
+  stops.forEach((stop, index) => {
+    const window = getDeliveryWindow(stop);
+    const arrival = clock + (travelMinutes[index] ?? 0);
+
+    // Arriving early means waiting until the window opens or the retry is due
+    const serviceStart = Math.max(arrival, window?.start ?? arrival, retryAfterMinutes(stop, day) ?? arrival);
+    const waitMinutes = serviceStart - arrival;
+    const latenessMinutes = window ? Math.max(0, serviceStart - window.end) : 0;
+    const departure = serviceStart + (stop.serviceTime ?? DEFAULT_SERVICE_MINUTES);
+
+    schedule.push({
+      id: stop.id,
+      arrival,
+      departure,
+      waitMinutes,
+      latenessMinutes,
+      window,
+      missedHardWindow: !!window?.hard && latenessMinutes > 0,
+    });
+
+    clock = departure;
+  });
+
+  return schedule;
+}
+
+// Objective used when ordering stops: time on the road plus lateness penalties.
+// Lateness is scaled by stop priority, and a positive priorityWeight additionally
+// rewards reaching higher-priority stops earlier.
+export function scheduleCost(
+  stops: SchedulableStop[],
+  schedule: StopSchedule[],
+  startMinutes: number,
+  priorityWeight: number = 0
+): number {
+  if (schedule.length === 0) return 0;
+
+  const duration = schedule[schedule.length - 1].departure - startMinutes;
+  const latenessPenalty = schedule.reduce((total, stop, index) => {
+    const rate = stop.window?.hard
+      ? HARD_LATENESS_PENALTY
+      : SOFT_LATENESS_PENALTY * getPriorityMultiplier(stops[index].priority);
+    return total + stop.latenessMinutes * rate;
+  }, 0);
+
+  const arrivalOffsets = schedule.map(stop => stop.arrival - startMinutes);
+
+  return duration + latenessPenalty + priorityPenalty(stops, arrivalOffsets, priorityWeight);
+}
+
+// Earliest-deadline-first ordering; stops without a window go last, keeping their order
+export function sortByDeadline<T extends SchedulableStop>(stops: T[]): T[] {
+  return stops
+    .map((stop, index) => ({ stop, index, window: getDeliveryWindow(stop) }))
+    .sort((a, b) => {
+      const deadlineA = a.window?.end ?? Number.MAX_VALUE;
+      const deadlineB = b.window?.end ?? Number.MAX_VALUE;
+      return deadlineA - deadlineB || a.index - b.index;
+    })
+    .map(({ stop }) => stop);
+}
+
+// How a completed delivery compared to its window, for route summaries
+export function evaluateDeliveryTime(stop: SchedulableStop, deliveredAt: Date): { onTime: boolean; latenessMinutes: number } {
+  const window = getDeliveryWindow(stop);
+  if (!window) return { onTime: true, latenessMinutes: 0 };
+
+  const latenessMinutes = Math.max(0, Math.round(minutesOfDay(deliveredAt) - window.end));
+  return { onTime: latenessMinutes === 0, latenessMinutes };
+}
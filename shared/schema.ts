@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { GeocodeCandidate } from "./geocoding";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -18,23 +19,86 @@ export const addresses = pgTable("addresses", {
   fullAddress: text("full_address").notNull(),
   latitude: text("latitude"),
   longitude: text("longitude"),
+  geocodeStatus: text("geocode_status"), // empty until the geocoder has been asked
+  geocodeCandidates: jsonb("geocode_candidates").$type<GeocodeCandidate[]>(), // matches, best first
   timeWindow: text("time_window").default("Any time"),
   exactDeliveryTime: text("exact_delivery_time"),
+  serviceTime: integer("service_time"), // minutes spent at the stop
   priority: text("priority").default("Normal"),
   specialInstructions: text("special_instructions"),
+  // Customer contact for delivery notifications
+  customerPhone: text("customer_phone"),
+  customerEmail: text("customer_email"),
+  trackingToken: text("tracking_token").unique(), // secret of the public tracking page, created with the first notification
+  estimatedArrival: timestamp("estimated_arrival"), // latest ETA reported by the driver's device
   userId: integer("user_id").references(() => users.id),
+  routeId: integer("route_id").references(() => routes.id, { onDelete: "set null" }),
   status: text("status").default("Pending"),
+  statusUpdatedAt: timestamp("status_updated_at"), // when the driver set the status, per the device clock
   deliveredAt: timestamp("delivered_at"),
+  failureReason: text("failure_reason"), // a FailureReason
+  notes: text("notes"), // driver's notes from the stop
+  attemptCount: integer("attempt_count").default(0), // failed delivery attempts so far
+  retryAfter: timestamp("retry_after"), // earliest time to try again after a failed attempt
+  // Proof of delivery: who took the parcel, plus photo and signature image file names
+  recipientName: text("recipient_name"),
+  proofPhoto: text("proof_photo"),
+  proofSignature: text("proof_signature"),
   sequence: integer("sequence"),
 });
 
+// Optional text field where a blank value means none
+function blankAsNull<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    value => typeof value === "string" && !value.trim() ? null : value,
+    schema.nullable().optional()
+  );
+}
+
 export const insertAddressSchema = createInsertSchema(addresses).pick({
   fullAddress: true,
   timeWindow: true,
   exactDeliveryTime: true,
+  serviceTime: true,
   priority: true,
   specialInstructions: true,
+  customerPhone: true,
+  customerEmail: true,
   userId: true,
+}).extend({
+  serviceTime: z.number().int().min(0).nullable().optional(), // whole minutes
+  // Notifications are mailed here
+  customerEmail: blankAsNull(z.string().trim().email()),
+});
+
+// Fields an address edit may change; status and route assignment go through the status endpoint
+export const updateAddressSchema = insertAddressSchema.pick({
+  fullAddress: true,
+  timeWindow: true,
+  exactDeliveryTime: true,
+  serviceTime: true,
+  priority: true,
+  specialInstructions: true,
+  customerPhone: true,
+  customerEmail: true,
+}).partial();
+
+// Saved places a route can start at, end at or come back to for reloading
+export const depots = pgTable("depots", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind").notNull().default("Warehouse"), // a DepotKind
+  fullAddress: text("full_address").notNull(),
+  latitude: text("latitude"),
+  longitude: text("longitude"),
+  geocodeStatus: text("geocode_status"), // empty until the geocoder has been asked
+  userId: integer("user_id").references(() => users.id),
+});
+
+export const insertDepotSchema = createInsertSchema(depots).pick({
+  name: true,
+  kind: true,
+  fullAddress: true,
 });
 
 export const routeSettings = pgTable("route_settings", {
@@ -46,9 +110,18 @@ export const routeSettings = pgTable("route_settings", {
   minimizeLeftTurns: boolean("minimize_left_turns").default(false),
   startingPoint: text("starting_point").default("Current Location"),
   returnToStart: boolean("return_to_start").default(false),
+  // Depots used instead of the free-text starting point; the route returns to
+  // the end depot when set, otherwise to the start when returnToStart is on
+  startDepotId: integer("start_depot_id").references(() => depots.id, { onDelete: "set null" }),
+  endDepotId: integer("end_depot_id").references(() => depots.id, { onDelete: "set null" }),
+  reloadDepotId: integer("reload_depot_id").references(() => depots.id, { onDelete: "set null" }),
+  reloadAfterStops: integer("reload_after_stops"), // stops between visits to the reload depot
   offlineMode: boolean("offline_mode").default(false),
   offlineMapsLastUpdated: timestamp("offline_maps_last_updated"),
   trafficDataProvider: text("traffic_data_provider").default("OpenData"),
+  priorityWeighting: text("priority_weighting").default("Balanced"),
+  routingProvider: text("routing_provider").default("Server default"),
+  routingUrl: text("routing_url"), // base URL of a self-hosted routing server
   userId: integer("user_id").references(() => users.id),
 });
 
@@ -60,29 +133,228 @@ export const insertRouteSettingsSchema = createInsertSchema(routeSettings).pick(
   minimizeLeftTurns: true,
   startingPoint: true,
   returnToStart: true,
+  startDepotId: true,
+  endDepotId: true,
+  reloadDepotId: true,
+  reloadAfterStops: true,
   offlineMode: true,
   trafficDataProvider: true,
+  priorityWeighting: true,
+  routingProvider: true,
+  routingUrl: true,
+  userId: true,
+});
+
+// One of an enum's values; the enums are declared further down, so they're only
+// read when a value is checked
+function enumValue(values: () => Record<string, string>, label: string) {
+  return z.string().refine(value => Object.values(values()).includes(value), { message: `Invalid ${label}` });
+}
+
+// Fields a settings change may send; anything else is refused. Depots are
+// checked against the user's own by the route.
+export const updateRouteSettingsSchema = createInsertSchema(routeSettings).omit({
+  id: true,
+  userId: true,
+}).extend({
+  reloadAfterStops: z.number().int().positive().nullable(),
+  offlineMapsLastUpdated: z.coerce.date().nullable(), // sent as an ISO string
+  trafficDataProvider: enumValue(() => TrafficDataProvider, "traffic data provider"),
+  priorityWeighting: enumValue(() => PriorityWeighting, "priority weighting"),
+  routingProvider: enumValue(() => RoutingProviderType, "routing provider"),
+  routingUrl: z.string().url().nullable(),
+}).partial().strict();
+
+export const vehicles = pgTable("vehicles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  driverName: text("driver_name"),
+  capacity: integer("capacity"), // maximum number of stops, unlimited when empty
+  shiftStart: text("shift_start"), // "HH:MM"
+  shiftEnd: text("shift_end"), // "HH:MM"
+  depot: text("depot"), // "lat, lng" where the vehicle starts its route
+  userId: integer("user_id").references(() => users.id),
+});
+
+// "HH:MM", 24-hour clock
+const timeOfDay = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+export const insertVehicleSchema = createInsertSchema(vehicles).pick({
+  name: true,
+  driverName: true,
+  capacity: true,
+  shiftStart: true,
+  shiftEnd: true,
+  depot: true,
   userId: true,
+}).extend({
+  name: z.string().trim().min(1, "Vehicle name is required"),
+  capacity: z.number().int().positive().nullable().optional(),
+  shiftStart: blankAsNull(timeOfDay),
+  shiftEnd: blankAsNull(timeOfDay),
 });
 
+export const updateVehicleSchema = insertVehicleSchema.pick({
+  name: true,
+  driverName: true,
+  capacity: true,
+  shiftStart: true,
+  shiftEnd: true,
+  depot: true,
+}).partial();
+
 export const routes = pgTable("routes", {
   id: serial("id").primaryKey(),
   totalDistance: text("total_distance"),
   totalTime: text("total_time"),
   fuelUsed: text("fuel_used"),
+  geometry: jsonb("geometry").$type<[number, number][]>(), // driven polyline as [lng, lat] pairs
+  preferences: jsonb("preferences").$type<string[]>(), // route settings the routing engine honored
   userId: integer("user_id").references(() => users.id),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
   completed: boolean("completed").default(false),
   createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
 });
 
 export const insertRouteSchema = createInsertSchema(routes).pick({
   totalDistance: true,
   totalTime: true,
   fuelUsed: true,
+  geometry: true,
+  preferences: true,
   userId: true,
+  vehicleId: true,
   completed: true,
+}).extend({
+  geometry: z.array(z.tuple([z.number(), z.number()])).nullable().optional(),
+  preferences: z.array(z.string()).nullable().optional(),
+});
+
+// Fields a route edit may change; completing a route goes through the complete endpoint
+export const updateRouteSchema = insertRouteSchema.pick({
+  totalDistance: true,
+  totalTime: true,
+  fuelUsed: true,
+  geometry: true,
+  preferences: true,
+}).partial();
+
+// Frozen copy of a route's stops, taken when the route is completed
+export const routeStops = pgTable("route_stops", {
+  id: serial("id").primaryKey(),
+  routeId: integer("route_id").notNull().references(() => routes.id, { onDelete: "cascade" }),
+  addressId: integer("address_id").references(() => addresses.id, { onDelete: "set null" }),
+  sequence: integer("sequence").notNull(),
+  fullAddress: text("full_address").notNull(),
+  latitude: text("latitude"),
+  longitude: text("longitude"),
+  timeWindow: text("time_window"),
+  exactDeliveryTime: text("exact_delivery_time"),
+  serviceTime: integer("service_time"),
+  priority: text("priority"),
+  specialInstructions: text("special_instructions"),
+  customerPhone: text("customer_phone"),
+  customerEmail: text("customer_email"),
+  status: text("status").notNull(),
+  deliveredAt: timestamp("delivered_at"),
+  failureReason: text("failure_reason"),
+  notes: text("notes"),
+  attemptCount: integer("attempt_count"),
+  recipientName: text("recipient_name"),
+  proofPhoto: text("proof_photo"),
+  proofSignature: text("proof_signature"),
+});
+
+export const insertRouteStopSchema = createInsertSchema(routeStops).omit({
+  id: true,
+});
+
+// Geocoder results keyed by geocoder and normalized address text, shared by all users.
+// Lookups that found nothing are cached too, with empty coordinates.
+export const geocodeCache = pgTable("geocode_cache", {
+  id: serial("id").primaryKey(),
+  query: text("query").notNull().unique(),
+  latitude: text("latitude"),
+  longitude: text("longitude"),
+  label: text("label"), // display name returned by the geocoder
+  candidates: jsonb("candidates").$type<GeocodeCandidate[]>(),
+  provider: text("provider").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertGeocodeCacheSchema = createInsertSchema(geocodeCache).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  candidates: z.custom<GeocodeCandidate[]>().nullable().optional(),
 });
 
+// Historical traffic: the average delay ratio observed in an area (a ~10 km grid
+// cell) at each hour of weekdays and weekends, learned from live traffic feeds
+export const trafficProfiles = pgTable("traffic_profiles", {
+  id: serial("id").primaryKey(),
+  region: text("region").notNull(),
+  weekend: boolean("weekend").notNull(),
+  hour: integer("hour").notNull(),
+  delayRatio: doublePrecision("delay_ratio").notNull(),
+  samples: integer("samples").notNull().default(1),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  slot: unique().on(table.region, table.weekend, table.hour),
+}));
+
+// Messages sent to customers about their delivery, one row per message and channel
+export const customerNotifications = pgTable("customer_notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  addressId: integer("address_id").notNull().references(() => addresses.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // a NotificationKind
+  channel: text("channel").notNull(), // a NotificationChannel
+  recipient: text("recipient").notNull(),
+  message: text("message").notNull(),
+  status: text("status").notNull(), // a NotificationStatus
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCustomerNotificationSchema = createInsertSchema(customerNotifications).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Hazards reported by drivers at their location, shared with every driver until they expire
+export const communityReports = pgTable("community_reports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  kind: text("kind").notNull(), // a ReportKind
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  note: text("note"),
+  confirmations: integer("confirmations").notNull().default(0),
+  dismissals: integer("dismissals").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCommunityReportSchema = createInsertSchema(communityReports).pick({
+  kind: true,
+  latitude: true,
+  longitude: true,
+  note: true,
+});
+
+// Each driver's say on a report, so nobody confirms the same hazard twice
+export const communityReportVotes = pgTable("community_report_votes", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").notNull().references(() => communityReports.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  vote: text("vote").notNull(), // a ReportVote
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  voter: unique().on(table.reportId, table.userId),
+}));
+
 // Types based on schema
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -90,12 +362,34 @@ export type User = typeof users.$inferSelect;
 export type InsertAddress = z.infer<typeof insertAddressSchema>;
 export type Address = typeof addresses.$inferSelect;
 
+export type InsertDepot = z.infer<typeof insertDepotSchema>;
+export type Depot = typeof depots.$inferSelect;
+
 export type InsertRouteSettings = z.infer<typeof insertRouteSettingsSchema>;
 export type RouteSettings = typeof routeSettings.$inferSelect;
 
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+export type Vehicle = typeof vehicles.$inferSelect;
+
 export type InsertRoute = z.infer<typeof insertRouteSchema>;
 export type Route = typeof routes.$inferSelect;
 
+export type InsertRouteStop = z.infer<typeof insertRouteStopSchema>;
+export type RouteStop = typeof routeStops.$inferSelect;
+
+export type InsertGeocodeCacheEntry = z.infer<typeof insertGeocodeCacheSchema>;
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+
+export type TrafficProfileEntry = typeof trafficProfiles.$inferSelect;
+
+export type InsertCustomerNotification = z.infer<typeof insertCustomerNotificationSchema>;
+export type CustomerNotification = typeof customerNotifications.$inferSelect;
+
+export type InsertCommunityReport = z.infer<typeof insertCommunityReportSchema>;
+export type CommunityReport = typeof communityReports.$inferSelect;
+
+export type CommunityReportVote = typeof communityReportVotes.$inferSelect;
+
 // Custom types for application
 
 export enum DeliveryStatus {
@@ -105,6 +399,59 @@ export enum DeliveryStatus {
   ATTEMPTED = "Attempted",
 }
 
+// Why a delivery attempt failed; decides whether it's retried (see shared/reattempt.ts)
+export enum FailureReason {
+  NO_ONE_HOME = "No one home",
+  ACCESS_DENIED = "Access denied",
+  WRONG_ADDRESS = "Wrong address",
+  REFUSED = "Refused",
+  DAMAGED = "Damaged",
+}
+
+// Customer messages along a route; each is sent at most once per stop
+export enum NotificationKind {
+  OUT_FOR_DELIVERY = "Out for delivery",
+  NEXT = "Next stop",
+  DELIVERED = "Delivered",
+}
+
+export enum NotificationChannel {
+  SMS = "SMS",
+  EMAIL = "Email",
+}
+
+export enum NotificationStatus {
+  SENT = "Sent",
+  FAILED = "Failed",
+}
+
+// Hazards drivers can report; how long each lasts is in shared/community.ts
+export enum ReportKind {
+  CLOSURE = "Road closure",
+  CONSTRUCTION = "Construction",
+  ACCIDENT = "Accident",
+  ACCESS = "Hard to access",
+}
+
+export enum ReportVote {
+  CONFIRM = "Confirm",
+  DISMISS = "Dismiss",
+}
+
+export enum DepotKind {
+  WAREHOUSE = "Warehouse",
+  HOME = "Home",
+  HUB = "Hub",
+  OTHER = "Other",
+}
+
+export enum GeocodeStatus {
+  PENDING = "Pending", // waiting for the geocoder, e.g. after a bulk import
+  EXACT = "Exact",
+  APPROXIMATE = "Approximate",
+  FAILED = "Failed",
+}
+
 export enum TimeWindow {
   ANY = "Any time",
   MORNING = "Morning (8AM-12PM)",
@@ -118,6 +465,32 @@ export enum Priority {
   LOW = "Low",
 }
 
+export enum PriorityWeighting {
+  OFF = "Off",
+  BALANCED = "Balanced",
+  STRONG = "Strong",
+}
+
+export enum FleetBalance {
+  STOPS = "Stop count",
+  DRIVE_TIME = "Drive time",
+}
+
+export enum RoutingProviderType {
+  SERVER_DEFAULT = "Server default",
+  OSRM = "OSRM",
+  OPENROUTESERVICE = "OpenRouteService",
+  VALHALLA = "Valhalla",
+  SELF_HOSTED = "Self-hosted OSRM",
+  MOCK = "Mock",
+}
+
+export enum GeocodingProviderType {
+  NOMINATIM = "Nominatim",
+  OPENROUTESERVICE = "OpenRouteService",
+  MOCK = "Mock",
+}
+
 export enum TrafficDataProvider {
   OPENDATA = "OpenData",
   TOMTOM = "TomTom",
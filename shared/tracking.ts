@@ -0,0 +1,122 @@
+import { LatLng, haversineDistance } from "./optimizer";
+
+// Live driver tracking over a WebSocket. Drivers on the navigation page send
+// their position; dispatchers subscribe and get every driver of the account.
+
+export const TRACKING_PATH = "/ws/tracking";
+
+// Breadcrumb points kept per driver, oldest dropped first
+export const MAX_TRAIL_POINTS = 500;
+
+export interface TrackedStop {
+  id: number;
+  fullAddress: string;
+}
+
+export interface DriverPosition extends LatLng {
+  accuracy?: number | null; // meters
+  heading?: number | null; // degrees clockwise from north
+  speed?: number | null; // meters per second
+  timestamp: number; // epoch milliseconds
+}
+
+export interface DriverState {
+  driverId: string;
+  routeId: number | null;
+  vehicleName: string | null;
+  driverName: string | null;
+  position: DriverPosition;
+  trail: [number, number][]; // [lat, lng], oldest first
+  currentStop: TrackedStop | null;
+  completed: number;
+  total: number;
+  online: boolean;
+  simulated: boolean;
+}
+
+// Driver -> server
+export interface PositionMessage {
+  type: "position";
+  routeId: number | null;
+  position: DriverPosition;
+  currentStop: TrackedStop | null;
+  completed: number;
+  total: number;
+  simulated?: boolean;
+}
+
+// Dispatcher -> server
+export interface SubscribeMessage {
+  type: "subscribe";
+}
+
+export type TrackingClientMessage = PositionMessage | SubscribeMessage;
+
+// Server -> dispatcher
+export type TrackingServerMessage =
+  | { type: "snapshot"; drivers: DriverState[] }
+  | { type: "driver"; driver: DriverState };
+
+export function isValidPosition(position: Partial<DriverPosition> | undefined): position is DriverPosition {
+  return !!position &&
+    typeof position.lat === "number" && typeof position.lng === "number" &&
+    Number.isFinite(position.lat) && Number.isFinite(position.lng) &&
+    Math.abs(position.lat) <= 90 && Math.abs(position.lng) <= 180 &&
+    typeof position.timestamp === "number";
+}
+
+const METERS_PER_MILE = 1609.344;
+
+// Compass bearing from one point to the next, in degrees clockwise from north
+function bearing(from: LatLng, to: LatLng): number {
+  const lat1 = from.lat * Math.PI / 180;
+  const lat2 = to.lat * Math.PI / 180;
+  const dLng = (to.lng - from.lng) * Math.PI / 180;
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+// Simulated GPS feed for testing without driving: a vehicle moving along `path`
+// at a steady speed. Returns where it is `elapsedSeconds` after starting, and
+// stops at the last point.
+export function simulatePosition(
+  path: LatLng[],
+  elapsedSeconds: number,
+  speedMps = 12,
+  startedAt = Date.now() - elapsedSeconds * 1000
+): { position: DriverPosition; finished: boolean } {
+  const timestamp = startedAt + elapsedSeconds * 1000;
+  if (path.length === 0) {
+    throw new Error("Cannot simulate a position without a path");
+  }
+
+  let remaining = Math.max(0, elapsedSeconds) * speedMps;
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+    const length = haversineDistance(from, to) * METERS_PER_MILE;
+
+    if (remaining <= length && length > 0) {
+      const fraction = remaining / length;
+      return {
+        position: {
+          lat: from.lat + (to.lat - from.lat) * fraction,
+          lng: from.lng + (to.lng - from.lng) * fraction,
+          heading: bearing(from, to),
+          speed: speedMps,
+          accuracy: 5,
+          timestamp,
+        },
+        finished: false,
+      };
+    }
+    remaining -= length;
+  }
+
+  const last = path[path.length - 1];
+  return {
+    position: { lat: last.lat, lng: last.lng, heading: null, speed: 0, accuracy: 5, timestamp },
+    finished: true,
+  };
+}
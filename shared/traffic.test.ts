@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { TrafficDataProvider } from "./schema";
+import {
+  DEFAULT_TRAFFIC_PROFILE,
+  clampDelayRatio,
+  parseHereFlow,
+  TrafficFixture,
+  parseTomTomFlow,
+  profileDelayRatio,
+  trafficCondition,
+} from "./traffic";
+
+describe("profileDelayRatio", () => {
+  it("reads the hour the leg starts in, on weekdays and weekends", () => {
+    // Monday and Saturday, local time
+    assert.equal(profileDelayRatio(DEFAULT_TRAFFIC_PROFILE, new Date(2026, 9, 19, 8, 30)), 1.55);
+    assert.equal(profileDelayRatio(DEFAULT_TRAFFIC_PROFILE, new Date(2026, 9, 24, 8, 30)), 1.05);
+    assert.equal(profileDelayRatio(DEFAULT_TRAFFIC_PROFILE, new Date(2026, 9, 19, 3, 0)), 1);
+  });
+});
+
+describe("live flow parsers", () => {
+  it("takes TomTom's travel times, then its speeds", () => {
+    assert.equal(parseTomTomFlow({ flowSegmentData: { currentTravelTime: 90, freeFlowTravelTime: 60 } }), 1.5);
+    assert.equal(parseTomTomFlow({ flowSegmentData: { currentSpeed: 25, freeFlowSpeed: 50 } }), 2);
+    assert.equal(parseTomTomFlow({ flowSegmentData: { currentSpeed: 0, freeFlowSpeed: 50 } }), null);
+    assert.equal(parseTomTomFlow({}), null);
+  });
+
+  it("treats a closed road as the slowest traffic", () => {
+    assert.equal(parseTomTomFlow({ flowSegmentData: { roadClosure: true, currentTravelTime: 60, freeFlowTravelTime: 60 } }), 4);
+  });
+
+  it("averages HERE's nearby roads", () => {
+    const data = {
+      results: [
+        { currentFlow: { speed: 20, freeFlow: 40 } },
+        { currentFlow: { speed: 40, freeFlow: 40 } },
+        { currentFlow: { speed: 0, freeFlow: 40 } },
+      ],
+    };
+
+    assert.equal(parseHereFlow(data), 1.5);
+    assert.equal(parseHereFlow({ results: [] }), null);
+  });
+
+  it("reads the responses recorded from each provider", () => {
+    const fixtures: TrafficFixture[] = JSON.parse(readFileSync("server/fixtures/traffic.json", "utf8"));
+    const recorded = (provider: string) => fixtures.find(fixture => fixture.provider === provider)?.response;
+
+    // 167 s instead of 60 s on the segment
+    assert.equal(parseTomTomFlow(recorded(TrafficDataProvider.TOMTOM)), 167 / 60);
+    // Two roads, at 6.1 and 8.3 m/s instead of 13.9 and 11.1
+    assert.equal(parseHereFlow(recorded(TrafficDataProvider.HERE)), (13.9 / 6.1 + 11.1 / 8.3) / 2);
+  });
+
+  it("keeps ratios between free flow and four times as slow", () => {
+    assert.equal(clampDelayRatio(0.8), 1);
+    assert.equal(clampDelayRatio(9), 4);
+    assert.equal(parseTomTomFlow({ flowSegmentData: { currentTravelTime: 50, freeFlowTravelTime: 60 } }), 1);
+  });
+});
+
+describe("trafficCondition", () => {
+  it("labels delay ratios", () => {
+    assert.equal(trafficCondition(1.1), "Light traffic");
+    assert.equal(trafficCondition(1.15), "Moderate traffic");
+    assert.equal(trafficCondition(1.4), "Heavy traffic");
+  });
+});
@@ -0,0 +1,240 @@
+import { LatLng, haversineDistance } from "./optimizer";
+import { TrafficDataProvider } from "./schema";
+
+// Traffic behind a common interface. Delays are expressed as a delay ratio:
+// travel time in traffic over free-flow travel time (1 = empty roads, 2 = twice
+// as long). Ratios come from time-of-day speed profiles (historical averages)
+// and, for TomTom and HERE, from the provider's live flow feed.
+
+export const DEFAULT_TOMTOM_TRAFFIC_URL = "https://api.tomtom.com";
+export const DEFAULT_HERE_TRAFFIC_URL = "https://data.traffic.hereapi.com";
+
+// Ratios outside this range are treated as bad data
+const MIN_DELAY_RATIO = 1;
+const MAX_DELAY_RATIO = 4;
+
+export function clampDelayRatio(ratio: number): number {
+  return Math.min(MAX_DELAY_RATIO, Math.max(MIN_DELAY_RATIO, ratio));
+}
+
+// Hourly delay ratios, 24 entries from midnight
+export interface TrafficProfile {
+  weekday: number[];
+  weekend: number[];
+}
+
+// Typical urban traffic when nothing has been recorded for an area yet:
+// morning and evening rush hours on weekdays, a milder midday peak on weekends
+export const DEFAULT_TRAFFIC_PROFILE: TrafficProfile = {
+  weekday: [
+    1.0, 1.0, 1.0, 1.0, 1.0, 1.05, 1.15, 1.45, 1.55, 1.3, 1.15, 1.15,
+    1.2, 1.15, 1.15, 1.25, 1.45, 1.6, 1.4, 1.2, 1.1, 1.05, 1.0, 1.0,
+  ],
+  weekend: [
+    1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.05, 1.05, 1.1, 1.15, 1.2,
+    1.25, 1.25, 1.2, 1.2, 1.15, 1.15, 1.1, 1.05, 1.05, 1.0, 1.0, 1.0,
+  ],
+};
+
+export function isWeekend(date: Date): boolean {
+  return date.getDay() === 0 || date.getDay() === 6;
+}
+
+export function profileDelayRatio(profile: TrafficProfile, date: Date): number {
+  const hours = isWeekend(date) ? profile.weekend : profile.weekday;
+  return hours[date.getHours()] ?? 1;
+}
+
+// Profiles are kept per area: a grid cell of about 10 km
+export function trafficRegion(point: LatLng): string {
+  return `${point.lat.toFixed(1)},${point.lng.toFixed(1)}`;
+}
+
+export type TrafficCondition = "Light traffic" | "Moderate traffic" | "Heavy traffic";
+
+// Traffic label for a delay ratio: up to 15% slower than free flow is light,
+// up to 40% moderate, anything more heavy
+export function trafficCondition(delayRatio: number): TrafficCondition {
+  if (delayRatio < 1.15) return "Light traffic";
+  if (delayRatio < 1.4) return "Moderate traffic";
+  return "Heavy traffic";
+}
+
+export interface TrafficFeed {
+  readonly name: string;
+  // Current delay ratio on the road nearest the point, null when the feed has no data there
+  delayRatio(point: LatLng): Promise<number | null>;
+}
+
+export interface TrafficFeedOptions {
+  url?: string | null;
+  apiKey?: string | null;
+  fetch?: typeof fetch;
+  // Recorded responses to replay instead of calling the provider
+  fixtures?: TrafficFixture[] | null;
+}
+
+// A provider response recorded at a point, replayed by FixtureTrafficFeed
+export interface TrafficFixture {
+  provider: string;
+  lat: number;
+  lng: number;
+  response: unknown;
+}
+
+// The parts of the providers' responses the parsers read; anything may be missing
+interface TomTomFlowResponse {
+  flowSegmentData?: {
+    currentSpeed?: number;
+    freeFlowSpeed?: number;
+    currentTravelTime?: number;
+    freeFlowTravelTime?: number;
+    roadClosure?: boolean;
+  };
+}
+
+interface HereFlowResponse {
+  results?: { currentFlow?: { speed?: number; freeFlow?: number } }[];
+}
+
+// TomTom Flow Segment Data: current and free-flow travel time of the road segment
+export function parseTomTomFlow(data: unknown): number | null {
+  const flow = (data as TomTomFlowResponse | null)?.flowSegmentData;
+  if (!flow) return null;
+  // A closed road is as slow as it gets; the router doesn't know it's closed
+  if (flow.roadClosure) return MAX_DELAY_RATIO;
+
+  const { currentTravelTime = 0, freeFlowTravelTime = 0, currentSpeed = 0, freeFlowSpeed = 0 } = flow;
+  if (currentTravelTime > 0 && freeFlowTravelTime > 0) {
+    return clampDelayRatio(currentTravelTime / freeFlowTravelTime);
+  }
+  if (currentSpeed > 0 && freeFlowSpeed > 0) {
+    return clampDelayRatio(freeFlowSpeed / currentSpeed);
+  }
+  return null;
+}
+
+// HERE Traffic API v7 flow: current and free-flow speed of each nearby road, averaged
+export function parseHereFlow(data: unknown): number | null {
+  const ratios = ((data as HereFlowResponse | null)?.results ?? [])
+    .map(result => ({ speed: result.currentFlow?.speed ?? 0, freeFlow: result.currentFlow?.freeFlow ?? 0 }))
+    .filter(flow => flow.speed > 0 && flow.freeFlow > 0)
+    .map(flow => clampDelayRatio(flow.freeFlow / flow.speed));
+
+  if (ratios.length === 0) return null;
+  return ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+}
+
+const FLOW_PARSERS: Record<string, (data: unknown) => number | null> = {
+  [TrafficDataProvider.TOMTOM]: parseTomTomFlow,
+  [TrafficDataProvider.HERE]: parseHereFlow,
+};
+
+async function requestFlow(fetchImpl: typeof fetch, url: string): Promise<unknown> {
+  const response = await fetchImpl(url);
+  if (!response.ok) {
+    throw new Error(`Traffic request failed with ${response.status}`);
+  }
+  return response.json();
+}
+
+// TomTom Traffic Flow API (needs an API key)
+export class TomTomTrafficFeed implements TrafficFeed {
+  readonly name = TrafficDataProvider.TOMTOM;
+  private baseUrl: string;
+  private apiKey: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: TrafficFeedOptions = {}) {
+    if (!options.apiKey) {
+      throw new Error("TomTom traffic needs an API key");
+    }
+    this.baseUrl = (options.url || DEFAULT_TOMTOM_TRAFFIC_URL).replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  async delayRatio(point: LatLng): Promise<number | null> {
+    const params = new URLSearchParams({ point: `${point.lat},${point.lng}`, unit: "KMPH", key: this.apiKey });
+    return parseTomTomFlow(await requestFlow(
+      this.fetchImpl,
+      `${this.baseUrl}/traffic/services/4/flowSegmentData/absolute/10/json?${params.toString()}`
+    ));
+  }
+}
+
+// HERE Traffic API v7 (needs an API key)
+export class HereTrafficFeed implements TrafficFeed {
+  readonly name = TrafficDataProvider.HERE;
+  private baseUrl: string;
+  private apiKey: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: TrafficFeedOptions = {}) {
+    if (!options.apiKey) {
+      throw new Error("HERE traffic needs an API key");
+    }
+    this.baseUrl = (options.url || DEFAULT_HERE_TRAFFIC_URL).replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  async delayRatio(point: LatLng): Promise<number | null> {
+    const params = new URLSearchParams({
+      in: `circle:${point.lat},${point.lng};r=150`,
+      locationReferencing: "none",
+      apiKey: this.apiKey,
+    });
+    return parseHereFlow(await requestFlow(this.fetchImpl, `${this.baseUrl}/v7/flow?${params.toString()}`));
+  }
+}
+
+// Fixtures further than this from the requested point don't apply
+const FIXTURE_RADIUS_MILES = 5;
+
+// Replays recorded provider responses, parsed like the live ones: each point
+// gets the response recorded nearest to it
+export class FixtureTrafficFeed implements TrafficFeed {
+  readonly name: string;
+  private fixtures: TrafficFixture[];
+  private parse: (data: unknown) => number | null;
+
+  constructor(provider: string, fixtures: TrafficFixture[]) {
+    const parse = FLOW_PARSERS[provider];
+    if (!parse) {
+      throw new Error(`${provider} has no traffic feed to replay`);
+    }
+    this.name = `${provider} (recorded)`;
+    this.fixtures = fixtures.filter(fixture => fixture.provider === provider);
+    this.parse = parse;
+  }
+
+  async delayRatio(point: LatLng): Promise<number | null> {
+    let nearest: TrafficFixture | undefined;
+    let nearestDistance = FIXTURE_RADIUS_MILES;
+    for (const fixture of this.fixtures) {
+      const distance = haversineDistance(point, fixture);
+      if (distance <= nearestDistance) {
+        nearest = fixture;
+        nearestDistance = distance;
+      }
+    }
+    return nearest ? this.parse(nearest.response) : null;
+  }
+}
+
+// Live feed for the traffic data provider setting; OpenData and Community
+// Updates have none and rely on the speed profiles
+export function createTrafficFeed(type: string | null | undefined, options: TrafficFeedOptions = {}): TrafficFeed | null {
+  if (!type || !FLOW_PARSERS[type]) return null;
+  if (options.fixtures) return new FixtureTrafficFeed(type, options.fixtures);
+
+  switch (type) {
+    case TrafficDataProvider.TOMTOM:
+      return new TomTomTrafficFeed(options);
+    case TrafficDataProvider.HERE:
+      return new HereTrafficFeed(options);
+    default:
+      return null;
+  }
+}